@@ -69,11 +69,7 @@ const createTestTranscript = async () => {
 
   // Parse transcript and calculate metadata (like the upload API does)
   const parsed = parseJSONL(comprehensiveTranscriptJSONL, "claude-code");
-  const metadata = calculateTranscriptMetadata(
-    parsed,
-    comprehensiveTranscriptJSONL,
-    "claude-code",
-  );
+  const metadata = calculateTranscriptMetadata(parsed, "claude-code");
 
   // Create the comprehensive test transcript WITH metadata
   const transcript = await prisma.transcript.create({
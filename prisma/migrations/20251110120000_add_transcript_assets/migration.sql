@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "TranscriptAsset" (
+    "id" TEXT NOT NULL,
+    "transcriptId" TEXT NOT NULL,
+    "hash" TEXT NOT NULL,
+    "mediaType" TEXT NOT NULL,
+    "data" BYTEA NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TranscriptAsset_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TranscriptAsset_transcriptId_hash_key" ON "TranscriptAsset"("transcriptId", "hash");
+
+-- AddForeignKey
+ALTER TABLE "TranscriptAsset" ADD CONSTRAINT "TranscriptAsset_transcriptId_fkey" FOREIGN KEY ("transcriptId") REFERENCES "Transcript"("id") ON DELETE CASCADE ON UPDATE CASCADE;
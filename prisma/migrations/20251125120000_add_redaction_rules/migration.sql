@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "RedactionRule" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "pattern" TEXT NOT NULL,
+    "isRegex" BOOLEAN NOT NULL DEFAULT false,
+    "label" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RedactionRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RedactionRule_userId_idx" ON "RedactionRule"("userId");
+
+-- AddForeignKey
+ALTER TABLE "RedactionRule" ADD CONSTRAINT "RedactionRule_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
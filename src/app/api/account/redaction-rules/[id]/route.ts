@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { checkCsrf } from "@/lib/csrf";
+import { log } from "@/lib/logger";
+import { prisma } from "@/lib/prisma";
+
+/**
+ * Delete one of the authenticated user's redaction rules
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    // Check CSRF token
+    const csrfError = await checkCsrf(request);
+    if (csrfError) return csrfError;
+
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    // Scoped to the user, so other users' rules are simply not found
+    const { count } = await prisma.redactionRule.deleteMany({
+      where: {
+        id,
+        userId: session.user.id,
+      },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Rule not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    log.error("Delete redaction rule error", {
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,125 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { checkCsrf } from "@/lib/csrf";
+import { log } from "@/lib/logger";
+import { prisma } from "@/lib/prisma";
+import { checkEditRateLimit } from "@/lib/rate-limit";
+import { MAX_REDACTION_RULES, parseRedactionRule } from "@/lib/redaction-rules";
+
+const RULE_SELECT = {
+  id: true,
+  pattern: true,
+  isRegex: true,
+  label: true,
+  createdAt: true,
+};
+
+/**
+ * List the authenticated user's redaction rules
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const rules = await prisma.redactionRule.findMany({
+      where: { userId: session.user.id },
+      select: RULE_SELECT,
+      orderBy: { createdAt: "asc" },
+    });
+
+    return NextResponse.json(rules);
+  } catch (error) {
+    log.error("Fetch redaction rules error", {
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Add a redaction rule, applied to every transcript the user uploads
+ * Body: { pattern: string, isRegex?: boolean, label: string }
+ */
+export async function POST(request: Request) {
+  try {
+    // Check CSRF token
+    const csrfError = await checkCsrf(request);
+    if (csrfError) return csrfError;
+
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Rule changes count toward the same limit as title edits
+    const rateLimitResult = await checkEditRateLimit(session.user.id);
+    if (!rateLimitResult.success) {
+      const statusCode = rateLimitResult.error ? 503 : 429;
+      const errorMessage = rateLimitResult.error
+        ? rateLimitResult.error
+        : "Rate limit exceeded";
+      const userMessage = rateLimitResult.error
+        ? "Rate limit service is temporarily unavailable. Please try again later."
+        : "Too many requests. Please try again later.";
+
+      return NextResponse.json(
+        {
+          error: errorMessage,
+          message: userMessage,
+        },
+        {
+          status: statusCode,
+          headers: {
+            "X-RateLimit-Limit": String(rateLimitResult.limit || 50),
+            "X-RateLimit-Remaining": "0",
+          },
+        },
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = parseRedactionRule(body);
+    if ("error" in parsed) {
+      return NextResponse.json(
+        { error: "Invalid rule", message: parsed.error },
+        { status: 400 },
+      );
+    }
+
+    const ruleCount = await prisma.redactionRule.count({
+      where: { userId: session.user.id },
+    });
+    if (ruleCount >= MAX_REDACTION_RULES) {
+      return NextResponse.json(
+        {
+          error: "Too many rules",
+          message: `You can have up to ${MAX_REDACTION_RULES} redaction rules.`,
+        },
+        { status: 400 },
+      );
+    }
+
+    const rule = await prisma.redactionRule.create({
+      data: { ...parsed.rule, userId: session.user.id },
+      select: RULE_SELECT,
+    });
+
+    return NextResponse.json(rule, { status: 201 });
+  } catch (error) {
+    log.error("Create redaction rule error", {
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,150 @@
+import { NextResponse } from "next/server";
+import { verifyCliToken } from "@/lib/jwt";
+import { log } from "@/lib/logger";
+import {
+  discardStagedUpload,
+  getStagedUpload,
+  publishStagedUpload,
+} from "@/lib/staged-uploads";
+import { parseReviewDecisions } from "@/lib/upload-review";
+
+/**
+ * User id of the Bearer token, or the 401 response to return
+ */
+async function authenticate(
+  request: Request,
+): Promise<{ userId: string } | { response: NextResponse }> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    return {
+      response: NextResponse.json(
+        { error: "Missing or invalid Authorization header" },
+        { status: 401 },
+      ),
+    };
+  }
+
+  try {
+    const { userId } = await verifyCliToken(authHeader.substring(7));
+    return { userId };
+  } catch (error) {
+    return {
+      response: NextResponse.json(
+        {
+          error: "Invalid or expired token",
+          message:
+            error instanceof Error
+              ? error.message
+              : "Token verification failed",
+        },
+        { status: 401 },
+      ),
+    };
+  }
+}
+
+/**
+ * Second half of the CLI --review handshake: publish a staged upload
+ * Requires Bearer token authentication
+ * Body: { keep?: string[] (finding ids to publish as-is),
+ *         redactions?: string[] (extra text to redact) }
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const authResult = await authenticate(request);
+    if ("response" in authResult) return authResult.response;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        {
+          error: "Invalid JSON",
+          message:
+            "Request body must be valid JSON. Please check your request format.",
+        },
+        { status: 400 },
+      );
+    }
+
+    const decisions = parseReviewDecisions(body);
+    if (!decisions) {
+      return NextResponse.json(
+        {
+          error: "Invalid review decisions",
+          message:
+            "'keep' must be an array of finding ids and 'redactions' an array of 3-1000 character strings",
+        },
+        { status: 400 },
+      );
+    }
+
+    const { id } = await params;
+    const staged = await getStagedUpload(id, authResult.userId);
+    if (!staged) {
+      return NextResponse.json(
+        {
+          error: "Upload not found",
+          message: "This upload has expired or was already published.",
+        },
+        { status: 404 },
+      );
+    }
+
+    const result = await publishStagedUpload(staged, decisions);
+    if ("response" in result) return result.response;
+    const transcript = result.published;
+
+    log.info("Staged upload published", {
+      transcriptId: transcript.id,
+      keptFindings: decisions.keep.length,
+      customRedactions: decisions.redactions.length,
+    });
+
+    return NextResponse.json({
+      ...transcript,
+      url: `${process.env.NEXTAUTH_URL || "https://aisessions.dev"}/t/${transcript.secretToken}`,
+    });
+  } catch (error) {
+    log.error("CLI publish staged upload error", {
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Cancel a CLI --review upload
+ * Requires Bearer token authentication
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const authResult = await authenticate(request);
+    if ("response" in authResult) return authResult.response;
+
+    const { id } = await params;
+    if (!(await discardStagedUpload(id, authResult.userId))) {
+      return NextResponse.json({ error: "Upload not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    log.error("CLI discard staged upload error", {
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
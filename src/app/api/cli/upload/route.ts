@@ -1,23 +1,22 @@
-import { nanoid } from "nanoid";
 import { NextResponse } from "next/server";
-import { formatDlpFindings, scanForSensitiveData } from "@/lib/dlp";
 import { verifyCliToken } from "@/lib/jwt";
 import { log } from "@/lib/logger";
-import {
-  calculateTranscriptMetadata,
-  generateDefaultTitle,
-  isUuidOrSessionId,
-  parseJSONL,
-} from "@/lib/parser";
-import { prisma } from "@/lib/prisma";
-import { detectProvider } from "@/lib/providers";
 import { checkUploadRateLimit } from "@/lib/rate-limit";
-import type { TranscriptMetadata } from "@/types/transcript";
+import { combineSessionFiles, type SessionFile } from "@/lib/session-files";
+import { processUpload } from "@/lib/upload-pipeline";
 
 /**
  * CLI upload endpoint
  * Requires Bearer token authentication
- * Accepts JSON with fileData and optional title
+ * Accepts JSON with fileData (or files, for a session spread across several
+ * files) and optional title
+ * An optional ?source= query parameter forces the transcript provider
+ * With ?review=true (the CLI's --review), sensitive data findings are returned
+ * for review (202, with publishUrl) instead of being scrubbed or rejected; the
+ * CLI then POSTs its decisions to publishUrl, or DELETEs it to cancel
+ * Home directories, username and hostname are anonymized unless
+ * ?anonymize=false is set; the user's redaction rules are then applied before
+ * DLP, with the matches of each rule reported in redactionRules
  */
 export async function POST(request: Request) {
   try {
@@ -90,7 +89,7 @@ export async function POST(request: Request) {
     }
 
     // Parse request body with explicit error handling
-    let body: { fileData?: unknown; title?: string };
+    let body: { fileData?: unknown; files?: unknown; title?: string };
     try {
       body = await request.json();
     } catch (jsonError) {
@@ -109,133 +108,103 @@ export async function POST(request: Request) {
       );
     }
 
-    const { fileData: originalFileData, title } = body;
-
-    if (!originalFileData || typeof originalFileData !== "string") {
-      return NextResponse.json(
-        {
-          error: "Invalid request body",
-          message: "Request must include 'fileData' as a string",
-        },
-        { status: 400 },
-      );
-    }
-
-    // Check file size limit (5MB)
-    const fileSizeBytes = Buffer.byteLength(originalFileData, "utf8");
-    const maxSizeBytes = 5 * 1024 * 1024; // 5MB
-
-    if (fileSizeBytes > maxSizeBytes) {
-      return NextResponse.json(
-        {
-          error: "File too large",
-          message: `File size ${(fileSizeBytes / 1024 / 1024).toFixed(2)}MB exceeds the 5MB limit.`,
-        },
-        { status: 400 },
-      );
-    }
-
-    // Auto-detect transcript format
-    let detectedSource = "cli"; // Default fallback for CLI uploads
-    try {
-      const detection = detectProvider(originalFileData);
-      detectedSource = detection.provider;
-    } catch (_err) {
-      // Ignore detection errors, will fall back to default
+    const { title } = body;
+    let fileData = body.fileData;
+
+    // Several files of one session: resumed session files and Claude Code
+    // sub-agent agent-*.jsonl files
+    if (body.files !== undefined) {
+      const isSessionFile = (file: unknown): file is SessionFile =>
+        !!file &&
+        typeof (file as SessionFile).name === "string" &&
+        typeof (file as SessionFile).content === "string";
+
+      if (
+        !Array.isArray(body.files) ||
+        body.files.length === 0 ||
+        !body.files.every(isSessionFile)
+      ) {
+        return NextResponse.json(
+          {
+            error: "Invalid request body",
+            message:
+              "'files' must be a non-empty array of { name, content } strings",
+          },
+          { status: 400 },
+        );
+      }
+
+      try {
+        fileData = combineSessionFiles(body.files).content;
+      } catch (combineError) {
+        return NextResponse.json(
+          {
+            error: "Invalid files",
+            message:
+              combineError instanceof Error
+                ? combineError.message
+                : "Could not combine the uploaded files",
+          },
+          { status: 400 },
+        );
+      }
     }
 
-    // Validate JSONL format and calculate metadata
-    let messageCount = 0;
-    let transcriptMetadata: TranscriptMetadata = {};
-    try {
-      const parsed = parseJSONL(originalFileData, detectedSource);
-      messageCount = parsed.metadata.messageCount;
-
-      // Calculate and store all metadata (message counts, tool counts, model stats, token counts, etc.)
-      transcriptMetadata = calculateTranscriptMetadata(
-        parsed,
-        originalFileData,
-        detectedSource,
-      );
-    } catch (_err) {
+    if (!fileData || typeof fileData !== "string") {
       return NextResponse.json(
         {
-          error: "Invalid file format",
+          error: "Invalid request body",
           message:
-            "File must be in JSONL format (newline-delimited JSON). Each line should be a valid JSON object.",
+            "Request must include 'fileData' as a string or 'files' as an array",
         },
         { status: 400 },
       );
     }
 
-    // Attempt to scan for sensitive data using Google Cloud DLP
-    const dlpResult = await scanForSensitiveData(originalFileData);
-
-    // Determine final file data (original or scrubbed)
-    let fileData = originalFileData;
+    const { searchParams } = new URL(request.url);
+    const sourceOverride = searchParams.get("source");
+    const result = await processUpload({
+      userId,
+      fileData,
+      title,
+      searchParams,
+      defaultSource: "cli", // Default fallback for CLI uploads
+      parseError: () => ({
+        error: "Invalid file format",
+        message: sourceOverride
+          ? `File could not be parsed as ${sourceOverride}.`
+          : "File must be in JSONL format (newline-delimited JSON). Each line should be a valid JSON object.",
+      }),
+    });
+    if ("response" in result) return result.response;
 
-    // Handle DLP results
-    if (dlpResult.scrubbedContent) {
-      // Content was modified (scrubbed or truncated)
-      fileData = dlpResult.scrubbedContent;
-    } else if (dlpResult.hasSensitiveData) {
-      // Sensitive data found but no scrubbing - must block
-      const message = formatDlpFindings(dlpResult);
+    const rateLimitHeaders = {
+      "X-RateLimit-Limit": String(rateLimitResult.limit || 10),
+      "X-RateLimit-Remaining": String(rateLimitResult.remaining || 0),
+    };
 
+    if ("review" in result) {
       return NextResponse.json(
         {
-          error: "Sensitive data detected",
-          message: `Your transcript contains sensitive information that should not be uploaded publicly. ${message}`,
-          findings: dlpResult.findings.map((f) => ({
-            type: f.infoType,
-            likelihood: f.likelihood,
-          })),
+          ...result.review,
+          publishUrl: `${process.env.NEXTAUTH_URL || "https://aisessions.dev"}/api/cli/upload/${result.review.stagedId}`,
         },
-        { status: 400 },
+        { status: 202, headers: rateLimitHeaders },
       );
     }
 
-    // Create transcript with unique secret token
-    const secretToken = nanoid(16);
-    // Recalculate file size for final data (may have been scrubbed)
-    const finalFileSizeBytes = Buffer.byteLength(fileData, "utf8");
-
-    // Generate default title if none provided or if title is a UUID/session ID
-    const createdAt = new Date();
-    const finalTitle =
-      title && !isUuidOrSessionId(title)
-        ? title
-        : generateDefaultTitle(detectedSource, createdAt);
-
-    const transcript = await prisma.transcript.create({
-      data: {
-        userId,
-        secretToken,
-        title: finalTitle,
-        source: detectedSource, // Auto-detected provider format
-        fileData,
-        messageCount,
-        fileSizeBytes: finalFileSizeBytes,
-        // Store pre-calculated metadata (counts, model stats, etc.)
-        // Ensure JSON serialization to match Prisma's InputJsonValue type
-        metadata: JSON.parse(JSON.stringify(transcriptMetadata)),
-        createdAt, // Use same date for consistency
-      },
-    });
-
     // Return success with secret URL info
+    const { published } = result;
     return NextResponse.json(
       {
-        id: transcript.id,
-        secretToken: transcript.secretToken,
-        url: `${process.env.NEXTAUTH_URL || "https://aisessions.dev"}/t/${transcript.secretToken}`,
-      },
-      {
-        headers: {
-          "X-RateLimit-Limit": String(rateLimitResult.limit || 10),
-          "X-RateLimit-Remaining": String(rateLimitResult.remaining || 0),
-        },
+        id: published.id,
+        secretToken: published.secretToken,
+        source: published.source,
+        diagnostics: published.diagnostics,
+        redactionRules: published.redactionRules,
+        url: `${process.env.NEXTAUTH_URL || "https://aisessions.dev"}/t/${published.secretToken}`,
       },
+      { headers: rateLimitHeaders },
     );
   } catch (error) {
     log.error("CLI upload error", {
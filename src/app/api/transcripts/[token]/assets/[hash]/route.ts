@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { log } from "@/lib/logger";
+import { prisma } from "@/lib/prisma";
+
+/**
+ * Serve an image stored outside a transcript's fileData
+ * Access follows the transcript: anyone with the secret URL can load its
+ * images. Not rate limited like page views, since one page can show many.
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ token: string; hash: string }> },
+) {
+  try {
+    const { token, hash } = await params;
+
+    if (!/^[0-9a-f]{64}$/.test(hash)) {
+      return NextResponse.json({ error: "Asset not found" }, { status: 404 });
+    }
+
+    const asset = await prisma.transcriptAsset.findFirst({
+      where: {
+        hash,
+        transcript: { secretToken: token },
+      },
+      select: {
+        mediaType: true,
+        data: true,
+      },
+    });
+
+    if (!asset) {
+      return NextResponse.json({ error: "Asset not found" }, { status: 404 });
+    }
+
+    // Content is addressed by hash, so it never changes
+    return new NextResponse(asset.data, {
+      headers: {
+        "Content-Type": asset.mediaType,
+        "Cache-Control": "private, max-age=31536000, immutable",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (error) {
+    log.error("Fetch transcript asset error", {
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,214 @@
+import { NextResponse } from "next/server";
+import {
+  DATASET_CONTENT_TYPE,
+  transcriptsToDataset,
+} from "@/lib/export/dataset";
+import { transcriptToHtml } from "@/lib/export/html";
+import { transcriptToInterchange } from "@/lib/export/interchange";
+import { transcriptToMarkdown } from "@/lib/export/markdown";
+import { getExportFileName } from "@/lib/export/shared";
+import { log } from "@/lib/logger";
+import {
+  generateDefaultTitle,
+  isUuidOrSessionId,
+  parseJSONL,
+} from "@/lib/parser";
+import { prisma } from "@/lib/prisma";
+import { checkViewRateLimit, getClientIp } from "@/lib/rate-limit";
+import type { TranscriptMetadata } from "@/types/transcript";
+
+const EXPORT_FORMATS = ["md", "html", "json", "openai", "anthropic"] as const;
+type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  md: "text/markdown; charset=utf-8",
+  html: "text/html; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  openai: DATASET_CONTENT_TYPE,
+  anthropic: DATASET_CONTENT_TYPE,
+};
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  md: "md",
+  html: "html",
+  json: "json",
+  openai: "openai.jsonl",
+  anthropic: "anthropic.jsonl",
+};
+
+function isExportFormat(format: string): format is ExportFormat {
+  return EXPORT_FORMATS.includes(format as ExportFormat);
+}
+
+/**
+ * Stored images of a transcript, base64 encoded and keyed by hash
+ */
+async function loadAssets(
+  transcriptId: string,
+): Promise<Record<string, { mediaType: string; data: string }>> {
+  const assets = await prisma.transcriptAsset.findMany({
+    where: { transcriptId },
+    select: { hash: true, mediaType: true, data: true },
+  });
+  return Object.fromEntries(
+    assets.map(
+      (asset: { hash: string; mediaType: string; data: Uint8Array }) => [
+        asset.hash,
+        {
+          mediaType: asset.mediaType,
+          data: Buffer.from(asset.data).toString("base64"),
+        },
+      ],
+    ),
+  );
+}
+
+/**
+ * Download a transcript in another format
+ * Query: ?format=md|html|json|openai|anthropic
+ * HTML and JSON (interchange) exports embed stored images so they do not
+ * depend on this server. The openai and anthropic dataset formats also take
+ * &dropThinking=true and &skipErroredTurns=true
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ token: string }> },
+) {
+  try {
+    const { token } = await params;
+
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get("format") ?? "md";
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        {
+          error: "Unsupported format",
+          message: `Supported formats: ${EXPORT_FORMATS.join(", ")}`,
+        },
+        { status: 400 },
+      );
+    }
+
+    // Exports count as views (100 per 5 minutes per IP)
+    const clientIp = getClientIp(request);
+    const rateLimitResult = await checkViewRateLimit(clientIp);
+    if (!rateLimitResult.success) {
+      const statusCode = rateLimitResult.error ? 503 : 429;
+      const errorMessage = rateLimitResult.error
+        ? rateLimitResult.error
+        : "Rate limit exceeded";
+      const userMessage = rateLimitResult.error
+        ? "Rate limit service is temporarily unavailable. Please try again later."
+        : "Too many requests. Please try again later.";
+
+      return NextResponse.json(
+        {
+          error: errorMessage,
+          message: userMessage,
+        },
+        {
+          status: statusCode,
+          headers: {
+            "X-RateLimit-Limit": String(rateLimitResult.limit || 100),
+            "X-RateLimit-Remaining": "0",
+          },
+        },
+      );
+    }
+
+    const transcript = await prisma.transcript.findUnique({
+      where: { secretToken: token },
+      select: {
+        id: true,
+        title: true,
+        source: true,
+        fileData: true,
+        metadata: true,
+        createdAt: true,
+        user: {
+          select: {
+            githubUsername: true,
+          },
+        },
+      },
+    });
+
+    if (!transcript) {
+      return NextResponse.json(
+        { error: "Transcript not found" },
+        { status: 404 },
+      );
+    }
+
+    const parsed = parseJSONL(transcript.fileData, transcript.source);
+    const dbMetadata = (transcript.metadata as TranscriptMetadata | null) || {};
+    if (dbMetadata.cwd) parsed.cwd = dbMetadata.cwd;
+    if (dbMetadata.git) parsed.git = dbMetadata.git;
+
+    const title: string =
+      transcript.title && !isUuidOrSessionId(transcript.title)
+        ? transcript.title
+        : generateDefaultTitle(transcript.source, transcript.createdAt);
+
+    const exportOptions = {
+      title,
+      source: transcript.source,
+      createdAt: transcript.createdAt.toISOString(),
+    };
+    let body: string;
+    switch (format) {
+      case "html":
+        body = await transcriptToHtml(parsed, {
+          ...exportOptions,
+          githubUsername: transcript.user?.githubUsername ?? undefined,
+          assets: await loadAssets(transcript.id),
+        });
+        break;
+      case "json":
+        body = JSON.stringify(
+          transcriptToInterchange(parsed, {
+            ...exportOptions,
+            assets: await loadAssets(transcript.id),
+          }),
+          null,
+          2,
+        );
+        break;
+      case "md":
+        body = transcriptToMarkdown(parsed, {
+          ...exportOptions,
+          assetBaseUrl: new URL(`/api/transcripts/${token}/assets`, request.url)
+            .href,
+        });
+        break;
+      case "openai":
+      case "anthropic":
+        body = transcriptsToDataset([parsed], format, {
+          dropThinking: searchParams.get("dropThinking") === "true",
+          skipErroredTurns: searchParams.get("skipErroredTurns") === "true",
+        });
+        break;
+    }
+
+    log.info("Transcript exported", {
+      transcriptId: transcript.id,
+      format,
+    });
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": CONTENT_TYPES[format],
+        "Content-Disposition": `attachment; filename="${getExportFileName(title, FILE_EXTENSIONS[format])}"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    log.error("Export transcript error", {
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
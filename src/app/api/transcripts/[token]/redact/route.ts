@@ -0,0 +1,198 @@
+import { revalidatePath } from "next/cache";
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { checkCsrf } from "@/lib/csrf";
+import { log } from "@/lib/logger";
+import { calculateTranscriptMetadata, parseJSONL } from "@/lib/parser";
+import { prisma } from "@/lib/prisma";
+import { ParseDiagnostics } from "@/lib/providers";
+import { checkEditRateLimit } from "@/lib/rate-limit";
+import {
+  MAX_REDACTION_LENGTH,
+  MIN_REDACTION_LENGTH,
+  redactTranscript,
+} from "@/lib/redaction";
+import { formatMegabytes, MAX_TRANSCRIPT_BYTES } from "@/lib/upload-limits";
+
+/**
+ * Redact text the owner selected in a published transcript
+ * Body: { text: string, messageIndex?: number (index in the parsed
+ *         transcript's messages; omit to redact every occurrence) }
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ token: string }> },
+) {
+  try {
+    // Check CSRF token
+    const csrfError = await checkCsrf(request);
+    if (csrfError) return csrfError;
+
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Redactions count toward the same limit as title edits
+    const rateLimitResult = await checkEditRateLimit(session.user.id);
+    if (!rateLimitResult.success) {
+      const statusCode = rateLimitResult.error ? 503 : 429;
+      const errorMessage = rateLimitResult.error
+        ? rateLimitResult.error
+        : "Rate limit exceeded";
+      const userMessage = rateLimitResult.error
+        ? "Rate limit service is temporarily unavailable. Please try again later."
+        : "Too many requests. Please try again later.";
+
+      return NextResponse.json(
+        {
+          error: errorMessage,
+          message: userMessage,
+        },
+        {
+          status: statusCode,
+          headers: {
+            "X-RateLimit-Limit": String(rateLimitResult.limit || 50),
+            "X-RateLimit-Remaining": "0",
+          },
+        },
+      );
+    }
+
+    const { token } = await params;
+    let body: { text?: unknown; messageIndex?: number } | null;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        {
+          error: "Invalid JSON",
+          message:
+            "Request body must be valid JSON. Please check your request format.",
+        },
+        { status: 400 },
+      );
+    }
+
+    const text = typeof body?.text === "string" ? body.text.trim() : "";
+    const { messageIndex } = body ?? {};
+
+    if (
+      text.length < MIN_REDACTION_LENGTH ||
+      text.length > MAX_REDACTION_LENGTH
+    ) {
+      return NextResponse.json(
+        {
+          error: "Invalid text",
+          message: `Select between ${MIN_REDACTION_LENGTH} and ${MAX_REDACTION_LENGTH} characters to redact.`,
+        },
+        { status: 400 },
+      );
+    }
+
+    if (
+      messageIndex !== undefined &&
+      (!Number.isInteger(messageIndex) || messageIndex < 0)
+    ) {
+      return NextResponse.json(
+        { error: "Invalid message index" },
+        { status: 400 },
+      );
+    }
+
+    // Find transcript and verify ownership
+    const transcript = await prisma.transcript.findUnique({
+      where: {
+        secretToken: token,
+      },
+      select: {
+        userId: true,
+        source: true,
+        fileData: true,
+      },
+    });
+
+    if (!transcript) {
+      return NextResponse.json(
+        { error: "Transcript not found" },
+        { status: 404 },
+      );
+    }
+
+    if (transcript.userId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const redacted = redactTranscript(
+      transcript.fileData,
+      text,
+      messageIndex,
+      transcript.source,
+    );
+
+    if (redacted.count === 0) {
+      return NextResponse.json(
+        {
+          error: "Text not found",
+          message:
+            messageIndex === undefined
+              ? "The selected text could not be found in the transcript."
+              : "The selected text could not be found in this message. Try selecting a shorter piece of text, or redact every occurrence.",
+        },
+        { status: 400 },
+      );
+    }
+
+    // The replacement can be longer than the text it replaces
+    const fileSizeBytes = Buffer.byteLength(redacted.content, "utf8");
+    if (fileSizeBytes > MAX_TRANSCRIPT_BYTES) {
+      return NextResponse.json(
+        {
+          error: "File too large",
+          message: `File size ${formatMegabytes(fileSizeBytes)} exceeds the ${formatMegabytes(MAX_TRANSCRIPT_BYTES)} limit.`,
+        },
+        { status: 400 },
+      );
+    }
+
+    // Redactions only touch string values, so the transcript still parses
+    const parsed = parseJSONL(
+      redacted.content,
+      transcript.source,
+      new ParseDiagnostics(),
+    );
+    const metadata = calculateTranscriptMetadata(parsed, transcript.source);
+
+    await prisma.transcript.update({
+      where: {
+        secretToken: token,
+      },
+      data: {
+        fileData: redacted.content,
+        fileSizeBytes,
+        messageCount: parsed.metadata.messageCount,
+        metadata: JSON.parse(JSON.stringify(metadata)),
+      },
+    });
+
+    // The page and its OG image may show the redacted text
+    revalidatePath(`/t/${token}`);
+    revalidatePath(`/t/${token}/opengraph-image`);
+
+    log.info("Transcript redacted", {
+      redactions: redacted.count,
+      everyOccurrence: messageIndex === undefined,
+    });
+
+    return NextResponse.json({ redactions: redacted.count });
+  } catch (error) {
+    log.error("Redact transcript error", {
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,166 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { checkCsrf } from "@/lib/csrf";
+import {
+  DATASET_CONTENT_TYPE,
+  DATASET_FORMATS,
+  type DatasetFormat,
+  type DatasetOptions,
+  transcriptToDatasetLine,
+} from "@/lib/export/dataset";
+import { log } from "@/lib/logger";
+import { parseJSONL } from "@/lib/parser";
+import { prisma } from "@/lib/prisma";
+import type { ParsedTranscript, TranscriptMetadata } from "@/types/transcript";
+
+const MAX_DATASET_TRANSCRIPTS = 100;
+
+function isDatasetFormat(format: unknown): format is DatasetFormat {
+  return DATASET_FORMATS.some((option) => option.format === format);
+}
+
+/**
+ * Dataset line for one stored transcript
+ * @returns "" when it is gone, fails to parse or has no assistant response
+ */
+async function datasetLine(
+  id: string,
+  format: DatasetFormat,
+  options: DatasetOptions,
+): Promise<string> {
+  const transcript = await prisma.transcript.findUnique({
+    where: { id },
+    select: { source: true, fileData: true, metadata: true },
+  });
+  if (!transcript) return "";
+
+  let parsed: ParsedTranscript;
+  try {
+    parsed = parseJSONL(transcript.fileData, transcript.source);
+  } catch (error) {
+    log.warn("Skipped transcript in dataset export", {
+      transcriptId: id,
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+    return "";
+  }
+  const dbMetadata = (transcript.metadata as TranscriptMetadata | null) || {};
+  if (dbMetadata.cwd) parsed.cwd = dbMetadata.cwd;
+  if (dbMetadata.git) parsed.git = dbMetadata.git;
+  return transcriptToDatasetLine(parsed, format, options);
+}
+
+/**
+ * Export a selection of the user's transcripts as one JSONL dataset
+ * Body: { tokens: string[], format: "openai" | "anthropic",
+ *         dropThinking?: boolean, skipErroredTurns?: boolean }
+ */
+export async function POST(request: Request) {
+  try {
+    // Check CSRF token
+    const csrfError = await checkCsrf(request);
+    if (csrfError) return csrfError;
+
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { tokens, format, dropThinking, skipErroredTurns } = body;
+
+    if (
+      !Array.isArray(tokens) ||
+      tokens.length === 0 ||
+      tokens.length > MAX_DATASET_TRANSCRIPTS ||
+      !tokens.every((token) => typeof token === "string")
+    ) {
+      return NextResponse.json(
+        {
+          error: `Select between 1 and ${MAX_DATASET_TRANSCRIPTS} transcripts`,
+        },
+        { status: 400 },
+      );
+    }
+
+    if (!isDatasetFormat(format)) {
+      return NextResponse.json(
+        {
+          error: "Unsupported format",
+          message: `Supported formats: ${DATASET_FORMATS.map((option) => option.format).join(", ")}`,
+        },
+        { status: 400 },
+      );
+    }
+
+    // Only the user's own transcripts; other tokens are ignored
+    const selected = await prisma.transcript.findMany({
+      where: {
+        userId: session.user.id,
+        secretToken: { in: tokens },
+      },
+      select: { id: true },
+      orderBy: {
+        createdAt: "asc",
+      },
+    });
+
+    const userId = session.user.id;
+    const options = {
+      dropThinking: dropThinking === true,
+      skipErroredTurns: skipErroredTurns === true,
+    };
+    const encoder = new TextEncoder();
+    let index = 0;
+    let exported = 0;
+
+    // Load and convert one transcript at a time so a large selection never
+    // sits in memory at once
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          while (index < selected.length) {
+            const line = await datasetLine(
+              selected[index++].id,
+              format,
+              options,
+            );
+            if (!line) continue;
+            exported++;
+            controller.enqueue(encoder.encode(line));
+            return;
+          }
+          log.info("Transcripts exported as dataset", {
+            userId,
+            format,
+            transcriptCount: exported,
+          });
+          controller.close();
+        } catch (error) {
+          log.error("Dataset export error", {
+            errorMessage:
+              error instanceof Error ? error.message : String(error),
+          });
+          controller.error(error);
+        }
+      },
+    });
+
+    return new NextResponse(stream, {
+      headers: {
+        "Content-Type": DATASET_CONTENT_TYPE,
+        "Content-Disposition": `attachment; filename="ai-sessions-${format}.jsonl"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    log.error("Dataset export error", {
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
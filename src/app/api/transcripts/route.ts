@@ -1,18 +1,10 @@
-import { nanoid } from "nanoid";
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { checkCsrf } from "@/lib/csrf";
-import { formatDlpFindings, scanForSensitiveData } from "@/lib/dlp";
 import { log } from "@/lib/logger";
-import {
-  calculateTranscriptMetadata,
-  generateDefaultTitle,
-  isUuidOrSessionId,
-  parseJSONL,
-} from "@/lib/parser";
 import { prisma } from "@/lib/prisma";
-import { detectProvider } from "@/lib/providers";
 import { checkUploadRateLimit } from "@/lib/rate-limit";
+import { processUpload } from "@/lib/upload-pipeline";
 import type { TranscriptMetadata } from "@/types/transcript";
 
 export async function GET() {
@@ -36,6 +28,7 @@ export async function GET() {
         messageCount: true,
         fileSizeBytes: true,
         source: true,
+        metadata: true,
       },
       orderBy: {
         createdAt: "desc",
@@ -51,6 +44,8 @@ export async function GET() {
       messageCount: transcript.messageCount,
       fileSize: transcript.fileSizeBytes,
       source: transcript.source,
+      estimatedCostUsd: (transcript.metadata as TranscriptMetadata | null)
+        ?.costEstimate?.totalUsd,
     }));
 
     return NextResponse.json(transcriptsWithMetadata);
@@ -65,6 +60,16 @@ export async function GET() {
   }
 }
 
+/**
+ * Upload a transcript
+ * With ?review=true, sensitive data findings are returned for review (202,
+ * StagedUploadReview) instead of being scrubbed or rejected; the upload is
+ * then published through /api/uploads/[id]. Without findings it is published
+ * right away.
+ * Home directories, username and hostname are anonymized unless
+ * ?anonymize=false is set. The uploader's redaction rules are applied next,
+ * before DLP, and the matches of each rule are reported in `redactionRules`.
+ */
 export async function POST(request: Request) {
   try {
     // Check CSRF token
@@ -106,141 +111,47 @@ export async function POST(request: Request) {
       );
     }
 
-    const { fileData: originalFileData, title } = await request.json();
+    const { fileData, title } = await request.json();
 
-    if (!originalFileData || typeof originalFileData !== "string") {
+    if (!fileData || typeof fileData !== "string") {
       return NextResponse.json({ error: "Invalid file data" }, { status: 400 });
     }
 
-    // Check file size limit (5MB)
-    const fileSizeBytes = Buffer.byteLength(originalFileData, "utf8");
-    const maxSizeBytes = 5 * 1024 * 1024; // 5MB
-
-    if (fileSizeBytes > maxSizeBytes) {
-      return NextResponse.json(
-        {
-          error: "File too large",
-          message: `File size ${(fileSizeBytes / 1024 / 1024).toFixed(2)}MB exceeds the 5MB limit.`,
-        },
-        { status: 400 },
-      );
-    }
-
-    // Auto-detect transcript format
-    let detectedSource = "claude-code"; // Default fallback
-    try {
-      const detection = detectProvider(originalFileData);
-      detectedSource = detection.provider;
-
-      // Log low-confidence detections
-      if (detection.confidence === "low") {
-        log.warn("Low confidence provider detection", {
-          provider: detection.provider,
-          fileSize: fileSizeBytes,
-        });
-      }
-    } catch (err) {
-      log.error("Provider detection failed, falling back to claude-code", {
-        errorMessage: err instanceof Error ? err.message : String(err),
-        fileSize: fileSizeBytes,
-      });
-    }
-
-    // Validate transcript format (JSONL or JSON) and calculate metadata
-    let messageCount = 0;
-    let transcriptMetadata: TranscriptMetadata = {};
-    try {
-      const parsed = parseJSONL(originalFileData, detectedSource);
-      messageCount = parsed.metadata.messageCount;
-
-      // Calculate and store all metadata (message counts, tool counts, model stats, token counts, etc.)
-      transcriptMetadata = calculateTranscriptMetadata(
-        parsed,
-        originalFileData,
-        detectedSource,
-      );
-    } catch (err) {
-      log.error("Transcript parsing failed", {
-        errorMessage: err instanceof Error ? err.message : String(err),
-        provider: detectedSource,
-        fileSize: fileSizeBytes,
-      });
-
-      // Provide specific error message from parser
-      const errorMessage =
-        err instanceof Error ? err.message : "Unknown parsing error";
-      const formatType =
-        detectedSource === "gemini-cli"
-          ? "Gemini CLI JSON"
-          : "transcript JSONL";
-
-      return NextResponse.json(
-        {
+    const result = await processUpload({
+      userId: session.user.id,
+      fileData,
+      title,
+      searchParams: new URL(request.url).searchParams,
+      defaultSource: "claude-code",
+      parseError: (source, err) => {
+        // Provide specific error message from parser
+        const errorMessage =
+          err instanceof Error ? err.message : "Unknown parsing error";
+        const formatType =
+          source === "gemini-cli"
+            ? "Gemini CLI JSON"
+            : source === "aider"
+              ? "Aider chat history"
+              : "transcript JSONL";
+        return {
           error: "Invalid transcript format",
           message: `Failed to parse transcript: ${errorMessage}. Please ensure you're uploading a valid ${formatType} file.`,
-        },
-        { status: 400 },
-      );
-    }
-
-    // Attempt to scan for sensitive data using Google Cloud DLP
-    const dlpResult = await scanForSensitiveData(originalFileData);
-
-    // Determine final file data (original or scrubbed)
-    let fileData = originalFileData;
-
-    // Handle DLP results
-    if (dlpResult.scrubbedContent) {
-      // Content was modified (scrubbed or truncated)
-      fileData = dlpResult.scrubbedContent;
-    } else if (dlpResult.hasSensitiveData) {
-      // Sensitive data found but no scrubbing - must block
-      const message = formatDlpFindings(dlpResult);
-
-      return NextResponse.json(
-        {
-          error: "Sensitive data detected",
-          message: `Your transcript contains sensitive information that should not be uploaded publicly. ${message}`,
-          findings: dlpResult.findings.map((f) => ({
-            type: f.infoType,
-            likelihood: f.likelihood,
-          })),
-        },
-        { status: 400 },
-      );
-    }
-
-    // Create transcript with unique secret token
-    const secretToken = nanoid(16);
-    // Recalculate file size for final data (may have been scrubbed)
-    const finalFileSizeBytes = Buffer.byteLength(fileData, "utf8");
-
-    // Generate default title if none provided or if title is a UUID/session ID
-    const createdAt = new Date();
-    const finalTitle =
-      title && !isUuidOrSessionId(title)
-        ? title
-        : generateDefaultTitle(detectedSource, createdAt);
-
-    const transcript = await prisma.transcript.create({
-      data: {
-        userId: session.user.id,
-        secretToken,
-        title: finalTitle,
-        source: detectedSource, // Auto-detected provider format
-        fileData,
-        messageCount,
-        fileSizeBytes: finalFileSizeBytes,
-        // Store pre-calculated metadata (counts, model stats, etc.)
-        // Ensure JSON serialization to match Prisma's InputJsonValue type
-        metadata: JSON.parse(JSON.stringify(transcriptMetadata)),
-        createdAt, // Use same date for consistency
+        };
       },
     });
 
+    if ("response" in result) return result.response;
+    if ("review" in result) {
+      return NextResponse.json(result.review, { status: 202 });
+    }
+
+    const { published } = result;
     return NextResponse.json({
-      secretToken: transcript.secretToken,
-      id: transcript.id,
+      secretToken: published.secretToken,
+      id: published.id,
+      source: published.source,
+      diagnostics: published.diagnostics,
+      redactionRules: published.redactionRules,
     });
   } catch (error) {
     log.error("Upload error", {
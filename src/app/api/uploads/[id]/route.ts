@@ -0,0 +1,122 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { checkCsrf } from "@/lib/csrf";
+import { log } from "@/lib/logger";
+import {
+  discardStagedUpload,
+  getStagedUpload,
+  publishStagedUpload,
+} from "@/lib/staged-uploads";
+import { parseReviewDecisions } from "@/lib/upload-review";
+
+/**
+ * Publish a staged upload once its findings are reviewed
+ * Body: { keep?: string[] (finding ids to publish as-is),
+ *         redactions?: string[] (extra text to redact) }
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    // Check CSRF token
+    const csrfError = await checkCsrf(request);
+    if (csrfError) return csrfError;
+
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 },
+      );
+    }
+
+    const decisions = parseReviewDecisions(body);
+    if (!decisions) {
+      return NextResponse.json(
+        {
+          error: "Invalid review decisions",
+          message:
+            "'keep' must be an array of finding ids and 'redactions' an array of 3-1000 character strings",
+        },
+        { status: 400 },
+      );
+    }
+
+    const staged = await getStagedUpload(id, session.user.id);
+    if (!staged) {
+      return NextResponse.json(
+        {
+          error: "Upload not found",
+          message: "This upload has expired or was already published.",
+        },
+        { status: 404 },
+      );
+    }
+
+    const result = await publishStagedUpload(staged, decisions);
+    if ("response" in result) return result.response;
+    const transcript = result.published;
+
+    log.info("Staged upload published", {
+      transcriptId: transcript.id,
+      keptFindings: decisions.keep.length,
+      customRedactions: decisions.redactions.length,
+    });
+
+    return NextResponse.json(transcript);
+  } catch (error) {
+    log.error("Publish staged upload error", {
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Discard a staged upload without publishing it
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    // Check CSRF token
+    const csrfError = await checkCsrf(request);
+    if (csrfError) return csrfError;
+
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!(await discardStagedUpload(id, session.user.id))) {
+      return NextResponse.json({ error: "Upload not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    log.error("Discard staged upload error", {
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
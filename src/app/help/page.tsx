@@ -73,8 +73,8 @@ export default async function HelpPage() {
                     How do I upload a transcript?
                   </h3>
                   <p className="text-muted-foreground text-sm">
-                    Sign in with your GitHub account and drag a JSON or JSONL
-                    file onto the{" "}
+                    Sign in with your GitHub account and drag a JSON, JSONL or
+                    Markdown file onto the{" "}
                     <Link href="/" className="text-primary hover:underline">
                       homepage
                     </Link>{" "}
@@ -101,6 +101,13 @@ export default async function HelpPage() {
                         <code className="block bg-muted p-3 rounded font-mono text-xs border">
                           ~/.claude/projects/&lt;project-name&gt;/&lt;session-id&gt;.jsonl
                         </code>
+                        <p className="text-muted-foreground text-sm mt-2">
+                          Sub-agents started with the Task tool write their own{" "}
+                          <code>agent-*.jsonl</code> files in the same folder.
+                          Drop them together with the session file (or drop the
+                          folder) to see each sub-agent&apos;s conversation
+                          nested under its Task call.
+                        </p>
                       </AccordionContent>
                     </AccordionItem>
                     <AccordionItem value="codex">
@@ -143,6 +150,124 @@ export default async function HelpPage() {
                         </code>
                       </AccordionContent>
                     </AccordionItem>
+                    <AccordionItem value="cursor">
+                      <AccordionTrigger className="text-sm font-medium">
+                        Cursor
+                      </AccordionTrigger>
+                      <AccordionContent>
+                        <p className="text-muted-foreground text-sm mb-2">
+                          Export the <code>composerData</code> record for a
+                          session from Cursor&apos;s global storage database as
+                          a JSON file:
+                        </p>
+                        <code className="block bg-muted p-3 rounded font-mono text-xs border">
+                          ~/Library/Application
+                          Support/Cursor/User/globalStorage/state.vscdb
+                        </code>
+                      </AccordionContent>
+                    </AccordionItem>
+                    <AccordionItem value="aider">
+                      <AccordionTrigger className="text-sm font-medium">
+                        Aider
+                      </AccordionTrigger>
+                      <AccordionContent>
+                        <p className="text-muted-foreground text-sm mb-2">
+                          Upload the markdown chat history from your project
+                          root:
+                        </p>
+                        <code className="block bg-muted p-3 rounded font-mono text-xs border">
+                          &lt;project&gt;/.aider.chat.history.md
+                        </code>
+                      </AccordionContent>
+                    </AccordionItem>
+                    <AccordionItem value="claude-agent-sdk">
+                      <AccordionTrigger className="text-sm font-medium">
+                        Claude Agent SDK (headless runs)
+                      </AccordionTrigger>
+                      <AccordionContent>
+                        <p className="text-muted-foreground text-sm mb-2">
+                          Save the stream-json output of a headless run and
+                          upload the file:
+                        </p>
+                        <code className="block bg-muted p-3 rounded font-mono text-xs border">
+                          claude -p &quot;&lt;prompt&gt;&quot; --output-format
+                          stream-json --verbose &gt; run.jsonl
+                        </code>
+                      </AccordionContent>
+                    </AccordionItem>
+                    <AccordionItem value="cline">
+                      <AccordionTrigger className="text-sm font-medium">
+                        Cline / Roo Code
+                      </AccordionTrigger>
+                      <AccordionContent>
+                        <p className="text-muted-foreground text-sm mb-2">
+                          Upload the task&apos;s{" "}
+                          <code>api_conversation_history.json</code> (or{" "}
+                          <code>ui_messages.json</code>) from VS Code&apos;s
+                          extension storage:
+                        </p>
+                        <code className="block bg-muted p-3 rounded font-mono text-xs border">
+                          ~/Library/Application
+                          Support/Code/User/globalStorage/saoudrizwan.claude-dev/tasks/&lt;task-id&gt;/
+                        </code>
+                      </AccordionContent>
+                    </AccordionItem>
+                    <AccordionItem value="swe-agent">
+                      <AccordionTrigger className="text-sm font-medium">
+                        SWE-agent
+                      </AccordionTrigger>
+                      <AccordionContent>
+                        <p className="text-muted-foreground text-sm mb-2">
+                          Upload the <code>.traj</code> file written for each
+                          benchmark instance:
+                        </p>
+                        <code className="block bg-muted p-3 rounded font-mono text-xs border">
+                          trajectories/&lt;user&gt;/&lt;run-name&gt;/&lt;instance-id&gt;/&lt;instance-id&gt;.traj
+                        </code>
+                      </AccordionContent>
+                    </AccordionItem>
+                    <AccordionItem value="openhands">
+                      <AccordionTrigger className="text-sm font-medium">
+                        OpenHands
+                      </AccordionTrigger>
+                      <AccordionContent>
+                        <p className="text-muted-foreground text-sm">
+                          Export the trajectory from the OpenHands UI, or upload
+                          a single record from an evaluation run&apos;s{" "}
+                          <code>output.jsonl</code>.
+                        </p>
+                      </AccordionContent>
+                    </AccordionItem>
+                    <AccordionItem value="messages-api">
+                      <AccordionTrigger className="text-sm font-medium">
+                        OpenAI / Anthropic messages
+                      </AccordionTrigger>
+                      <AccordionContent>
+                        <p className="text-muted-foreground text-sm mb-2">
+                          Save the <code>messages</code> array your harness
+                          sends to the Chat Completions or Messages API as JSON,
+                          bare or wrapped with its model:
+                        </p>
+                        <code className="block bg-muted p-3 rounded font-mono text-xs border">
+                          {'{"model": "...", "messages": [...]}'}
+                        </code>
+                      </AccordionContent>
+                    </AccordionItem>
+                    <AccordionItem value="interchange">
+                      <AccordionTrigger className="text-sm font-medium">
+                        AI Sessions interchange
+                      </AccordionTrigger>
+                      <AccordionContent>
+                        <p className="text-muted-foreground text-sm">
+                          Any tool can write a transcript in the versioned{" "}
+                          <code>ai-sessions-interchange</code> JSON format,
+                          which is also what{" "}
+                          <strong>Download → Interchange JSON</strong> saves.
+                          The format is documented in the repository&apos;s{" "}
+                          <code>docs/interchange-format.md</code>.
+                        </p>
+                      </AccordionContent>
+                    </AccordionItem>
                   </Accordion>
                 </div>
               </div>
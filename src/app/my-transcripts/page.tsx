@@ -1,16 +1,39 @@
 "use client";
 
-import { Check, Copy, Loader2, Plus, Terminal, X } from "lucide-react";
+import {
+  Check,
+  Copy,
+  Database,
+  Loader2,
+  Plus,
+  Terminal,
+  X,
+} from "lucide-react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { useSession } from "next-auth/react";
 import posthog from "posthog-js";
 import { useCallback, useEffect, useRef, useState } from "react";
+import DatasetOptionItems from "@/components/DatasetOptionItems";
+import RedactionRulesSettings from "@/components/RedactionRulesSettings";
 import { SiteHeader } from "@/components/site-header";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { Input } from "@/components/ui/input";
 import { addCsrfToken, useCsrfToken } from "@/hooks/useCsrfToken";
+import {
+  DATASET_FORMATS,
+  type DatasetFormat,
+  type DatasetOptions,
+} from "@/lib/export/dataset";
+import { formatUsd } from "@/lib/pricing";
 
 interface Transcript {
   id: string;
@@ -20,6 +43,7 @@ interface Transcript {
   messageCount: number;
   fileSize: number;
   source: string;
+  estimatedCostUsd?: number;
 }
 
 function formatBytes(bytes: number): string {
@@ -44,6 +68,7 @@ function formatDate(dateString: string): string {
 function formatSource(source: string): string {
   const sourceMap: Record<string, string> = {
     "claude-code": "Claude Code",
+    "claude-agent-sdk": "Claude Agent SDK",
     "gemini-cli": "Gemini CLI",
     codex: "Codex",
     cli: "CLI",
@@ -70,6 +95,11 @@ export default function MyTranscriptsPage() {
   const [editingToken, setEditingToken] = useState<string | null>(null);
   const [editedTitle, setEditedTitle] = useState("");
   const [savingTitle, setSavingTitle] = useState(false);
+  const [selectedTokens, setSelectedTokens] = useState<Set<string>>(
+    () => new Set(),
+  );
+  const [datasetOptions, setDatasetOptions] = useState<DatasetOptions>({});
+  const [exportingDataset, setExportingDataset] = useState(false);
   const router = useRouter();
   const csrfToken = useCsrfToken();
   const editFormRef = useRef<HTMLDivElement>(null);
@@ -177,6 +207,11 @@ export default function MyTranscriptsPage() {
       setTranscripts((prev) =>
         prev.filter((t) => t.secretToken !== secretToken),
       );
+      setSelectedTokens((prev) => {
+        const next = new Set(prev);
+        next.delete(secretToken);
+        return next;
+      });
     } catch (err) {
       alert(err instanceof Error ? err.message : "Failed to delete transcript");
     } finally {
@@ -184,6 +219,75 @@ export default function MyTranscriptsPage() {
     }
   }
 
+  function toggleSelected(secretToken: string) {
+    setSelectedTokens((prev) => {
+      const next = new Set(prev);
+      if (next.has(secretToken)) {
+        next.delete(secretToken);
+      } else {
+        next.add(secretToken);
+      }
+      return next;
+    });
+  }
+
+  function toggleSelectAll() {
+    setSelectedTokens((prev) =>
+      prev.size === transcripts.length
+        ? new Set()
+        : new Set(transcripts.map((t) => t.secretToken)),
+    );
+  }
+
+  async function handleExportDataset(format: DatasetFormat) {
+    if (!csrfToken) {
+      alert(
+        "Security token not loaded. Please refresh the page and try again.",
+      );
+      return;
+    }
+
+    setExportingDataset(true);
+    try {
+      const response = await fetch(
+        "/api/transcripts/dataset",
+        addCsrfToken(csrfToken, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            tokens: [...selectedTokens],
+            format,
+            ...datasetOptions,
+          }),
+        }),
+      );
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || "Failed to export dataset");
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `ai-sessions-${format}.jsonl`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      posthog.capture("transcripts_dataset_exported", {
+        count: selectedTokens.size,
+        format,
+        ...datasetOptions,
+      });
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to export dataset");
+    } finally {
+      setExportingDataset(false);
+    }
+  }
+
   async function handleGenerateToken() {
     // Ensure we have a CSRF token before proceeding
     if (!csrfToken) {
@@ -413,111 +517,184 @@ export default function MyTranscriptsPage() {
                   </Button>
                 </div>
               ) : (
-                <div className="border rounded-lg divide-y">
-                  {transcripts.map((transcript) => (
-                    <div
-                      key={transcript.id}
-                      className="p-6 hover:bg-muted/50 transition-colors"
-                    >
-                      <div className="flex items-start justify-between">
-                        <div className="flex-1 min-w-0">
-                          {editingToken === transcript.secretToken ? (
-                            <div
-                              ref={editFormRef}
-                              className="flex items-center gap-2"
+                <>
+                  <div className="flex items-center justify-between gap-4 mb-3 px-6 min-h-9">
+                    <label className="flex items-center gap-3 text-sm text-muted-foreground cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={selectedTokens.size === transcripts.length}
+                        onChange={toggleSelectAll}
+                        className="size-4 accent-primary cursor-pointer"
+                        aria-label="Select all transcripts"
+                      />
+                      {selectedTokens.size > 0
+                        ? `${selectedTokens.size} selected`
+                        : "Select all"}
+                    </label>
+                    {selectedTokens.size > 0 && (
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={exportingDataset}
+                            data-testid="export-dataset-menu"
+                          >
+                            {exportingDataset ? (
+                              <Loader2 className="w-4 h-4 animate-spin" />
+                            ) : (
+                              <Database className="w-4 h-4" />
+                            )}
+                            Export dataset
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DatasetOptionItems
+                            options={datasetOptions}
+                            onChange={setDatasetOptions}
+                          />
+                          <DropdownMenuSeparator />
+                          {DATASET_FORMATS.map(({ format, label }) => (
+                            <DropdownMenuItem
+                              key={format}
+                              onSelect={() => handleExportDataset(format)}
                             >
-                              <Input
-                                type="text"
-                                value={editedTitle}
-                                onChange={(e) => setEditedTitle(e.target.value)}
-                                onKeyDown={(e) => {
-                                  if (e.key === "Enter") {
-                                    handleSaveTitle(transcript.secretToken);
-                                  } else if (e.key === "Escape") {
-                                    handleCancelEdit();
-                                  }
-                                }}
-                                disabled={savingTitle}
-                                className="flex-1"
-                                autoFocus
-                                aria-label="Edit transcript title"
-                              />
-                              <Button
-                                type="button"
-                                onClick={() =>
-                                  handleSaveTitle(transcript.secretToken)
-                                }
-                                disabled={savingTitle}
-                                size="sm"
-                                variant="default"
-                                aria-label="Save title"
-                              >
-                                {savingTitle ? (
-                                  <Loader2 className="w-4 h-4 animate-spin" />
-                                ) : (
-                                  <Check className="w-4 h-4" />
-                                )}
-                              </Button>
-                              <Button
-                                type="button"
-                                onClick={handleCancelEdit}
-                                disabled={savingTitle}
-                                size="sm"
-                                variant="ghost"
-                                aria-label="Cancel editing"
+                              {label}
+                            </DropdownMenuItem>
+                          ))}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    )}
+                  </div>
+                  <div className="border rounded-lg divide-y">
+                    {transcripts.map((transcript) => (
+                      <div
+                        key={transcript.id}
+                        className="p-6 hover:bg-muted/50 transition-colors"
+                      >
+                        <div className="flex items-start justify-between gap-4">
+                          <input
+                            type="checkbox"
+                            checked={selectedTokens.has(transcript.secretToken)}
+                            onChange={() =>
+                              toggleSelected(transcript.secretToken)
+                            }
+                            className="size-4 mt-1.5 accent-primary cursor-pointer flex-shrink-0"
+                            aria-label={`Select ${transcript.title}`}
+                            data-testid={`select-transcript-${transcript.secretToken}`}
+                          />
+                          <div className="flex-1 min-w-0">
+                            {editingToken === transcript.secretToken ? (
+                              <div
+                                ref={editFormRef}
+                                className="flex items-center gap-2"
                               >
-                                <X className="w-4 h-4" />
-                              </Button>
-                            </div>
-                          ) : (
-                            <div className="flex items-center gap-2 group/title">
-                              <h3 className="text-lg font-semibold truncate">
-                                <Link
-                                  href={`/t/${transcript.secretToken}`}
-                                  className="hover:text-primary transition-colors"
+                                <Input
+                                  type="text"
+                                  value={editedTitle}
+                                  onChange={(e) =>
+                                    setEditedTitle(e.target.value)
+                                  }
+                                  onKeyDown={(e) => {
+                                    if (e.key === "Enter") {
+                                      handleSaveTitle(transcript.secretToken);
+                                    } else if (e.key === "Escape") {
+                                      handleCancelEdit();
+                                    }
+                                  }}
+                                  disabled={savingTitle}
+                                  className="flex-1"
+                                  autoFocus
+                                  aria-label="Edit transcript title"
+                                />
+                                <Button
+                                  type="button"
+                                  onClick={() =>
+                                    handleSaveTitle(transcript.secretToken)
+                                  }
+                                  disabled={savingTitle}
+                                  size="sm"
+                                  variant="default"
+                                  aria-label="Save title"
                                 >
-                                  {transcript.title}
-                                </Link>
-                              </h3>
-                              <button
-                                type="button"
-                                onClick={() => handleStartEdit(transcript)}
-                                className="text-sm text-muted-foreground hover:text-primary opacity-0 group-hover/title:opacity-100 group-focus-within/title:opacity-100 transition-opacity cursor-pointer flex-shrink-0"
-                                aria-label={`Edit title: ${transcript.title}`}
-                              >
-                                Edit
-                              </button>
+                                  {savingTitle ? (
+                                    <Loader2 className="w-4 h-4 animate-spin" />
+                                  ) : (
+                                    <Check className="w-4 h-4" />
+                                  )}
+                                </Button>
+                                <Button
+                                  type="button"
+                                  onClick={handleCancelEdit}
+                                  disabled={savingTitle}
+                                  size="sm"
+                                  variant="ghost"
+                                  aria-label="Cancel editing"
+                                >
+                                  <X className="w-4 h-4" />
+                                </Button>
+                              </div>
+                            ) : (
+                              <div className="flex items-center gap-2 group/title">
+                                <h3 className="text-lg font-semibold truncate">
+                                  <Link
+                                    href={`/t/${transcript.secretToken}`}
+                                    className="hover:text-primary transition-colors"
+                                  >
+                                    {transcript.title}
+                                  </Link>
+                                </h3>
+                                <button
+                                  type="button"
+                                  onClick={() => handleStartEdit(transcript)}
+                                  className="text-sm text-muted-foreground hover:text-primary opacity-0 group-hover/title:opacity-100 group-focus-within/title:opacity-100 transition-opacity cursor-pointer flex-shrink-0"
+                                  aria-label={`Edit title: ${transcript.title}`}
+                                >
+                                  Edit
+                                </button>
+                              </div>
+                            )}
+                            <div className="flex items-center gap-4 mt-2 text-sm text-muted-foreground">
+                              <span>{formatDate(transcript.createdAt)}</span>
+                              <span>•</span>
+                              <span className="text-primary font-medium">
+                                {formatSource(transcript.source)}
+                              </span>
+                              <span>•</span>
+                              <span>{transcript.messageCount} messages</span>
+                              <span>•</span>
+                              <span>{formatBytes(transcript.fileSize)}</span>
+                              {transcript.estimatedCostUsd !== undefined && (
+                                <>
+                                  <span>•</span>
+                                  <span
+                                    title="Estimated cost at list prices"
+                                    data-testid={`transcript-cost-${transcript.secretToken}`}
+                                  >
+                                    ~{formatUsd(transcript.estimatedCostUsd)}
+                                  </span>
+                                </>
+                              )}
                             </div>
-                          )}
-                          <div className="flex items-center gap-4 mt-2 text-sm text-muted-foreground">
-                            <span>{formatDate(transcript.createdAt)}</span>
-                            <span>•</span>
-                            <span className="text-primary font-medium">
-                              {formatSource(transcript.source)}
-                            </span>
-                            <span>•</span>
-                            <span>{transcript.messageCount} messages</span>
-                            <span>•</span>
-                            <span>{formatBytes(transcript.fileSize)}</span>
                           </div>
+                          <Button
+                            type="button"
+                            data-testid={`delete-transcript-${transcript.secretToken}`}
+                            onClick={() => handleDelete(transcript.secretToken)}
+                            disabled={deleting === transcript.secretToken}
+                            variant="ghost"
+                            size="sm"
+                            className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                          >
+                            {deleting === transcript.secretToken
+                              ? "Deleting..."
+                              : "Delete"}
+                          </Button>
                         </div>
-                        <Button
-                          type="button"
-                          data-testid={`delete-transcript-${transcript.secretToken}`}
-                          onClick={() => handleDelete(transcript.secretToken)}
-                          disabled={deleting === transcript.secretToken}
-                          variant="ghost"
-                          size="sm"
-                          className="text-destructive hover:text-destructive hover:bg-destructive/10"
-                        >
-                          {deleting === transcript.secretToken
-                            ? "Deleting..."
-                            : "Delete"}
-                        </Button>
                       </div>
-                    </div>
-                  ))}
-                </div>
+                    ))}
+                  </div>
+                </>
               )}
 
               {!loading && !error && (
@@ -632,6 +809,8 @@ export default function MyTranscriptsPage() {
                 </div>
               )}
 
+              {!loading && !error && <RedactionRulesSettings />}
+
               {!loading && !error && (
                 // biome-ignore lint/correctness/useUniqueElementIds: Static ID needed for anchor link from help page
                 <div
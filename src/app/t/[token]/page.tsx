@@ -7,10 +7,12 @@ import { auth } from "@/lib/auth";
 import { getCsrfToken } from "@/lib/csrf";
 import { log } from "@/lib/logger";
 import {
+  calculateCostEstimate,
   generateDefaultTitle,
   isUuidOrSessionId,
   parseJSONL,
 } from "@/lib/parser";
+import { PRICING_VERSION } from "@/lib/pricing";
 import { prisma } from "@/lib/prisma";
 import type { TranscriptMetadata } from "@/types/transcript";
 
@@ -30,6 +32,7 @@ export async function generateMetadata({
         title: true,
         source: true,
         createdAt: true,
+        updatedAt: true,
         fileData: true,
         metadata: true, // Fetch cached metadata
         user: {
@@ -73,6 +76,9 @@ export async function generateMetadata({
     descriptionParts.push(date);
     const description = descriptionParts.join(" • ");
 
+    // Versioned so crawlers refetch the image after a title edit or redaction
+    const ogImageUrl = `/t/${token}/opengraph-image?v=${new Date(transcript.updatedAt).getTime()}`;
+
     return {
       title: `${title} - AI Sessions`,
       description,
@@ -84,7 +90,7 @@ export async function generateMetadata({
         siteName: "AI Sessions",
         images: [
           {
-            url: `/t/${token}/opengraph-image`,
+            url: ogImageUrl,
             width: 1200,
             height: 630,
             alt: title || "AI Session Transcript",
@@ -95,7 +101,7 @@ export async function generateMetadata({
         card: "summary_large_image",
         title: `${title} - AI Sessions`,
         description,
-        images: [`/t/${token}/opengraph-image`],
+        images: [ogImageUrl],
       },
     };
   } catch (_error) {
@@ -127,7 +133,7 @@ export default async function TranscriptPage({ params }: PageProps) {
         title: true,
         source: true,
         fileData: true,
-        metadata: true, // Fetch cached metadata (includes cwd)
+        metadata: true, // Fetch cached metadata (includes cwd and git context)
         createdAt: true,
         userId: true,
         user: {
@@ -147,7 +153,7 @@ export default async function TranscriptPage({ params }: PageProps) {
       transcriptId: transcript.id,
     });
 
-    const parsed = parseJSONL(transcript.fileData);
+    const parsed = parseJSONL(transcript.fileData, transcript.source);
     const isOwner = session?.user?.id === transcript.userId;
 
     // Use cached metadata from database (includes cwd, message counts, tool counts, model stats)
@@ -155,6 +161,20 @@ export default async function TranscriptPage({ params }: PageProps) {
     if (dbMetadata.cwd) {
       parsed.cwd = dbMetadata.cwd;
     }
+    if (dbMetadata.git) {
+      parsed.git = dbMetadata.git;
+    }
+
+    // Estimates made with an older pricing catalog are recomputed for
+    // display; the stored ones are migrated by refreshCostEstimates
+    if (dbMetadata.costEstimate?.pricingVersion !== PRICING_VERSION) {
+      dbMetadata.costEstimate =
+        calculateCostEstimate(
+          parsed,
+          transcript.source,
+          dbMetadata.tokenCounts,
+        ) ?? undefined;
+    }
 
     // Determine if we have a custom title or need to generate one
     const hasCustomTitle =
@@ -0,0 +1,60 @@
+"use client";
+
+import {
+  Context,
+  ContextContent,
+  ContextContentBody,
+  ContextContentHeader,
+  ContextTrigger,
+} from "@/components/ai-elements/context";
+import { CONTEXT_PRESSURE_THRESHOLD, type ContextUsage } from "@/lib/models";
+import { cn } from "@/lib/utils";
+
+interface ContextGaugeProps {
+  usage: ContextUsage;
+  model?: string;
+}
+
+/**
+ * Small gauge of how full the context window was for a response
+ */
+export default function ContextGauge({ usage, model }: ContextGaugeProps) {
+  const underPressure =
+    usage.usedTokens / usage.maxTokens >= CONTEXT_PRESSURE_THRESHOLD;
+
+  return (
+    <Context usedTokens={usage.usedTokens} maxTokens={usage.maxTokens}>
+      <ContextTrigger
+        size="sm"
+        className={cn(
+          "ml-auto h-6 gap-1 px-1.5 text-xs",
+          underPressure && "text-amber-600 dark:text-amber-500",
+        )}
+        data-testid="context-gauge"
+      />
+      <ContextContent align="end">
+        <ContextContentHeader />
+        <ContextContentBody className="space-y-1 text-xs">
+          <div className="flex items-center justify-between gap-3">
+            <span className="text-muted-foreground">Prompt</span>
+            <span className="font-mono">
+              {usage.usedTokens.toLocaleString()} tokens
+            </span>
+          </div>
+          <div className="flex items-center justify-between gap-3">
+            <span className="text-muted-foreground">Context window</span>
+            <span className="font-mono">
+              {usage.maxTokens.toLocaleString()} tokens
+            </span>
+          </div>
+          {model && (
+            <div className="flex items-center justify-between gap-3">
+              <span className="text-muted-foreground">Model</span>
+              <span className="font-mono truncate">{model}</span>
+            </div>
+          )}
+        </ContextContentBody>
+      </ContextContent>
+    </Context>
+  );
+}
@@ -0,0 +1,99 @@
+"use client";
+
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { CONTEXT_PRESSURE_THRESHOLD, type ContextPoint } from "@/lib/models";
+import { cn } from "@/lib/utils";
+
+interface ContextSparklineProps {
+  points: ContextPoint[];
+  compactions: number[]; // Number of points before each compaction
+}
+
+const WIDTH = 64;
+const HEIGHT = 16;
+
+function formatPercent(fraction: number): string {
+  return `${Math.round(fraction * 100)}%`;
+}
+
+/**
+ * Session-level sparkline of context window usage per response, with
+ * compactions marked
+ */
+export default function ContextSparkline({
+  points,
+  compactions,
+}: ContextSparklineProps) {
+  const fractions = points.map((point) =>
+    Math.min(point.usedTokens / point.maxTokens, 1),
+  );
+  const peak = Math.max(...fractions);
+  const x = (position: number) =>
+    points.length > 1 ? (position / (points.length - 1)) * WIDTH : WIDTH / 2;
+  const y = (fraction: number) => HEIGHT - fraction * HEIGHT;
+
+  const line = fractions
+    .map((fraction, i) => `${x(i).toFixed(2)},${y(fraction).toFixed(2)}`)
+    .join(" ");
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span
+          className={cn(
+            "flex items-center gap-1",
+            peak >= CONTEXT_PRESSURE_THRESHOLD &&
+              "text-amber-600 dark:text-amber-500",
+          )}
+          data-testid="context-sparkline"
+        >
+          <svg
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            width={WIDTH}
+            height={HEIGHT}
+            role="img"
+            aria-label={`Context usage per response, peak ${formatPercent(peak)}`}
+          >
+            <line
+              x1={0}
+              x2={WIDTH}
+              y1={y(CONTEXT_PRESSURE_THRESHOLD)}
+              y2={y(CONTEXT_PRESSURE_THRESHOLD)}
+              stroke="currentColor"
+              strokeDasharray="2 2"
+              opacity={0.3}
+            />
+            {compactions.map((position, i) => (
+              <line
+                // biome-ignore lint/suspicious/noArrayIndexKey: Positions can repeat
+                key={i}
+                x1={x(position - 0.5)}
+                x2={x(position - 0.5)}
+                y1={0}
+                y2={HEIGHT}
+                stroke="currentColor"
+                opacity={0.4}
+              />
+            ))}
+            <polyline
+              points={line}
+              fill="none"
+              stroke="currentColor"
+              strokeWidth={1.5}
+            />
+          </svg>
+          <span>{formatPercent(peak)}</span>
+        </span>
+      </TooltipTrigger>
+      <TooltipContent>
+        Context window usage per response, peaking at {formatPercent(peak)}
+        {compactions.length > 0 &&
+          `, compacted ${compactions.length} ${compactions.length === 1 ? "time" : "times"}`}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,34 @@
+"use client";
+
+import { DropdownMenuCheckboxItem } from "@/components/ui/dropdown-menu";
+import type { DatasetOptions } from "@/lib/export/dataset";
+
+interface DatasetOptionItemsProps {
+  options: DatasetOptions;
+  onChange: (options: DatasetOptions) => void;
+}
+
+const OPTION_LABELS: Array<{ key: keyof DatasetOptions; label: string }> = [
+  { key: "dropThinking", label: "Drop thinking" },
+  { key: "skipErroredTurns", label: "Skip errored turns" },
+];
+
+/**
+ * Dataset export options as checkbox menu items; the menu stays open while
+ * they are toggled
+ */
+export default function DatasetOptionItems({
+  options,
+  onChange,
+}: DatasetOptionItemsProps) {
+  return OPTION_LABELS.map(({ key, label }) => (
+    <DropdownMenuCheckboxItem
+      key={key}
+      checked={options[key] ?? false}
+      onCheckedChange={(checked) => onChange({ ...options, [key]: checked })}
+      onSelect={(event) => event.preventDefault()}
+    >
+      {label}
+    </DropdownMenuCheckboxItem>
+  ));
+}
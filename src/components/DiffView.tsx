@@ -2,23 +2,22 @@
 
 import { useState } from "react";
 import { CodeBlock } from "@/components/ai-elements/code-block";
+import { computeDiff, type DiffLine } from "@/lib/diff";
+import { getRepositoryFileUrl } from "@/lib/git-utils";
 import { makeRelativePath } from "@/lib/path-utils";
+import type { GitContext } from "@/types/transcript";
 
 interface DiffViewProps {
   filePath: string;
   oldString: string;
   newString: string;
   cwd?: string;
+  git?: GitContext; // Links the file path to the repository
 }
 
 type DiffMode = "split" | "unified";
 
-export interface DiffLine {
-  type: "added" | "removed" | "unchanged";
-  content: string;
-  oldLineNumber?: number;
-  newLineNumber?: number;
-}
+export type { DiffLine };
 
 /**
  * Map of file extensions to language identifiers for syntax highlighting
@@ -59,6 +58,7 @@ export default function DiffView({
   oldString,
   newString,
   cwd,
+  git,
 }: DiffViewProps) {
   // Default to unified view for new files (when oldString is empty)
   const isNewFile = oldString === "";
@@ -70,90 +70,28 @@ export default function DiffView({
     return LANGUAGE_MAP[ext || ""] || "text";
   };
 
-  // Simple diff algorithm - finds added and removed lines
-  const computeDiff = (oldStr: string, newStr: string): DiffLine[] => {
-    const oldLines = oldStr.split("\n");
-    const newLines = newStr.split("\n");
-    const diff: DiffLine[] = [];
-
-    let oldIndex = 0;
-    let newIndex = 0;
-
-    while (oldIndex < oldLines.length || newIndex < newLines.length) {
-      const oldLine = oldLines[oldIndex];
-      const newLine = newLines[newIndex];
-
-      if (oldLine === newLine) {
-        // Lines match - unchanged
-        diff.push({
-          type: "unchanged",
-          content: oldLine || "",
-          oldLineNumber: oldIndex + 1,
-          newLineNumber: newIndex + 1,
-        });
-        oldIndex++;
-        newIndex++;
-      } else {
-        // Lines differ - check if it's a removal, addition, or both
-        const oldLineInNew = newLines.slice(newIndex).indexOf(oldLine);
-        const newLineInOld = oldLines.slice(oldIndex).indexOf(newLine);
-
-        if (oldLineInNew === -1 && newLineInOld === -1) {
-          // Both lines are unique - mark as removed and added
-          if (oldIndex < oldLines.length) {
-            diff.push({
-              type: "removed",
-              content: oldLine || "",
-              oldLineNumber: oldIndex + 1,
-            });
-            oldIndex++;
-          }
-          if (newIndex < newLines.length) {
-            diff.push({
-              type: "added",
-              content: newLine || "",
-              newLineNumber: newIndex + 1,
-            });
-            newIndex++;
-          }
-        } else if (
-          oldLineInNew !== -1 &&
-          (newLineInOld === -1 || oldLineInNew <= newLineInOld)
-        ) {
-          // Old line appears later in new - mark intervening new lines as added
-          while (newLines[newIndex] !== oldLine) {
-            diff.push({
-              type: "added",
-              content: newLines[newIndex] || "",
-              newLineNumber: newIndex + 1,
-            });
-            newIndex++;
-          }
-        } else {
-          // New line appears later in old - mark intervening old lines as removed
-          while (oldLines[oldIndex] !== newLine) {
-            diff.push({
-              type: "removed",
-              content: oldLines[oldIndex] || "",
-              oldLineNumber: oldIndex + 1,
-            });
-            oldIndex++;
-          }
-        }
-      }
-    }
-
-    return diff;
-  };
-
   const language = getLanguage(filePath);
   const diffLines = computeDiff(oldString, newString);
   const displayPath = makeRelativePath(filePath, cwd);
+  const fileUrl = getRepositoryFileUrl(git, filePath, cwd);
 
   return (
     <div className="space-y-3 p-4">
       <h4 className="font-medium text-muted-foreground text-xs uppercase tracking-wide">
-        Edit {displayPath}
+        Edit{" "}
+        {fileUrl ? (
+          <a
+            href={fileUrl}
+            target="_blank"
+            rel="nofollow noopener noreferrer"
+            className="underline-offset-2 hover:text-foreground hover:underline"
+            data-testid="diff-file-link"
+          >
+            {displayPath}
+          </a>
+        ) : (
+          displayPath
+        )}
       </h4>
 
       {mode === "split" ? (
@@ -0,0 +1,93 @@
+"use client";
+
+import { Database, Download, FileCode, FileJson, FileText } from "lucide-react";
+import posthog from "posthog-js";
+import { useState } from "react";
+import DatasetOptionItems from "@/components/DatasetOptionItems";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { DATASET_FORMATS, type DatasetOptions } from "@/lib/export/dataset";
+
+interface DownloadMenuProps {
+  secretToken: string;
+}
+
+const DOWNLOAD_FORMATS = [
+  { format: "md", label: "Markdown", icon: FileText },
+  { format: "html", label: "HTML (offline)", icon: FileCode },
+  { format: "json", label: "Interchange JSON", icon: FileJson },
+] as const;
+
+/**
+ * Menu of formats the transcript can be downloaded in, including fine-tuning
+ * dataset formats
+ */
+export default function DownloadMenu({ secretToken }: DownloadMenuProps) {
+  const [datasetOptions, setDatasetOptions] = useState<DatasetOptions>({});
+
+  const datasetQuery = Object.entries(datasetOptions)
+    .filter(([, enabled]) => enabled)
+    .map(([option]) => `&${option}=true`)
+    .join("");
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" data-testid="download-menu">
+          <Download className="w-4 h-4" />
+          <span className="hidden sm:inline">Download</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {DOWNLOAD_FORMATS.map(({ format, label, icon: Icon }) => (
+          <DropdownMenuItem key={format} asChild>
+            <a
+              href={`/api/transcripts/${secretToken}/export?format=${format}`}
+              download
+              onClick={() =>
+                posthog.capture("transcript_downloaded", {
+                  transcriptId: secretToken,
+                  format,
+                })
+              }
+            >
+              <Icon className="w-4 h-4" />
+              {label}
+            </a>
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Dataset</DropdownMenuLabel>
+        <DatasetOptionItems
+          options={datasetOptions}
+          onChange={setDatasetOptions}
+        />
+        {DATASET_FORMATS.map(({ format, label }) => (
+          <DropdownMenuItem key={format} asChild>
+            <a
+              href={`/api/transcripts/${secretToken}/export?format=${format}${datasetQuery}`}
+              download
+              onClick={() =>
+                posthog.capture("transcript_downloaded", {
+                  transcriptId: secretToken,
+                  format,
+                  ...datasetOptions,
+                })
+              }
+            >
+              <Database className="w-4 h-4" />
+              {label}
+            </a>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
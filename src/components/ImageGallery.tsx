@@ -0,0 +1,119 @@
+"use client";
+
+import { ExternalLinkIcon, ImageOffIcon, XIcon } from "lucide-react";
+import { useEffect, useState } from "react";
+import { getImageSrc, getRemoteImageUrl } from "@/lib/providers/images";
+import type { ImageContent } from "@/types/transcript";
+
+interface ImageGalleryProps {
+  images: ImageContent[];
+  assetBaseUrl?: string;
+}
+
+/**
+ * Image thumbnails that open full size in a lightbox
+ * Remote images are shown as links rather than loaded for every viewer
+ */
+export default function ImageGallery({
+  images,
+  assetBaseUrl,
+}: ImageGalleryProps) {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const sources = images.map((image) => getImageSrc(image, assetBaseUrl));
+  const openSrc = openIndex === null ? null : sources[openIndex];
+
+  useEffect(() => {
+    if (openIndex === null) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setOpenIndex(null);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [openIndex]);
+
+  return (
+    <div className="flex flex-wrap gap-2" data-testid="image-gallery">
+      {images.map((image, idx) => {
+        const src = sources[idx];
+        const alt = image.alt || `Image ${idx + 1}`;
+
+        const remoteUrl = src ? null : getRemoteImageUrl(image);
+        if (remoteUrl) {
+          return (
+            <a
+              // biome-ignore lint/suspicious/noArrayIndexKey: Images have no stable IDs
+              key={idx}
+              href={remoteUrl}
+              target="_blank"
+              rel="noopener noreferrer nofollow"
+              className="flex h-24 w-32 flex-col items-center justify-center gap-1 rounded-md border bg-muted/50 p-2 text-center text-muted-foreground text-xs hover:text-foreground"
+              title={remoteUrl}
+            >
+              <ExternalLinkIcon className="size-4" />
+              <span className="line-clamp-2 break-all">
+                {image.alt || remoteUrl}
+              </span>
+            </a>
+          );
+        }
+
+        if (!src) {
+          return (
+            <div
+              // biome-ignore lint/suspicious/noArrayIndexKey: Images have no stable IDs
+              key={idx}
+              className="flex h-24 w-32 flex-col items-center justify-center gap-1 rounded-md border bg-muted/50 p-2 text-center text-muted-foreground text-xs"
+            >
+              <ImageOffIcon className="size-4" />
+              <span className="line-clamp-2 break-all">{alt}</span>
+            </div>
+          );
+        }
+
+        return (
+          <button
+            // biome-ignore lint/suspicious/noArrayIndexKey: Images have no stable IDs
+            key={idx}
+            type="button"
+            onClick={() => setOpenIndex(idx)}
+            className="overflow-hidden rounded-md border bg-muted/50 transition-opacity hover:opacity-80"
+            title={alt}
+          >
+            <img
+              src={src}
+              alt={alt}
+              loading="lazy"
+              className="h-24 max-w-48 object-cover"
+            />
+          </button>
+        );
+      })}
+
+      {openIndex !== null && openSrc && (
+        <div
+          role="dialog"
+          aria-modal="true"
+          aria-label={images[openIndex].alt || `Image ${openIndex + 1}`}
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-4 sm:p-8"
+          onClick={() => setOpenIndex(null)}
+          data-testid="image-lightbox"
+        >
+          <button
+            type="button"
+            onClick={() => setOpenIndex(null)}
+            className="absolute top-4 right-4 rounded-full bg-black/50 p-2 text-white hover:bg-black/70"
+            aria-label="Close"
+          >
+            <XIcon className="size-5" />
+          </button>
+          <img
+            src={openSrc}
+            alt={images[openIndex].alt || `Image ${openIndex + 1}`}
+            className="max-h-full max-w-full rounded-md object-contain"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
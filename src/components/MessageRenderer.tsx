@@ -1,19 +1,30 @@
 "use client";
 
+import { ChevronDownIcon } from "lucide-react";
 import {
   Reasoning,
   ReasoningContent,
   ReasoningTrigger,
 } from "@/components/ai-elements/reasoning";
 import { Response } from "@/components/ai-elements/response";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { looksLikeRawContent } from "@/lib/transcript-utils";
 import type {
   ContentBlock,
+  GitContext,
+  ImageContent,
   Message,
+  SubagentTranscript,
   ToolResult,
   TranscriptLine,
 } from "@/types/transcript";
 import BashBlock from "./BashBlock";
 import CodeBlock from "./CodeBlock";
+import ImageGallery from "./ImageGallery";
 import SlashCommandBlock from "./SlashCommandBlock";
 import ToolCallBlock from "./ToolCallBlock";
 
@@ -22,6 +33,9 @@ interface MessageRendererProps {
   isUser: boolean;
   childMessages?: TranscriptLine[];
   cwd?: string;
+  git?: GitContext;
+  subagents?: Record<string, SubagentTranscript>;
+  assetBaseUrl?: string; // URL that images stored outside the transcript are served under
 }
 
 export default function MessageRenderer({
@@ -29,6 +43,9 @@ export default function MessageRenderer({
   isUser,
   childMessages = [],
   cwd,
+  git,
+  subagents,
+  assetBaseUrl,
 }: MessageRendererProps) {
   const content = message.content;
 
@@ -40,7 +57,8 @@ export default function MessageRenderer({
     );
   }
 
-  // Group slash command blocks, bash blocks, and tool_use with tool_result together
+  // Group slash command blocks, bash blocks, consecutive images, and tool_use
+  // with tool_result together
   const groupedContent: (
     | ContentBlock
     | {
@@ -50,6 +68,7 @@ export default function MessageRenderer({
         commandArgs?: string;
       }
     | { type: "bash-block"; input?: string; stdout?: string; stderr?: string }
+    | { type: "image-gallery"; images: ImageContent[] }
     | { type: "tool_use"; toolUse: ContentBlock; toolResults: ToolResult[] }
   )[] = [];
   let i = 0;
@@ -166,6 +185,18 @@ export default function MessageRenderer({
         stderr,
       });
       i = j;
+    } else if (block.type === "image") {
+      // Show consecutive images side by side
+      const images: ImageContent[] = [];
+      let j = i;
+
+      while (j < content.length && content[j].type === "image") {
+        images.push(content[j] as ImageContent);
+        j++;
+      }
+
+      groupedContent.push({ type: "image-gallery", images });
+      i = j;
     } else if (block.type === "tool_result") {
       // Skip standalone tool_result blocks - they're already grouped with tool_use above
       i++;
@@ -184,16 +215,86 @@ export default function MessageRenderer({
           block={block}
           childMessages={childMessages}
           cwd={cwd}
+          git={git}
+          subagents={subagents}
+          assetBaseUrl={assetBaseUrl}
         />
       ))}
     </div>
   );
 }
 
+/**
+ * Sub-agent conversation nested under the Task call that spawned it
+ * Tool results are grouped with their calls through parentUuid, as in the
+ * main conversation
+ */
+function SubagentThread({
+  subagent,
+  subagents,
+  cwd,
+  git,
+  assetBaseUrl,
+}: {
+  subagent: SubagentTranscript;
+  subagents?: Record<string, SubagentTranscript>;
+  cwd?: string;
+  git?: GitContext;
+  assetBaseUrl?: string;
+}) {
+  const visibleMessages = subagent.messages.filter(
+    (line) =>
+      line.message &&
+      !(
+        Array.isArray(line.message.content) &&
+        line.message.content.length > 0 &&
+        line.message.content.every((block) => block.type === "tool_result")
+      ),
+  );
+
+  return (
+    <Collapsible className="border-t" data-testid="subagent-thread">
+      <CollapsibleTrigger className="group flex w-full items-center gap-2 p-4 font-medium text-muted-foreground text-xs uppercase tracking-wide">
+        <ChevronDownIcon className="size-4 transition-transform group-data-[state=closed]:-rotate-90" />
+        <span>
+          Sub-agent conversation ({visibleMessages.length}{" "}
+          {visibleMessages.length === 1 ? "message" : "messages"})
+        </span>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-4 px-4 pb-4">
+        {visibleMessages.map((line, idx) => (
+          <div
+            key={line.uuid || idx}
+            className="space-y-2 border-l-2 pl-3 text-sm"
+          >
+            <div className="text-xs font-medium opacity-70">
+              {line.message?.role === "user" ? "Prompt" : "Sub-agent"}
+            </div>
+            <MessageRenderer
+              message={line.message as Message}
+              isUser={line.message?.role === "user"}
+              childMessages={subagent.messages.filter(
+                (child) => child.parentUuid === line.uuid,
+              )}
+              cwd={cwd}
+              git={git}
+              subagents={subagents}
+              assetBaseUrl={assetBaseUrl}
+            />
+          </div>
+        ))}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
 function ContentBlockRenderer({
   block,
   childMessages = [],
   cwd,
+  git,
+  subagents,
+  assetBaseUrl,
 }: {
   block:
     | ContentBlock
@@ -204,21 +305,17 @@ function ContentBlockRenderer({
         commandArgs?: string;
       }
     | { type: "bash-block"; input?: string; stdout?: string; stderr?: string }
+    | { type: "image-gallery"; images: ImageContent[] }
     | { type: "tool_use"; toolUse: ContentBlock; toolResults: ToolResult[] };
   childMessages?: TranscriptLine[];
   cwd?: string;
+  git?: GitContext;
+  subagents?: Record<string, SubagentTranscript>;
+  assetBaseUrl?: string;
 }) {
   switch (block.type) {
     case "text": {
-      // Check if text looks like raw logs/code (contains many ===== lines, EVENT lines, or JSON-like content)
-      const looksLikeRawContent =
-        block.text.includes(
-          "================================================================================",
-        ) ||
-        /^EVENT \[/.test(block.text) ||
-        (/^\{[\s\S]*\}$/.test(block.text.trim()) && block.text.length > 100);
-
-      if (looksLikeRawContent) {
+      if (looksLikeRawContent(block.text)) {
         return (
           <div className="bg-muted/50 border rounded-lg p-4">
             <CodeBlock code={block.text} language="text" />
@@ -250,6 +347,7 @@ function ContentBlockRenderer({
             toolUse={block.toolUse as any}
             toolResults={block.toolResults}
             cwd={cwd}
+            git={git}
           />
         );
       }
@@ -266,11 +364,24 @@ function ContentBlockRenderer({
               contentBlock.tool_use_id === (block as any).id,
           ),
         );
+      const subagent = subagents?.[(block as any).id];
       return (
         <ToolCallBlock
           toolUse={block as any}
           toolResults={toolResults}
           cwd={cwd}
+          git={git}
+          subagentThread={
+            subagent && (
+              <SubagentThread
+                subagent={subagent}
+                subagents={subagents}
+                cwd={cwd}
+                git={git}
+                assetBaseUrl={assetBaseUrl}
+              />
+            )
+          }
         />
       );
     }
@@ -289,6 +400,9 @@ function ContentBlockRenderer({
         />
       );
 
+    case "image-gallery":
+      return <ImageGallery images={block.images} assetBaseUrl={assetBaseUrl} />;
+
     case "bash-block":
       return (
         <BashBlock
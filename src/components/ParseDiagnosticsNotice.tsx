@@ -0,0 +1,73 @@
+"use client";
+
+import { AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { formatDiagnostic } from "@/lib/providers/diagnostics";
+import type { ParseDiagnostic } from "@/types/transcript";
+
+interface ParseDiagnosticsNoticeProps {
+  diagnostics: ParseDiagnostic[];
+}
+
+/**
+ * Owner-only notice listing lines the parser skipped or could not read
+ */
+export default function ParseDiagnosticsNotice({
+  diagnostics,
+}: ParseDiagnosticsNoticeProps) {
+  const errorCount = diagnostics.filter((d) => d.severity === "error").length;
+  const label =
+    errorCount > 0
+      ? `${errorCount} parse ${errorCount === 1 ? "error" : "errors"}`
+      : `${diagnostics.length} parse ${diagnostics.length === 1 ? "warning" : "warnings"}`;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-auto p-1 hover:bg-muted text-amber-600 dark:text-amber-500"
+          data-testid="parse-diagnostics-trigger"
+        >
+          <AlertTriangle className="w-4 h-4" />
+          <span className="ml-1">{label}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96">
+        <div className="space-y-3">
+          <div>
+            <h4 className="font-semibold text-sm">Parse diagnostics</h4>
+            <p className="text-xs text-muted-foreground mt-1">
+              Only you can see this. Some lines in the uploaded file were
+              skipped, so parts of the session may be missing.
+            </p>
+          </div>
+          <ul
+            className="space-y-1.5 max-h-64 overflow-y-auto text-xs font-mono"
+            data-testid="parse-diagnostics-list"
+          >
+            {diagnostics.map((diagnostic, idx) => (
+              <li
+                // biome-ignore lint/suspicious/noArrayIndexKey: Diagnostics have no stable id
+                key={idx}
+                className={
+                  diagnostic.severity === "error"
+                    ? "text-destructive"
+                    : "text-muted-foreground"
+                }
+              >
+                {formatDiagnostic(diagnostic)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,11 +1,13 @@
 "use client";
 
 import { parsePatch } from "@/lib/parsePatch";
+import type { GitContext } from "@/types/transcript";
 import DiffView from "./DiffView";
 
 interface PatchDiffViewProps {
   patchContent: string;
   cwd?: string;
+  git?: GitContext;
 }
 
 /**
@@ -14,6 +16,7 @@ interface PatchDiffViewProps {
 export default function PatchDiffView({
   patchContent,
   cwd,
+  git,
 }: PatchDiffViewProps) {
   const parsedFiles = parsePatch(patchContent);
 
@@ -34,6 +37,7 @@ export default function PatchDiffView({
           oldString={file.oldString}
           newString={file.newString}
           cwd={cwd}
+          git={git}
         />
       ))}
     </>
@@ -0,0 +1,41 @@
+import type { RedactionRuleMatches } from "@/lib/redaction-rules";
+
+interface RedactionRuleSummaryProps {
+  rules?: RedactionRuleMatches[];
+}
+
+/**
+ * Rules that matched an upload
+ */
+export function getMatchedRules(
+  rules: RedactionRuleMatches[] | undefined,
+): RedactionRuleMatches[] {
+  return (rules ?? []).filter((rule) => rule.matches > 0);
+}
+
+/**
+ * What the uploader's redaction rules replaced in an upload; renders nothing
+ * when no rule matched
+ */
+export default function RedactionRuleSummary({
+  rules,
+}: RedactionRuleSummaryProps) {
+  const matchedRules = getMatchedRules(rules);
+  if (matchedRules.length === 0) return null;
+
+  return (
+    <p
+      className="text-sm text-muted-foreground mt-1"
+      data-testid="redaction-rule-matches"
+    >
+      Your redaction rules replaced{" "}
+      {matchedRules
+        .map(
+          (rule) =>
+            `${rule.matches} ${rule.matches === 1 ? "match" : "matches"} of ${rule.label}`,
+        )
+        .join(", ")}
+      .
+    </p>
+  );
+}
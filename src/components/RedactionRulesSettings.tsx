@@ -0,0 +1,210 @@
+"use client";
+
+import { EyeOff, Loader2, Plus, X } from "lucide-react";
+import posthog from "posthog-js";
+import { useCallback, useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { addCsrfToken, useCsrfToken } from "@/hooks/useCsrfToken";
+import type { RedactionRule } from "@/lib/redaction-rules";
+
+/**
+ * Settings section for the user's redaction rules, which are applied to
+ * every transcript they upload
+ */
+export default function RedactionRulesSettings() {
+  const [rules, setRules] = useState<RedactionRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [pattern, setPattern] = useState("");
+  const [isRegex, setIsRegex] = useState(false);
+  const [label, setLabel] = useState("");
+  const [adding, setAdding] = useState(false);
+  const [deleting, setDeleting] = useState<string | null>(null);
+  const csrfToken = useCsrfToken();
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const response = await fetch("/api/account/redaction-rules");
+      if (!response.ok) {
+        throw new Error("Failed to fetch redaction rules");
+      }
+      setRules(await response.json());
+    } catch (err) {
+      console.error("Failed to fetch redaction rules:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  async function handleAdd(e: React.FormEvent) {
+    e.preventDefault();
+
+    if (!csrfToken) {
+      alert(
+        "Security token not loaded. Please refresh the page and try again.",
+      );
+      return;
+    }
+
+    setAdding(true);
+    try {
+      const response = await fetch(
+        "/api/account/redaction-rules",
+        addCsrfToken(csrfToken, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ pattern, isRegex, label }),
+        }),
+      );
+      const data = await response.json().catch(() => null);
+
+      if (!response.ok) {
+        throw new Error(
+          data?.message || data?.error || "Failed to add redaction rule",
+        );
+      }
+
+      posthog.capture("redaction_rule_added", { is_regex: isRegex });
+      setRules((current) => [...current, data]);
+      setPattern("");
+      setIsRegex(false);
+      setLabel("");
+    } catch (err) {
+      alert(
+        err instanceof Error ? err.message : "Failed to add redaction rule",
+      );
+    } finally {
+      setAdding(false);
+    }
+  }
+
+  async function handleDelete(id: string) {
+    if (!csrfToken) {
+      alert(
+        "Security token not loaded. Please refresh the page and try again.",
+      );
+      return;
+    }
+
+    setDeleting(id);
+    try {
+      const response = await fetch(
+        `/api/account/redaction-rules/${id}`,
+        addCsrfToken(csrfToken, {
+          method: "DELETE",
+        }),
+      );
+
+      if (!response.ok) {
+        throw new Error("Failed to delete redaction rule");
+      }
+
+      setRules((current) => current.filter((rule) => rule.id !== id));
+    } catch (err) {
+      alert(
+        err instanceof Error ? err.message : "Failed to delete redaction rule",
+      );
+    } finally {
+      setDeleting(null);
+    }
+  }
+
+  return (
+    // biome-ignore lint/correctness/useUniqueElementIds: Static ID needed for anchor link
+    <div className="mt-12 border rounded-lg p-6" id="redaction-rules">
+      <div className="flex items-center gap-2 mb-4">
+        <EyeOff className="w-5 h-5" />
+        <h2 className="text-lg font-semibold">Redaction Rules</h2>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        Terms to remove from every transcript you upload, such as internal
+        codenames or customer names. Matches are case-insensitive and replaced
+        with{" "}
+        <code className="bg-muted px-1 py-0.5 rounded">[REDACTED-LABEL]</code>{" "}
+        before the sensitive data scan.
+      </p>
+
+      {loading ? (
+        <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+      ) : rules.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No redaction rules yet.</p>
+      ) : (
+        <div className="space-y-2" data-testid="redaction-rules">
+          {rules.map((rule) => (
+            <div
+              key={rule.id}
+              className="flex items-center gap-2 rounded-lg border px-3 py-2"
+            >
+              <code className="flex-1 text-sm font-mono break-all">
+                {rule.isRegex ? `/${rule.pattern}/` : rule.pattern}
+              </code>
+              <Badge variant="secondary">[REDACTED-{rule.label}]</Badge>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => handleDelete(rule.id)}
+                disabled={deleting === rule.id}
+                aria-label={`Delete rule ${rule.pattern}`}
+              >
+                {deleting === rule.id ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <X className="w-4 h-4" />
+                )}
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleAdd} className="mt-6 pt-6 border-t space-y-3">
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Input
+            value={pattern}
+            onChange={(e) => setPattern(e.target.value)}
+            placeholder={isRegex ? "acme-[0-9]+" : "Acme Corp"}
+            aria-label="Term or regular expression"
+            className={isRegex ? "font-mono" : undefined}
+            maxLength={200}
+          />
+          <Input
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="CUSTOMER"
+            aria-label="Replacement label"
+            className="sm:w-40"
+            maxLength={40}
+          />
+          <Button
+            type="submit"
+            disabled={adding || pattern.trim().length < 3 || !label.trim()}
+          >
+            {adding ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <Plus className="w-4 h-4" />
+            )}
+            Add
+          </Button>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-muted-foreground">
+          <input
+            type="checkbox"
+            checked={isRegex}
+            onChange={(e) => setIsRegex(e.target.checked)}
+            className="size-4 accent-primary cursor-pointer"
+          />
+          Regular expression
+        </label>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+"use client";
+
+import { EyeOff, Loader2 } from "lucide-react";
+import posthog from "posthog-js";
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { addCsrfToken, useCsrfToken } from "@/hooks/useCsrfToken";
+
+interface SelectionRedactorProps {
+  children: React.ReactNode;
+  enabled: boolean; // Only the owner can redact
+  secretToken: string;
+}
+
+interface Selected {
+  text: string;
+  messageIndex: number;
+  top: number;
+  left: number;
+}
+
+const MIN_REDACTION_LENGTH = 3;
+const MAX_REDACTION_LENGTH = 1000;
+
+// Rendered messages carry their index in the parsed transcript
+function getMessageElement(node: Node | null): HTMLElement | null {
+  const element = node instanceof Element ? node : node?.parentElement;
+  return element?.closest<HTMLElement>("[data-message-index]") ?? null;
+}
+
+/**
+ * Lets the owner select text in a message or tool output and redact it,
+ * in that message or everywhere in the transcript
+ */
+export default function SelectionRedactor({
+  children,
+  enabled,
+  secretToken,
+}: SelectionRedactorProps) {
+  const [selected, setSelected] = useState<Selected | null>(null);
+  const [redacting, setRedacting] = useState(false);
+  const csrfToken = useCsrfToken();
+
+  // The toolbar is positioned for the current viewport
+  useEffect(() => {
+    if (!selected || redacting) return;
+    const clear = () => setSelected(null);
+    window.addEventListener("scroll", clear, { passive: true });
+    return () => window.removeEventListener("scroll", clear);
+  }, [selected, redacting]);
+
+  if (!enabled) return <>{children}</>;
+
+  const handleSelection = () => {
+    if (redacting) return;
+
+    const selection = window.getSelection();
+    const text = selection?.toString().trim() ?? "";
+    if (
+      !selection ||
+      selection.rangeCount === 0 ||
+      text.length < MIN_REDACTION_LENGTH ||
+      text.length > MAX_REDACTION_LENGTH
+    ) {
+      setSelected(null);
+      return;
+    }
+
+    const range = selection.getRangeAt(0);
+    const message = getMessageElement(range.startContainer);
+    if (!message || message !== getMessageElement(range.endContainer)) {
+      setSelected(null);
+      return;
+    }
+
+    const rect = range.getBoundingClientRect();
+    setSelected({
+      text,
+      messageIndex: Number(message.dataset.messageIndex),
+      top: rect.top,
+      left: rect.left + rect.width / 2,
+    });
+  };
+
+  const handleRedact = async (everywhere: boolean) => {
+    if (!selected) return;
+
+    const preview =
+      selected.text.length > 60
+        ? `${selected.text.slice(0, 60)}…`
+        : selected.text;
+    const confirmed = window.confirm(
+      everywhere
+        ? `Redact every occurrence of "${preview}" in this transcript? This cannot be undone.`
+        : `Redact "${preview}" in this message? This cannot be undone.`,
+    );
+    if (!confirmed) return;
+
+    // Ensure we have a CSRF token before proceeding
+    if (!csrfToken) {
+      alert(
+        "Security token not loaded. Please refresh the page and try again.",
+      );
+      return;
+    }
+
+    setRedacting(true);
+    try {
+      const response = await fetch(
+        `/api/transcripts/${secretToken}/redact`,
+        addCsrfToken(csrfToken, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            text: selected.text,
+            messageIndex: everywhere ? undefined : selected.messageIndex,
+          }),
+        }),
+      );
+      const data = await response.json().catch(() => null);
+
+      if (!response.ok) {
+        throw new Error(data?.message || data?.error || "Failed to redact");
+      }
+
+      posthog.capture("transcript_redacted", {
+        transcriptId: secretToken,
+        redactions: data?.redactions,
+        every_occurrence: everywhere,
+      });
+
+      // The transcript is parsed on the server, reload to show the redaction
+      window.location.reload();
+    } catch (error) {
+      console.error("Failed to redact:", error);
+      alert(error instanceof Error ? error.message : "Failed to redact");
+      setRedacting(false);
+      setSelected(null);
+    }
+  };
+
+  return (
+    <>
+      {/* biome-ignore lint/a11y/noStaticElementInteractions: selection tracking only, the toolbar is the interactive part */}
+      <div onMouseUp={handleSelection} onKeyUp={handleSelection}>
+        {children}
+      </div>
+
+      {selected && (
+        <div
+          className="fixed z-50 flex gap-1 rounded-lg border bg-popover p-1 shadow-md -translate-x-1/2 -translate-y-full"
+          style={{ top: selected.top - 8, left: selected.left }}
+          // Keep the selection when a button is pressed
+          onMouseDown={(e) => e.preventDefault()}
+          role="toolbar"
+          aria-label="Redact selection"
+          data-testid="redaction-toolbar"
+        >
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => handleRedact(false)}
+            disabled={redacting}
+          >
+            {redacting ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <EyeOff className="w-4 h-4" />
+            )}
+            Redact
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => handleRedact(true)}
+            disabled={redacting}
+          >
+            Redact every occurrence
+          </Button>
+        </div>
+      )}
+    </>
+  );
+}
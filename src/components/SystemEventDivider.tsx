@@ -0,0 +1,147 @@
+"use client";
+
+import { format } from "date-fns";
+import {
+  Bot,
+  ChevronDownIcon,
+  FoldVertical,
+  History,
+  Info,
+  type LucideIcon,
+  OctagonX,
+  ToggleRight,
+} from "lucide-react";
+import { Response } from "@/components/ai-elements/response";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { PERMISSION_MODE_LABELS } from "@/lib/transcript-utils";
+import type { SystemEvent } from "@/types/transcript";
+
+interface SystemEventDividerProps {
+  event: SystemEvent;
+  timestamp?: string;
+}
+
+// Info messages longer than this are collapsed behind a generic label
+const MAX_INLINE_INFO_LENGTH = 80;
+
+interface DividerContent {
+  icon: LucideIcon;
+  label: string;
+  note?: string; // Shown next to the label, e.g. a file name
+  details?: string; // Markdown, shown when the divider is expanded
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Icon, label and details for a system event
+ */
+function describeEvent(event: SystemEvent): DividerContent {
+  switch (event.eventType) {
+    case "model_change":
+      return { icon: Bot, label: `Model changed to ${event.data.newModel}` };
+    case "compaction": {
+      const { trigger, preTokens } = event.data;
+      const notes = [
+        trigger === "manual" ? "manual" : trigger === "auto" ? "automatic" : "",
+        preTokens ? `${preTokens.toLocaleString()} tokens before` : "",
+      ].filter(Boolean);
+      return {
+        icon: FoldVertical,
+        label: "Context compacted",
+        note: notes.join(", ") || undefined,
+        details: event.data.summary,
+      };
+    }
+    case "session_resumed":
+      return {
+        icon: History,
+        label: "Session resumed",
+        note: event.data.fileName,
+      };
+    case "mode_change":
+      return {
+        icon: ToggleRight,
+        label: `Switched to ${PERMISSION_MODE_LABELS[event.data.mode] ?? event.data.mode}`,
+      };
+    case "interruption": {
+      const { message } = event.data;
+      return message && /interrupt/i.test(message)
+        ? { icon: OctagonX, label: capitalize(message) }
+        : { icon: OctagonX, label: "Interrupted", note: message };
+    }
+    case "info": {
+      const { message, infoType } = event.data;
+      const isShort =
+        message.length <= MAX_INLINE_INFO_LENGTH && !message.includes("\n");
+      return isShort
+        ? { icon: Info, label: message }
+        : {
+            icon: Info,
+            label: infoType ? capitalize(infoType) : "Notice",
+            details: message,
+          };
+    }
+  }
+}
+
+/**
+ * Labeled divider between messages for events such as model changes,
+ * context compaction, resumes, mode switches and interruptions
+ */
+export default function SystemEventDivider({
+  event,
+  timestamp,
+}: SystemEventDividerProps) {
+  const { icon: Icon, label, note, details } = describeEvent(event);
+
+  const summary = (
+    <>
+      <Icon className="w-3 h-3" />
+      <span>{label}</span>
+      {note && <span className="opacity-70">{note}</span>}
+      {timestamp && (
+        <span className="opacity-70">
+          {format(new Date(timestamp), "MMM d, HH:mm:ss")}
+        </span>
+      )}
+    </>
+  );
+
+  if (!details) {
+    return (
+      <div
+        className="flex items-center gap-4 py-2"
+        data-testid={`system-event-${event.eventType}`}
+      >
+        <div className="flex-1 h-px bg-border" />
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          {summary}
+        </div>
+        <div className="flex-1 h-px bg-border" />
+      </div>
+    );
+  }
+
+  return (
+    <Collapsible data-testid={`system-event-${event.eventType}`}>
+      <div className="flex items-center gap-4 py-2">
+        <div className="flex-1 h-px bg-border" />
+        <CollapsibleTrigger className="group flex items-center gap-2 text-xs text-muted-foreground hover:text-foreground">
+          {summary}
+          <ChevronDownIcon className="size-3 transition-transform group-data-[state=closed]:-rotate-90" />
+        </CollapsibleTrigger>
+        <div className="flex-1 h-px bg-border" />
+      </div>
+      <CollapsibleContent className="mt-2 rounded-md border bg-muted/40 p-4 text-sm">
+        <Response>{details}</Response>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
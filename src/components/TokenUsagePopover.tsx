@@ -0,0 +1,159 @@
+"use client";
+
+import { format } from "date-fns";
+import { Activity } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { formatUsd } from "@/lib/pricing";
+import type { TurnUsage } from "@/lib/transcript-utils";
+
+interface TokenUsagePopoverProps {
+  turns: TurnUsage[];
+  prompts: Array<{ uuid: string; text: string }>; // Prompt of each turn, same order
+}
+
+const CHART_WIDTH = 100;
+const CHART_HEIGHT = 40;
+
+function formatTime(timestamp: string): string {
+  const date = new Date(timestamp);
+  return Number.isNaN(date.getTime()) ? "" : format(date, "HH:mm");
+}
+
+function formatTokens(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+  return count.toString();
+}
+
+/**
+ * Chart coordinates of each turn's cumulative total
+ * Turns are spaced by time when timestamps are known, evenly otherwise
+ */
+function getChartPoints(turns: TurnUsage[]): string {
+  const times = turns.map((turn) => new Date(turn.timestamp).getTime());
+  const start = times[0];
+  const span = times[times.length - 1] - start;
+  const useTime = span > 0 && times.every((time) => !Number.isNaN(time));
+  const max = turns[turns.length - 1].cumulativeTokens || 1;
+
+  const points = turns.map((turn, i) => {
+    const position = useTime
+      ? (times[i] - start) / span
+      : turns.length > 1
+        ? i / (turns.length - 1)
+        : 1;
+    const x = position * CHART_WIDTH;
+    const y = CHART_HEIGHT - (turn.cumulativeTokens / max) * CHART_HEIGHT;
+    return `${x.toFixed(2)},${y.toFixed(2)}`;
+  });
+
+  // Start from zero so a single turn still draws a line
+  return [`0,${CHART_HEIGHT}`, ...points].join(" ");
+}
+
+function scrollToMessage(uuid: string) {
+  const element = document.getElementById(`message-${uuid}`);
+  if (element) {
+    window.history.pushState(null, "", `#message-${uuid}`);
+    element.scrollIntoView({ behavior: "smooth", block: "start" });
+  }
+}
+
+/**
+ * Token usage per turn with a cumulative chart over the session
+ */
+export default function TokenUsagePopover({
+  turns,
+  prompts,
+}: TokenUsagePopoverProps) {
+  const first = turns[0];
+  const last = turns[turns.length - 1];
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-auto p-1 hover:bg-muted"
+          data-testid="token-usage-trigger"
+        >
+          <Activity className="w-4 h-4" />
+          <span className="ml-1">Tokens</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96">
+        <div className="space-y-4">
+          <div>
+            <h4 className="font-semibold text-sm">Token usage</h4>
+            <p className="text-xs text-muted-foreground mt-1">
+              Input and output tokens per turn, excluding cache reads and
+              writes. Costs are estimates at list prices.
+            </p>
+          </div>
+
+          <div className="space-y-1" data-testid="token-usage-chart">
+            <svg
+              viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+              preserveAspectRatio="none"
+              className="w-full h-20 text-primary"
+              role="img"
+              aria-label={`Cumulative tokens, ${last.cumulativeTokens.toLocaleString()} in total`}
+            >
+              <polyline
+                points={getChartPoints(turns)}
+                fill="none"
+                stroke="currentColor"
+                strokeWidth={1.5}
+                vectorEffect="non-scaling-stroke"
+              />
+            </svg>
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>{formatTime(first.timestamp)}</span>
+              <span className="font-mono">
+                {last.cumulativeTokens.toLocaleString()} total
+              </span>
+              <span>{formatTime(last.timestamp)}</span>
+            </div>
+          </div>
+
+          <ol
+            className="space-y-1 max-h-64 overflow-y-auto text-sm"
+            data-testid="token-usage-turns"
+          >
+            {turns.map((turn, i) => {
+              const prompt = prompts[i];
+              return (
+                <li key={turn.index}>
+                  <button
+                    type="button"
+                    onClick={() => prompt && scrollToMessage(prompt.uuid)}
+                    className="flex w-full items-center justify-between gap-3 rounded px-1 py-0.5 text-left hover:bg-muted"
+                  >
+                    <span className="truncate">
+                      <span className="text-muted-foreground mr-1.5">
+                        {i + 1}.
+                      </span>
+                      {prompt?.text ?? "Turn"}
+                    </span>
+                    <span className="shrink-0 font-mono text-xs text-muted-foreground">
+                      {formatTokens(turn.inputTokens)} in ·{" "}
+                      {formatTokens(turn.outputTokens)} out
+                      {turn.costUsd !== undefined &&
+                        ` · ${formatUsd(turn.costUsd)}`}
+                    </span>
+                  </button>
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
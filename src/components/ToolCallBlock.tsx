@@ -1,7 +1,7 @@
 "use client";
 
-import { CheckCircleIcon, WrenchIcon } from "lucide-react";
-import { useState } from "react";
+import { CheckCircleIcon, ExternalLinkIcon, WrenchIcon } from "lucide-react";
+import { type ReactNode, useState } from "react";
 import {
   Tool,
   ToolContent,
@@ -9,38 +9,38 @@ import {
   ToolInput,
 } from "@/components/ai-elements/tool";
 import { Badge } from "@/components/ui/badge";
-import type { ToolResult, ToolUse } from "@/types/transcript";
+import { getRepositoryFileUrl } from "@/lib/git-utils";
+import { parseSearchReplaceBlocks } from "@/lib/parsePatch";
+import type { GitContext, ToolResult, ToolUse } from "@/types/transcript";
 import DiffView from "./DiffView";
-import { getToolPreview } from "./getToolPreview";
+import { getToolFilePath, getToolPreview } from "./getToolPreview";
 import PatchDiffView from "./PatchDiffView";
 import TodoListBlock from "./TodoListBlock";
 
-/**
- * Parse Mistral Vibe's search_replace content format into diff blocks
- * Format: <<<<<<< SEARCH\n[old]\n=======\n[new]\n>>>>>>> REPLACE
- */
-function parseSearchReplaceBlocks(
-  content: string,
-): Array<{ oldText: string; newText: string }> {
-  const blocks: Array<{ oldText: string; newText: string }> = [];
-  // Handle trailing whitespace on marker lines and flexible newlines
-  const pattern =
-    /<<<<<<< SEARCH[ \t]*\r?\n([\s\S]*?)\r?\n[ \t]*=======[ \t]*\r?\n([\s\S]*?)\r?\n[ \t]*>>>>>>> REPLACE/g;
-
-  for (const match of content.matchAll(pattern)) {
-    blocks.push({
-      oldText: match[1],
-      newText: match[2],
-    });
-  }
-
-  return blocks;
-}
-
 interface ToolCallBlockProps {
   toolUse: ToolUse;
   toolResults?: ToolResult[];
   cwd?: string;
+  git?: GitContext; // Links file paths to the repository
+  subagentThread?: ReactNode; // Nested sub-agent conversation (Claude Code Task)
+}
+
+/**
+ * Link to a file in the session's repository, shown next to the tool header
+ */
+function RepositoryFileLink({ href }: { href: string }) {
+  return (
+    <a
+      href={href}
+      target="_blank"
+      rel="nofollow noopener noreferrer"
+      title="Open file in repository"
+      className="text-muted-foreground hover:text-foreground"
+      data-testid="repository-file-link"
+    >
+      <ExternalLinkIcon className="size-4" />
+    </a>
+  );
 }
 
 /**
@@ -117,17 +117,21 @@ export default function ToolCallBlock({
   toolUse,
   toolResults = [],
   cwd,
+  git,
+  subagentThread,
 }: ToolCallBlockProps) {
   const todoList = normalizeTodoList(toolUse.name, toolUse.input);
   const isTodoList = todoList !== null;
 
-  const filePath = toolUse.input.file_path || toolUse.input.path;
+  const filePath =
+    toolUse.input.file_path || toolUse.input.path || toolUse.input.target_file;
 
-  // Claude Code "Edit", Gemini "replace", Copilot "edit"
+  // Claude Code "Edit", Gemini "replace", Copilot "edit", Cursor "search_replace"
   const isEdit =
     (toolUse.name === "Edit" ||
       toolUse.name === "edit" ||
-      toolUse.name === "replace") &&
+      toolUse.name === "replace" ||
+      toolUse.name === "search_replace") &&
     filePath !== undefined &&
     (toolUse.input.old_string !== undefined ||
       toolUse.input.old_text !== undefined ||
@@ -136,23 +140,39 @@ export default function ToolCallBlock({
       toolUse.input.new_text !== undefined ||
       toolUse.input.new_str !== undefined);
 
-  // Mistral Vibe "search_replace" uses SEARCH/REPLACE blocks in content
+  // Mistral Vibe and Aider "search_replace" use SEARCH/REPLACE blocks in content,
+  // Cline "replace_in_file" and Roo Code "apply_diff" in diff
+  const searchReplaceContent =
+    toolUse.name === "search_replace"
+      ? toolUse.input.content
+      : toolUse.name === "replace_in_file" || toolUse.name === "apply_diff"
+        ? toolUse.input.diff
+        : undefined;
   const isSearchReplace =
-    toolUse.name === "search_replace" &&
     filePath !== undefined &&
-    typeof toolUse.input.content === "string" &&
-    toolUse.input.content.includes("<<<<<<< SEARCH");
+    typeof searchReplaceContent === "string" &&
+    /(?:<<<<<<<|-------) SEARCH/.test(searchReplaceContent);
 
   const searchReplaceBlocks = isSearchReplace
-    ? parseSearchReplaceBlocks(toolUse.input.content)
+    ? parseSearchReplaceBlocks(searchReplaceContent)
     : [];
 
-  // Claude Code "Write", Gemini/Mistral Vibe "write_file"
+  // Claude Code "Write", Gemini/Mistral Vibe "write_file", Cline "write_to_file",
+  // OpenHands "write"
   const isWrite =
-    (toolUse.name === "Write" || toolUse.name === "write_file") &&
+    (toolUse.name === "Write" ||
+      toolUse.name === "write_file" ||
+      toolUse.name === "write_to_file" ||
+      toolUse.name === "write") &&
     filePath !== undefined &&
     toolUse.input.content !== undefined;
 
+  // Cursor "edit_file" sends a code sketch with "// ... existing code ..." markers
+  const isCodeEdit =
+    toolUse.name === "edit_file" &&
+    filePath !== undefined &&
+    typeof toolUse.input.code_edit === "string";
+
   // Codex "apply_patch"
   const isApplyPatch =
     toolUse.name === "apply_patch" &&
@@ -160,10 +180,24 @@ export default function ToolCallBlock({
     typeof toolUse.input.input === "string";
 
   const [isOpen, setIsOpen] = useState(
-    isTodoList || isEdit || isWrite || isApplyPatch || isSearchReplace,
+    isTodoList ||
+      isEdit ||
+      isWrite ||
+      isCodeEdit ||
+      isApplyPatch ||
+      isSearchReplace,
   );
   const preview = getToolPreview(toolUse.name, toolUse.input, cwd);
-  const isShellLikeTool = toolUse.name === "shell" || toolUse.name === "bash";
+  const toolFilePath = getToolFilePath(toolUse.name, toolUse.input);
+  const fileUrl = toolFilePath
+    ? getRepositoryFileUrl(git, toolFilePath, cwd)
+    : null;
+  const isShellLikeTool =
+    toolUse.name === "shell" ||
+    toolUse.name === "bash" ||
+    toolUse.name === "run_terminal_cmd" ||
+    toolUse.name === "execute_command" ||
+    toolUse.name === "run";
 
   const getTitle = () => {
     // Shell tools: show command directly without tool name prefix
@@ -173,15 +207,28 @@ export default function ToolCallBlock({
     return preview ? `${toolUse.name}: ${preview}` : toolUse.name;
   };
 
+  const renderHeader = (className?: string) => {
+    const header = (
+      <ToolHeader
+        title={getTitle()}
+        type="tool-call"
+        state="output-available"
+        className={className}
+      />
+    );
+    if (!fileUrl) return header;
+    return (
+      <div className="flex items-center pr-3">
+        <div className="min-w-0 flex-1">{header}</div>
+        <RepositoryFileLink href={fileUrl} />
+      </div>
+    );
+  };
+
   if (isTodoList) {
     return (
       <Tool open={isOpen} onOpenChange={setIsOpen}>
-        <ToolHeader
-          title={getTitle()}
-          type="tool-call"
-          state="output-available"
-          className={isShellLikeTool ? "[&_span]:font-mono" : undefined}
-        />
+        {renderHeader(isShellLikeTool ? "[&_span]:font-mono" : undefined)}
         <ToolContent>
           <div className="p-4 space-y-3">
             <TodoListBlock todos={todoList} />
@@ -192,8 +239,8 @@ export default function ToolCallBlock({
     );
   }
 
-  if (isEdit || isWrite) {
-    const displayFilePath = toolUse.input.file_path || toolUse.input.path;
+  if (isEdit || isWrite || isCodeEdit) {
+    const displayFilePath = filePath;
     const oldString = isEdit
       ? toolUse.input.old_string ||
         toolUse.input.old_text ||
@@ -205,21 +252,20 @@ export default function ToolCallBlock({
         toolUse.input.new_text ||
         toolUse.input.new_str ||
         ""
-      : toolUse.input.content;
+      : isCodeEdit
+        ? toolUse.input.code_edit
+        : toolUse.input.content;
 
     return (
       <Tool open={isOpen} onOpenChange={setIsOpen}>
-        <ToolHeader
-          title={getTitle()}
-          type="tool-call"
-          state="output-available"
-        />
+        {renderHeader()}
         <ToolContent>
           <DiffView
             filePath={displayFilePath}
             oldString={oldString}
             newString={newString}
             cwd={cwd}
+            git={git}
           />
           <ToolResultsList results={toolResults} />
         </ToolContent>
@@ -230,13 +276,13 @@ export default function ToolCallBlock({
   if (isApplyPatch) {
     return (
       <Tool open={isOpen} onOpenChange={setIsOpen}>
-        <ToolHeader
-          title={getTitle()}
-          type="tool-call"
-          state="output-available"
-        />
+        {renderHeader()}
         <ToolContent>
-          <PatchDiffView patchContent={toolUse.input.input} cwd={cwd} />
+          <PatchDiffView
+            patchContent={toolUse.input.input}
+            cwd={cwd}
+            git={git}
+          />
           <ToolResultsList results={toolResults} />
         </ToolContent>
       </Tool>
@@ -248,11 +294,7 @@ export default function ToolCallBlock({
     if (searchReplaceBlocks.length > 0) {
       return (
         <Tool open={isOpen} onOpenChange={setIsOpen}>
-          <ToolHeader
-            title={getTitle()}
-            type="tool-call"
-            state="output-available"
-          />
+          {renderHeader()}
           <ToolContent>
             {searchReplaceBlocks.map((block, index) => (
               <DiffView
@@ -261,6 +303,7 @@ export default function ToolCallBlock({
                 oldString={block.oldText}
                 newString={block.newText}
                 cwd={cwd}
+                git={git}
               />
             ))}
             <ToolResultsList results={toolResults} />
@@ -271,18 +314,14 @@ export default function ToolCallBlock({
     // Malformed search_replace content - show raw content with warning
     return (
       <Tool open={isOpen} onOpenChange={setIsOpen}>
-        <ToolHeader
-          title={getTitle()}
-          type="tool-call"
-          state="output-available"
-        />
+        {renderHeader()}
         <ToolContent>
           <div className="p-4 space-y-2">
             <p className="text-xs text-muted-foreground">
               Could not parse SEARCH/REPLACE blocks
             </p>
             <pre className="whitespace-pre-wrap text-xs font-mono bg-muted/50 p-2 rounded-md overflow-x-auto">
-              {toolUse.input.content}
+              {searchReplaceContent}
             </pre>
           </div>
           <ToolResultsList results={toolResults} />
@@ -291,10 +330,13 @@ export default function ToolCallBlock({
     );
   }
 
-  // Only show parameters if >1 arg (single args already in header preview)
+  // Only show parameters if >1 arg, or a single arg the header preview doesn't show
+  // (e.g. Cline "attempt_completion" result)
   const inputKeys = Object.keys(toolUse.input || {});
-  const showParameters = inputKeys.length > 1;
-  const hasExpandableContent = showParameters || toolResults.length > 0;
+  const showParameters =
+    inputKeys.length > 1 || (inputKeys.length === 1 && preview === null);
+  const hasExpandableContent =
+    showParameters || toolResults.length > 0 || subagentThread !== undefined;
 
   if (!hasExpandableContent) {
     return (
@@ -311,6 +353,7 @@ export default function ToolCallBlock({
               <CheckCircleIcon className="size-4 text-green-600" />
               Completed
             </Badge>
+            {fileUrl && <RepositoryFileLink href={fileUrl} />}
           </div>
         </div>
       </div>
@@ -319,14 +362,10 @@ export default function ToolCallBlock({
 
   return (
     <Tool open={isOpen} onOpenChange={setIsOpen}>
-      <ToolHeader
-        title={getTitle()}
-        type="tool-call"
-        state="output-available"
-        className={isShellLikeTool ? "[&_span]:font-mono" : undefined}
-      />
+      {renderHeader(isShellLikeTool ? "[&_span]:font-mono" : undefined)}
       <ToolContent>
         {showParameters && <ToolInput input={toolUse.input} cwd={cwd} />}
+        {subagentThread}
         <ToolResultsList results={toolResults} />
       </ToolContent>
     </Tool>
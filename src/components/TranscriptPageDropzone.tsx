@@ -3,6 +3,9 @@
 import { Loader2, Upload } from "lucide-react";
 import { useCallback, useState } from "react";
 import { useDropzone } from "react-dropzone";
+import { getMatchedRules } from "@/components/RedactionRuleSummary";
+import UploadPublished from "@/components/UploadPublished";
+import UploadReview from "@/components/UploadReview";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import {
   AlertDialog,
@@ -15,6 +18,9 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { useTranscriptUpload } from "@/hooks/useTranscriptUpload";
+import type { RedactionRuleMatches } from "@/lib/redaction-rules";
+import { formatMegabytes, MAX_UPLOAD_BYTES } from "@/lib/upload-limits";
+import type { ReviewDecisions, StagedUploadReview } from "@/lib/upload-review";
 
 interface TranscriptPageDropzoneProps {
   children: React.ReactNode;
@@ -27,61 +33,113 @@ export default function TranscriptPageDropzone({
   isAuthenticated,
   csrfToken,
 }: TranscriptPageDropzoneProps) {
-  const { uploading, error, setError, uploadTranscript } = useTranscriptUpload(
-    isAuthenticated,
-    csrfToken,
-  );
-  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const {
+    uploading,
+    error,
+    setError,
+    uploadTranscript,
+    publishUpload,
+    discardUpload,
+  } = useTranscriptUpload(isAuthenticated, csrfToken);
+  const [pendingFiles, setPendingFiles] = useState<File[] | null>(null);
+  const [review, setReview] = useState<StagedUploadReview | null>(null);
+  const [published, setPublished] = useState<{
+    secretToken: string;
+    redactionRules: RedactionRuleMatches[];
+  } | null>(null);
+  const [anonymize, setAnonymize] = useState(true);
 
   const handleUpload = useCallback(async () => {
-    if (!pendingFile) {
+    if (!pendingFiles) {
       console.warn("handleUpload called with no pending file");
       return;
     }
 
     if (!isAuthenticated) {
       console.error("Session expired during upload", {
-        fileName: pendingFile.name,
+        fileName: pendingFiles[0]?.name,
       });
-      setPendingFile(null);
+      setPendingFiles(null);
       setError(
         "Your session has expired. Please refresh the page and sign in again.",
       );
       return;
     }
 
-    const result = await uploadTranscript(pendingFile);
+    const result = await uploadTranscript(pendingFiles, { anonymize });
 
-    if (result.success && result.secretToken) {
-      // Navigate to the new transcript
-      window.location.href = `/t/${result.secretToken}`;
+    if (result.review) {
+      setPendingFiles(null);
+      setReview(result.review);
+    } else if (result.success && result.secretToken) {
+      // Show what the redaction rules replaced, otherwise navigate to the
+      // new transcript
+      const redactionRules = getMatchedRules(result.redactionRules);
+      if (redactionRules.length > 0) {
+        setPendingFiles(null);
+        setPublished({ secretToken: result.secretToken, redactionRules });
+      } else {
+        window.location.href = `/t/${result.secretToken}`;
+      }
     } else if (result.error) {
       setError(result.error);
-      setPendingFile(null);
+      setPendingFiles(null);
     }
-  }, [pendingFile, isAuthenticated, uploadTranscript, setError]);
+  }, [pendingFiles, isAuthenticated, uploadTranscript, setError, anonymize]);
+
+  const handlePublish = useCallback(
+    async (decisions: ReviewDecisions) => {
+      if (!review) return;
+
+      const result = await publishUpload(review.stagedId, decisions);
+
+      if (result.success && result.secretToken) {
+        window.location.href = `/t/${result.secretToken}`;
+      } else if (result.error) {
+        setError(result.error);
+      }
+    },
+    [review, publishUpload, setError],
+  );
+
+  const handleCancel = useCallback(async () => {
+    if (!review) return;
+    setReview(null);
+    setError(null);
+    await discardUpload(review.stagedId);
+  }, [review, discardUpload, setError]);
 
   const onDrop = useCallback(
     async (acceptedFiles: File[]) => {
       const file = acceptedFiles[0];
       if (!file) return;
 
+      // Several files are a Claude Code session with its sub-agent files
+      const totalSize = acceptedFiles.reduce((sum, f) => sum + f.size, 0);
+
       // Basic validation for better UX
-      if (!file.name.endsWith(".jsonl") && !file.name.endsWith(".json")) {
-        setError("Please upload a .json or .jsonl transcript file");
+      if (
+        acceptedFiles.some(
+          (f) =>
+            !f.name.endsWith(".jsonl") &&
+            !f.name.endsWith(".json") &&
+            !f.name.endsWith(".md"),
+        )
+      ) {
+        setError("Please upload a .json, .jsonl or .md transcript file");
         return;
       }
 
-      const maxSizeBytes = 5 * 1024 * 1024;
-      if (file.size > maxSizeBytes) {
+      // Images are extracted on the server, which checks the text limit
+      if (totalSize > MAX_UPLOAD_BYTES) {
         setError(
-          `File size ${(file.size / 1024 / 1024).toFixed(2)}MB exceeds the 5MB limit.`,
+          `File size ${formatMegabytes(totalSize)} exceeds the ${formatMegabytes(MAX_UPLOAD_BYTES)} limit.`,
         );
         return;
       }
 
       setError(null);
-      setPendingFile(file);
+      setPendingFiles(acceptedFiles);
     },
     [setError],
   );
@@ -91,9 +149,9 @@ export default function TranscriptPageDropzone({
     accept: {
       "application/x-jsonl": [".jsonl"],
       "application/json": [".json", ".jsonl"],
+      "text/markdown": [".md"],
     },
-    maxFiles: 1,
-    disabled: uploading || !isAuthenticated,
+    disabled: uploading || !!review || !!published || !isAuthenticated,
     noClick: true, // Don't open file dialog on click
     noKeyboard: true, // Don't respond to keyboard
   });
@@ -118,14 +176,40 @@ export default function TranscriptPageDropzone({
                 Drop transcript here to upload
               </div>
               <div className="text-sm text-muted-foreground">
-                Upload a new transcript (JSON or JSONL file)
+                Upload a new transcript (JSON, JSONL or Markdown file)
               </div>
             </div>
           </div>
         )}
 
+        {/* Review overlay, for uploads with sensitive data findings */}
+        {review && (
+          <div className="fixed inset-0 z-50 bg-background/95 backdrop-blur-sm flex items-center justify-center p-4 overflow-y-auto">
+            <div className="w-full max-w-2xl bg-background">
+              <UploadReview
+                review={review}
+                publishing={uploading}
+                onPublish={handlePublish}
+                onCancel={handleCancel}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Published overlay, for uploads changed by the redaction rules */}
+        {published && (
+          <div className="fixed inset-0 z-50 bg-background/95 backdrop-blur-sm flex items-center justify-center p-4 overflow-y-auto">
+            <div className="w-full max-w-2xl bg-background">
+              <UploadPublished
+                secretToken={published.secretToken}
+                redactionRules={published.redactionRules}
+              />
+            </div>
+          </div>
+        )}
+
         {/* Uploading overlay */}
-        {uploading && (
+        {uploading && !review && !published && (
           // biome-ignore lint/a11y/useSemanticElements: <output> is for calculation results, not loading states
           <div
             className="fixed inset-0 z-50 bg-background/95 backdrop-blur-sm flex items-center justify-center"
@@ -153,10 +237,10 @@ export default function TranscriptPageDropzone({
 
       {/* Confirmation dialog */}
       <AlertDialog
-        open={!!pendingFile && !uploading}
+        open={!!pendingFiles && !uploading}
         onOpenChange={(open) => {
           if (!open) {
-            setPendingFile(null);
+            setPendingFiles(null);
             setError(null);
           }
         }}
@@ -165,14 +249,26 @@ export default function TranscriptPageDropzone({
           <AlertDialogHeader>
             <AlertDialogTitle>Upload New Transcript?</AlertDialogTitle>
             <AlertDialogDescription>
-              You're about to upload <strong>{pendingFile?.name}</strong>. This
-              will create a new transcript and navigate to it.
+              You're about to upload <strong>{pendingFiles?.[0]?.name}</strong>
+              {pendingFiles && pendingFiles.length > 1 && (
+                <> and {pendingFiles.length - 1} more</>
+              )}
+              . This will create a new transcript and navigate to it.
             </AlertDialogDescription>
           </AlertDialogHeader>
+          <label className="flex items-center gap-2 text-sm text-muted-foreground cursor-pointer">
+            <input
+              type="checkbox"
+              checked={anonymize}
+              onChange={(e) => setAnonymize(e.target.checked)}
+              className="size-4 accent-primary cursor-pointer"
+            />
+            Replace home directories, username and hostname
+          </label>
           <AlertDialogFooter>
             <AlertDialogCancel
               onClick={() => {
-                setPendingFile(null);
+                setPendingFiles(null);
                 setError(null);
               }}
             >
@@ -5,6 +5,7 @@ import {
   BarChart3,
   Bot,
   Check,
+  GitBranch,
   Hammer,
   Pencil,
   Share2,
@@ -31,92 +32,30 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { addCsrfToken, useCsrfToken } from "@/hooks/useCsrfToken";
+import { getRepositoryRefUrl, parseRepositoryUrl } from "@/lib/git-utils";
+import { getContextSeries, getContextUsage } from "@/lib/models";
+import { estimateLineCost, formatUsd } from "@/lib/pricing";
 import {
   getAssistantIconPath,
   getShortAssistantName,
 } from "@/lib/source-utils";
+import {
+  getTurnUsage,
+  isBashOutputMessage,
+  isBracketSystemMessage,
+  isSystemMessageToHide,
+  isToolResultMessage,
+} from "@/lib/transcript-utils";
 import type { ParsedTranscript, TranscriptMetadata } from "@/types/transcript";
+import ContextGauge from "./ContextGauge";
+import ContextSparkline from "./ContextSparkline";
+import DownloadMenu from "./DownloadMenu";
 import FloatingTOC from "./FloatingTOC";
 import MessageRenderer from "./MessageRenderer";
-
-// System XML tags to hide (IDE notifications, hooks, etc.)
-const SYSTEM_XML_TAGS = [
-  "ide_opened_file",
-  "ide_selection",
-  "ide_diagnostics",
-  "post-tool-use-hook",
-  "system-reminder",
-  "user-prompt-submit-hook",
-  "local-command-stdout",
-  "environment_context",
-] as const;
-
-// Helper functions for message type checking
-function isToolResultMessage(content: unknown): boolean {
-  return (
-    Array.isArray(content) &&
-    content.length > 0 &&
-    content.every((block) => block.type === "tool_result")
-  );
-}
-
-function isBashOutputMessage(content: unknown): boolean {
-  return (
-    Array.isArray(content) &&
-    content.length > 0 &&
-    content.every(
-      (block) => block.type === "bash-stdout" || block.type === "bash-stderr",
-    )
-  );
-}
-
-function isSystemMessageToHide(content: unknown): boolean {
-  if (typeof content === "string") {
-    const trimmed = content.trim();
-    if (trimmed.startsWith("Caveat:")) return true;
-    for (const tag of SYSTEM_XML_TAGS) {
-      if (trimmed.startsWith(`<${tag}>`)) return true;
-    }
-    return false;
-  }
-
-  if (Array.isArray(content) && content.length === 1) {
-    const block = content[0];
-    if (block.type === "text") {
-      const trimmed = block.text.trim();
-      if (trimmed.startsWith("Caveat:")) return true;
-      for (const tag of SYSTEM_XML_TAGS) {
-        if (trimmed.startsWith(`<${tag}>`)) return true;
-      }
-    }
-  }
-
-  return false;
-}
-
-function isBracketSystemMessage(content: unknown): {
-  isSystemMessage: boolean;
-  text: string;
-} {
-  if (typeof content === "string") {
-    const trimmed = content.trim();
-    if (trimmed.startsWith("[") && trimmed.endsWith("]")) {
-      return { isSystemMessage: true, text: trimmed };
-    }
-  }
-
-  if (Array.isArray(content) && content.length === 1) {
-    const block = content[0];
-    if (block.type === "text") {
-      const trimmed = block.text.trim();
-      if (trimmed.startsWith("[") && trimmed.endsWith("]")) {
-        return { isSystemMessage: true, text: trimmed };
-      }
-    }
-  }
-
-  return { isSystemMessage: false, text: "" };
-}
+import ParseDiagnosticsNotice from "./ParseDiagnosticsNotice";
+import SelectionRedactor from "./SelectionRedactor";
+import SystemEventDivider from "./SystemEventDivider";
+import TokenUsagePopover from "./TokenUsagePopover";
 
 interface TranscriptViewerProps {
   transcript: ParsedTranscript;
@@ -135,6 +74,7 @@ interface TranscriptViewerProps {
 function formatSource(source: string): string {
   const sourceMap: Record<string, string> = {
     "claude-code": "Claude Code",
+    "claude-agent-sdk": "Claude Agent SDK",
     "gemini-cli": "Gemini CLI",
     codex: "Codex",
     cli: "CLI",
@@ -266,6 +206,24 @@ export default function TranscriptViewer({
   const toolCallCount = cachedMetadata.toolCallCount;
   const modelStats = cachedMetadata.modelStats || [];
   const tokenCounts = cachedMetadata.tokenCounts;
+  const costEstimate = cachedMetadata.costEstimate;
+  const agentRun = cachedMetadata.agentRun;
+  const benchmark = cachedMetadata.benchmark;
+  const diagnostics = cachedMetadata.diagnostics ?? [];
+
+  // Repository, branch and commit the session ran against
+  const git = transcript.git;
+  const repository = git?.repositoryUrl
+    ? parseRepositoryUrl(git.repositoryUrl)
+    : null;
+  const gitRefUrl = getRepositoryRefUrl(git);
+  const gitLabel = [
+    repository?.name,
+    git?.branch,
+    git?.commit ? `@ ${git.commit.slice(0, 7)}` : undefined,
+  ]
+    .filter(Boolean)
+    .join(" ");
 
   // Extract user messages for TOC (only real user messages, excluding system messages and tool results)
   const tocItems = useMemo(() => {
@@ -324,6 +282,21 @@ export default function TranscriptViewer({
       });
   }, [transcript.messages]);
 
+  const turnUsage = useMemo(
+    () =>
+      getTurnUsage(
+        transcript,
+        tocItems.map((item) => item.index),
+        (line) => estimateLineCost(line, transcript.metadata.firstTimestamp),
+      ),
+    [transcript, tocItems],
+  );
+
+  const contextSeries = useMemo(
+    () => getContextSeries(transcript.messages),
+    [transcript.messages],
+  );
+
   return (
     <div className="min-h-screen bg-background">
       <div className="border-b bg-background shadow-sm">
@@ -409,11 +382,39 @@ export default function TranscriptViewer({
                 <span className="text-muted-foreground">
                   {formatSource(source)}
                 </span>
+                {gitLabel && (
+                  <>
+                    <span className="hidden sm:inline">•</span>
+                    {gitRefUrl ? (
+                      <a
+                        href={gitRefUrl}
+                        target="_blank"
+                        rel="nofollow noopener noreferrer"
+                        className="flex items-center gap-1 font-mono hover:text-foreground hover:underline"
+                        data-testid="git-context"
+                      >
+                        <GitBranch className="w-3.5 h-3.5" />
+                        {gitLabel}
+                      </a>
+                    ) : (
+                      <span
+                        className="flex items-center gap-1 font-mono"
+                        data-testid="git-context"
+                      >
+                        <GitBranch className="w-3.5 h-3.5" />
+                        {gitLabel}
+                      </span>
+                    )}
+                  </>
+                )}
                 {(userMessageCount !== undefined ||
                   assistantMessageCount !== undefined ||
                   toolCallCount !== undefined ||
                   modelStats.length > 0 ||
-                  tokenCounts) && (
+                  tokenCounts ||
+                  costEstimate ||
+                  agentRun ||
+                  benchmark) && (
                   <>
                     <span className="hidden sm:inline">•</span>
                     <Popover>
@@ -583,14 +584,185 @@ export default function TranscriptViewer({
                               </div>
                             </div>
                           )}
+
+                          {/* Estimated cost at list prices */}
+                          {costEstimate && (
+                            <div
+                              className="space-y-2"
+                              data-testid="stats-cost-section"
+                            >
+                              <div className="text-xs font-medium text-muted-foreground">
+                                Estimated cost
+                              </div>
+                              <div className="space-y-1.5 text-sm">
+                                {costEstimate.models.map((entry) => (
+                                  <div
+                                    key={entry.model}
+                                    className="flex items-center justify-between"
+                                  >
+                                    <span>{entry.model}</span>
+                                    <span className="font-mono text-muted-foreground">
+                                      {formatUsd(entry.costUsd)}
+                                    </span>
+                                  </div>
+                                ))}
+                                {costEstimate.unpricedModels && (
+                                  <div className="text-xs text-muted-foreground">
+                                    No price for{" "}
+                                    {costEstimate.unpricedModels.join(", ")}
+                                  </div>
+                                )}
+                                <div className="flex items-center justify-between border-t pt-1.5 mt-1.5 font-medium">
+                                  <span>Total</span>
+                                  <span className="font-mono">
+                                    {formatUsd(costEstimate.totalUsd)}
+                                  </span>
+                                </div>
+                                <div className="text-xs text-muted-foreground">
+                                  At list prices (catalog{" "}
+                                  {costEstimate.pricingVersion})
+                                </div>
+                              </div>
+                            </div>
+                          )}
+
+                          {/* Benchmark instance (SWE-agent, OpenHands) */}
+                          {benchmark && (
+                            <div
+                              className="space-y-2"
+                              data-testid="stats-benchmark-section"
+                            >
+                              <div className="text-xs font-medium text-muted-foreground">
+                                Benchmark
+                              </div>
+                              <div className="space-y-1.5 text-sm">
+                                {benchmark.instanceId && (
+                                  <div className="flex items-center justify-between gap-4">
+                                    <span>Instance</span>
+                                    <span className="font-mono truncate">
+                                      {benchmark.instanceId}
+                                    </span>
+                                  </div>
+                                )}
+                                {benchmark.resolved !== undefined && (
+                                  <div className="flex items-center justify-between">
+                                    <span>Status</span>
+                                    <span
+                                      className={
+                                        benchmark.resolved
+                                          ? "text-green-600 dark:text-green-400"
+                                          : "text-destructive"
+                                      }
+                                    >
+                                      {benchmark.resolved
+                                        ? "Resolved"
+                                        : "Unresolved"}
+                                    </span>
+                                  </div>
+                                )}
+                                {benchmark.exitStatus && (
+                                  <div className="flex items-center justify-between">
+                                    <span>Exit status</span>
+                                    <span className="font-mono">
+                                      {benchmark.exitStatus}
+                                    </span>
+                                  </div>
+                                )}
+                              </div>
+                            </div>
+                          )}
+
+                          {/* Headless run details (Claude Agent SDK) */}
+                          {agentRun && (
+                            <div
+                              className="space-y-2"
+                              data-testid="stats-run-section"
+                            >
+                              <div className="text-xs font-medium text-muted-foreground">
+                                Run
+                              </div>
+                              <div className="space-y-1.5 text-sm">
+                                {agentRun.totalCostUsd !== undefined && (
+                                  <div className="flex items-center justify-between">
+                                    <span>Cost</span>
+                                    <span className="font-mono">
+                                      ${agentRun.totalCostUsd.toFixed(4)}
+                                    </span>
+                                  </div>
+                                )}
+                                {agentRun.durationMs !== undefined && (
+                                  <div className="flex items-center justify-between">
+                                    <span>Duration</span>
+                                    <span className="font-mono">
+                                      {(agentRun.durationMs / 1000).toFixed(1)}s
+                                    </span>
+                                  </div>
+                                )}
+                                {agentRun.numTurns !== undefined && (
+                                  <div className="flex items-center justify-between">
+                                    <span>Turns</span>
+                                    <span className="font-mono">
+                                      {agentRun.numTurns}
+                                    </span>
+                                  </div>
+                                )}
+                                {agentRun.tools && (
+                                  <div className="flex items-center justify-between">
+                                    <span>Tools available</span>
+                                    <span className="font-mono">
+                                      {agentRun.tools.length}
+                                    </span>
+                                  </div>
+                                )}
+                                {agentRun.mcpServers &&
+                                  agentRun.mcpServers.length > 0 && (
+                                    <div className="flex items-start justify-between gap-4">
+                                      <span>MCP servers</span>
+                                      <span className="text-right text-muted-foreground">
+                                        {agentRun.mcpServers
+                                          .map((server) => server.name)
+                                          .join(", ")}
+                                      </span>
+                                    </div>
+                                  )}
+                                {agentRun.isError && (
+                                  <div className="text-destructive">
+                                    Run ended with an error
+                                  </div>
+                                )}
+                              </div>
+                            </div>
+                          )}
                         </div>
                       </PopoverContent>
                     </Popover>
                   </>
                 )}
+                {turnUsage.length > 0 && (
+                  <>
+                    <span className="hidden sm:inline">•</span>
+                    <TokenUsagePopover turns={turnUsage} prompts={tocItems} />
+                  </>
+                )}
+                {contextSeries.points.length > 0 && (
+                  <>
+                    <span className="hidden sm:inline">•</span>
+                    <ContextSparkline
+                      points={contextSeries.points}
+                      compactions={contextSeries.compactions}
+                    />
+                  </>
+                )}
+                {isOwner && diagnostics.length > 0 && (
+                  <>
+                    <span className="hidden sm:inline">•</span>
+                    <ParseDiagnosticsNotice diagnostics={diagnostics} />
+                  </>
+                )}
               </div>
             </div>
             <div className="flex items-center gap-2">
+              <DownloadMenu secretToken={secretToken} />
               <Button
                 onClick={handleShareClick}
                 variant={copied ? "default" : "default"}
@@ -629,153 +801,158 @@ export default function TranscriptViewer({
         {/* Main content area */}
         <div className="flex-1 lg:max-w-none min-w-0">
           <div className="container mx-auto px-4 py-8 max-w-4xl lg:pr-8">
-            <div className="space-y-6">
-              {transcript.messages.map((line, idx) => {
-                // Handle system events first (they don't have a message)
-                if (line.type === "system_event" && line.systemEvent) {
-                  if (line.systemEvent.eventType === "model_change") {
+            <SelectionRedactor enabled={isOwner} secretToken={secretToken}>
+              <div className="space-y-6">
+                {transcript.messages.map((line, idx) => {
+                  // Handle system events first (they don't have a message)
+                  if (line.type === "system_event" && line.systemEvent) {
                     return (
-                      <div
+                      <SystemEventDivider
                         key={line.uuid || idx}
-                        className="flex items-center gap-4 py-2"
-                      >
-                        <div className="flex-1 h-px bg-border" />
-                        <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                          <Bot className="w-3 h-3" />
-                          <span>
-                            Model changed to {line.systemEvent.data.newModel}
-                          </span>
-                        </div>
-                        <div className="flex-1 h-px bg-border" />
-                      </div>
+                        event={line.systemEvent}
+                        timestamp={line.timestamp || undefined}
+                      />
                     );
                   }
-                  return null;
-                }
 
-                if (!line.message) return null;
+                  if (!line.message) return null;
 
-                const isUser = line.message.role === "user";
+                  const isUser = line.message.role === "user";
+                  const contextUsage = isUser ? null : getContextUsage(line);
 
-                // Check if this message is a tool result or bash output (should be grouped with parent)
-                const shouldGroupWithParent =
-                  isUser &&
-                  (isToolResultMessage(line.message.content) ||
-                    isBashOutputMessage(line.message.content));
+                  // Check if this message is a tool result or bash output (should be grouped with parent)
+                  const shouldGroupWithParent =
+                    isUser &&
+                    (isToolResultMessage(line.message.content) ||
+                      isBashOutputMessage(line.message.content));
 
-                // Skip rendering tool results and bash outputs separately - they'll be rendered with their parent
-                if (shouldGroupWithParent) {
-                  return null;
-                }
+                  // Skip rendering tool results and bash outputs separately - they'll be rendered with their parent
+                  if (shouldGroupWithParent) {
+                    return null;
+                  }
 
-                // Find child messages that should be grouped with this message
-                const childMessages = transcript.messages.filter((msg) => {
-                  if (!msg.message || msg.parentUuid !== line.uuid)
-                    return false;
+                  // Find child messages that should be grouped with this message
+                  const childMessages = transcript.messages.filter((msg) => {
+                    if (!msg.message || msg.parentUuid !== line.uuid)
+                      return false;
 
-                  const isChildUser = msg.message.role === "user";
-                  return (
-                    isChildUser &&
-                    (isToolResultMessage(msg.message.content) ||
-                      isBashOutputMessage(msg.message.content))
-                  );
-                });
+                    const isChildUser = msg.message.role === "user";
+                    return (
+                      isChildUser &&
+                      (isToolResultMessage(msg.message.content) ||
+                        isBashOutputMessage(msg.message.content))
+                    );
+                  });
 
-                // Check if this is a system message to hide (Caveat or IDE notifications)
-                if (isUser && isSystemMessageToHide(line.message.content)) {
-                  return null;
-                }
+                  // Check if this is a system message to hide (Caveat or IDE notifications)
+                  if (isUser && isSystemMessageToHide(line.message.content)) {
+                    return null;
+                  }
 
-                // Check if this is a system-injected message like "[Request interrupted by user]"
-                const bracketMessage = isUser
-                  ? isBracketSystemMessage(line.message.content)
-                  : { isSystemMessage: false, text: "" };
+                  // Check if this is a system-injected message like "[Request interrupted by user]"
+                  const bracketMessage = isUser
+                    ? isBracketSystemMessage(line.message.content)
+                    : { isSystemMessage: false, text: "" };
 
-                // For system messages, render with special styling
-                if (bracketMessage.isSystemMessage) {
-                  return (
-                    <div key={line.uuid || idx} className="flex justify-center">
-                      <div className="bg-yellow-50 dark:bg-yellow-950/30 border border-yellow-200 dark:border-yellow-900 rounded-lg px-4 py-2 text-sm text-yellow-800 dark:text-yellow-200 italic flex items-center gap-2">
-                        <svg
-                          className="w-4 h-4 text-yellow-600 dark:text-yellow-400"
-                          fill="none"
-                          stroke="currentColor"
-                          viewBox="0 0 24 24"
-                        >
-                          <path
-                            strokeLinecap="round"
-                            strokeLinejoin="round"
-                            strokeWidth={2}
-                            d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
-                          />
-                        </svg>
-                        {bracketMessage.text}
-                        {line.timestamp && (
-                          <span className="text-xs opacity-70 ml-2">
-                            {format(new Date(line.timestamp), "HH:mm:ss")}
-                          </span>
-                        )}
+                  // For system messages, render with special styling
+                  if (bracketMessage.isSystemMessage) {
+                    return (
+                      <div
+                        key={line.uuid || idx}
+                        className="flex justify-center"
+                      >
+                        <div className="bg-yellow-50 dark:bg-yellow-950/30 border border-yellow-200 dark:border-yellow-900 rounded-lg px-4 py-2 text-sm text-yellow-800 dark:text-yellow-200 italic flex items-center gap-2">
+                          <svg
+                            className="w-4 h-4 text-yellow-600 dark:text-yellow-400"
+                            fill="none"
+                            stroke="currentColor"
+                            viewBox="0 0 24 24"
+                          >
+                            <path
+                              strokeLinecap="round"
+                              strokeLinejoin="round"
+                              strokeWidth={2}
+                              d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
+                            />
+                          </svg>
+                          {bracketMessage.text}
+                          {line.timestamp && (
+                            <span className="text-xs opacity-70 ml-2">
+                              {format(new Date(line.timestamp), "HH:mm:ss")}
+                            </span>
+                          )}
+                        </div>
                       </div>
-                    </div>
-                  );
-                }
-
-                return (
-                  <Message
-                    key={line.uuid || idx}
-                    id={`message-${line.uuid}`}
-                    className="scroll-mt-24"
-                    from={isUser ? "user" : "assistant"}
-                  >
-                    <MessageContent
-                      variant="flat"
-                      className={
-                        isUser ? "!bg-accent !text-accent-foreground" : ""
-                      }
+                    );
+                  }
+
+                  return (
+                    <Message
+                      key={line.uuid || idx}
+                      id={`message-${line.uuid}`}
+                      data-message-index={idx}
+                      className="scroll-mt-24"
+                      from={isUser ? "user" : "assistant"}
                     >
-                      <div className="flex items-center gap-2 mb-2">
-                        {isUser ? (
-                          <>
-                            {userImage && (
+                      <MessageContent
+                        variant="flat"
+                        className={
+                          isUser ? "!bg-accent !text-accent-foreground" : ""
+                        }
+                      >
+                        <div className="flex items-center gap-2 mb-2">
+                          {isUser ? (
+                            <>
+                              {userImage && (
+                                <MessageAvatar
+                                  src={userImage}
+                                  name={githubUsername || "User"}
+                                  className="size-6"
+                                />
+                              )}
+                              <span className="text-xs font-medium opacity-70">
+                                {githubUsername || "User"}
+                              </span>
+                            </>
+                          ) : (
+                            <>
                               <MessageAvatar
-                                src={userImage}
-                                name={githubUsername || "User"}
+                                src={getAssistantIconPath(source)}
+                                name={getShortAssistantName(source)}
                                 className="size-6"
                               />
-                            )}
-                            <span className="text-xs font-medium opacity-70">
-                              {githubUsername || "User"}
+                              <span className="text-xs font-medium opacity-70">
+                                {getShortAssistantName(source)}
+                              </span>
+                            </>
+                          )}
+                          {line.timestamp && (
+                            <span className="text-xs opacity-50">
+                              {format(new Date(line.timestamp), "HH:mm:ss")}
                             </span>
-                          </>
-                        ) : (
-                          <>
-                            <MessageAvatar
-                              src={getAssistantIconPath(source)}
-                              name={getShortAssistantName(source)}
-                              className="size-6"
+                          )}
+                          {contextUsage && (
+                            <ContextGauge
+                              usage={contextUsage}
+                              model={line.message.model}
                             />
-                            <span className="text-xs font-medium opacity-70">
-                              {getShortAssistantName(source)}
-                            </span>
-                          </>
-                        )}
-                        {line.timestamp && (
-                          <span className="text-xs opacity-50">
-                            {format(new Date(line.timestamp), "HH:mm:ss")}
-                          </span>
-                        )}
-                      </div>
-                      <MessageRenderer
-                        message={line.message}
-                        isUser={isUser}
-                        childMessages={childMessages}
-                        cwd={transcript.cwd}
-                      />
-                    </MessageContent>
-                  </Message>
-                );
-              })}
-            </div>
+                          )}
+                        </div>
+                        <MessageRenderer
+                          message={line.message}
+                          isUser={isUser}
+                          childMessages={childMessages}
+                          cwd={transcript.cwd}
+                          git={transcript.git}
+                          subagents={transcript.subagents}
+                          assetBaseUrl={`/api/transcripts/${secretToken}/assets`}
+                        />
+                      </MessageContent>
+                    </Message>
+                  );
+                })}
+              </div>
+            </SelectionRedactor>
           </div>
         </div>
 
@@ -4,11 +4,17 @@ import { Loader2, Lock, Upload } from "lucide-react";
 import Link from "next/link";
 import { signIn } from "next-auth/react";
 import posthog from "posthog-js";
-import { useCallback } from "react";
+import { useCallback, useState } from "react";
 import { useDropzone } from "react-dropzone";
+import { getMatchedRules } from "@/components/RedactionRuleSummary";
+import UploadPublished from "@/components/UploadPublished";
+import UploadReview from "@/components/UploadReview";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { useTranscriptUpload } from "@/hooks/useTranscriptUpload";
+import type { RedactionRuleMatches } from "@/lib/redaction-rules";
+import { formatMegabytes, MAX_UPLOAD_BYTES } from "@/lib/upload-limits";
+import type { ReviewDecisions, StagedUploadReview } from "@/lib/upload-review";
 
 interface UploadDropzoneWithAuthProps {
   isAuthenticated: boolean;
@@ -19,10 +25,20 @@ export default function UploadDropzoneWithAuth({
   isAuthenticated,
   csrfToken,
 }: UploadDropzoneWithAuthProps) {
-  const { uploading, error, setError, uploadTranscript } = useTranscriptUpload(
-    isAuthenticated,
-    csrfToken,
-  );
+  const {
+    uploading,
+    error,
+    setError,
+    uploadTranscript,
+    publishUpload,
+    discardUpload,
+  } = useTranscriptUpload(isAuthenticated, csrfToken);
+  const [review, setReview] = useState<StagedUploadReview | null>(null);
+  const [published, setPublished] = useState<{
+    secretToken: string;
+    redactionRules: RedactionRuleMatches[];
+  } | null>(null);
+  const [anonymize, setAnonymize] = useState(true);
 
   const onDrop = useCallback(
     async (acceptedFiles: File[]) => {
@@ -33,28 +49,71 @@ export default function UploadDropzoneWithAuth({
       const file = acceptedFiles[0];
       if (!file) return;
 
+      // Several files are a Claude Code session with its sub-agent files
+      const totalSize = acceptedFiles.reduce((sum, f) => sum + f.size, 0);
+
       // Show validation errors immediately
-      if (!file.name.endsWith(".jsonl") && !file.name.endsWith(".json")) {
-        setError("Please upload a .json or .jsonl transcript file");
+      if (
+        acceptedFiles.some(
+          (f) =>
+            !f.name.endsWith(".jsonl") &&
+            !f.name.endsWith(".json") &&
+            !f.name.endsWith(".md"),
+        )
+      ) {
+        setError("Please upload a .json, .jsonl or .md transcript file");
         return;
       }
 
-      const maxSizeBytes = 5 * 1024 * 1024;
-      if (file.size > maxSizeBytes) {
+      // Images are extracted on the server, which checks the text limit
+      if (totalSize > MAX_UPLOAD_BYTES) {
         setError(
-          `File size ${(file.size / 1024 / 1024).toFixed(2)}MB exceeds the 5MB limit.`,
+          `File size ${formatMegabytes(totalSize)} exceeds the ${formatMegabytes(MAX_UPLOAD_BYTES)} limit.`,
         );
         return;
       }
 
       posthog.capture("transcript_upload_initiated", {
         file_name: file.name,
-        file_size: file.size,
+        file_size: totalSize,
         file_type: file.type,
+        file_count: acceptedFiles.length,
       });
 
       // Upload immediately (no confirmation dialog on homepage)
-      const result = await uploadTranscript(file);
+      const result = await uploadTranscript(acceptedFiles, { anonymize });
+
+      if (result.review) {
+        posthog.capture("transcript_upload_review_shown", {
+          finding_count: result.review.findings.length,
+        });
+        setReview(result.review);
+      } else if (result.success && result.secretToken) {
+        // Show what the redaction rules replaced before moving on
+        const redactionRules = getMatchedRules(result.redactionRules);
+        if (redactionRules.length > 0) {
+          setPublished({ secretToken: result.secretToken, redactionRules });
+        } else {
+          window.location.href = `/t/${result.secretToken}`;
+        }
+      } else if (result.error) {
+        setError(result.error);
+      }
+    },
+    [isAuthenticated, uploadTranscript, setError, anonymize],
+  );
+
+  const handlePublish = useCallback(
+    async (decisions: ReviewDecisions) => {
+      if (!review) return;
+
+      posthog.capture("transcript_upload_review_published", {
+        finding_count: review.findings.length,
+        kept_count: decisions.keep.length,
+        custom_redaction_count: decisions.redactions.length,
+      });
+
+      const result = await publishUpload(review.stagedId, decisions);
 
       if (result.success && result.secretToken) {
         window.location.href = `/t/${result.secretToken}`;
@@ -62,19 +121,55 @@ export default function UploadDropzoneWithAuth({
         setError(result.error);
       }
     },
-    [isAuthenticated, uploadTranscript, setError],
+    [review, publishUpload, setError],
   );
 
+  const handleCancel = useCallback(async () => {
+    if (!review) return;
+    setReview(null);
+    setError(null);
+    await discardUpload(review.stagedId);
+  }, [review, discardUpload, setError]);
+
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
       "application/x-jsonl": [".jsonl"],
       "application/json": [".json", ".jsonl"],
+      "text/markdown": [".md"],
     },
-    maxFiles: 1,
     disabled: uploading,
   });
 
+  if (published) {
+    return (
+      <div className="w-full">
+        <UploadPublished
+          secretToken={published.secretToken}
+          redactionRules={published.redactionRules}
+        />
+      </div>
+    );
+  }
+
+  if (review) {
+    return (
+      <div className="w-full">
+        <UploadReview
+          review={review}
+          publishing={uploading}
+          onPublish={handlePublish}
+          onCancel={handleCancel}
+        />
+        {error && (
+          <Alert variant="destructive" className="mt-4">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+      </div>
+    );
+  }
+
   return (
     <div className="relative w-full">
       <div
@@ -118,7 +213,11 @@ export default function UploadDropzoneWithAuth({
               <div>
                 <div className="text-xl font-medium">Drop your transcript</div>
                 <div className="text-sm text-muted-foreground mt-2">
-                  or click to browse for a JSON or JSONL file
+                  or click to browse for a JSON, JSONL or Markdown file
+                </div>
+                <div className="text-xs text-muted-foreground mt-2">
+                  Drop several files at once to include Claude Code sub-agents
+                  (agent-*.jsonl) or every file of a resumed session
                 </div>
                 <div className="text-xs text-muted-foreground mt-4">
                   By uploading, you agree to the site's{" "}
@@ -174,6 +273,20 @@ export default function UploadDropzoneWithAuth({
         </div>
       )}
 
+      {isAuthenticated && (
+        <label className="flex items-center justify-center gap-2 mt-4 text-sm text-muted-foreground cursor-pointer">
+          <input
+            type="checkbox"
+            checked={anonymize}
+            onChange={(e) => setAnonymize(e.target.checked)}
+            disabled={uploading}
+            className="size-4 accent-primary cursor-pointer"
+            data-testid="anonymize-upload"
+          />
+          Replace home directories, username and hostname
+        </label>
+      )}
+
       {error && (
         <Alert variant="destructive" className="mt-4">
           <AlertDescription>{error}</AlertDescription>
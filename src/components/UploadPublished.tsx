@@ -0,0 +1,42 @@
+"use client";
+
+import { CheckCircle2 } from "lucide-react";
+import Link from "next/link";
+import RedactionRuleSummary from "@/components/RedactionRuleSummary";
+import { Button } from "@/components/ui/button";
+import type { RedactionRuleMatches } from "@/lib/redaction-rules";
+
+interface UploadPublishedProps {
+  secretToken: string;
+  redactionRules?: RedactionRuleMatches[];
+}
+
+/**
+ * Shown instead of redirecting right away when the uploader's redaction
+ * rules changed a transcript that was published without a review, so they
+ * see what was replaced
+ */
+export default function UploadPublished({
+  secretToken,
+  redactionRules,
+}: UploadPublishedProps) {
+  return (
+    <div
+      className="border rounded-xl p-6 text-left"
+      data-testid="upload-published"
+    >
+      <div className="flex items-start gap-3">
+        <CheckCircle2 className="w-6 h-6 text-primary flex-shrink-0 mt-0.5" />
+        <div>
+          <h2 className="text-xl font-semibold">Transcript published</h2>
+          <RedactionRuleSummary rules={redactionRules} />
+        </div>
+      </div>
+      <div className="flex justify-end mt-6">
+        <Button asChild>
+          <Link href={`/t/${secretToken}`}>View transcript</Link>
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+"use client";
+
+import { Loader2, ShieldAlert, X } from "lucide-react";
+import { useState } from "react";
+import RedactionRuleSummary from "@/components/RedactionRuleSummary";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type {
+  ReviewDecisions,
+  ReviewFinding,
+  StagedUploadReview,
+} from "@/lib/upload-review";
+
+interface UploadReviewProps {
+  review: StagedUploadReview;
+  publishing: boolean;
+  onPublish: (decisions: ReviewDecisions) => void;
+  onCancel: () => void;
+}
+
+const MIN_REDACTION_LENGTH = 3;
+
+function FindingRow({
+  finding,
+  kept,
+  onToggle,
+}: {
+  finding: ReviewFinding;
+  kept: boolean;
+  onToggle: () => void;
+}) {
+  return (
+    <li
+      className="p-4 flex items-start justify-between gap-4"
+      data-testid={`review-finding-${finding.id}`}
+    >
+      <div className="min-w-0 flex-1 space-y-2">
+        <div className="flex items-center gap-2 text-sm">
+          <Badge variant={finding.blocking ? "destructive" : "secondary"}>
+            {finding.label}
+          </Badge>
+          <span className="text-muted-foreground">
+            {finding.location
+              ? `Message ${finding.location.messageIndex + 1}${finding.location.role ? ` (${finding.location.role})` : ""}`
+              : "Outside the conversation"}
+          </span>
+        </div>
+        <p className="font-mono text-xs break-all text-muted-foreground">
+          {finding.context.before && <>…{finding.context.before}</>}
+          <mark
+            className={
+              kept
+                ? "bg-transparent text-foreground"
+                : "bg-destructive/15 text-destructive line-through"
+            }
+          >
+            {finding.quote}
+          </mark>
+          {finding.context.after && <>{finding.context.after}…</>}
+        </p>
+      </div>
+      {finding.blocking ? (
+        <span className="text-xs text-muted-foreground whitespace-nowrap pt-1">
+          Always redacted
+        </span>
+      ) : (
+        <Button
+          type="button"
+          variant={kept ? "outline" : "secondary"}
+          size="sm"
+          onClick={onToggle}
+          aria-pressed={kept}
+          aria-label={`${kept ? "Redact" : "Keep"} ${finding.label.toLowerCase()}`}
+        >
+          {kept ? "Kept" : "Redacted"}
+        </Button>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Review step of a two-phase upload: each finding is redacted unless the
+ * uploader keeps it (e.g. a test fixture key), and they can add their own
+ * redactions before the transcript is published
+ */
+export default function UploadReview({
+  review,
+  publishing,
+  onPublish,
+  onCancel,
+}: UploadReviewProps) {
+  const [kept, setKept] = useState<Set<string>>(() => new Set());
+  const [redactions, setRedactions] = useState<string[]>([]);
+  const [newRedaction, setNewRedaction] = useState("");
+
+  const toggleKept = (id: string) => {
+    setKept((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const trimmedRedaction = newRedaction.trim();
+  const addRedaction = () => {
+    if (
+      trimmedRedaction.length < MIN_REDACTION_LENGTH ||
+      redactions.includes(trimmedRedaction)
+    ) {
+      return;
+    }
+    setRedactions((prev) => [...prev, trimmedRedaction]);
+    setNewRedaction("");
+  };
+
+  const redactedCount =
+    review.findings.filter((f) => f.blocking || !kept.has(f.id)).length +
+    redactions.length;
+
+  return (
+    <div
+      className="border rounded-xl p-6 text-left"
+      data-testid="upload-review"
+    >
+      <div className="flex items-start gap-3 mb-4">
+        <ShieldAlert className="w-6 h-6 text-destructive flex-shrink-0 mt-0.5" />
+        <div>
+          <h2 className="text-xl font-semibold">Review before publishing</h2>
+          <p className="text-sm text-muted-foreground mt-1">
+            Found {review.findings.length} possible{" "}
+            {review.findings.length === 1 ? "secret" : "secrets"} or personal
+            details. Each one is redacted unless you keep it.
+          </p>
+          <RedactionRuleSummary rules={review.redactionRules} />
+        </div>
+      </div>
+
+      <ul className="border rounded-lg divide-y max-h-96 overflow-y-auto">
+        {review.findings.map((finding) => (
+          <FindingRow
+            key={finding.id}
+            finding={finding}
+            kept={kept.has(finding.id)}
+            onToggle={() => toggleKept(finding.id)}
+          />
+        ))}
+      </ul>
+
+      <div className="mt-6">
+        <label htmlFor="custom-redaction" className="text-sm font-medium">
+          Redact something else
+        </label>
+        <div className="flex gap-2 mt-2">
+          <Input
+            id="custom-redaction"
+            value={newRedaction}
+            onChange={(e) => setNewRedaction(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                addRedaction();
+              }
+            }}
+            placeholder="Text to redact everywhere in the transcript"
+            disabled={publishing}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            onClick={addRedaction}
+            disabled={
+              publishing || trimmedRedaction.length < MIN_REDACTION_LENGTH
+            }
+          >
+            Add
+          </Button>
+        </div>
+        {redactions.length > 0 && (
+          <ul className="flex flex-wrap gap-2 mt-3">
+            {redactions.map((text) => (
+              <li key={text}>
+                <Badge variant="outline" className="font-mono">
+                  {text}
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setRedactions((prev) => prev.filter((r) => r !== text))
+                    }
+                    className="cursor-pointer hover:text-destructive"
+                    aria-label={`Remove redaction ${text}`}
+                  >
+                    <X />
+                  </button>
+                </Badge>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="flex items-center justify-end gap-2 mt-6">
+        <Button
+          type="button"
+          variant="ghost"
+          onClick={onCancel}
+          disabled={publishing}
+        >
+          Cancel upload
+        </Button>
+        <Button
+          type="button"
+          onClick={() => onPublish({ keep: [...kept], redactions })}
+          disabled={publishing}
+          data-testid="publish-upload"
+        >
+          {publishing && <Loader2 className="w-4 h-4 animate-spin" />}
+          Publish with {redactedCount}{" "}
+          {redactedCount === 1 ? "redaction" : "redactions"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -109,6 +109,22 @@ describe("ToolCallBlock - getToolPreview", () => {
       });
       expect(preview).toBe("git add .");
     });
+
+    it("should treat execute_command (Cline) like Bash", () => {
+      const preview = getToolPreview("execute_command", {
+        command: "npm install && npm test",
+        requires_approval: "false",
+      });
+      expect(preview).toBe("npm install");
+    });
+
+    it("should treat run_terminal_cmd (Cursor) like Bash", () => {
+      const preview = getToolPreview("run_terminal_cmd", {
+        command: "npm run test && echo done",
+        is_background: false,
+      });
+      expect(preview).toBe("npm run test");
+    });
   });
 
   describe("TodoWrite tool", () => {
@@ -223,6 +239,31 @@ describe("ToolCallBlock - getToolPreview", () => {
       });
       expect(preview).toBe("/path/to/edit.txt");
     });
+
+    it("should show target file for edit_file (Cursor)", () => {
+      const preview = getToolPreview(
+        "edit_file",
+        { target_file: "/project/src/app.ts", code_edit: "..." },
+        "/project",
+      );
+      expect(preview).toBe("src/app.ts");
+    });
+
+    it("should show path for replace_in_file (Cline)", () => {
+      const preview = getToolPreview(
+        "replace_in_file",
+        { path: "/project/src/app.ts", diff: "..." },
+        "/project",
+      );
+      expect(preview).toBe("src/app.ts");
+    });
+
+    it("should show target file for read_file (Cursor)", () => {
+      const preview = getToolPreview("read_file", {
+        target_file: "src/app.ts",
+      });
+      expect(preview).toBe("src/app.ts");
+    });
   });
 
   describe("Search tools", () => {
@@ -239,6 +280,14 @@ describe("ToolCallBlock - getToolPreview", () => {
       });
       expect(preview).toBe('"search term"');
     });
+
+    it("should show quoted query for codebase_search (Cursor)", () => {
+      const preview = getToolPreview("codebase_search", {
+        query: "timer component",
+        target_directories: [],
+      });
+      expect(preview).toBe('"timer component"');
+    });
   });
 
   describe("Other tools", () => {
@@ -1,5 +1,39 @@
 import { makeRelativePath } from "@/lib/path-utils";
 
+// Tools whose preview is the file they read or write
+const FILE_TOOLS = new Set([
+  "Read",
+  "read_file",
+  "view", // Copilot CLI
+  "read", // OpenHands
+  "Write",
+  "write_file",
+  "Edit",
+  "edit", // Copilot CLI
+  "edit_file", // Cursor
+  "delete_file", // Cursor
+  "replace",
+  "search_replace",
+  "write", // OpenHands
+  "write_to_file", // Cline
+  "replace_in_file", // Cline
+  "apply_diff", // Roo Code
+]);
+
+/**
+ * Get the file a tool call reads or writes, as recorded in its input
+ * Used to link the header preview to the file in the repository
+ */
+export function getToolFilePath(
+  toolName: string,
+  // biome-ignore lint/suspicious/noExplicitAny: Tool input types are dynamic
+  input: Record<string, any>,
+): string | null {
+  if (!FILE_TOOLS.has(toolName)) return null;
+  const filePath = input.file_path || input.path || input.target_file; // Cursor
+  return typeof filePath === "string" ? filePath : null;
+}
+
 /**
  * Get a preview string for a tool call to display in the UI
  * This function extracts the most relevant information from tool inputs
@@ -15,23 +49,34 @@ export function getToolPreview(
     case "Read":
     case "read_file":
     case "view": // Copilot CLI
+    case "read": // OpenHands
       return input.file_path
         ? makeRelativePath(input.file_path, cwd)
         : input.path
           ? makeRelativePath(input.path, cwd)
-          : null;
+          : input.target_file // Cursor
+            ? makeRelativePath(input.target_file, cwd)
+            : null;
 
     case "Write":
     case "write_file":
     case "Edit":
     case "edit": // Copilot CLI
+    case "edit_file": // Cursor
+    case "delete_file": // Cursor
     case "replace":
     case "search_replace":
+    case "write": // OpenHands
+    case "write_to_file": // Cline
+    case "replace_in_file": // Cline
+    case "apply_diff": // Roo Code
       return input.file_path
         ? makeRelativePath(input.file_path, cwd)
         : input.path
           ? makeRelativePath(input.path, cwd)
-          : null;
+          : input.target_file
+            ? makeRelativePath(input.target_file, cwd)
+            : null;
 
     case "Glob":
       return input.pattern || null;
@@ -40,8 +85,26 @@ export function getToolPreview(
     case "grep":
       return input.pattern ? `"${input.pattern}"` : null;
 
+    case "grep_search": // Cursor
+    case "codebase_search": // Cursor
+      return input.query ? `"${input.query}"` : null;
+
+    case "search_files": // Cline
+      return input.regex ? `"${input.regex}"` : null;
+
+    case "list_dir": // Cursor
+      return input.relative_workspace_path
+        ? makeRelativePath(input.relative_workspace_path, cwd)
+        : null;
+
     case "Bash":
-    case "bash": {
+    case "bash":
+    // Cursor
+    case "run_terminal_cmd":
+    // Cline
+    case "execute_command":
+    // OpenHands
+    case "run": {
       if (!input.command) return null;
       const cmd = input.command as string;
       const trimmed = cmd.trim();
@@ -71,6 +134,7 @@ export function getToolPreview(
     }
 
     case "WebFetch":
+    case "browse": // OpenHands
       return input.url || null;
 
     case "Task":
@@ -79,6 +143,9 @@ export function getToolPreview(
     case "SlashCommand":
       return input.command || null;
 
+    case "ask_followup_question": // Cline
+      return input.question || null;
+
     case "TodoWrite":
     case "todo":
       if (input.todos && Array.isArray(input.todos)) {
@@ -2,18 +2,36 @@
 
 import { useCallback, useState } from "react";
 import { addCsrfToken } from "@/hooks/useCsrfToken";
+import type { RedactionRuleMatches } from "@/lib/redaction-rules";
+import { combineSessionFiles, type SessionFile } from "@/lib/session-files";
+import { formatMegabytes, MAX_UPLOAD_BYTES } from "@/lib/upload-limits";
+import type { ReviewDecisions, StagedUploadReview } from "@/lib/upload-review";
 
 interface UploadResult {
   success: boolean;
   secretToken?: string;
+  review?: StagedUploadReview; // Set when findings need review before publishing
+  redactionRules?: RedactionRuleMatches[]; // Matches of the uploader's rules when published right away
   error?: string;
 }
 
+interface UploadOptions {
+  anonymize?: boolean; // Anonymize home directories, username and hostname (default true)
+}
+
 interface UseTranscriptUploadReturn {
   uploading: boolean;
   error: string | null;
   setError: (error: string | null) => void;
-  uploadTranscript: (file: File) => Promise<UploadResult>;
+  uploadTranscript: (
+    files: File[],
+    options?: UploadOptions,
+  ) => Promise<UploadResult>;
+  publishUpload: (
+    stagedId: string,
+    decisions: ReviewDecisions,
+  ) => Promise<UploadResult>;
+  discardUpload: (stagedId: string) => Promise<void>;
 }
 
 export function useTranscriptUpload(
@@ -24,11 +42,17 @@ export function useTranscriptUpload(
   const [error, setError] = useState<string | null>(null);
 
   const uploadTranscript = useCallback(
-    async (file: File): Promise<UploadResult> => {
+    async (
+      files: File[],
+      options: UploadOptions = {},
+    ): Promise<UploadResult> => {
+      const file = files[0];
+      const totalSize = files.reduce((sum, f) => sum + f.size, 0);
+
       if (!isAuthenticated) {
         console.error("Upload attempted while not authenticated", {
-          fileName: file.name,
-          fileSize: file.size,
+          fileName: file?.name,
+          fileSize: totalSize,
         });
         return {
           success: false,
@@ -36,20 +60,32 @@ export function useTranscriptUpload(
         };
       }
 
-      // Validate file extension
-      if (!file.name.endsWith(".jsonl") && !file.name.endsWith(".json")) {
+      if (!file) {
+        return { success: false, error: "No file selected" };
+      }
+
+      // Validate file extension (.md is Aider's markdown chat history)
+      const isMarkdown = files.length === 1 && file.name.endsWith(".md");
+      if (
+        files.some(
+          (f) =>
+            !f.name.endsWith(".jsonl") &&
+            !f.name.endsWith(".json") &&
+            !f.name.endsWith(".md"),
+        )
+      ) {
         return {
           success: false,
-          error: "Please upload a .json or .jsonl transcript file",
+          error: "Please upload a .json, .jsonl or .md transcript file",
         };
       }
 
-      // Validate file size (5MB limit)
-      const maxSizeBytes = 5 * 1024 * 1024;
-      if (file.size > maxSizeBytes) {
+      // Validate file size across all files; images are extracted on the
+      // server, which checks the transcript text limit
+      if (totalSize > MAX_UPLOAD_BYTES) {
         return {
           success: false,
-          error: `File size ${(file.size / 1024 / 1024).toFixed(2)}MB exceeds the 5MB limit.`,
+          error: `File size ${formatMegabytes(totalSize)} exceeds the ${formatMegabytes(MAX_UPLOAD_BYTES)} limit.`,
         };
       }
 
@@ -58,13 +94,16 @@ export function useTranscriptUpload(
 
       try {
         // Read file content
-        let text: string;
+        let sessionFiles: SessionFile[];
         try {
-          text = await file.text();
+          sessionFiles = await Promise.all(
+            files.map(async (f) => ({ name: f.name, content: await f.text() })),
+          );
         } catch (readError) {
           console.error("Failed to read file:", readError, {
             fileName: file.name,
-            fileSize: file.size,
+            fileCount: files.length,
+            fileSize: totalSize,
             fileType: file.type,
           });
           setUploading(false);
@@ -75,17 +114,49 @@ export function useTranscriptUpload(
           };
         }
 
-        // Validate JSON/JSONL format
-        try {
-          const trimmed = text.trim();
-
-          // Try parsing as single JSON object first (Gemini format)
-          if (trimmed.startsWith("{") && trimmed.endsWith("}")) {
-            try {
-              JSON.parse(trimmed);
-              // Valid single JSON object - no further validation needed
-            } catch {
-              // Not a valid single JSON object, try JSONL validation
+        // Validate JSON/JSONL format (markdown transcripts are validated when parsed)
+        for (const sessionFile of isMarkdown ? [] : sessionFiles) {
+          // Name the file in errors when several were uploaded
+          const where = files.length > 1 ? `${sessionFile.name}: ` : "";
+          try {
+            const trimmed = sessionFile.content.trim();
+
+            // Try parsing as single JSON object or array first (Gemini, Cline formats)
+            if (
+              (trimmed.startsWith("{") && trimmed.endsWith("}")) ||
+              (trimmed.startsWith("[") && trimmed.endsWith("]"))
+            ) {
+              try {
+                JSON.parse(trimmed);
+                // Valid single JSON object - no further validation needed
+              } catch {
+                // Not a valid single JSON object, try JSONL validation
+                const lines = trimmed.split("\n");
+                for (let i = 0; i < lines.length; i++) {
+                  const line = lines[i].trim();
+                  if (!line) continue; // Skip empty lines
+
+                  try {
+                    JSON.parse(line);
+                  } catch (lineError) {
+                    console.error(
+                      `JSONL validation failed at line ${i + 1}:`,
+                      lineError,
+                      {
+                        lineContent: line.substring(0, 100),
+                        fileName: sessionFile.name,
+                      },
+                    );
+                    setUploading(false);
+                    return {
+                      success: false,
+                      error: `${where}Invalid JSON at line ${i + 1}: ${lineError instanceof Error ? lineError.message : "Parse error"}. Content: ${line.substring(0, 50)}...`,
+                    };
+                  }
+                }
+              }
+            } else {
+              // Not a single JSON object, validate as JSONL
               const lines = trimmed.split("\n");
               for (let i = 0; i < lines.length; i++) {
                 const line = lines[i].trim();
@@ -99,65 +170,60 @@ export function useTranscriptUpload(
                     lineError,
                     {
                       lineContent: line.substring(0, 100),
-                      fileName: file.name,
+                      fileName: sessionFile.name,
                     },
                   );
                   setUploading(false);
                   return {
                     success: false,
-                    error: `Invalid JSON at line ${i + 1}: ${lineError instanceof Error ? lineError.message : "Parse error"}. Content: ${line.substring(0, 50)}...`,
+                    error: `${where}Invalid JSON at line ${i + 1}: ${lineError instanceof Error ? lineError.message : "Parse error"}. Content: ${line.substring(0, 50)}...`,
                   };
                 }
               }
             }
-          } else {
-            // Not a single JSON object, validate as JSONL
-            const lines = trimmed.split("\n");
-            for (let i = 0; i < lines.length; i++) {
-              const line = lines[i].trim();
-              if (!line) continue; // Skip empty lines
-
-              try {
-                JSON.parse(line);
-              } catch (lineError) {
-                console.error(
-                  `JSONL validation failed at line ${i + 1}:`,
-                  lineError,
-                  {
-                    lineContent: line.substring(0, 100),
-                    fileName: file.name,
-                  },
-                );
-                setUploading(false);
-                return {
-                  success: false,
-                  error: `Invalid JSON at line ${i + 1}: ${lineError instanceof Error ? lineError.message : "Parse error"}. Content: ${line.substring(0, 50)}...`,
-                };
-              }
-            }
+          } catch (validationError) {
+            console.error("JSON/JSONL validation error:", validationError, {
+              fileName: sessionFile.name,
+              fileSize: totalSize,
+            });
+            setUploading(false);
+            return {
+              success: false,
+              error:
+                validationError instanceof Error
+                  ? validationError.message
+                  : "Invalid JSON/JSONL file",
+            };
           }
-        } catch (validationError) {
-          console.error("JSON/JSONL validation error:", validationError, {
-            fileName: file.name,
-            fileSize: file.size,
-          });
+        }
+
+        // Merge sub-agent agent-*.jsonl files into their Claude Code session
+        // and bundle the files of a resumed session
+        let combined: SessionFile;
+        try {
+          combined = combineSessionFiles(sessionFiles);
+        } catch (combineError) {
           setUploading(false);
           return {
             success: false,
             error:
-              validationError instanceof Error
-                ? validationError.message
-                : "Invalid JSON/JSONL file",
+              combineError instanceof Error
+                ? combineError.message
+                : "Could not combine the selected files",
           };
         }
+        const text = combined.content;
 
         // Generate safe title (handle edge case of file named exactly ".jsonl" or ".json")
-        const rawTitle = file.name.replace(/\.(jsonl|json)$/i, "");
+        const rawTitle = combined.name.replace(/\.(jsonl|json|md)$/i, "");
         const title = rawTitle.substring(0, 200) || "Untitled";
 
-        // Upload to API
+        // Upload to API; findings come back for review instead of being
+        // scrubbed or rejecting the upload
+        const params = new URLSearchParams({ review: "true" });
+        if (options.anonymize === false) params.set("anonymize", "false");
         const response = await fetch(
-          "/api/transcripts",
+          `/api/transcripts?${params}`,
           addCsrfToken(csrfToken, {
             method: "POST",
             headers: {
@@ -193,7 +259,7 @@ export function useTranscriptUpload(
             statusText: response.statusText,
             errorData,
             fileName: file.name,
-            fileSize: file.size,
+            fileSize: totalSize,
             rateLimitHeaders: {
               limit: response.headers.get("X-RateLimit-Limit"),
               remaining: response.headers.get("X-RateLimit-Remaining"),
@@ -246,9 +312,18 @@ export function useTranscriptUpload(
 
         // Parse success response
         let secretToken: string;
+        let redactionRules: RedactionRuleMatches[] | undefined;
         try {
           const data = await response.json();
+
+          // Staged until the findings are reviewed
+          if (response.status === 202) {
+            setUploading(false);
+            return { success: true, review: data as StagedUploadReview };
+          }
+
           secretToken = data.secretToken;
+          redactionRules = data.redactionRules;
 
           if (!secretToken) {
             throw new Error("Server response missing secretToken");
@@ -268,12 +343,12 @@ export function useTranscriptUpload(
 
         // Don't set uploading to false on success - keep the animation
         // showing until redirect completes for better UX
-        return { success: true, secretToken };
+        return { success: true, secretToken, redactionRules };
       } catch (err) {
         // Catch any unexpected errors
         console.error("Unexpected upload error:", err, {
           fileName: file.name,
-          fileSize: file.size,
+          fileSize: totalSize,
           isAuthenticated,
           hasCsrfToken: !!csrfToken,
         });
@@ -310,5 +385,79 @@ export function useTranscriptUpload(
     [isAuthenticated, csrfToken],
   );
 
-  return { uploading, error, setError, uploadTranscript };
+  const publishUpload = useCallback(
+    async (
+      stagedId: string,
+      decisions: ReviewDecisions,
+    ): Promise<UploadResult> => {
+      setUploading(true);
+      setError(null);
+
+      try {
+        const response = await fetch(
+          `/api/uploads/${stagedId}`,
+          addCsrfToken(csrfToken, {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify(decisions),
+          }),
+        );
+        const data = await response.json().catch(() => null);
+
+        if (!response.ok || !data?.secretToken) {
+          console.error("Publish API error:", {
+            status: response.status,
+            errorData: data,
+          });
+          setUploading(false);
+          return {
+            success: false,
+            error:
+              data?.message ||
+              data?.error ||
+              `Publishing failed (${response.status})`,
+          };
+        }
+
+        // Keep the animation showing until redirect completes
+        return { success: true, secretToken: data.secretToken };
+      } catch (err) {
+        console.error("Unexpected publish error:", err, { stagedId });
+        setUploading(false);
+        return {
+          success: false,
+          error: "Network error. Please check your connection and try again.",
+        };
+      }
+    },
+    [csrfToken],
+  );
+
+  const discardUpload = useCallback(
+    async (stagedId: string) => {
+      try {
+        await fetch(
+          `/api/uploads/${stagedId}`,
+          addCsrfToken(csrfToken, {
+            method: "DELETE",
+          }),
+        );
+      } catch (err) {
+        // Staged uploads expire on their own
+        console.error("Failed to discard staged upload:", err, { stagedId });
+      }
+    },
+    [csrfToken],
+  );
+
+  return {
+    uploading,
+    error,
+    setError,
+    uploadTranscript,
+    publishUpload,
+    discardUpload,
+  };
 }
@@ -2,5 +2,18 @@ export async function register() {
   if (process.env.NEXT_RUNTIME === "nodejs") {
     const { registerOTel } = await import("./instrumentation.node");
     registerOTel();
+
+    // Not awaited, so the server doesn't wait for the migration to start
+    const { refreshCostEstimates } = await import("./lib/cost-estimates");
+    const { log } = await import("./lib/logger");
+    refreshCostEstimates()
+      .then((count) => {
+        if (count > 0) log.info("Cost estimates refreshed", { count });
+      })
+      .catch((error) => {
+        log.error("Failed to refresh cost estimates", {
+          errorMessage: error instanceof Error ? error.message : String(error),
+        });
+      });
   }
 }
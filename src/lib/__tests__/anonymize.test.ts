@@ -0,0 +1,202 @@
+import { createHash } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import { anonymizeTranscript, detectIdentity } from "../anonymize";
+import { parseJSONL } from "../parser";
+import { makeRelativePath } from "../path-utils";
+import { makeJsonlLine } from "../providers/__tests__/fixtures/transcript-factory";
+
+const CLAUDE_CODE = [
+  makeJsonlLine({
+    type: "user",
+    uuid: "u1",
+    parentUuid: null,
+    cwd: "/Users/alice/proj",
+    message: { role: "user", content: "Why does alice's build fail?" },
+  }),
+  makeJsonlLine({
+    type: "assistant",
+    uuid: "a1",
+    parentUuid: "u1",
+    cwd: "/Users/alice/proj",
+    message: {
+      role: "assistant",
+      content: [
+        {
+          type: "tool_use",
+          id: "toolu_1",
+          name: "Read",
+          input: { file_path: "/Users/alice/.zshrc" },
+        },
+      ],
+    },
+  }),
+  makeJsonlLine({
+    type: "user",
+    uuid: "u2",
+    parentUuid: "a1",
+    cwd: "/Users/alice/proj",
+    message: {
+      role: "user",
+      content: [
+        {
+          type: "tool_result",
+          tool_use_id: "toolu_1",
+          content: "alice@alices-mbp ~ % hostname\nAlices-MacBook-Pro.local",
+        },
+      ],
+    },
+  }),
+].join("\n");
+
+describe("detectIdentity", () => {
+  it("should find the username and hostnames", () => {
+    expect(detectIdentity(CLAUDE_CODE)).toEqual({
+      usernames: ["alice"],
+      hostnames: ["alices-mbp", "Alices-MacBook-Pro"],
+      rootHome: false,
+    });
+  });
+
+  it("should find Windows and Linux home directories", () => {
+    expect(
+      detectIdentity(
+        JSON.stringify({ a: "C:\\Users\\Bob\\src", b: "/home/carol/x" }),
+      ).usernames.sort(),
+    ).toEqual(["Bob", "carol"]);
+    expect(detectIdentity("/Users/Shared/x").usernames).toEqual([]);
+  });
+});
+
+describe("anonymizeTranscript", () => {
+  it("should replace home directories, username and hostname", () => {
+    const result = anonymizeTranscript(CLAUDE_CODE);
+
+    expect(result).not.toMatch(/alice/i);
+    expect(result).toContain('"cwd":"~/proj"');
+    expect(result).toContain('"file_path":"~/.zshrc"');
+    expect(result).toContain("Why does user's build fail?");
+    expect(result).toContain("user@host ~ % hostname\\nhost.local");
+    expect(parseJSONL(result).messages).toHaveLength(3);
+  });
+
+  it("should keep paths relative to the anonymized cwd", () => {
+    const parsed = parseJSONL(anonymizeTranscript(CLAUDE_CODE));
+
+    expect(parsed.cwd).toBe("~/proj");
+    expect(makeRelativePath("~/proj/src/index.ts", parsed.cwd)).toBe(
+      "src/index.ts",
+    );
+    expect(makeRelativePath("~/.zshrc", parsed.cwd)).toBe("~/.zshrc");
+  });
+
+  it("should anonymize Windows paths", () => {
+    const content = makeJsonlLine({
+      type: "user",
+      cwd: "C:\\Users\\Bob\\proj",
+      message: { role: "user", content: "See C:/Users/Bob/proj/a.ts" },
+    });
+
+    const result = anonymizeTranscript(content);
+
+    expect(result).toContain('"cwd":"~\\\\proj"');
+    expect(result).toContain("See ~/proj/a.ts");
+  });
+
+  it("should anonymize paths used as object keys", () => {
+    const result = anonymizeTranscript(
+      makeJsonlLine({
+        type: "file-history-snapshot",
+        messageId: "m1",
+        snapshot: {
+          trackedFileBackups: {
+            "/Users/alice/proj/src/index.ts": { version: 1 },
+          },
+        },
+      }),
+    );
+
+    expect(result).not.toMatch(/alice/i);
+    expect(result).toContain('"trackedFileBackups":{"~/proj/src/index.ts":');
+    expect(result).toContain('"type":"file-history-snapshot"');
+  });
+
+  it("should leave the username alone inside dotted and hyphenated names", () => {
+    const result = anonymizeTranscript(
+      makeJsonlLine({
+        cwd: "/Users/alice/proj",
+        text: "Cloned repo.alice from alice.example.com into alice-tools, see alice.txt. Thanks alice.",
+      }),
+    );
+
+    expect(result).toContain(
+      "Cloned repo.alice from alice.example.com into alice-tools, see alice.txt. Thanks user.",
+    );
+  });
+
+  it("should leave generic usernames alone outside paths", () => {
+    const result = anonymizeTranscript(
+      makeJsonlLine({
+        cwd: "/home/runner/work/app",
+        text: "the test runner failed",
+      }),
+    );
+
+    expect(result).toContain('"cwd":"~/work/app"');
+    expect(result).toContain("the test runner failed");
+  });
+
+  it("should leave content without identity and image data untouched", () => {
+    const plain = '{"type":"user", "text":"hello"}';
+    expect(anonymizeTranscript(plain)).toBe(plain);
+
+    const image = `iVBORw0KGgo${"+alice/".repeat(60)}`;
+    const result = anonymizeTranscript(
+      makeJsonlLine({ cwd: "/Users/alice/proj", data: image }),
+    );
+    expect(result).toContain(image);
+  });
+
+  it("should keep Gemini's project path inference working", () => {
+    const sha256 = (value: string) =>
+      createHash("sha256").update(value).digest("hex");
+    const session = JSON.stringify(
+      {
+        sessionId: "gemini-1",
+        projectHash: sha256("/Users/alice/dev/pomodoro"),
+        startTime: "2025-10-18T10:00:00.000Z",
+        lastUpdated: "2025-10-18T10:05:00.000Z",
+        messages: [
+          {
+            id: "msg-1",
+            timestamp: "2025-10-18T10:00:00.000Z",
+            type: "user",
+            content: "Fix the timer",
+          },
+          {
+            id: "msg-2",
+            timestamp: "2025-10-18T10:00:05.000Z",
+            type: "gemini",
+            content: "Reading the file",
+            toolCalls: [
+              {
+                id: "read_file-1",
+                name: "read_file",
+                args: { file_path: "/Users/alice/dev/pomodoro/index.html" },
+                status: "success",
+                timestamp: "2025-10-18T10:00:05.000Z",
+              },
+            ],
+          },
+        ],
+      },
+      null,
+      2,
+    );
+    expect(parseJSONL(session).cwd).toBe("/Users/alice/dev/pomodoro");
+
+    const result = anonymizeTranscript(session);
+
+    expect(result).not.toContain("alice");
+    expect(parseJSONL(result).cwd).toBe("~/dev/pomodoro");
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import {
+  extractImageAssets,
+  getAssetBytes,
+  INLINE_IMAGE_MAX_CHARS,
+  sniffImageType,
+} from "../assets";
+
+// Base64 of a PNG header padded to the size of a large screenshot
+const largePng = `iVBORw0KGgo${"A".repeat(INLINE_IMAGE_MAX_CHARS)}`;
+
+describe("sniffImageType", () => {
+  it("should recognize supported image formats", () => {
+    expect(sniffImageType("iVBORw0KGgoAAAA")).toBe("image/png");
+    expect(sniffImageType("/9j/4AAQSkZJRg")).toBe("image/jpeg");
+    expect(sniffImageType("R0lGODlhAQAB")).toBe("image/gif");
+    expect(sniffImageType("UklGRiQAAABXRUJQ")).toBe("image/webp");
+    expect(sniffImageType("JVBERi0xLjQ")).toBeNull(); // PDF
+  });
+});
+
+describe("extractImageAssets", () => {
+  it("should replace large base64 images with asset references", () => {
+    const line = JSON.stringify({
+      message: {
+        content: [
+          {
+            type: "image",
+            source: { type: "base64", media_type: "image/png", data: largePng },
+          },
+        ],
+      },
+    });
+
+    const { content, assets } = extractImageAssets(line);
+
+    expect(assets).toHaveLength(1);
+    expect(assets[0].mediaType).toBe("image/png");
+    expect(assets[0].hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(assets[0].data).toEqual(Buffer.from(largePng, "base64"));
+    expect(content).not.toContain(largePng);
+    expect(JSON.parse(content).message.content[0].source.data).toBe(
+      `ai-sessions-asset:${assets[0].hash}`,
+    );
+  });
+
+  it("should replace the payload of data URLs", () => {
+    const line = JSON.stringify({
+      type: "input_image",
+      image_url: `data:image/png;base64,${largePng}`,
+    });
+
+    const { content, assets } = extractImageAssets(line);
+
+    expect(assets).toHaveLength(1);
+    expect(JSON.parse(content).image_url).toBe(
+      `data:image/png;base64,ai-sessions-asset:${assets[0].hash}`,
+    );
+  });
+
+  it("should store repeated images once", () => {
+    const line = JSON.stringify({ data: largePng });
+    const { content, assets } = extractImageAssets(`${line}\n${line}`);
+
+    expect(assets).toHaveLength(1);
+    expect(content.split("\n")).toHaveLength(2);
+    expect(getAssetBytes(assets)).toBe(assets[0].data.length);
+  });
+
+  it("should keep small images and other base64 data in the transcript", () => {
+    const smallImage = JSON.stringify({ data: "iVBORw0KGgoAAAANSUhEUg==" });
+    const largePdf = JSON.stringify({
+      data: `JVBERi0${"A".repeat(INLINE_IMAGE_MAX_CHARS)}`,
+    });
+
+    expect(extractImageAssets(smallImage)).toEqual({
+      content: smallImage,
+      assets: [],
+    });
+    expect(extractImageAssets(largePdf)).toEqual({
+      content: largePdf,
+      assets: [],
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { makeJsonlLine } from "../providers/__tests__/fixtures/transcript-factory";
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: {
+    transcript: { findMany: vi.fn(), update: vi.fn() },
+  },
+}));
+
+vi.mock("../prisma", () => ({ prisma }));
+
+import { refreshCostEstimates } from "../cost-estimates";
+import { PRICING_VERSION } from "../pricing";
+
+const UPDATED_AT = new Date("2025-10-20T12:00:00.000Z");
+
+const transcriptWithUsage = (
+  id: string,
+  usage?: { input_tokens: number; output_tokens: number },
+) => ({
+  id,
+  source: "claude-code",
+  fileData: makeJsonlLine({
+    type: "assistant",
+    uuid: "a1",
+    parentUuid: null,
+    timestamp: "2025-10-20T10:00:00.000Z",
+    message: {
+      role: "assistant",
+      model: "claude-sonnet-4-5-20250929",
+      content: "Done",
+      usage,
+    },
+  }),
+  metadata: {
+    messageCount: 1,
+    costEstimate: {
+      pricingVersion: "2025-01-01",
+      totalUsd: 1,
+      models: [{ model: "claude-sonnet-4-5-20250929", costUsd: 1 }],
+    },
+  },
+  updatedAt: UPDATED_AT,
+});
+
+describe("refreshCostEstimates", () => {
+  beforeEach(() => {
+    prisma.transcript.findMany.mockReset();
+    prisma.transcript.update.mockReset();
+  });
+
+  it("should rewrite stale estimates and keep updatedAt", async () => {
+    prisma.transcript.findMany
+      .mockResolvedValueOnce([
+        transcriptWithUsage("t1", {
+          input_tokens: 1_000_000,
+          output_tokens: 0,
+        }),
+        transcriptWithUsage("t2"),
+      ])
+      .mockResolvedValueOnce([]);
+
+    const count = await refreshCostEstimates();
+
+    expect(count).toBe(2);
+    expect(prisma.transcript.findMany.mock.calls[1][0]).toMatchObject({
+      skip: 1,
+      cursor: { id: "t2" },
+    });
+    const [priced, withoutUsage] = prisma.transcript.update.mock.calls.map(
+      ([call]) => call.data,
+    );
+    expect(priced.updatedAt).toBe(UPDATED_AT);
+    expect(priced.metadata.costEstimate).toMatchObject({
+      pricingVersion: PRICING_VERSION,
+      totalUsd: 3,
+    });
+    expect(priced.metadata.messageCount).toBe(1);
+    // Nothing left to price, so the old estimate is dropped
+    expect(withoutUsage.metadata.costEstimate).toBeUndefined();
+  });
+});
@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const CARD_NUMBER = "4111 1111 1111 1111";
+
+// Cloud DLP is configured when the module loads, so the client is mocked and
+// the project set before the import
+const inspectContent = vi.hoisted(() => {
+  process.env.GOOGLE_CLOUD_PROJECT = "test-project";
+  return vi.fn(async ({ item }: { item: { value: string } }) => {
+    const start = item.value.indexOf(CARD_NUMBER);
+    const findings =
+      start === -1
+        ? []
+        : [
+            {
+              infoType: { name: "CREDIT_CARD_NUMBER" },
+              likelihood: "VERY_LIKELY",
+              quote: CARD_NUMBER,
+              location: {
+                byteRange: { start, end: start + CARD_NUMBER.length },
+              },
+            },
+          ];
+    return [{ result: { findings } }];
+  });
+});
+
+vi.mock("@google-cloud/dlp", () => ({
+  DlpServiceClient: class {
+    inspectContent = inspectContent;
+  },
+}));
+
+import { findSensitiveData, scanForSensitiveData } from "../dlp";
+
+describe("Cloud DLP scanner", () => {
+  beforeEach(() => {
+    vi.stubEnv("SENSITIVE_DATA_SCANNERS", "google-dlp");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    inspectContent.mockClear();
+  });
+
+  // One value of ~1.2MB with the card number at its very end
+  const content = [
+    JSON.stringify({ message: { content: "Here is the log" } }),
+    JSON.stringify({
+      message: { content: `${"log line ".repeat(150_000)}card ${CARD_NUMBER}` },
+    }),
+  ].join("\n");
+
+  it("should report findings at the end of an oversized value", async () => {
+    const findings = await findSensitiveData(content);
+
+    expect(findings.map((f) => f.quote)).toEqual([CARD_NUMBER]);
+    for (const [{ item }] of inspectContent.mock.calls) {
+      expect(Buffer.byteLength(item.value, "utf8")).toBeLessThanOrEqual(
+        512 * 1024,
+      );
+    }
+  });
+
+  it("should block on findings at the end of an oversized value", async () => {
+    const result = await scanForSensitiveData(content);
+
+    expect(result.hasSensitiveData).toBe(true);
+    expect(result.findings).toHaveLength(1);
+    expect(result.scrubbedContent).toBeUndefined();
+  });
+});
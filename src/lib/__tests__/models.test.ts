@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import type { TranscriptLine } from "@/types/transcript";
+import {
+  findModel,
+  findModelKey,
+  getContextSeries,
+  getContextUsage,
+  MODELS,
+} from "../models";
+import { fromAnthropicUsage } from "../providers/usage";
+
+const assistant = (
+  uuid: string,
+  model: string,
+  usage?: TranscriptLine["usage"],
+): TranscriptLine => ({
+  type: "assistant",
+  uuid,
+  parentUuid: null,
+  timestamp: "2025-10-20T10:00:00.000Z",
+  message: { role: "assistant", content: "Done", model },
+  usage,
+});
+
+describe("findModel", () => {
+  it("should resolve dated and prefixed model IDs", () => {
+    expect(findModel("claude-sonnet-4-5-20250929")).toBe(
+      MODELS["claude-sonnet-4-5"],
+    );
+    expect(findModel("models/gemini-2.5-flash")).toBe(
+      MODELS["gemini-2.5-flash"],
+    );
+    expect(findModelKey("gpt-5-mini-2025-08-07", MODELS)).toBe("gpt-5-mini");
+  });
+
+  it("should resolve Bedrock, OpenRouter and Cursor Claude model IDs", () => {
+    expect(findModel("anthropic.claude-sonnet-4-5-20250929-v1:0")).toBe(
+      MODELS["claude-sonnet-4-5"],
+    );
+    expect(
+      findModelKey("us.anthropic.claude-3-7-sonnet-20250219-v1:0", MODELS),
+    ).toBe("claude-3-7-sonnet");
+    expect(findModelKey("anthropic/claude-sonnet-4.5", MODELS)).toBe(
+      "claude-sonnet-4-5",
+    );
+    expect(findModelKey("anthropic/claude-3.5-haiku", MODELS)).toBe(
+      "claude-3-5-haiku",
+    );
+    expect(findModelKey("claude-4-sonnet", MODELS)).toBe("claude-sonnet-4");
+    expect(findModelKey("claude-4.1-opus-thinking", MODELS)).toBe(
+      "claude-opus-4-1",
+    );
+    expect(findModelKey("claude-4.5-haiku", MODELS)).toBe("claude-haiku-4-5");
+  });
+
+  it("should return null for unknown models", () => {
+    expect(findModel("o3x")).toBeNull();
+    expect(findModel("<synthetic>")).toBeNull();
+  });
+});
+
+describe("getContextUsage", () => {
+  it("should count cached prompt tokens toward the context", () => {
+    const line = assistant(
+      "a1",
+      "claude-sonnet-4-5-20250929",
+      fromAnthropicUsage({
+        input_tokens: 10,
+        output_tokens: 500,
+        cache_read_input_tokens: 150_000,
+        cache_creation_input_tokens: 2_000,
+      }),
+    );
+
+    expect(getContextUsage(line)).toEqual({
+      usedTokens: 152_010,
+      maxTokens: 200_000,
+    });
+  });
+
+  it("should return null without a prompt size or a known model", () => {
+    expect(
+      getContextUsage(
+        assistant("a1", "gemini-2.5-pro", {
+          inputTokens: 10,
+          outputTokens: 5,
+        }),
+      ),
+    ).toBeNull();
+    expect(
+      getContextUsage(
+        assistant("a2", "in-house-model", {
+          inputTokens: 10,
+          outputTokens: 5,
+          contextTokens: 10,
+        }),
+      ),
+    ).toBeNull();
+  });
+});
+
+describe("getContextSeries", () => {
+  it("should list responses with context usage and mark compactions", () => {
+    const usage = (contextTokens: number) => ({
+      inputTokens: contextTokens,
+      outputTokens: 1,
+      contextTokens,
+    });
+
+    const result = getContextSeries([
+      assistant("a1", "gemini-2.5-pro", usage(500_000)),
+      assistant("a2", "gemini-2.5-pro", usage(900_000)),
+      {
+        type: "system_event",
+        uuid: "c1",
+        parentUuid: null,
+        timestamp: "2025-10-20T10:00:00.000Z",
+        systemEvent: { eventType: "compaction", data: {} },
+      },
+      assistant("a3", "gemini-2.5-pro"),
+      assistant("a4", "gemini-2.5-pro", usage(100_000)),
+    ]);
+
+    expect(result).toEqual({
+      points: [
+        { uuid: "a1", usedTokens: 500_000, maxTokens: 1_048_576 },
+        { uuid: "a2", usedTokens: 900_000, maxTokens: 1_048_576 },
+        { uuid: "a4", usedTokens: 100_000, maxTokens: 1_048_576 },
+      ],
+      compactions: [2],
+    });
+  });
+});
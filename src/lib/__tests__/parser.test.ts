@@ -1,7 +1,32 @@
 import { describe, expect, it } from "vitest";
-import { generateDefaultTitle, isUuidOrSessionId } from "../parser";
+import type { ContentBlock } from "@/types/transcript";
+import { generateDefaultTitle, isUuidOrSessionId, parseJSONL } from "../parser";
+import { CLINE_SAMPLE } from "../providers/__tests__/fixtures/cline-sample";
 
 describe("Parser Utilities", () => {
+  describe("parseJSONL", () => {
+    const firstText = (content: string, source?: string) =>
+      (
+        parseJSONL(content, source).messages[0].message
+          ?.content as ContentBlock[]
+      )[0];
+
+    it("should detect the provider without a stored source", () => {
+      expect(firstText(CLINE_SAMPLE)).toEqual({
+        type: "text",
+        text: "Add a start method to the timer",
+      });
+    });
+
+    it("should parse stored content with its overriding source", () => {
+      // An upload with ?source=messages-api keeps Cline's <task> tags as text
+      expect(firstText(CLINE_SAMPLE, "messages-api")).toMatchObject({
+        type: "text",
+        text: expect.stringContaining("<task>"),
+      });
+    });
+  });
+
   describe("generateDefaultTitle", () => {
     it("should generate title for Claude Code", () => {
       const date = new Date("2025-10-18T12:00:00Z");
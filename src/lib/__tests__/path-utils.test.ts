@@ -85,6 +85,22 @@ describe("makeRelativePath", () => {
     });
   });
 
+  describe("Anonymized home paths", () => {
+    it("should convert ~ paths under a ~ cwd to relative", () => {
+      expect(makeRelativePath("~/project/src/index.ts", "~/project")).toBe(
+        "src/index.ts",
+      );
+      expect(makeRelativePath("~\\project\\src\\index.ts", "~\\project")).toBe(
+        "src/index.ts",
+      );
+    });
+
+    it("should keep ~ paths outside cwd", () => {
+      expect(makeRelativePath("~/.zshrc", "~/project")).toBe("~/.zshrc");
+      expect(makeRelativePath("/etc/hosts", "~/project")).toBe("/etc/hosts");
+    });
+  });
+
   describe("Relative paths", () => {
     it("should keep Unix-style relative paths unchanged", () => {
       const result = makeRelativePath("src/index.ts", "/Users/dev/project");
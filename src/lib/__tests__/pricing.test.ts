@@ -0,0 +1,196 @@
+import { describe, expect, it } from "vitest";
+import type { ParsedTranscript, TranscriptLine } from "@/types/transcript";
+import {
+  estimateTranscriptCost,
+  estimateUsageCost,
+  findModelPricing,
+  formatUsd,
+  MODEL_PRICING,
+  PRICING_VERSION,
+} from "../pricing";
+import { geminiSample } from "../providers/__tests__/fixtures/gemini-sample";
+import { GeminiProvider } from "../providers/gemini";
+
+const assistant = (
+  uuid: string,
+  model: string,
+  usage?: TranscriptLine["usage"],
+): TranscriptLine => ({
+  type: "assistant",
+  uuid,
+  parentUuid: null,
+  timestamp: "2025-10-20T10:00:00.000Z",
+  message: { role: "assistant", content: "Done", model },
+  usage,
+});
+
+const transcript = (messages: TranscriptLine[]): ParsedTranscript => ({
+  sessionId: "s1",
+  messages,
+  metadata: {
+    firstTimestamp: "2025-10-20T10:00:00.000Z",
+    lastTimestamp: "2025-10-20T10:00:00.000Z",
+    messageCount: messages.length,
+  },
+});
+
+describe("findModelPricing", () => {
+  it("should match dated model IDs to the longest catalog key", () => {
+    expect(findModelPricing("claude-sonnet-4-5-20250929")).toBe(
+      MODEL_PRICING["claude-sonnet-4-5"],
+    );
+    expect(findModelPricing("claude-sonnet-4-20250514")).toBe(
+      MODEL_PRICING["claude-sonnet-4"],
+    );
+    expect(findModelPricing("gpt-5-codex")).toBe(MODEL_PRICING["gpt-5-codex"]);
+  });
+
+  it("should ignore vendor prefixes", () => {
+    expect(findModelPricing("models/gemini-2.5-pro")).toBe(
+      MODEL_PRICING["gemini-2.5-pro"],
+    );
+    expect(findModelPricing("anthropic.claude-sonnet-4-20250514-v1:0")).toBe(
+      MODEL_PRICING["claude-sonnet-4"],
+    );
+    expect(findModelPricing("claude-4.5-sonnet")).toBe(
+      MODEL_PRICING["claude-sonnet-4-5"],
+    );
+  });
+
+  it("should not match models that only share a prefix", () => {
+    expect(findModelPricing("o3x")).toBeNull();
+    expect(findModelPricing("unknown-model")).toBeNull();
+  });
+});
+
+describe("estimateUsageCost", () => {
+  it("should price Anthropic cache reads and writes on top of input", () => {
+    const cost = estimateUsageCost(
+      "claude-sonnet-4-5-20250929",
+      {
+        inputTokens: 1_000_000,
+        outputTokens: 1_000_000,
+        cacheReadTokens: 1_000_000,
+        cacheWriteTokens: 1_000_000,
+      },
+      "2025-10-20T10:00:00.000Z",
+    );
+
+    // 3 input + 15 output + 0.30 cache read + 3.75 cache write
+    expect(cost).toBeCloseTo(22.05);
+  });
+
+  it("should treat OpenAI cache reads as part of the input", () => {
+    const cost = estimateUsageCost(
+      "gpt-5",
+      { inputTokens: 1_000_000, outputTokens: 0, cacheReadTokens: 800_000 },
+      "2025-10-20T10:00:00.000Z",
+    );
+
+    // 200k uncached at 1.25 + 800k cached at 0.125
+    expect(cost).toBeCloseTo(0.35);
+  });
+
+  it("should use the price in effect when the session ran", () => {
+    const usage = { inputTokens: 1_000_000, outputTokens: 0 };
+
+    expect(estimateUsageCost("o3", usage, "2025-05-01T00:00:00Z")).toBe(10);
+    expect(estimateUsageCost("o3", usage, "2025-07-01T00:00:00Z")).toBe(2);
+  });
+
+  it("should price thinking tokens at the thinking rate", () => {
+    const cost = estimateUsageCost(
+      "gemini-2.5-flash",
+      { inputTokens: 0, outputTokens: 1_500_000, thinkingTokens: 1_000_000 },
+      "2025-05-01T00:00:00Z",
+    );
+
+    // 500k answer tokens at 0.6 + 1M thinking tokens at 3.5
+    expect(cost).toBeCloseTo(3.8);
+  });
+});
+
+describe("estimateTranscriptCost", () => {
+  it("should charge Gemini thoughts on top of the answer", () => {
+    const { messages } = new GeminiProvider().parse(geminiSample);
+    const result = estimateTranscriptCost(transcript([messages[1]]));
+
+    // 8396 input tokens at 1.25 and 20 answer + 24 thought tokens at 10
+    expect(result?.totalUsd).toBeCloseTo(0.010935, 6);
+  });
+
+  it("should add up the cost of each response per model", () => {
+    const result = estimateTranscriptCost(
+      transcript([
+        assistant("a1", "claude-sonnet-4-5-20250929", {
+          inputTokens: 1_000_000,
+          outputTokens: 0,
+        }),
+        assistant("a2", "claude-haiku-4-5-20251001", {
+          inputTokens: 1_000_000,
+          outputTokens: 0,
+        }),
+        assistant("a3", "claude-sonnet-4-5-20250929", {
+          inputTokens: 0,
+          outputTokens: 1_000_000,
+        }),
+      ]),
+    );
+
+    expect(result).toEqual({
+      pricingVersion: PRICING_VERSION,
+      totalUsd: 19,
+      models: [
+        { model: "claude-sonnet-4-5-20250929", costUsd: 18 },
+        { model: "claude-haiku-4-5-20251001", costUsd: 1 },
+      ],
+    });
+  });
+
+  it("should split session totals across models when responses have no usage", () => {
+    const result = estimateTranscriptCost(
+      transcript([
+        assistant("a1", "devstral-medium-2507"),
+        assistant("a2", "devstral-small-2507"),
+      ]),
+      { inputTokens: 2_000_000, outputTokens: 0, totalTokens: 2_000_000 },
+      (model) => model.replace(/-\d+$/, ""),
+    );
+
+    expect(result?.models).toEqual([
+      { model: "devstral-medium", costUsd: 0.4 },
+      { model: "devstral-small", costUsd: 0.1 },
+    ]);
+  });
+
+  it("should list models missing from the catalog", () => {
+    const result = estimateTranscriptCost(
+      transcript([
+        assistant("a1", "in-house-model", {
+          inputTokens: 100,
+          outputTokens: 10,
+        }),
+      ]),
+    );
+
+    expect(result).toMatchObject({
+      totalUsd: 0,
+      models: [],
+      unpricedModels: ["in-house-model"],
+    });
+  });
+
+  it("should return null without usage", () => {
+    expect(
+      estimateTranscriptCost(transcript([assistant("a1", "gpt-5")])),
+    ).toBeNull();
+  });
+});
+
+describe("formatUsd", () => {
+  it("should show cents and flag amounts below a cent", () => {
+    expect(formatUsd(1.2345)).toBe("$1.23");
+    expect(formatUsd(0.004)).toBe("<$0.01");
+    expect(formatUsd(0)).toBe("$0.00");
+  });
+});
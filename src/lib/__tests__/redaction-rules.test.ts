@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import { parseJSONL } from "../parser";
+import { makeJsonlLine } from "../providers/__tests__/fixtures/transcript-factory";
+import { applyRedactionRules, parseRedactionRule } from "../redaction-rules";
+
+const CONTENT = [
+  makeJsonlLine({
+    type: "user",
+    uuid: "u1",
+    parentUuid: null,
+    message: { role: "user", content: 'Ship "Project Falcon" for acme corp' },
+  }),
+  makeJsonlLine({
+    type: "assistant",
+    uuid: "a1",
+    parentUuid: "u1",
+    message: {
+      role: "assistant",
+      content: [
+        {
+          type: "tool_use",
+          id: "toolu_1",
+          name: "Bash",
+          input: { command: "curl https://api.acme.internal/falcon" },
+        },
+      ],
+    },
+  }),
+].join("\n");
+
+const rule = (id: string, pattern: string, label: string, isRegex = false) => ({
+  id,
+  pattern,
+  isRegex,
+  label,
+});
+
+describe("parseRedactionRule", () => {
+  it("should normalize the pattern and label", () => {
+    expect(
+      parseRedactionRule({ pattern: "  Acme Corp ", label: " customer name" }),
+    ).toEqual({
+      rule: { pattern: "Acme Corp", isRegex: false, label: "CUSTOMER_NAME" },
+    });
+  });
+
+  it("should reject invalid rules", () => {
+    expect(parseRedactionRule({ pattern: "ab", label: "X" })).toHaveProperty(
+      "error",
+    );
+    expect(
+      parseRedactionRule({ pattern: "Acme", label: "[bad]" }),
+    ).toHaveProperty("error");
+    expect(
+      parseRedactionRule({ pattern: "acme(", isRegex: true, label: "X" }),
+    ).toHaveProperty("error");
+    expect(
+      parseRedactionRule({ pattern: "a?b?c?", isRegex: true, label: "X" }),
+    ).toHaveProperty("error");
+    expect(
+      parseRedactionRule({ pattern: "acme(?=x)", isRegex: true, label: "X" }),
+    ).toHaveProperty("error");
+    expect(parseRedactionRule(null)).toHaveProperty("error");
+  });
+});
+
+describe("applyRedactionRules", () => {
+  it("should replace literal terms and regexes and count the matches", () => {
+    const result = applyRedactionRules(CONTENT, [
+      rule("r1", "Acme Corp", "CUSTOMER"),
+      rule("r2", "[a-z]+\\.acme\\.internal", "DOMAIN", true),
+      rule("r3", "falcon", "CODENAME"),
+      rule("r4", "Initech", "CUSTOMER"),
+    ]);
+
+    expect(result.matches).toEqual([
+      { id: "r1", label: "CUSTOMER", matches: 1 },
+      { id: "r2", label: "DOMAIN", matches: 1 },
+      { id: "r3", label: "CODENAME", matches: 2 },
+      { id: "r4", label: "CUSTOMER", matches: 0 },
+    ]);
+    expect(result.content).toContain(
+      'Ship \\"Project [REDACTED-CODENAME]\\" for [REDACTED-CUSTOMER]',
+    );
+    expect(result.content).toContain(
+      "curl https://[REDACTED-DOMAIN]/[REDACTED-CODENAME]",
+    );
+    expect(parseJSONL(result.content).messages).toHaveLength(2);
+  });
+
+  it("should leave content without matches and image data untouched", () => {
+    const plain = '{"type":"user", "text":"hello"}';
+    expect(
+      applyRedactionRules(plain, [rule("r1", "Acme", "CUSTOMER")]).content,
+    ).toBe(plain);
+    expect(applyRedactionRules(plain, [])).toEqual({
+      content: plain,
+      matches: [],
+    });
+
+    const image = `iVBORw0KGgo${"+acme/".repeat(60)}`;
+    const result = applyRedactionRules(
+      makeJsonlLine({ data: image, text: "acme" }),
+      [rule("r1", "acme", "CUSTOMER")],
+    );
+    expect(result.content).toContain(image);
+    expect(result.matches[0].matches).toBe(1);
+  });
+
+  it("should match patterns that backtrack exponentially in linear time", () => {
+    const parsed = parseRedactionRule({
+      pattern: "(a|aa)+$",
+      isRegex: true,
+      label: "X",
+    });
+    expect(parsed).toHaveProperty("rule");
+
+    const started = Date.now();
+    const result = applyRedactionRules(
+      makeJsonlLine({ text: `${"a".repeat(50_000)}!` }),
+      [rule("r1", "(a|aa)+$", "X", true)],
+    );
+    expect(result.matches[0].matches).toBe(0);
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+});
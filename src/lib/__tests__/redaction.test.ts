@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { parseJSONL } from "../parser";
+import { minimalGeminiSample } from "../providers/__tests__/fixtures/gemini-sample";
+import { makeJsonlLine } from "../providers/__tests__/fixtures/transcript-factory";
+import { redactTranscript } from "../redaction";
+
+const CONTENT = [
+  makeJsonlLine({
+    type: "user",
+    uuid: "u1",
+    parentUuid: null,
+    message: { role: "user", content: "Check the Acme Corp deploy on build-7" },
+  }),
+  makeJsonlLine({
+    type: "assistant",
+    uuid: "a1",
+    parentUuid: "u1",
+    message: {
+      role: "assistant",
+      content: [
+        { type: "text", text: "Looking at the Acme Corp logs." },
+        {
+          type: "tool_use",
+          id: "toolu_1",
+          name: "Bash",
+          input: { command: "ssh build-7.acme.internal tail deploy.log" },
+        },
+      ],
+    },
+  }),
+  makeJsonlLine({
+    type: "user",
+    uuid: "u2",
+    parentUuid: "a1",
+    message: {
+      role: "user",
+      content: [
+        {
+          type: "tool_result",
+          tool_use_id: "toolu_1",
+          content: "Connected to build-7.acme.internal as Acme Corp deployer",
+        },
+      ],
+    },
+  }),
+].join("\n");
+
+const messageText = (content: string, index: number) =>
+  JSON.stringify(parseJSONL(content).messages[index].message?.content);
+
+describe("redactTranscript", () => {
+  it("should redact every occurrence and keep the JSONL valid", () => {
+    const result = redactTranscript(CONTENT, "Acme Corp");
+
+    expect(result.count).toBe(3);
+    expect(result.content).not.toContain("Acme Corp");
+    expect(result.content).toContain("Check the [REDACTED-CUSTOM] deploy");
+    expect(parseJSONL(result.content).messages).toHaveLength(3);
+  });
+
+  it("should only redact the selected message and its tool output", () => {
+    const result = redactTranscript(CONTENT, "Acme Corp", 1);
+
+    expect(result.count).toBe(2);
+    expect(messageText(result.content, 0)).toContain("Acme Corp");
+    expect(messageText(result.content, 1)).not.toContain("Acme Corp");
+    expect(messageText(result.content, 2)).toContain(
+      "as [REDACTED-CUSTOM] deployer",
+    );
+  });
+
+  it("should redact within tool inputs", () => {
+    const result = redactTranscript(CONTENT, "build-7.acme.internal", 1);
+
+    expect(result.count).toBe(2);
+    expect(result.content).toContain("ssh [REDACTED-CUSTOM] tail deploy.log");
+  });
+
+  it("should report text that isn't in the message", () => {
+    expect(redactTranscript(CONTENT, "deploy.log", 0)).toEqual({
+      content: CONTENT,
+      count: 0,
+    });
+    expect(redactTranscript(CONTENT, "Initech").count).toBe(0);
+  });
+
+  it("should leave inline image data untouched", () => {
+    const image = `iVBORw0KGgo${"Acme".repeat(100)}`;
+    const withImage = [
+      CONTENT,
+      makeJsonlLine({
+        type: "user",
+        uuid: "u3",
+        parentUuid: "u2",
+        message: {
+          role: "user",
+          content: [
+            { type: "text", text: "Acme screenshot attached" },
+            {
+              type: "image",
+              source: { type: "base64", media_type: "image/png", data: image },
+            },
+          ],
+        },
+      }),
+    ].join("\n");
+
+    const result = redactTranscript(withImage, "Acme");
+
+    expect(result.count).toBe(4);
+    expect(result.content).toContain(image);
+    expect(result.content).toContain("[REDACTED-CUSTOM] screenshot attached");
+  });
+
+  it("should rewrite pretty-printed JSON documents as a whole", () => {
+    const result = redactTranscript(minimalGeminiSample, "help you", 1);
+
+    expect(result.count).toBe(1);
+    const parsed = parseJSONL(result.content);
+    expect(parsed.messages).toHaveLength(2);
+    expect(JSON.stringify(parsed.messages[1].message?.content)).toContain(
+      "How can I [REDACTED-CUSTOM]?",
+    );
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { readBundle } from "../providers/bundle";
+import { combineSessionFiles, isAgentFile } from "../session-files";
+
+const session = {
+  name: "3f2a.jsonl",
+  content: '{"type":"user","sessionId":"s1","isSidechain":false}\n',
+};
+const agent = {
+  name: "agent-a1b2.jsonl",
+  content: '{"type":"user","sessionId":"s1","isSidechain":true}',
+};
+const otherAgent = {
+  name: "agent-c3d4.jsonl",
+  content: '{"type":"user","sessionId":"s2","isSidechain":true}',
+};
+
+describe("isAgentFile", () => {
+  it("should match agent-*.jsonl names, including folder paths", () => {
+    expect(isAgentFile("agent-a1b2.jsonl")).toBe(true);
+    expect(isAgentFile("project/agent-a1b2.jsonl")).toBe(true);
+    expect(isAgentFile("3f2a.jsonl")).toBe(false);
+    expect(isAgentFile("my-agent-notes.jsonl")).toBe(false);
+  });
+});
+
+describe("combineSessionFiles", () => {
+  it("should return a single file unchanged", () => {
+    expect(combineSessionFiles([session])).toBe(session);
+  });
+
+  it("should append agent files after the session, named after the session", () => {
+    const combined = combineSessionFiles([agent, session]);
+
+    expect(combined.name).toBe("3f2a.jsonl");
+    expect(combined.content.split("\n")).toEqual([
+      session.content.trim(),
+      agent.content,
+    ]);
+  });
+
+  it("should leave out agent files from other sessions", () => {
+    const combined = combineSessionFiles([session, agent, otherAgent]);
+
+    expect(combined.content).not.toContain('"s2"');
+  });
+
+  it("should reject uploads without a session file", () => {
+    expect(() => combineSessionFiles([agent, otherAgent])).toThrow(
+      "No session file found",
+    );
+  });
+
+  it("should bundle several session files with their own agent files", () => {
+    const resumed = {
+      name: "7e9b.jsonl",
+      content: '{"type":"user","sessionId":"s2","isSidechain":false}',
+    };
+
+    const combined = combineSessionFiles([session, resumed, agent, otherAgent]);
+    const files = readBundle(combined.content);
+
+    expect(combined.name).toBe("3f2a.jsonl");
+    expect(files?.map((file) => file.name)).toEqual([
+      "3f2a.jsonl",
+      "7e9b.jsonl",
+    ]);
+    expect(files?.[0].content).toContain('"isSidechain":true');
+    expect(files?.[1].content).toContain(otherAgent.content);
+  });
+
+  it("should keep only the API history of a Cline task", () => {
+    const history = {
+      name: "tasks/1730000000000/api_conversation_history.json",
+      content: '[{"role":"user","content":"Hi"}]',
+    };
+    const uiMessages = {
+      name: "tasks/1730000000000/ui_messages.json",
+      content: '[{"ts":1730000000000,"type":"say","say":"text","text":"Hi"}]',
+    };
+    const otherTask = {
+      name: "tasks/1730000099999/ui_messages.json",
+      content: uiMessages.content,
+    };
+
+    expect(combineSessionFiles([uiMessages, history])).toBe(history);
+    expect(
+      combineSessionFiles([
+        { ...uiMessages, name: "ui_messages.json" },
+        { ...history, name: "api_conversation_history.json" },
+      ]).name,
+    ).toBe("api_conversation_history.json");
+    expect(
+      readBundle(
+        combineSessionFiles([history, uiMessages, otherTask]).content,
+      )?.map((file) => file.name),
+    ).toEqual([history.name, otherTask.name]);
+  });
+
+  it("should reject mixed formats and multiple markdown files", () => {
+    expect(() =>
+      combineSessionFiles([session, { name: "chat.json", content: "{}" }]),
+    ).toThrow("same format");
+    expect(() =>
+      combineSessionFiles([
+        { name: "a.md", content: "# aider chat" },
+        { name: "b.md", content: "# aider chat" },
+      ]),
+    ).toThrow("one at a time");
+  });
+});
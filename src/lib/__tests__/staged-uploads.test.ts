@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { makeJsonlLine } from "../providers/__tests__/fixtures/transcript-factory";
+import { ASSET_REF_PREFIX } from "../providers/images";
+
+const { transcriptCreate } = vi.hoisted(() => ({
+  transcriptCreate: vi.fn(),
+}));
+
+vi.mock("../prisma", () => ({
+  prisma: {
+    transcript: { create: transcriptCreate },
+    stagedUpload: { delete: vi.fn() },
+    $transaction: (operations: unknown[]) => Promise.all(operations),
+  },
+}));
+
+import { publishStagedUpload } from "../staged-uploads";
+import { MAX_TRANSCRIPT_BYTES } from "../upload-limits";
+
+// Large enough to be extracted, and containing the text redacted below
+const IMAGE = `iVBORw0KGgo${"AcmeCorp".repeat(5000)}`;
+
+const FILE_DATA = [
+  makeJsonlLine({
+    type: "user",
+    uuid: "u1",
+    parentUuid: null,
+    message: {
+      role: "user",
+      content: [
+        { type: "text", text: "Why does the AcmeCorp build fail?" },
+        {
+          type: "image",
+          source: { type: "base64", media_type: "image/png", data: IMAGE },
+        },
+      ],
+    },
+  }),
+  makeJsonlLine({
+    type: "assistant",
+    uuid: "a1",
+    parentUuid: "u1",
+    message: { role: "assistant", content: "The AcmeCorp cache is stale." },
+  }),
+].join("\n");
+
+describe("publishStagedUpload", () => {
+  beforeEach(() => {
+    transcriptCreate.mockReset();
+    transcriptCreate.mockResolvedValue({ id: "t1", secretToken: "secret" });
+  });
+
+  it("should redact the text without touching inline images", async () => {
+    await publishStagedUpload(
+      {
+        id: "staged-1",
+        userId: "user-1",
+        title: null,
+        source: "claude-code",
+        fileData: FILE_DATA,
+        findings: [],
+      },
+      { keep: [], redactions: ["AcmeCorp"] },
+    );
+
+    const { data } = transcriptCreate.mock.calls[0][0];
+    expect(data.fileData).toContain("Why does the [REDACTED-CUSTOM] build");
+    expect(data.fileData).toContain("The [REDACTED-CUSTOM] cache");
+    expect(data.fileData).toContain(ASSET_REF_PREFIX);
+    expect(data.assets.create).toHaveLength(1);
+    expect(data.assets.create[0].data).toEqual(Buffer.from(IMAGE, "base64"));
+    expect(data.messageCount).toBe(2);
+  });
+
+  it("should reject redactions that grow the transcript past the limit", async () => {
+    const text = "AcmeCorp ".repeat(Math.floor(MAX_TRANSCRIPT_BYTES / 10));
+    const result = await publishStagedUpload(
+      {
+        id: "staged-1",
+        userId: "user-1",
+        title: null,
+        source: "claude-code",
+        fileData: makeJsonlLine({
+          type: "user",
+          uuid: "u1",
+          parentUuid: null,
+          message: { role: "user", content: text },
+        }),
+        findings: [],
+      },
+      { keep: [], redactions: ["AcmeCorp"] },
+    );
+
+    expect("response" in result && result.response.status).toBe(400);
+    expect("response" in result && (await result.response.json())).toEqual(
+      expect.objectContaining({ error: "File too large" }),
+    );
+    expect(transcriptCreate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import type { ParsedTranscript, TranscriptLine } from "@/types/transcript";
+import { getTurnUsage } from "../transcript-utils";
+
+const line = (
+  uuid: string,
+  role: "user" | "assistant",
+  timestamp: string,
+  extra: Partial<Omit<TranscriptLine, "parentUuid">> = {},
+): TranscriptLine => ({
+  type: role,
+  uuid,
+  timestamp,
+  parentUuid: null,
+  ...extra,
+  message: extra.message ?? {
+    role,
+    content: [{ type: "text", text: uuid }],
+  },
+});
+
+const transcript = (
+  messages: TranscriptLine[],
+  subagents?: ParsedTranscript["subagents"],
+): ParsedTranscript => ({
+  sessionId: "s1",
+  messages,
+  metadata: {
+    firstTimestamp: messages[0].timestamp,
+    lastTimestamp: messages[messages.length - 1].timestamp,
+    messageCount: messages.length,
+  },
+  subagents,
+});
+
+describe("getTurnUsage", () => {
+  it("should sum usage per turn and keep a running total", () => {
+    const result = getTurnUsage(
+      transcript([
+        line("u1", "user", "2025-01-01T10:00:00.000Z"),
+        line("a1", "assistant", "2025-01-01T10:00:05.000Z", {
+          usage: { inputTokens: 100, outputTokens: 10 },
+        }),
+        line("a2", "assistant", "2025-01-01T10:00:09.000Z", {
+          usage: { inputTokens: 150, outputTokens: 20, cacheReadTokens: 90 },
+        }),
+        line("u2", "user", "2025-01-01T10:05:00.000Z"),
+        line("a3", "assistant", "2025-01-01T10:05:03.000Z", {
+          usage: { inputTokens: 300, outputTokens: 30 },
+        }),
+      ]),
+      [0, 3],
+    );
+
+    expect(result).toEqual([
+      {
+        index: 0,
+        timestamp: "2025-01-01T10:00:09.000Z",
+        inputTokens: 250,
+        outputTokens: 30,
+        cumulativeTokens: 280,
+      },
+      {
+        index: 3,
+        timestamp: "2025-01-01T10:05:03.000Z",
+        inputTokens: 300,
+        outputTokens: 30,
+        cumulativeTokens: 610,
+      },
+    ]);
+  });
+
+  it("should count sub-agent usage toward the turn that started it", () => {
+    const task = line("a1", "assistant", "2025-01-01T10:00:05.000Z", {
+      message: {
+        role: "assistant",
+        content: [{ type: "tool_use", id: "task-1", name: "Task", input: {} }],
+      },
+      usage: { inputTokens: 100, outputTokens: 10 },
+    });
+
+    const result = getTurnUsage(
+      transcript([line("u1", "user", "2025-01-01T10:00:00.000Z"), task], {
+        "task-1": {
+          messages: [
+            line("s1", "assistant", "2025-01-01T10:00:07.000Z", {
+              usage: { inputTokens: 40, outputTokens: 4 },
+            }),
+          ],
+        },
+      }),
+      [0],
+    );
+
+    expect(result[0]).toMatchObject({
+      inputTokens: 140,
+      outputTokens: 14,
+      cumulativeTokens: 154,
+    });
+  });
+
+  it("should return no turns when no line has usage", () => {
+    const result = getTurnUsage(
+      transcript([
+        line("u1", "user", "2025-01-01T10:00:00.000Z"),
+        line("a1", "assistant", "2025-01-01T10:00:05.000Z"),
+      ]),
+      [0],
+    );
+
+    expect(result).toEqual([]);
+  });
+});
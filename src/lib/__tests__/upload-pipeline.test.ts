@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { makeJsonlLine } from "../providers/__tests__/fixtures/transcript-factory";
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: {
+    redactionRule: { findMany: vi.fn() },
+    transcript: { create: vi.fn() },
+    stagedUpload: { deleteMany: vi.fn(), create: vi.fn() },
+  },
+}));
+
+vi.mock("../prisma", () => ({ prisma }));
+
+import { processUpload, type UploadInput } from "../upload-pipeline";
+
+const FILE_DATA = [
+  makeJsonlLine({
+    type: "user",
+    uuid: "u1",
+    parentUuid: null,
+    cwd: "/Users/alice/acme-portal",
+    message: { role: "user", content: "Why does the Acme portal build fail?" },
+  }),
+  makeJsonlLine({
+    type: "assistant",
+    uuid: "a1",
+    parentUuid: "u1",
+    message: {
+      role: "assistant",
+      content: "Acme's CI mails ops@example.com on every failure.",
+    },
+  }),
+].join("\n");
+
+const upload = (params: Record<string, string> = {}): UploadInput => ({
+  userId: "user-1",
+  fileData: FILE_DATA,
+  title: "Build",
+  searchParams: new URLSearchParams(params),
+  defaultSource: "claude-code",
+  parseError: () => ({ error: "Invalid", message: "Could not parse" }),
+});
+
+describe("processUpload", () => {
+  beforeEach(() => {
+    vi.stubEnv("SENSITIVE_DATA_SCANNERS", "local");
+    prisma.redactionRule.findMany.mockResolvedValue([
+      { id: "r1", pattern: "Acme", isRegex: false, label: "CLIENT" },
+    ]);
+    prisma.transcript.create.mockResolvedValue({
+      id: "t1",
+      secretToken: "secret",
+    });
+    prisma.stagedUpload.create.mockResolvedValue({ id: "staged-1" });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.clearAllMocks();
+  });
+
+  it("should anonymize, apply redaction rules and scrub before publishing", async () => {
+    const result = await processUpload(upload());
+
+    expect(result).toEqual({
+      published: {
+        id: "t1",
+        secretToken: "secret",
+        source: "claude-code",
+        diagnostics: [],
+        redactionRules: [{ id: "r1", label: "CLIENT", matches: 3 }],
+      },
+    });
+    const { data } = prisma.transcript.create.mock.calls[0][0];
+    expect(data.fileData).toContain('"cwd":"~/[REDACTED-CLIENT]-portal"');
+    expect(data.fileData).toContain("[REDACTED-EMAIL_ADDRESS]");
+    expect(data.fileData).not.toContain("alice");
+    expect(data.messageCount).toBe(2);
+  });
+
+  it("should compute metadata from the scrubbed transcript", async () => {
+    await processUpload({
+      ...upload(),
+      fileData: makeJsonlLine({
+        type: "user",
+        uuid: "u1",
+        parentUuid: null,
+        cwd: "/srv/ops@example.com/app",
+        message: { role: "user", content: "Why does the build fail?" },
+      }),
+    });
+
+    const { data } = prisma.transcript.create.mock.calls[0][0];
+    expect(data.metadata.cwd).toBe("/srv/[REDACTED-EMAIL_ADDRESS]/app");
+  });
+
+  it("should stage uploads with findings for review", async () => {
+    const result = await processUpload(upload({ review: "true" }));
+
+    expect(prisma.transcript.create).not.toHaveBeenCalled();
+    expect(result).toMatchObject({
+      review: {
+        stagedId: "staged-1",
+        findings: [{ infoType: "EMAIL_ADDRESS", quote: "ops@example.com" }],
+        redactionRules: [{ id: "r1", label: "CLIENT", matches: 3 }],
+      },
+    });
+  });
+
+  it("should reject unknown sources and unparseable transcripts", async () => {
+    const unknown = await processUpload(upload({ source: "notepad" }));
+    expect("response" in unknown && unknown.response.status).toBe(400);
+
+    const invalid = await processUpload({
+      ...upload({ source: "gemini-cli" }),
+      fileData: "not a transcript",
+    });
+    expect("response" in invalid && (await invalid.response.json())).toEqual(
+      expect.objectContaining({ error: "Invalid", source: "gemini-cli" }),
+    );
+  });
+});
@@ -0,0 +1,181 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { findSensitiveData, type SensitiveDataFinding } from "../dlp";
+import { parseJSONL } from "../parser";
+import {
+  applyReviewDecisions,
+  buildReviewFindings,
+  parseReviewDecisions,
+} from "../upload-review";
+
+// Built at runtime so the fixtures don't look like real keys to push protection
+const fake = (...parts: string[]) => parts.join("");
+const GITHUB_TOKEN = fake(
+  "ghp_",
+  "a1B2c3D4e5F6g7H8i9J0".repeat(2).slice(0, 36),
+);
+const PRIVATE_KEY = [
+  fake("-----BEGIN RSA ", "PRIVATE KEY-----"),
+  "MIIEowIBAAKCAQEA0Z3VS5JJcds3xfn/ygWyF8PbnGy0AHB7MhgHcTz6sE2I2yPB",
+  fake("-----END RSA ", "PRIVATE KEY-----"),
+].join("\n");
+
+const line = (
+  uuid: string,
+  role: "user" | "assistant",
+  text: string,
+  parentUuid: string | null,
+) =>
+  JSON.stringify({
+    type: role,
+    uuid,
+    parentUuid,
+    sessionId: "session-1",
+    timestamp: "2025-11-20T12:00:00.000Z",
+    message: { role, content: text },
+  });
+
+const CONTENT = [
+  line("u1", "user", "Why does the deploy fail?", null),
+  line(
+    "a1",
+    "assistant",
+    `The config sets token=${GITHUB_TOKEN} and mails ops@example.com on failure.`,
+    "u1",
+  ),
+  line("u2", "user", `Here is the key:\n${PRIVATE_KEY}`, "a1"),
+].join("\n");
+
+const finding = (infoType: string, quote: string): SensitiveDataFinding => ({
+  infoType,
+  likelihood: "VERY_LIKELY",
+  quote,
+  location: { byteRange: { start: 0, end: 0 } },
+});
+
+describe("findSensitiveData", () => {
+  beforeEach(() => {
+    vi.stubEnv("SENSITIVE_DATA_SCANNERS", "local");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("should report emails and secrets without scrubbing", async () => {
+    const findings = await findSensitiveData(
+      `${CONTENT}\n${line("u3", "user", "ops@example.com again", "u2")}`,
+    );
+
+    expect(findings.map((f) => f.infoType).sort()).toEqual([
+      "EMAIL_ADDRESS",
+      "GITHUB_TOKEN",
+      "PRIVATE_KEY",
+    ]);
+  });
+});
+
+describe("buildReviewFindings", () => {
+  const transcript = parseJSONL(CONTENT, "claude-code");
+
+  it("should locate findings in the parsed transcript with context", () => {
+    const [token] = buildReviewFindings(CONTENT, transcript, [
+      finding("GITHUB_TOKEN", GITHUB_TOKEN),
+    ]);
+
+    expect(token).toMatchObject({
+      id: "f1",
+      label: "GitHub tokens",
+      quote: GITHUB_TOKEN,
+      blocking: false,
+      location: { messageIndex: 1, uuid: "a1", role: "assistant" },
+    });
+    expect(token.context.before).toBe("The config sets token=");
+    expect(token.context.after).toBe(" and mails ops@example.com on failure.");
+  });
+
+  it("should decode quotes taken from escaped JSON strings", () => {
+    const escaped = JSON.stringify(PRIVATE_KEY).slice(1, -1);
+    const [key] = buildReviewFindings(CONTENT, transcript, [
+      finding("PRIVATE_KEY", escaped),
+    ]);
+
+    expect(key.quote).toBe(PRIVATE_KEY);
+    expect(key.location?.uuid).toBe("u2");
+    expect(key.context.before).toBe("Here is the key: ");
+  });
+
+  it("should fall back to the raw content outside the conversation", () => {
+    const [id] = buildReviewFindings(CONTENT, transcript, [
+      finding("CREDIT_CARD_NUMBER", "session-1"),
+    ]);
+
+    expect(id.location).toBeNull();
+    expect(id.blocking).toBe(true);
+    expect(id.context.after).toContain("timestamp");
+  });
+});
+
+describe("parseReviewDecisions", () => {
+  it("should default missing fields and trim redactions", () => {
+    expect(parseReviewDecisions({})).toEqual({ keep: [], redactions: [] });
+    expect(
+      parseReviewDecisions({ keep: ["f1"], redactions: ["  acme-corp  "] }),
+    ).toEqual({ keep: ["f1"], redactions: ["acme-corp"] });
+  });
+
+  it("should reject malformed decisions", () => {
+    expect(parseReviewDecisions({ keep: "f1" })).toBeNull();
+    expect(parseReviewDecisions({ redactions: [42] })).toBeNull();
+    expect(parseReviewDecisions({ redactions: ["ab"] })).toBeNull();
+    expect(
+      parseReviewDecisions({ redactions: Array(101).fill("acme") }),
+    ).toBeNull();
+  });
+});
+
+describe("applyReviewDecisions", () => {
+  const transcript = parseJSONL(CONTENT, "claude-code");
+  const findings = buildReviewFindings(CONTENT, transcript, [
+    finding("GITHUB_TOKEN", GITHUB_TOKEN),
+    finding("EMAIL_ADDRESS", "ops@example.com"),
+    finding("PRIVATE_KEY", JSON.stringify(PRIVATE_KEY).slice(1, -1)),
+  ]);
+
+  it("should redact every finding that was not kept", () => {
+    const result = applyReviewDecisions(CONTENT, findings, {
+      keep: ["f2"],
+      redactions: [],
+    });
+
+    expect(result).not.toContain(GITHUB_TOKEN);
+    expect(result).not.toContain("BEGIN RSA");
+    expect(result).toContain("[REDACTED-GITHUB_TOKEN]");
+    expect(result).toContain("[REDACTED-PRIVATE_KEY]");
+    expect(result).toContain("ops@example.com");
+    // Still valid JSONL
+    expect(parseJSONL(result, "claude-code").messages).toHaveLength(3);
+  });
+
+  it("should apply custom redactions", () => {
+    const result = applyReviewDecisions(CONTENT, findings, {
+      keep: ["f1", "f2", "f3"],
+      redactions: ["deploy fail"],
+    });
+
+    expect(result).toContain("Why does the [REDACTED-CUSTOM]?");
+    expect(result).toContain(GITHUB_TOKEN);
+  });
+
+  it("should always redact blocking findings", () => {
+    const [card] = buildReviewFindings(CONTENT, transcript, [
+      finding("CREDIT_CARD_NUMBER", "Why does"),
+    ]);
+
+    const result = applyReviewDecisions(CONTENT, [card], {
+      keep: [card.id],
+      redactions: [],
+    });
+
+    expect(result).toContain("[REDACTED-CREDIT_CARD_NUMBER] the deploy fail?");
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Upload anonymization
+ * Home directories in a transcript become `~`, and the OS username and
+ * hostname are replaced throughout its text and tool inputs. Home-relative
+ * paths still count as absolute (see isAbsolutePath), so relative-path
+ * display and Gemini's project path inference keep working.
+ */
+
+import { createHash } from "node:crypto";
+import { escapeRegExp, rewriteText } from "./dlp";
+import { normalizePath } from "./path-utils";
+
+export const USERNAME_REPLACEMENT = "user";
+export const HOSTNAME_REPLACEMENT = "host";
+
+export interface Identity {
+  usernames: string[]; // Owners of the home directories in the transcript
+  hostnames: string[];
+  rootHome: boolean; // Whether /root paths appear
+}
+
+// Home directory owners that say nothing about the uploader; their home
+// directories are still anonymized but the word itself is left alone
+const GENERIC_USERNAMES = new Set([
+  "admin",
+  "app",
+  "default",
+  "dev",
+  "developer",
+  "docker",
+  "ec2-user",
+  "guest",
+  "node",
+  "public",
+  "root",
+  "runner",
+  "shared",
+  "test",
+  "ubuntu",
+  "user",
+  "username",
+  "vagrant",
+]);
+
+// Directories under /Users or C:\Users that aren't a user's home
+const NON_HOME_DIRS = new Set(["shared", "public", "default", "all users"]);
+
+const NAME = "[A-Za-z0-9][A-Za-z0-9._-]*";
+const NAME_END = "(?![A-Za-z0-9._-])";
+
+const HOME_DIR_PATTERNS = [
+  new RegExp(`(?<![A-Za-z0-9._-])/(?:Users|home)/(${NAME})`, "g"),
+  new RegExp(`\\b[A-Za-z]:[/\\\\]Users[/\\\\](${NAME})`, "gi"),
+];
+const ROOT_HOME_PATTERN = /(?<![A-Za-z0-9._~/-])\/root(?![A-Za-z0-9._-])/g;
+const LOCAL_HOSTNAME_PATTERN = /\b([A-Za-z0-9][A-Za-z0-9-]*)\.local\b/g;
+
+// Keys that are paths, such as the files in Claude Code's
+// file-history-snapshot; other keys are the transcript's structure and are
+// left alone
+const PATH_KEY_PATTERN = /[/\\]/;
+
+// How path hashes such as Gemini's projectHash look
+const SHA256_PATTERN = /^[0-9a-f]{64}$/;
+
+// Whole words only, not part of an identifier or of a dotted or hyphenated
+// name (repo.alice, alice.example.com, alice.txt); a closing period still
+// ends a word
+const WORD_START = "(?<![A-Za-z0-9_.-])";
+const WORD_END = "(?![A-Za-z0-9_-]|\\.[A-Za-z0-9])";
+// Hostnames are also replaced when a domain follows them (host.local)
+const HOSTNAME_END = "(?![A-Za-z0-9_-])";
+
+function wordPattern(words: string[], end = WORD_END): RegExp | null {
+  if (words.length === 0) return null;
+  // Longest first, so a hostname wins over the username it contains
+  const alternatives = [...words]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join("|");
+  return new RegExp(`${WORD_START}(?:${alternatives})${end}`, "g");
+}
+
+/**
+ * Find who uploaded a transcript: the owners of home directories in its paths,
+ * and hostnames from shell prompts (user@host) and mDNS names (host.local)
+ */
+export function detectIdentity(content: string): Identity {
+  // Decoded string values and path keys, so JSON escapes don't get in the way
+  const values: string[] = [];
+  const collect = (value: string) => {
+    values.push(value);
+    return value;
+  };
+  rewriteText(content, collect, (key) =>
+    PATH_KEY_PATTERN.test(key) ? collect(key) : key,
+  );
+
+  const usernames = new Set<string>();
+  for (const value of values) {
+    for (const pattern of HOME_DIR_PATTERNS) {
+      for (const match of value.matchAll(pattern)) {
+        const name = match[1].replace(/\.+$/, "");
+        if (name && !NON_HOME_DIRS.has(name.toLowerCase())) {
+          usernames.add(name);
+        }
+      }
+    }
+  }
+
+  const prompts = [...usernames].map(
+    (username) =>
+      new RegExp(
+        `(?<![A-Za-z0-9._-])${escapeRegExp(username)}@([A-Za-z0-9][A-Za-z0-9-]*)(?=[:\\s\\]]|$)`,
+        "gm",
+      ),
+  );
+  const hostnames = new Set<string>();
+  for (const value of values) {
+    for (const pattern of [...prompts, LOCAL_HOSTNAME_PATTERN]) {
+      for (const match of value.matchAll(pattern)) {
+        hostnames.add(match[1]);
+      }
+    }
+  }
+  hostnames.delete("localhost");
+
+  return {
+    usernames: [...usernames],
+    hostnames: [...hostnames],
+    rootHome: values.some((value) => value.search(ROOT_HOME_PATTERN) !== -1),
+  };
+}
+
+/**
+ * Anonymize one string: home directories first, then hostnames (which often
+ * contain the username), then the username itself
+ */
+function createAnonymizer(identity: Identity): (value: string) => string {
+  const names = identity.usernames.map(escapeRegExp).join("|");
+  const homeDir = names
+    ? new RegExp(
+        `(?:(?<![A-Za-z0-9._-])/(?:Users|home)/|\\b[A-Za-z]:[/\\\\]Users[/\\\\])(?:${names})${NAME_END}`,
+        "gi",
+      )
+    : null;
+  const hostname = wordPattern(identity.hostnames, HOSTNAME_END);
+  const username = wordPattern(
+    identity.usernames.filter(
+      (name) => name.length >= 3 && !GENERIC_USERNAMES.has(name.toLowerCase()),
+    ),
+  );
+
+  return (value) => {
+    let result = value;
+    if (homeDir) result = result.replace(homeDir, "~");
+    if (identity.rootHome) result = result.replace(ROOT_HOME_PATTERN, "~");
+    if (hostname) result = result.replace(hostname, HOSTNAME_REPLACEMENT);
+    if (username) result = result.replace(username, USERNAME_REPLACEMENT);
+    return result;
+  };
+}
+
+function sha256(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+/**
+ * Hashes of directories under a home directory, mapped to the hash of the
+ * anonymized directory, for sessions identified by the hash of their project
+ * path (Gemini's projectHash)
+ */
+function getPathHashes(
+  content: string,
+  anonymize: (value: string) => string,
+): Map<string, string> {
+  const hashes = new Map<string, string>();
+  const seen = new Set<string>();
+  const pathPattern =
+    /(?:\/(?:Users|home|root)\b|\b[A-Za-z]:[/\\]Users\b)[^\s"'`]*/g;
+
+  const collect = (value: string) => {
+    for (const [path] of value.matchAll(pathPattern)) {
+      let dir = normalizePath(path).replace(/\/+$/, "");
+      while (dir.includes("/") && !seen.has(dir)) {
+        seen.add(dir);
+        const anonymized = sha256(normalizePath(anonymize(dir)));
+        hashes.set(sha256(dir), anonymized);
+        hashes.set(sha256(dir.replace(/\//g, "\\")), anonymized);
+        dir = dir.substring(0, dir.lastIndexOf("/"));
+      }
+    }
+    return value;
+  };
+  rewriteText(content, collect, collect);
+
+  return hashes;
+}
+
+/**
+ * Anonymize home directories, usernames and hostnames in transcript content
+ * @returns The content unchanged when there is nothing to anonymize
+ */
+export function anonymizeTranscript(content: string): string {
+  const identity = detectIdentity(content);
+  if (
+    identity.usernames.length === 0 &&
+    identity.hostnames.length === 0 &&
+    !identity.rootHome
+  ) {
+    return content;
+  }
+
+  const anonymize = createAnonymizer(identity);
+  const pathHashes = /"[0-9a-f]{64}"/.test(content)
+    ? getPathHashes(content, anonymize)
+    : new Map<string, string>();
+
+  return rewriteText(
+    content,
+    (value) =>
+      SHA256_PATTERN.test(value)
+        ? (pathHashes.get(value) ?? value)
+        : anonymize(value),
+    (key) => (PATH_KEY_PATTERN.test(key) ? anonymize(key) : key),
+  );
+}
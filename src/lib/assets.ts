@@ -0,0 +1,98 @@
+/**
+ * Image assets stored outside the transcript
+ * Screenshots pasted into a session are embedded as base64 and can take up
+ * most of the upload size limit. Before an upload is checked and stored,
+ * large base64 images are moved into TranscriptAsset rows and replaced in the
+ * content by a reference to their hash, which providers turn back into image
+ * blocks pointing at the asset.
+ */
+
+import { createHash } from "node:crypto";
+import { ASSET_REF_PREFIX } from "./providers/images";
+
+export { MAX_ASSET_BYTES } from "./upload-limits";
+
+// Base64 images up to this many characters (~24KB) stay in the transcript
+export const INLINE_IMAGE_MAX_CHARS = 32 * 1024;
+
+export interface ExtractedAsset {
+  hash: string; // SHA-256 of the base64 payload, referenced from the content
+  mediaType: string;
+  data: Buffer;
+}
+
+// Base64 strings inside JSON: a "data" field (Anthropic, Gemini) or the
+// payload of a data URL (OpenAI, Codex)
+const BASE64_VALUE_PATTERN = new RegExp(
+  `("data"\\s*:\\s*"|;base64,)([A-Za-z0-9+/]{${INLINE_IMAGE_MAX_CHARS},}={0,2})(?=")`,
+  "g",
+);
+
+// Leading base64 characters of each supported image format
+const IMAGE_SIGNATURES: Array<[string, string]> = [
+  ["iVBORw0KGgo", "image/png"],
+  ["/9j/", "image/jpeg"],
+  ["R0lGOD", "image/gif"],
+  ["UklGR", "image/webp"],
+];
+
+// A whole string value of base64 data, optionally as a data URL
+const BASE64_DATA_PATTERN = /^(?:data:[^,]*,)?[A-Za-z0-9+/]{256,}={0,2}$/;
+
+/**
+ * Whether a string value is base64 data (e.g. an inline image), which text
+ * rewrites such as anonymization should leave alone
+ */
+export function isBase64Data(value: string): boolean {
+  return BASE64_DATA_PATTERN.test(value);
+}
+
+/**
+ * Image media type from the start of base64 data, or null for other data
+ */
+export function sniffImageType(base64: string): string | null {
+  const match = IMAGE_SIGNATURES.find(([signature]) =>
+    base64.startsWith(signature),
+  );
+  return match ? match[1] : null;
+}
+
+/**
+ * Move large base64 images out of transcript content
+ * Identical images (e.g. history repeated in a resumed session) are stored
+ * once.
+ * @returns Content with asset references, and the extracted images
+ */
+export function extractImageAssets(content: string): {
+  content: string;
+  assets: ExtractedAsset[];
+} {
+  const assets = new Map<string, ExtractedAsset>();
+
+  const replaced = content.replace(
+    BASE64_VALUE_PATTERN,
+    (match, prefix: string, base64: string) => {
+      const mediaType = sniffImageType(base64);
+      if (!mediaType) return match;
+
+      const hash = createHash("sha256").update(base64).digest("hex");
+      if (!assets.has(hash)) {
+        assets.set(hash, {
+          hash,
+          mediaType,
+          data: Buffer.from(base64, "base64"),
+        });
+      }
+      return `${prefix}${ASSET_REF_PREFIX}${hash}`;
+    },
+  );
+
+  return { content: replaced, assets: [...assets.values()] };
+}
+
+/**
+ * Total size in bytes of extracted images
+ */
+export function getAssetBytes(assets: ExtractedAsset[]): number {
+  return assets.reduce((sum, asset) => sum + asset.data.length, 0);
+}
@@ -0,0 +1,77 @@
+/**
+ * Cost estimate migration
+ * Estimates are stored with the pricing catalog version they were computed
+ * with. When the catalog changes, the transcript page shows a fresh estimate
+ * computed in memory, and this job rewrites the stored ones in the
+ * background so the database catches up.
+ */
+
+import type { TranscriptMetadata } from "@/types/transcript";
+import { log } from "./logger";
+import { calculateCostEstimate, parseJSONL } from "./parser";
+import { PRICING_VERSION } from "./pricing";
+import { prisma } from "./prisma";
+
+const BATCH_SIZE = 50;
+
+/**
+ * Recompute the stored cost estimates made with an older pricing catalog
+ * An estimate is removed when the transcript has no usage left to price.
+ * The transcript's updatedAt is kept, as it versions the social preview
+ * image.
+ * @returns Number of transcripts updated
+ */
+export async function refreshCostEstimates(): Promise<number> {
+  let updated = 0;
+  let cursor: string | undefined;
+
+  for (;;) {
+    const transcripts = await prisma.transcript.findMany({
+      where: {
+        metadata: {
+          path: ["costEstimate", "pricingVersion"],
+          not: PRICING_VERSION,
+        },
+      },
+      select: {
+        id: true,
+        source: true,
+        fileData: true,
+        metadata: true,
+        updatedAt: true,
+      },
+      orderBy: { id: "asc" },
+      take: BATCH_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    });
+    if (transcripts.length === 0) return updated;
+    cursor = transcripts[transcripts.length - 1].id;
+
+    for (const transcript of transcripts) {
+      const metadata = (transcript.metadata as TranscriptMetadata | null) || {};
+      try {
+        const parsed = parseJSONL(transcript.fileData, transcript.source);
+        metadata.costEstimate =
+          calculateCostEstimate(
+            parsed,
+            transcript.source,
+            metadata.tokenCounts,
+          ) ?? undefined;
+
+        await prisma.transcript.update({
+          where: { id: transcript.id },
+          data: {
+            metadata: JSON.parse(JSON.stringify(metadata)),
+            updatedAt: transcript.updatedAt,
+          },
+        });
+        updated++;
+      } catch (error) {
+        log.warn("Failed to refresh cost estimate", {
+          transcriptId: transcript.id,
+          errorMessage: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Line diffs for file edits recorded in transcripts
+ */
+
+export interface DiffLine {
+  type: "added" | "removed" | "unchanged";
+  content: string;
+  oldLineNumber?: number;
+  newLineNumber?: number;
+}
+
+/**
+ * Line diff of two strings
+ * Simple greedy algorithm that finds added and removed lines; edits in
+ * transcripts are small enough not to need a full LCS
+ */
+export function computeDiff(oldStr: string, newStr: string): DiffLine[] {
+  const oldLines = oldStr.split("\n");
+  const newLines = newStr.split("\n");
+  const diff: DiffLine[] = [];
+
+  let oldIndex = 0;
+  let newIndex = 0;
+
+  while (oldIndex < oldLines.length || newIndex < newLines.length) {
+    const oldLine = oldLines[oldIndex];
+    const newLine = newLines[newIndex];
+
+    if (oldLine === newLine) {
+      // Lines match - unchanged
+      diff.push({
+        type: "unchanged",
+        content: oldLine || "",
+        oldLineNumber: oldIndex + 1,
+        newLineNumber: newIndex + 1,
+      });
+      oldIndex++;
+      newIndex++;
+    } else {
+      // Lines differ - check if it's a removal, addition, or both
+      const oldLineInNew = newLines.slice(newIndex).indexOf(oldLine);
+      const newLineInOld = oldLines.slice(oldIndex).indexOf(newLine);
+
+      if (oldLineInNew === -1 && newLineInOld === -1) {
+        // Both lines are unique - mark as removed and added
+        if (oldIndex < oldLines.length) {
+          diff.push({
+            type: "removed",
+            content: oldLine || "",
+            oldLineNumber: oldIndex + 1,
+          });
+          oldIndex++;
+        }
+        if (newIndex < newLines.length) {
+          diff.push({
+            type: "added",
+            content: newLine || "",
+            newLineNumber: newIndex + 1,
+          });
+          newIndex++;
+        }
+      } else if (
+        oldLineInNew !== -1 &&
+        (newLineInOld === -1 || oldLineInNew <= newLineInOld)
+      ) {
+        // Old line appears later in new - mark intervening new lines as added
+        while (newLines[newIndex] !== oldLine) {
+          diff.push({
+            type: "added",
+            content: newLines[newIndex] || "",
+            newLineNumber: newIndex + 1,
+          });
+          newIndex++;
+        }
+      } else {
+        // New line appears later in old - mark intervening old lines as removed
+        while (oldLines[oldIndex] !== newLine) {
+          diff.push({
+            type: "removed",
+            content: oldLines[oldIndex] || "",
+            oldLineNumber: oldIndex + 1,
+          });
+          oldIndex++;
+        }
+      }
+    }
+  }
+
+  return diff;
+}
+
+const DIFF_MARKERS: Record<DiffLine["type"], string> = {
+  added: "+",
+  removed: "-",
+  unchanged: " ",
+};
+
+/**
+ * Diff as +/- prefixed lines, as in the body of a unified diff
+ */
+export function formatDiff(oldStr: string, newStr: string): string {
+  // Written files have no old content; every line is added
+  const lines: DiffLine[] =
+    oldStr === ""
+      ? newStr.split("\n").map((content) => ({ type: "added", content }))
+      : computeDiff(oldStr, newStr);
+  return lines
+    .map((line) => `${DIFF_MARKERS[line.type]}${line.content}`)
+    .join("\n");
+}
@@ -1,4 +1,10 @@
 import { DlpServiceClient } from "@google-cloud/dlp";
+import { isBase64Data } from "./assets";
+import {
+  findMatches,
+  LocalSecretScanner,
+  type SecretRule,
+} from "./secret-scanner";
 
 // Initialize DLP client
 // Supports both file path (local dev) and JSON content (Vercel)
@@ -38,6 +44,19 @@ export interface DlpScanResult {
   scrubbedContent?: string; // If scrubbing was performed, this contains the cleaned content
 }
 
+/**
+ * A sensitive data detection engine
+ * Scanners only report findings; whether a finding is scrubbed or blocks the
+ * upload is decided by SCRUB_TYPES for every scanner alike
+ */
+export interface SensitiveDataScanner {
+  readonly name: string;
+  scan(content: string): Promise<{
+    findings: SensitiveDataFinding[];
+    scannedContent?: string; // Set when the scanner had to alter the content to scan it (e.g. pre-scrubbing); findings refer to it
+  }>;
+}
+
 // DLP has a 512KB limit per request
 const DLP_MAX_BYTES = 512 * 1024; // 524,288 bytes
 
@@ -64,6 +83,15 @@ const SCRUB_TYPES = new Set([
   "PASSWORD",
   "WEAK_PASSWORD_HASH",
   "XSRF_TOKEN",
+  // Local secret scanner types
+  "PRIVATE_KEY",
+  "GITHUB_TOKEN",
+  "SLACK_TOKEN",
+  "STRIPE_API_KEY",
+  "OPENAI_API_KEY",
+  "ANTHROPIC_API_KEY",
+  "CONNECTION_STRING",
+  "HIGH_ENTROPY_STRING",
 ]);
 
 // Regex patterns for pre-scrubbing (before DLP)
@@ -76,6 +104,13 @@ const IPV4_REGEX =
 // Match IPv6, but not if preceded by backslash
 const IPV6_REGEX = /(?<!\\)(?:[0-9a-fA-F]{1,4}:){7}[0-9a-fA-F]{1,4}/g;
 
+// The same patterns as findings, for when they are reviewed instead of pre-scrubbed
+const PRE_SCRUB_RULES: SecretRule[] = [
+  { infoType: "EMAIL_ADDRESS", likelihood: "LIKELY", pattern: EMAIL_REGEX },
+  { infoType: "IP_ADDRESS", likelihood: "LIKELY", pattern: IPV4_REGEX },
+  { infoType: "IP_ADDRESS", likelihood: "LIKELY", pattern: IPV6_REGEX },
+];
+
 /**
  * Pre-scrub emails and IP addresses before sending to DLP.
  * This is more reliable than DLP detection and saves API costs.
@@ -110,8 +145,9 @@ function preScrubEmailsAndIPs(content: string): string {
  * Scrubs sensitive data from JSONL content by parsing each line,
  * replacing sensitive values, and re-serializing.
  * This ensures JSON structure remains valid after replacement.
+ * Base64 data such as inline images is left intact.
  */
-function scrubContent(
+export function scrubContent(
   content: string,
   findings: SensitiveDataFinding[],
 ): string {
@@ -119,41 +155,69 @@ function scrubContent(
   const valuesToRedact = new Map<string, string>();
   for (const finding of findings) {
     if (finding.quote) {
-      valuesToRedact.set(finding.quote, `[REDACTED-${finding.infoType}]`);
+      const replacement = `[REDACTED-${finding.infoType}]`;
+      valuesToRedact.set(finding.quote, replacement);
+      // Quotes come from the raw text, where values inside JSON strings are
+      // still escaped (e.g. the line breaks of a private key)
+      try {
+        const decoded = JSON.parse(`"${finding.quote}"`);
+        if (decoded !== finding.quote) valuesToRedact.set(decoded, replacement);
+      } catch (_e) {
+        // Not a valid JSON string body, the raw quote is enough
+      }
+    }
+  }
+
+  return rewriteText(content, (value) => {
+    let result = value;
+    for (const [original, replacement] of valuesToRedact.entries()) {
+      result = result.split(original).join(replacement);
+    }
+    return result;
+  });
+}
+
+/**
+ * Rewrite every string value of a transcript, keeping its JSON valid.
+ * JSONL is processed line by line and a single JSON document (Gemini, Cline)
+ * as a whole; text that isn't JSON (e.g. Aider markdown) is rewritten as-is.
+ * Values are visited in document order. Object keys are kept unless
+ * rewriteKey is given.
+ */
+export function rewriteStrings(
+  content: string,
+  rewrite: (value: string) => string,
+  rewriteKey?: (key: string) => string,
+): string {
+  // A (possibly pretty-printed) single JSON document
+  const trimmed = content.trim();
+  if (
+    trimmed.includes("\n") &&
+    ((trimmed.startsWith("{") && trimmed.endsWith("}")) ||
+      (trimmed.startsWith("[") && trimmed.endsWith("]")))
+  ) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      return JSON.stringify(scrubObject(parsed, rewrite, rewriteKey), null, 2);
+    } catch (_e) {
+      // JSONL, handled line by line below
     }
   }
 
   // Process line by line to maintain JSONL structure
   const lines = content.split("\n");
-  let _scrubCount = 0;
-  const scrubbedLines = lines.map((line, _index) => {
+  const scrubbedLines = lines.map((line) => {
     if (!line.trim()) return line;
 
     try {
       // Parse the JSON line
       const parsed = JSON.parse(line);
 
-      // Recursively scrub all string values in the object
-      const scrubbed = scrubObject(parsed, valuesToRedact);
-
-      // Re-serialize
-      const serialized = JSON.stringify(scrubbed);
-
-      // Check if anything was actually scrubbed
-      if (serialized !== JSON.stringify(parsed)) {
-        _scrubCount++;
-      }
-
-      return serialized;
+      // Recursively rewrite all string values in the object and re-serialize
+      return JSON.stringify(scrubObject(parsed, rewrite, rewriteKey));
     } catch (_e) {
       // If line isn't valid JSON, do simple text replacement
-      let scrubbedLine = line;
-      for (const [original, replacement] of valuesToRedact.entries()) {
-        if (scrubbedLine.includes(original)) {
-          scrubbedLine = scrubbedLine.split(original).join(replacement);
-        }
-      }
-      return scrubbedLine;
+      return rewrite(line);
     }
   });
 
@@ -161,62 +225,53 @@ function scrubContent(
 }
 
 /**
- * Recursively scrub sensitive values from an object
+ * rewriteStrings for text rewrites such as anonymization, leaving base64 data
+ * (inline images, data URLs) untouched
  */
-function scrubObject(
-  obj: unknown,
-  valuesToRedact: Map<string, string>,
-): unknown {
-  if (typeof obj === "string") {
-    // Check if this string contains any sensitive values
-    let result = obj;
-    for (const [original, replacement] of valuesToRedact.entries()) {
-      result = result.split(original).join(replacement);
-    }
-    return result;
-  }
-
-  if (Array.isArray(obj)) {
-    return obj.map((item) => scrubObject(item, valuesToRedact));
-  }
-
-  if (obj !== null && typeof obj === "object") {
-    const result: Record<string, unknown> = {};
-    for (const [key, value] of Object.entries(obj)) {
-      result[key] = scrubObject(value, valuesToRedact);
-    }
-    return result;
-  }
+export function rewriteText(
+  content: string,
+  rewrite: (value: string) => string,
+  rewriteKey?: (key: string) => string,
+): string {
+  return rewriteStrings(
+    content,
+    (value) => (isBase64Data(value) ? value : rewrite(value)),
+    rewriteKey,
+  );
+}
 
-  return obj;
+/**
+ * Escape text to match it literally in a regular expression
+ */
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 }
 
 /**
- * Truncates oversized string values in an object to prevent individual lines
- * from exceeding DLP size limits. Adds a marker when truncation occurs.
+ * Recursively rewrite the string values of an object, and its keys when
+ * rewriteKey is given
  */
-function truncateOversizedValues(
+function scrubObject(
   obj: unknown,
-  maxSize: number = 100000, // 100KB per field
+  rewrite: (value: string) => string,
+  rewriteKey?: (key: string) => string,
 ): unknown {
   if (typeof obj === "string") {
-    const size = Buffer.byteLength(obj, "utf8");
-    if (size > maxSize) {
-      // Truncate to maxSize and add marker
-      const truncated = obj.substring(0, Math.floor(maxSize / 2));
-      return `${truncated}\n\n[... truncated ${size - maxSize} bytes ...]`;
-    }
-    return obj;
+    return rewrite(obj);
   }
 
   if (Array.isArray(obj)) {
-    return obj.map((item) => truncateOversizedValues(item, maxSize));
+    return obj.map((item) => scrubObject(item, rewrite, rewriteKey));
   }
 
   if (obj !== null && typeof obj === "object") {
     const result: Record<string, unknown> = {};
     for (const [key, value] of Object.entries(obj)) {
-      result[key] = truncateOversizedValues(value, maxSize);
+      result[rewriteKey ? rewriteKey(key) : key] = scrubObject(
+        value,
+        rewrite,
+        rewriteKey,
+      );
     }
     return result;
   }
@@ -224,293 +279,225 @@ function truncateOversizedValues(
   return obj;
 }
 
+// Slices of an oversized line overlap so a value crossing a slice boundary is
+// still seen whole by one of them
+const DLP_SLICE_OVERLAP = 4096; // chars
+
 /**
- * Attempts to scan content for sensitive data using Google Cloud DLP
- * Returns findings if sensitive data is detected (not guaranteed to detect all sensitive data)
- * Handles large files by chunking them into smaller pieces
- * Automatically scrubs IP addresses (and other configured types) instead of blocking
+ * Split content into pieces within the DLP limit, each with its byte offset
+ * Whole lines are grouped where they fit; a longer line is sliced, so every
+ * byte is scanned
  */
-export async function scanForSensitiveData(
+function splitForDlp(
   content: string,
-): Promise<DlpScanResult> {
-  // Pre-scrub emails and IPs with regex (more reliable and cheaper than DLP)
-  const preScrubbed = preScrubEmailsAndIPs(content);
-  const hasPreScrubbing = preScrubbed !== content;
-
-  // If DLP is not configured, return pre-scrubbed content if any
-  if (!dlp || !process.env.GOOGLE_CLOUD_PROJECT) {
-    console.warn("DLP not configured, skipping sensitive data scan");
-    if (hasPreScrubbing) {
-      return {
-        hasSensitiveData: false,
-        findings: [],
-        categories: [],
-        scrubbedContent: preScrubbed,
-      };
+): Array<{ text: string; byteOffset: number }> {
+  const pieces: Array<{ text: string; byteOffset: number }> = [];
+  // At most 3 UTF-8 bytes per UTF-16 code unit
+  const sliceChars = Math.floor(DLP_MAX_BYTES / 3);
+  let chunk = "";
+  let chunkOffset = 0;
+  let offset = 0;
+
+  for (const line of content.split("\n")) {
+    const lineBytes = Buffer.byteLength(line, "utf8");
+    const joined = chunk ? `${chunk}\n${line}` : line;
+
+    if (lineBytes > DLP_MAX_BYTES) {
+      if (chunk) pieces.push({ text: chunk, byteOffset: chunkOffset });
+      chunk = "";
+      for (let start = 0; ; start += sliceChars - DLP_SLICE_OVERLAP) {
+        pieces.push({
+          text: line.slice(start, start + sliceChars),
+          byteOffset: offset + Buffer.byteLength(line.slice(0, start), "utf8"),
+        });
+        if (start + sliceChars >= line.length) break;
+      }
+    } else if (chunk && Buffer.byteLength(joined, "utf8") > DLP_MAX_BYTES) {
+      pieces.push({ text: chunk, byteOffset: chunkOffset });
+      chunk = line;
+      chunkOffset = offset;
+    } else {
+      if (!chunk) chunkOffset = offset;
+      chunk = joined;
     }
-    return {
-      hasSensitiveData: false,
-      findings: [],
-      categories: [],
-    };
-  }
 
-  try {
-    const projectId = process.env.GOOGLE_CLOUD_PROJECT;
-    // Use pre-scrubbed content for DLP scanning
-    const contentBytes = Buffer.byteLength(preScrubbed, "utf8");
-
-    // Build the inspect config (shared across all chunks)
-    // Note: Some detectors are region-specific. Using 'us' region for broader detector support.
-    const inspectConfig = {
-      infoTypes: [
-        // Credentials & Secrets (widely available)
-        { name: "AUTH_TOKEN" },
-        { name: "AZURE_AUTH_TOKEN" },
-        { name: "AWS_CREDENTIALS" },
-        { name: "BASIC_AUTH_HEADER" },
-        { name: "ENCRYPTION_KEY" },
-        { name: "GCP_API_KEY" },
-        { name: "GCP_CREDENTIALS" },
-        { name: "HTTP_COOKIE" },
-        { name: "JSON_WEB_TOKEN" },
-        { name: "OAUTH_CLIENT_SECRET" },
-        { name: "PASSWORD" },
-        { name: "WEAK_PASSWORD_HASH" },
-        { name: "XSRF_TOKEN" },
-
-        // Personal Identifiable Information
-        { name: "CREDIT_CARD_NUMBER" },
-        { name: "EMAIL_ADDRESS" },
-        { name: "IP_ADDRESS" },
-        { name: "MAC_ADDRESS" },
-        { name: "PHONE_NUMBER" },
-        { name: "US_DRIVERS_LICENSE_NUMBER" },
-        { name: "US_PASSPORT" },
-        { name: "US_SOCIAL_SECURITY_NUMBER" },
-      ],
-      minLikelihood: "LIKELY" as const, // POSSIBLE, LIKELY, VERY_LIKELY
-      limits: {
-        maxFindingsPerRequest: 100,
-      },
-      includeQuote: true,
-    };
-
-    // If content is small enough, scan it directly
-    if (contentBytes <= DLP_MAX_BYTES) {
-      const request = {
-        parent: `projects/${projectId}/locations/us`,
-        inspectConfig,
-        item: {
-          value: preScrubbed,
-        },
-      };
+    offset += lineBytes + 1;
+  }
 
-      const response = await dlp.inspectContent(request);
-      const findings = response[0]?.result?.findings || [];
+  if (chunk) pieces.push({ text: chunk, byteOffset: chunkOffset });
+  return pieces;
+}
 
-      if (findings.length === 0) {
-        return {
-          hasSensitiveData: false,
-          findings: [],
-          categories: [],
-        };
-      }
+// Inspect config shared by every Cloud DLP request
+// Note: Some detectors are region-specific. Using 'us' region for broader detector support.
+const DLP_INSPECT_CONFIG = {
+  infoTypes: [
+    // Credentials & Secrets (widely available)
+    { name: "AUTH_TOKEN" },
+    { name: "AZURE_AUTH_TOKEN" },
+    { name: "AWS_CREDENTIALS" },
+    { name: "BASIC_AUTH_HEADER" },
+    { name: "ENCRYPTION_KEY" },
+    { name: "GCP_API_KEY" },
+    { name: "GCP_CREDENTIALS" },
+    { name: "HTTP_COOKIE" },
+    { name: "JSON_WEB_TOKEN" },
+    { name: "OAUTH_CLIENT_SECRET" },
+    { name: "PASSWORD" },
+    { name: "WEAK_PASSWORD_HASH" },
+    { name: "XSRF_TOKEN" },
+
+    // Personal Identifiable Information
+    { name: "CREDIT_CARD_NUMBER" },
+    { name: "EMAIL_ADDRESS" },
+    { name: "IP_ADDRESS" },
+    { name: "MAC_ADDRESS" },
+    { name: "PHONE_NUMBER" },
+    { name: "US_DRIVERS_LICENSE_NUMBER" },
+    { name: "US_PASSPORT" },
+    { name: "US_SOCIAL_SECURITY_NUMBER" },
+  ],
+  minLikelihood: "LIKELY" as const, // POSSIBLE, LIKELY, VERY_LIKELY
+  limits: {
+    maxFindingsPerRequest: 100,
+  },
+  includeQuote: true,
+};
 
-      // Map findings
-      const mappedFindings: SensitiveDataFinding[] = findings.map((f) => ({
-        infoType: f.infoType?.name || "UNKNOWN",
-        likelihood: String(f.likelihood || "UNKNOWN"),
-        quote: f.quote || "",
-        location: {
-          byteRange: {
-            start: Number(f.location?.byteRange?.start || 0),
-            end: Number(f.location?.byteRange?.end || 0),
-          },
+/**
+ * Scanner backed by Google Cloud DLP
+ * Content is pre-scrubbed of emails and IPs before it is sent (cheaper and
+ * more reliable than DLP for those); large content is scanned in pieces
+ */
+class GoogleDlpScanner implements SensitiveDataScanner {
+  readonly name = "google-dlp";
+
+  constructor(
+    private readonly client: DlpServiceClient,
+    private readonly projectId: string,
+  ) {}
+
+  private async inspect(
+    value: string,
+    byteOffset = 0,
+  ): Promise<SensitiveDataFinding[]> {
+    const response = await this.client.inspectContent({
+      parent: `projects/${this.projectId}/locations/us`,
+      inspectConfig: DLP_INSPECT_CONFIG,
+      item: {
+        value,
+      },
+    });
+    const findings = response[0]?.result?.findings || [];
+
+    // Adjust byte offsets to account for position in original content
+    return findings.map((f) => ({
+      infoType: f.infoType?.name || "UNKNOWN",
+      likelihood: String(f.likelihood || "UNKNOWN"),
+      quote: f.quote || "",
+      location: {
+        byteRange: {
+          start: Number(f.location?.byteRange?.start || 0) + byteOffset,
+          end: Number(f.location?.byteRange?.end || 0) + byteOffset,
         },
-      }));
-
-      // Separate scrub-able and block-able findings
-      const scrubFindings = mappedFindings.filter((f) =>
-        SCRUB_TYPES.has(f.infoType),
-      );
-      const blockFindings = mappedFindings.filter(
-        (f) => !SCRUB_TYPES.has(f.infoType),
-      );
-
-      // Extract unique categories
-      const _categories = [
-        ...new Set(mappedFindings.map((f) => f.infoType).filter(Boolean)),
-      ] as string[];
-
-      // If there are findings that should block, return them
-      if (blockFindings.length > 0) {
-        return {
-          hasSensitiveData: true,
-          findings: blockFindings,
-          categories: blockFindings.map((f) => f.infoType),
-        };
-      }
+      },
+    }));
+  }
 
-      // Only scrub-able findings - scrub them from pre-scrubbed content
-      if (scrubFindings.length > 0) {
-        const scrubbedContent = scrubContent(preScrubbed, scrubFindings);
-        return {
-          hasSensitiveData: true,
-          findings: scrubFindings,
-          categories: scrubFindings.map((f) => f.infoType),
-          scrubbedContent,
-        };
-      }
+  async scan(content: string) {
+    // Pre-scrub emails and IPs with regex (more reliable and cheaper than DLP)
+    const preScrubbed = preScrubEmailsAndIPs(content);
 
-      // No DLP findings, but we may have pre-scrubbed
-      if (hasPreScrubbing) {
+    try {
+      // If content is small enough, scan it directly
+      if (Buffer.byteLength(preScrubbed, "utf8") <= DLP_MAX_BYTES) {
         return {
-          hasSensitiveData: false,
-          findings: [],
-          categories: [],
-          scrubbedContent: preScrubbed,
+          findings: await this.inspect(preScrubbed),
+          scannedContent: preScrubbed,
         };
       }
 
-      // No changes
-      return {
-        hasSensitiveData: false,
-        findings: [],
-        categories: [],
-      };
-    }
-
-    // Content is too large - split into chunks by lines to avoid breaking JSON structures
-
-    const lines = preScrubbed.split("\n");
-    const processedLines: string[] = [];
-    const chunks: string[] = [];
-    let currentChunk = "";
-    let truncatedCount = 0;
-
-    for (const line of lines) {
-      let processedLine = line;
-      const lineSize = Buffer.byteLength(line, "utf8");
+      // Content is too large - scan it in pieces
+      const pieces = splitForDlp(preScrubbed);
+      const allFindings: SensitiveDataFinding[] = [];
+      const seen = new Set<string>();
 
-      // If a single line is too large, try to truncate large values within it
-      if (lineSize > DLP_MAX_BYTES) {
+      for (let i = 0; i < pieces.length; i++) {
         try {
-          // Try to parse and truncate the line
-          const parsed = JSON.parse(line);
-          const truncated = truncateOversizedValues(parsed);
-          processedLine = JSON.stringify(truncated);
-          truncatedCount++;
-
-          const newSize = Buffer.byteLength(processedLine, "utf8");
-
-          // If still too large after truncation, skip it
-          if (newSize > DLP_MAX_BYTES) {
-            // Save current chunk and skip this line
-            if (currentChunk) {
-              chunks.push(currentChunk);
-              currentChunk = "";
-            }
-            continue;
-          }
-        } catch (_e) {
-          // Save current chunk and skip this unparseable line
-          if (currentChunk) {
-            chunks.push(currentChunk);
-            currentChunk = "";
+          const findings = await this.inspect(
+            pieces[i].text,
+            pieces[i].byteOffset,
+          );
+          // Overlapping slices can report the same value twice
+          for (const f of findings) {
+            const key = `${f.infoType}:${f.location.byteRange.start}`;
+            if (seen.has(key)) continue;
+            seen.add(key);
+            allFindings.push(f);
           }
-          continue;
+        } catch (chunkError) {
+          console.error(`Error scanning chunk ${i + 1}:`, chunkError);
+          // Continue with other chunks
         }
       }
 
-      // Add processed line to our list
-      processedLines.push(processedLine);
-
-      const testChunk = currentChunk
-        ? `${currentChunk}\n${processedLine}`
-        : processedLine;
-      const testSize = Buffer.byteLength(testChunk, "utf8");
-
-      if (testSize > DLP_MAX_BYTES && currentChunk) {
-        // Current chunk would exceed limit, save it and start new one
-        chunks.push(currentChunk);
-        currentChunk = processedLine;
-      } else {
-        currentChunk = testChunk;
-      }
-    }
-
-    // Add the last chunk
-    if (currentChunk) {
-      chunks.push(currentChunk);
+      return { findings: allFindings, scannedContent: preScrubbed };
+    } catch (error) {
+      console.error("DLP scan error:", error);
+      // On error, allow upload but log the issue
+      return { findings: [] };
     }
+  }
+}
 
-    // Use the processed content (with truncations) for scanning and final upload
-    const processedContent = processedLines.join("\n");
-
-    // Scan each chunk and aggregate results
-    const allFindings: SensitiveDataFinding[] = [];
-    const allCategories = new Set<string>();
-    let cumulativeByteOffset = 0;
-
-    for (let i = 0; i < chunks.length; i++) {
-      const chunk = chunks[i];
-      const chunkBytes = Buffer.byteLength(chunk, "utf8");
-
-      const request = {
-        parent: `projects/${projectId}/locations/us`,
-        inspectConfig,
-        item: {
-          value: chunk,
-        },
-      };
-
-      try {
-        const response = await dlp.inspectContent(request);
-        const findings = response[0]?.result?.findings || [];
-
-        if (findings.length > 0) {
-          for (const f of findings) {
-            // Adjust byte offsets to account for position in original content
-            allFindings.push({
-              infoType: f.infoType?.name || "UNKNOWN",
-              likelihood: String(f.likelihood || "UNKNOWN"),
-              quote: f.quote || "",
-              location: {
-                byteRange: {
-                  start:
-                    Number(f.location?.byteRange?.start || 0) +
-                    cumulativeByteOffset,
-                  end:
-                    Number(f.location?.byteRange?.end || 0) +
-                    cumulativeByteOffset,
-                },
-              },
-            });
-
-            if (f.infoType?.name) {
-              allCategories.add(f.infoType.name);
-            }
-          }
-        }
-      } catch (chunkError) {
-        console.error(`Error scanning chunk ${i + 1}:`, chunkError);
-        // Continue with other chunks
+/**
+ * Scanners to run, in order
+ * SENSITIVE_DATA_SCANNERS is a comma-separated list of "local" and
+ * "google-dlp" (default: both). Cloud DLP is skipped when it is not configured.
+ */
+function getSensitiveDataScanners(): SensitiveDataScanner[] {
+  const names = (process.env.SENSITIVE_DATA_SCANNERS || "local,google-dlp")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  const scanners: SensitiveDataScanner[] = [];
+  for (const name of names) {
+    if (name === "local") {
+      scanners.push(new LocalSecretScanner());
+    } else if (name === "google-dlp") {
+      if (!dlp || !process.env.GOOGLE_CLOUD_PROJECT) {
+        console.warn("DLP not configured, skipping Cloud DLP scan");
+        continue;
       }
-
-      // Add bytes from this chunk plus newline separator (except for last chunk)
-      cumulativeByteOffset += chunkBytes + (i < chunks.length - 1 ? 1 : 0);
+      scanners.push(
+        new GoogleDlpScanner(dlp, process.env.GOOGLE_CLOUD_PROJECT),
+      );
+    } else {
+      console.warn(`Unknown sensitive data scanner "${name}", skipping`);
     }
+  }
+  return scanners;
+}
+
+/**
+ * Attempts to scan content for sensitive data with the configured scanners
+ * Returns findings if sensitive data is detected (not guaranteed to detect all sensitive data)
+ * Each scanner sees the content already scrubbed by the ones before it
+ * Automatically scrubs IP addresses (and other configured types) instead of blocking
+ */
+export async function scanForSensitiveData(
+  content: string,
+): Promise<DlpScanResult> {
+  let current = content;
+  const scrubFindings: SensitiveDataFinding[] = [];
 
-    // Separate scrub-able and block-able findings (even if empty, we still need to check for pre-scrubbing)
-    const scrubFindings = allFindings.filter((f) =>
-      SCRUB_TYPES.has(f.infoType),
-    );
-    const blockFindings = allFindings.filter(
-      (f) => !SCRUB_TYPES.has(f.infoType),
-    );
+  for (const scanner of getSensitiveDataScanners()) {
+    const { findings, scannedContent } = await scanner.scan(current);
+    if (scannedContent !== undefined) current = scannedContent;
 
     // If there are findings that should block, return them
+    const blockFindings = findings.filter((f) => !SCRUB_TYPES.has(f.infoType));
     if (blockFindings.length > 0) {
       return {
         hasSensitiveData: true,
@@ -519,42 +506,91 @@ export async function scanForSensitiveData(
       };
     }
 
-    // Only scrub-able findings - scrub them from the processed content
-    if (scrubFindings.length > 0) {
-      const scrubbedContent = scrubContent(processedContent, scrubFindings);
-      return {
-        hasSensitiveData: true,
-        findings: scrubFindings,
-        categories: Array.from(new Set(scrubFindings.map((f) => f.infoType))),
-        scrubbedContent,
-      };
+    if (findings.length > 0) {
+      current = scrubContent(current, findings);
+      scrubFindings.push(...findings);
     }
+  }
 
-    // No sensitive findings, but we may have truncated or pre-scrubbed
-    if (truncatedCount > 0 || hasPreScrubbing) {
-      return {
-        hasSensitiveData: false,
-        findings: [],
-        categories: [],
-        scrubbedContent: processedContent, // Return processed version (truncated + pre-scrubbed)
-      };
-    }
+  // Emails and IPs are scrubbed even when no scanner sends content to DLP
+  current = preScrubEmailsAndIPs(current);
 
-    // No changes needed
-    return {
-      hasSensitiveData: false,
-      findings: [],
-      categories: [],
-    };
-  } catch (error) {
-    console.error("DLP scan error:", error);
-    // On error, allow upload but log the issue
-    return {
-      hasSensitiveData: false,
-      findings: [],
-      categories: [],
-    };
+  return {
+    hasSensitiveData: scrubFindings.length > 0,
+    findings: scrubFindings,
+    categories: Array.from(new Set(scrubFindings.map((f) => f.infoType))),
+    ...(current !== content && { scrubbedContent: current }),
+  };
+}
+
+/**
+ * Finds sensitive data with the configured scanners without changing the
+ * content, so the uploader can review each finding before publishing
+ * Emails and IPs are reported as findings instead of being pre-scrubbed, and
+ * a value found by several scanners is reported once
+ */
+export async function findSensitiveData(
+  content: string,
+): Promise<SensitiveDataFinding[]> {
+  const findings = findMatches(content, PRE_SCRUB_RULES);
+  for (const scanner of getSensitiveDataScanners()) {
+    findings.push(...(await scanner.scan(content)).findings);
   }
+
+  const seen = new Set<string>();
+  return findings.filter((f) => {
+    if (!f.quote || seen.has(f.quote)) return false;
+    seen.add(f.quote);
+    return true;
+  });
+}
+
+const CATEGORY_DESCRIPTIONS: Record<string, string> = {
+  // Credentials & Secrets
+  AUTH_TOKEN: "Authentication tokens",
+  AZURE_AUTH_TOKEN: "Azure auth tokens",
+  AWS_CREDENTIALS: "AWS credentials",
+  BASIC_AUTH_HEADER: "Basic auth headers",
+  ENCRYPTION_KEY: "Encryption keys",
+  GCP_API_KEY: "Google Cloud API keys",
+  GCP_CREDENTIALS: "Google Cloud credentials",
+  HTTP_COOKIE: "HTTP cookies",
+  JSON_WEB_TOKEN: "JWT tokens",
+  OAUTH_CLIENT_SECRET: "OAuth client secrets",
+  PASSWORD: "Passwords",
+  WEAK_PASSWORD_HASH: "Password hashes",
+  XSRF_TOKEN: "XSRF tokens",
+  PRIVATE_KEY: "Private keys",
+  GITHUB_TOKEN: "GitHub tokens",
+  SLACK_TOKEN: "Slack tokens",
+  STRIPE_API_KEY: "Stripe API keys",
+  OPENAI_API_KEY: "OpenAI API keys",
+  ANTHROPIC_API_KEY: "Anthropic API keys",
+  CONNECTION_STRING: "Connection strings with passwords",
+  HIGH_ENTROPY_STRING: "High-entropy strings",
+  // Personal Information
+  CREDIT_CARD_NUMBER: "Credit card numbers",
+  US_SOCIAL_SECURITY_NUMBER: "Social security numbers",
+  US_DRIVERS_LICENSE_NUMBER: "Driver's license numbers",
+  US_PASSPORT: "Passport numbers",
+  EMAIL_ADDRESS: "Email addresses",
+  PHONE_NUMBER: "Phone numbers",
+  IP_ADDRESS: "IP addresses",
+  MAC_ADDRESS: "MAC addresses",
+};
+
+/**
+ * Whether findings of this type are scrubbed; other types block the upload
+ */
+export function isScrubType(infoType: string): boolean {
+  return SCRUB_TYPES.has(infoType);
+}
+
+/**
+ * Human-readable name of an info type
+ */
+export function describeInfoType(infoType: string): string {
+  return CATEGORY_DESCRIPTIONS[infoType] || infoType;
 }
 
 /**
@@ -565,35 +601,7 @@ export function formatDlpFindings(result: DlpScanResult): string {
     return "";
   }
 
-  const categoryDescriptions: Record<string, string> = {
-    // Credentials & Secrets
-    AUTH_TOKEN: "Authentication tokens",
-    AZURE_AUTH_TOKEN: "Azure auth tokens",
-    AWS_CREDENTIALS: "AWS credentials",
-    BASIC_AUTH_HEADER: "Basic auth headers",
-    ENCRYPTION_KEY: "Encryption keys",
-    GCP_API_KEY: "Google Cloud API keys",
-    GCP_CREDENTIALS: "Google Cloud credentials",
-    HTTP_COOKIE: "HTTP cookies",
-    JSON_WEB_TOKEN: "JWT tokens",
-    OAUTH_CLIENT_SECRET: "OAuth client secrets",
-    PASSWORD: "Passwords",
-    WEAK_PASSWORD_HASH: "Password hashes",
-    XSRF_TOKEN: "XSRF tokens",
-    // Personal Information
-    CREDIT_CARD_NUMBER: "Credit card numbers",
-    US_SOCIAL_SECURITY_NUMBER: "Social security numbers",
-    US_DRIVERS_LICENSE_NUMBER: "Driver's license numbers",
-    US_PASSPORT: "Passport numbers",
-    EMAIL_ADDRESS: "Email addresses",
-    PHONE_NUMBER: "Phone numbers",
-    IP_ADDRESS: "IP addresses",
-    MAC_ADDRESS: "MAC addresses",
-  };
-
-  const detectedTypes = result.categories
-    .map((cat) => categoryDescriptions[cat] || cat)
-    .join(", ");
+  const detectedTypes = result.categories.map(describeInfoType).join(", ");
 
   return `\nDetected ${result.findings.length} instance(s) of sensitive data: ${detectedTypes}`;
 }
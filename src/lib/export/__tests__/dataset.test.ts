@@ -0,0 +1,174 @@
+import { describe, expect, it } from "vitest";
+import {
+  makeLine,
+  makeTranscript,
+} from "@/lib/providers/__tests__/fixtures/transcript-factory";
+import {
+  transcriptsToDataset,
+  transcriptToAnthropicExample,
+  transcriptToOpenAiExample,
+} from "../dataset";
+
+// Prompt, a tool call with its result, then the answer
+const toolSession = (isError = false) =>
+  makeTranscript([
+    makeLine("u1", "user", "What is in the readme?"),
+    makeLine("a1", "assistant", [
+      { type: "thinking", thinking: "I should read it." },
+      { type: "text", text: "Let me look." },
+      {
+        type: "tool_use",
+        id: "toolu_1",
+        name: "Read",
+        input: { file_path: "README.md" },
+      },
+    ]),
+    makeLine("u2", "user", [
+      {
+        type: "tool_result",
+        tool_use_id: "toolu_1",
+        content: "# Demo",
+        ...(isError && { is_error: true }),
+      },
+    ]),
+    makeLine("a2", "assistant", [{ type: "text", text: "It is a demo." }]),
+  ]);
+
+describe("transcriptToOpenAiExample", () => {
+  it("should pair tool calls with tool messages", () => {
+    expect(transcriptToOpenAiExample(toolSession())).toEqual({
+      messages: [
+        { role: "user", content: "What is in the readme?" },
+        {
+          role: "assistant",
+          content: "Let me look.",
+          reasoning_content: "I should read it.",
+          tool_calls: [
+            {
+              id: "toolu_1",
+              type: "function",
+              function: {
+                name: "Read",
+                arguments: '{"file_path":"README.md"}',
+              },
+            },
+          ],
+        },
+        { role: "tool", tool_call_id: "toolu_1", content: "# Demo" },
+        { role: "assistant", content: "It is a demo." },
+      ],
+    });
+  });
+
+  it("should drop thinking when asked", () => {
+    const example = transcriptToOpenAiExample(toolSession(), {
+      dropThinking: true,
+    });
+    expect(example?.messages[1]).not.toHaveProperty("reasoning_content");
+  });
+
+  it("should leave out calls that never got a result", () => {
+    const example = transcriptToOpenAiExample(
+      makeTranscript([
+        makeLine("u1", "user", "Run the tests"),
+        makeLine("a1", "assistant", [
+          { type: "text", text: "Running them." },
+          { type: "tool_use", id: "toolu_1", name: "Bash", input: {} },
+        ]),
+      ]),
+    );
+    expect(example?.messages).toEqual([
+      { role: "user", content: "Run the tests" },
+      { role: "assistant", content: "Running them." },
+    ]);
+  });
+
+  it("should give reasoning-only steps empty content", () => {
+    const example = transcriptToOpenAiExample(
+      makeTranscript([
+        makeLine("u1", "user", "Think about it"),
+        makeLine("a1", "assistant", [{ type: "thinking", thinking: "Hmm." }]),
+      ]),
+    );
+    expect(example?.messages[1]).toEqual({
+      role: "assistant",
+      content: "",
+      reasoning_content: "Hmm.",
+    });
+  });
+});
+
+describe("transcriptToAnthropicExample", () => {
+  it("should put tool results in a user message and keep roles alternating", () => {
+    const example = transcriptToAnthropicExample(toolSession(true));
+
+    expect(example?.messages.map((message) => message.role)).toEqual([
+      "user",
+      "assistant",
+      "user",
+      "assistant",
+    ]);
+    expect(example?.messages[1].content).toEqual([
+      { type: "thinking", thinking: "I should read it." },
+      { type: "text", text: "Let me look." },
+      {
+        type: "tool_use",
+        id: "toolu_1",
+        name: "Read",
+        input: { file_path: "README.md" },
+      },
+    ]);
+    expect(example?.messages[2].content).toEqual([
+      {
+        type: "tool_result",
+        tool_use_id: "toolu_1",
+        content: "# Demo",
+        is_error: true,
+      },
+    ]);
+  });
+
+  it("should drop thinking when asked", () => {
+    const example = transcriptToAnthropicExample(toolSession(), {
+      dropThinking: true,
+    });
+    expect(
+      example?.messages[1].content.some((block) => block.type === "thinking"),
+    ).toBe(false);
+  });
+});
+
+describe("transcriptsToDataset", () => {
+  it("should write one line per transcript with a response", () => {
+    const jsonl = transcriptsToDataset(
+      [
+        toolSession(),
+        makeTranscript([makeLine("u1", "user", "Anyone there?")]),
+      ],
+      "anthropic",
+    );
+
+    const lines = jsonl.trim().split("\n");
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0]).messages[0]).toEqual({
+      role: "user",
+      content: [{ type: "text", text: "What is in the readme?" }],
+    });
+  });
+
+  it("should skip turns where a tool call failed", () => {
+    const session = toolSession(true);
+    session.messages.push(
+      makeLine("u3", "user", "Thanks"),
+      makeLine("a3", "assistant", "You're welcome."),
+    );
+
+    const example = JSON.parse(
+      transcriptsToDataset([session], "openai", { skipErroredTurns: true }),
+    );
+    expect(example.messages).toEqual([
+      { role: "user", content: "Thanks" },
+      { role: "assistant", content: "You're welcome." },
+    ]);
+  });
+});
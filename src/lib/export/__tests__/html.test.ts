@@ -0,0 +1,184 @@
+import { describe, expect, it } from "vitest";
+import {
+  makeLine,
+  makeTranscript,
+} from "@/lib/providers/__tests__/fixtures/transcript-factory";
+import { transcriptToHtml } from "../html";
+
+const options = { title: "Fix the build", source: "claude-code" };
+
+describe("transcriptToHtml", () => {
+  it("should render a complete document with the title and author names", async () => {
+    const html = await transcriptToHtml(
+      makeTranscript([
+        makeLine("u1", "user", "Hello"),
+        makeLine("a1", "assistant", [{ type: "text", text: "**Hi**" }]),
+      ]),
+      { ...options, githubUsername: "octocat" },
+    );
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain("<title>Fix the build</title>");
+    expect(html).toContain('<span class="author">octocat</span>');
+    expect(html).toContain('<span class="author">claude</span>');
+    expect(html).toContain("<strong>Hi</strong>");
+    expect(html).toContain("data-theme-toggle");
+  });
+
+  it("should escape HTML in messages, titles and tool output", async () => {
+    const html = await transcriptToHtml(
+      makeTranscript([
+        makeLine("u1", "user", "<script>alert(1)</script>"),
+        makeLine("a1", "assistant", [
+          {
+            type: "tool_use",
+            id: "t1",
+            name: "Bash",
+            input: { command: "ls" },
+          },
+        ]),
+        makeLine("u2", "user", [
+          { type: "tool_result", tool_use_id: "t1", content: "<img src=x>" },
+        ]),
+      ]),
+      { ...options, title: "<b>title</b>" },
+    );
+
+    expect(html).not.toContain("<script>alert(1)</script>");
+    expect(html).toContain("&lt;script&gt;alert(1)&lt;/script&gt;");
+    expect(html).toContain("&lt;img src=x&gt;");
+    expect(html).toContain("<title>&lt;b&gt;title&lt;/b&gt;</title>");
+  });
+
+  it("should fold tool calls into details with their result", async () => {
+    const html = await transcriptToHtml(
+      makeTranscript([
+        makeLine("a1", "assistant", [
+          {
+            type: "tool_use",
+            id: "t1",
+            name: "Bash",
+            input: { command: "npm test", description: "Run tests" },
+          },
+        ]),
+        makeLine("u1", "user", [
+          {
+            type: "tool_result",
+            tool_use_id: "t1",
+            content: "1 failed",
+            is_error: true,
+          },
+        ]),
+      ]),
+      options,
+    );
+
+    expect(html).toContain('<details class="tool">');
+    expect(html).toContain("Bash: npm test");
+    expect(html).toContain('<span class="badge error">Error</span>');
+    expect(html).toContain("1 failed");
+  });
+
+  it("should render edits as an open split diff", async () => {
+    const html = await transcriptToHtml(
+      makeTranscript(
+        [
+          makeLine("a1", "assistant", [
+            {
+              type: "tool_use",
+              id: "t1",
+              name: "Edit",
+              input: {
+                file_path: "/repo/src/a.ts",
+                old_string: "const a = 1;",
+                new_string: "const a = 2;",
+              },
+            },
+          ]),
+        ],
+        { cwd: "/repo" },
+      ),
+      options,
+    );
+
+    expect(html).toContain('<details class="tool" open>');
+    expect(html).toContain('data-mode="split"');
+    expect(html).toContain("Edit src/a.ts");
+    expect(html).toMatch(/diff-row removed.*const a = 1;/);
+    expect(html).toMatch(/diff-row added.*const a = 2;/);
+  });
+
+  it("should highlight fenced code with both themes", async () => {
+    const html = await transcriptToHtml(
+      makeTranscript([
+        makeLine("a1", "assistant", [
+          { type: "text", text: "```ts\nconst answer: number = 42;\n```" },
+        ]),
+      ]),
+      options,
+    );
+
+    expect(html).toContain('class="shiki shiki-themes one-light one-dark-pro"');
+    expect(html).toContain("--shiki-dark");
+    expect(html).not.toContain("<!--code:");
+  });
+
+  it("should embed stored images and make no requests outside the file", async () => {
+    const html = await transcriptToHtml(
+      makeTranscript([
+        makeLine("u1", "user", [
+          { type: "text", text: "See screenshot" },
+          { type: "image", mediaType: "image/png", assetId: "abc123" },
+          { type: "image", url: "https://example.com/remote.png" },
+        ]),
+      ]),
+      {
+        ...options,
+        assets: { abc123: { mediaType: "image/png", data: "iVBORw0KGgo=" } },
+      },
+    );
+
+    expect(html).toContain('src="data:image/png;base64,iVBORw0KGgo="');
+    expect(html).toContain('id="image-1"');
+    expect(html).not.toMatch(/src="(?!data:)/);
+    expect(html).not.toMatch(/<link /);
+    expect(html).toContain("default-src 'none'");
+  });
+
+  it("should only link http(s) images and run only its own scripts", async () => {
+    const html = await transcriptToHtml(
+      makeTranscript([
+        makeLine("u1", "user", [
+          { type: "image", url: "https://example.com/remote.png" },
+          { type: "image", url: "javascript:alert(1)", alt: "Payload" },
+        ]),
+      ]),
+      options,
+    );
+
+    expect(html).toContain('href="https://example.com/remote.png"');
+    expect(html).not.toContain("javascript:");
+    expect(html).toContain('<span class="image-missing">Payload</span>');
+    expect(html).toMatch(/script-src 'sha256-[^']+' 'sha256-[^']+'"/);
+    expect(html).not.toContain("script-src 'unsafe-inline'");
+  });
+
+  it("should skip invalid timestamps", async () => {
+    const html = await transcriptToHtml(
+      makeTranscript(
+        [makeLine("u1", "user", "Hi", { timestamp: "yesterday" })],
+        {
+          metadata: {
+            firstTimestamp: "not a date",
+            lastTimestamp: "",
+            messageCount: 1,
+          },
+        },
+      ),
+      options,
+    );
+
+    expect(html).toContain("<h1>Fix the build</h1>");
+    expect(html).not.toContain("<time");
+  });
+});
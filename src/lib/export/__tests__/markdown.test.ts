@@ -0,0 +1,202 @@
+import { describe, expect, it } from "vitest";
+import {
+  makeLine,
+  makeTranscript,
+} from "@/lib/providers/__tests__/fixtures/transcript-factory";
+import { transcriptToMarkdown } from "../markdown";
+import { getExportFileName } from "../shared";
+
+const options = { title: "Fix the build", source: "claude-code" };
+
+describe("transcriptToMarkdown", () => {
+  it("should start with the title and session details", () => {
+    const markdown = transcriptToMarkdown(
+      makeTranscript(
+        [
+          makeLine("u1", "user", "Hello"),
+          makeLine("a1", "assistant", [{ type: "text", text: "Hi" }], {
+            message: {
+              role: "assistant",
+              content: [{ type: "text", text: "Hi" }],
+              model: "claude-sonnet-4-5-20250929",
+            },
+          }),
+        ],
+        { git: { branch: "main", commit: "abc1234def" } },
+      ),
+      options,
+    );
+
+    expect(markdown).toContain("# Fix the build");
+    expect(markdown).toContain("- **Tool:** Claude Code");
+    expect(markdown).toContain("- **Date:** 2025-10-20");
+    expect(markdown).toContain("- **Models:** Claude Sonnet 4.5");
+    expect(markdown).toContain("- **Branch:** `main` at `abc1234`");
+  });
+
+  it("should put consecutive messages of one speaker under one heading", () => {
+    const markdown = transcriptToMarkdown(
+      makeTranscript([
+        makeLine("u1", "user", "Run the tests"),
+        makeLine("a1", "assistant", [{ type: "text", text: "Running them." }]),
+        makeLine("a2", "assistant", [{ type: "text", text: "All green." }]),
+      ]),
+      options,
+    );
+
+    expect(markdown).toContain(
+      "## User\n\nRun the tests\n\n## Claude Code\n\nRunning them.\n\nAll green.",
+    );
+  });
+
+  it("should fold tool calls and their results into details", () => {
+    const markdown = transcriptToMarkdown(
+      makeTranscript([
+        makeLine("u1", "user", "Run the tests"),
+        makeLine("a1", "assistant", [
+          {
+            type: "tool_use",
+            id: "t1",
+            name: "Bash",
+            input: { command: "npm test" },
+          },
+        ]),
+        makeLine("r1", "user", [
+          { type: "tool_result", tool_use_id: "t1", content: "1 passed" },
+        ]),
+      ]),
+      options,
+    );
+
+    expect(markdown).toContain(
+      "<details>\n<summary>Bash: npm test</summary>\n\n**Result**\n\n```\n1 passed\n```\n\n</details>",
+    );
+    // The tool result line has no heading of its own
+    expect(markdown.match(/## User/g)).toHaveLength(1);
+  });
+
+  it("should render file edits as diff blocks", () => {
+    const markdown = transcriptToMarkdown(
+      makeTranscript(
+        [
+          makeLine("a1", "assistant", [
+            {
+              type: "tool_use",
+              id: "t1",
+              name: "Edit",
+              input: {
+                file_path: "/repo/src/app.ts",
+                old_string: "const a = 1;",
+                new_string: "const a = 2;",
+              },
+            },
+          ]),
+        ],
+        { cwd: "/repo" },
+      ),
+      options,
+    );
+
+    expect(markdown).toContain("<summary>Edit: src/app.ts</summary>");
+    expect(markdown).toContain(
+      "```diff\n--- a/src/app.ts\n+++ b/src/app.ts\n-const a = 1;\n+const a = 2;\n```",
+    );
+  });
+
+  it("should use a longer fence for code containing backticks", () => {
+    const markdown = transcriptToMarkdown(
+      makeTranscript([
+        makeLine("a1", "assistant", [
+          { type: "tool_use", id: "t1", name: "Read", input: { path: "a.md" } },
+          {
+            type: "tool_result",
+            tool_use_id: "t1",
+            content: "```js\nx()\n```",
+          },
+        ]),
+      ]),
+      options,
+    );
+
+    expect(markdown).toContain("````\n```js\nx()\n```\n````");
+  });
+
+  it("should nest sub-agent conversations under their Task call", () => {
+    const markdown = transcriptToMarkdown(
+      makeTranscript(
+        [
+          makeLine("a1", "assistant", [
+            {
+              type: "tool_use",
+              id: "task-1",
+              name: "Task",
+              input: { description: "Explore", prompt: "Look around" },
+            },
+          ]),
+        ],
+        {
+          subagents: {
+            "task-1": {
+              agentId: "agent-1",
+              messages: [
+                makeLine("s1", "user", "Look around"),
+                makeLine("s2", "assistant", [
+                  { type: "text", text: "Found it" },
+                ]),
+              ],
+            },
+          },
+        },
+      ),
+      options,
+    );
+
+    expect(markdown).toContain("### Prompt\n\nLook around");
+    expect(markdown).toContain("### Sub-agent\n\nFound it");
+  });
+
+  it("should show system events and hide injected messages", () => {
+    const markdown = transcriptToMarkdown(
+      makeTranscript([
+        makeLine("u1", "user", "<system-reminder>Ignore</system-reminder>"),
+        {
+          type: "system_event",
+          uuid: "e1",
+          timestamp: "2025-10-20T10:01:00.000Z",
+          parentUuid: null,
+          systemEvent: { eventType: "mode_change", data: { mode: "plan" } },
+        },
+        makeLine("u2", "user", "[Request interrupted by user]"),
+      ]),
+      options,
+    );
+
+    expect(markdown).not.toContain("Ignore");
+    expect(markdown).toContain("> Switched to Plan mode");
+    expect(markdown).toContain("> [Request interrupted by user]");
+  });
+
+  it("should link stored images to their absolute URL", () => {
+    const markdown = transcriptToMarkdown(
+      makeTranscript([
+        makeLine("u1", "user", [
+          { type: "image", mediaType: "image/png", assetId: "abc" },
+        ]),
+      ]),
+      { ...options, assetBaseUrl: "https://example.com/api/t/x/assets" },
+    );
+
+    expect(markdown).toContain(
+      "![image](https://example.com/api/t/x/assets/abc)",
+    );
+  });
+});
+
+describe("getExportFileName", () => {
+  it("should slugify the title", () => {
+    expect(getExportFileName("Fix the build: part 2!", "md")).toBe(
+      "fix-the-build-part-2.md",
+    );
+    expect(getExportFileName("???", "md")).toBe("transcript.md");
+  });
+});
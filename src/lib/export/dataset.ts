@@ -0,0 +1,329 @@
+/**
+ * Dataset export
+ * Turns transcripts into training and eval examples, one per transcript:
+ * OpenAI chat fine-tuning JSONL or Anthropic Messages JSONL. Each tool call is
+ * paired with its result the way the viewer groups them, and calls that never
+ * got a result are left out so every example is a valid conversation.
+ */
+
+import {
+  isBracketSystemMessage,
+  isSystemMessageToHide,
+  isToolResultMessage,
+} from "@/lib/transcript-utils";
+import type {
+  ContentBlock,
+  ParsedTranscript,
+  ToolResult,
+  ToolUse,
+} from "@/types/transcript";
+import { collectToolResults } from "./shared";
+
+export const DATASET_FORMATS = [
+  { format: "openai", label: "OpenAI fine-tuning (JSONL)" },
+  { format: "anthropic", label: "Anthropic messages (JSONL)" },
+] as const;
+
+export type DatasetFormat = (typeof DATASET_FORMATS)[number]["format"];
+
+export const DATASET_CONTENT_TYPE = "application/jsonl; charset=utf-8";
+
+export interface DatasetOptions {
+  dropThinking?: boolean; // Leave reasoning out of assistant messages
+  skipErroredTurns?: boolean; // Leave out turns where a tool call failed
+}
+
+/**
+ * One assistant response between tool results
+ */
+interface Step {
+  thinking: string[];
+  text: string[];
+  calls: Array<{ toolUse: ToolUse; result: ToolResult }>;
+}
+
+/**
+ * A user prompt and everything the assistant did in response
+ */
+interface Turn {
+  prompt: string;
+  steps: Step[];
+  errored: boolean;
+}
+
+type OpenAiMessage =
+  | { role: "user"; content: string }
+  | {
+      role: "assistant";
+      content: string | null;
+      reasoning_content?: string;
+      tool_calls?: Array<{
+        id: string;
+        type: "function";
+        function: { name: string; arguments: string };
+      }>;
+    }
+  | { role: "tool"; tool_call_id: string; content: string };
+
+type AnthropicBlock =
+  | { type: "text"; text: string }
+  | { type: "thinking"; thinking: string }
+  | ToolUse
+  | {
+      type: "tool_result";
+      tool_use_id: string;
+      content: string;
+      is_error?: boolean;
+    };
+
+interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: AnthropicBlock[];
+}
+
+/**
+ * Tool output as text; some providers keep the tool's block array
+ */
+function resultText(result: ToolResult): string {
+  const content: unknown = result.content;
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .filter((part) => part?.type === "text" && typeof part.text === "string")
+    .map((part) => part.text)
+    .join("\n");
+}
+
+/**
+ * Prompt text of a user message; slash commands are kept as typed
+ */
+function promptText(content: string | ContentBlock[]): string {
+  if (typeof content === "string") return content.trim();
+
+  const parts: string[] = [];
+  for (const [index, block] of content.entries()) {
+    if (block.type === "text" && block.text.trim()) {
+      parts.push(block.text.trim());
+    } else if (block.type === "command-name") {
+      const next = content[index + 1];
+      const args = next?.type === "command-args" ? ` ${next.text.trim()}` : "";
+      parts.push(`${block.text}${args}`.trim());
+    }
+  }
+  return parts.join("\n\n");
+}
+
+function getTurns(transcript: ParsedTranscript): Turn[] {
+  const toolResults = collectToolResults(transcript);
+  const turns: Turn[] = [];
+  let step: Step | null = null;
+
+  for (const line of transcript.messages) {
+    const message = line.message;
+    if (!message) continue;
+
+    if (message.role === "user") {
+      // Results are taken from the pairing; the next response is a new step
+      if (isToolResultMessage(message.content)) {
+        step = null;
+        continue;
+      }
+      if (
+        isSystemMessageToHide(message.content) ||
+        isBracketSystemMessage(message.content).isSystemMessage
+      ) {
+        continue;
+      }
+      const prompt = promptText(message.content);
+      if (!prompt) continue;
+      turns.push({ prompt, steps: [], errored: false });
+      step = null;
+      continue;
+    }
+
+    const turn = turns[turns.length - 1];
+    if (!turn) continue;
+
+    const blocks: ContentBlock[] =
+      typeof message.content === "string"
+        ? [{ type: "text", text: message.content }]
+        : message.content;
+    for (const block of blocks) {
+      // Providers that inline results in the assistant message
+      if (block.type === "tool_result") {
+        step = null;
+        continue;
+      }
+      if (!step) {
+        step = { thinking: [], text: [], calls: [] };
+        turn.steps.push(step);
+      }
+      if (block.type === "text" && block.text.trim()) {
+        step.text.push(block.text.trim());
+      } else if (block.type === "thinking" && block.thinking.trim()) {
+        step.thinking.push(block.thinking.trim());
+      } else if (block.type === "tool_use") {
+        const result = toolResults.get(block.id)?.[0];
+        if (!result) continue;
+        step.calls.push({ toolUse: block, result });
+        if (result.is_error) turn.errored = true;
+      }
+    }
+  }
+
+  return turns;
+}
+
+function selectTurns(
+  transcript: ParsedTranscript,
+  options: DatasetOptions,
+): Turn[] {
+  const turns = getTurns(transcript);
+  return options.skipErroredTurns
+    ? turns.filter((turn) => !turn.errored)
+    : turns;
+}
+
+/**
+ * OpenAI chat fine-tuning example; reasoning goes in `reasoning_content`
+ * @returns null when no turn has an assistant response
+ */
+export function transcriptToOpenAiExample(
+  transcript: ParsedTranscript,
+  options: DatasetOptions = {},
+): { messages: OpenAiMessage[] } | null {
+  const messages: OpenAiMessage[] = [];
+  let hasResponse = false;
+
+  for (const turn of selectTurns(transcript, options)) {
+    const turnMessages: OpenAiMessage[] = [];
+    for (const step of turn.steps) {
+      const text = step.text.join("\n\n");
+      const thinking = options.dropThinking ? "" : step.thinking.join("\n\n");
+      if (!text && !thinking && step.calls.length === 0) continue;
+
+      turnMessages.push({
+        role: "assistant",
+        // A reasoning-only step still needs content when it has no tool calls
+        content: text || (step.calls.length > 0 ? null : ""),
+        ...(thinking && { reasoning_content: thinking }),
+        ...(step.calls.length > 0 && {
+          tool_calls: step.calls.map(({ toolUse }) => ({
+            id: toolUse.id,
+            type: "function" as const,
+            function: {
+              name: toolUse.name,
+              arguments: JSON.stringify(toolUse.input),
+            },
+          })),
+        }),
+      });
+      for (const { toolUse, result } of step.calls) {
+        turnMessages.push({
+          role: "tool",
+          tool_call_id: toolUse.id,
+          content: resultText(result),
+        });
+      }
+    }
+
+    if (turnMessages.length === 0) continue;
+    messages.push({ role: "user", content: turn.prompt }, ...turnMessages);
+    hasResponse = true;
+  }
+
+  return hasResponse ? { messages } : null;
+}
+
+/**
+ * Anthropic Messages example; tool results go in the following user message
+ * and roles alternate
+ * @returns null when no turn has an assistant response
+ */
+export function transcriptToAnthropicExample(
+  transcript: ParsedTranscript,
+  options: DatasetOptions = {},
+): { messages: AnthropicMessage[] } | null {
+  const messages: AnthropicMessage[] = [];
+  const push = (role: AnthropicMessage["role"], content: AnthropicBlock[]) => {
+    const last = messages[messages.length - 1];
+    if (last?.role === role) {
+      last.content.push(...content);
+    } else {
+      messages.push({ role, content });
+    }
+  };
+  let hasResponse = false;
+
+  for (const turn of selectTurns(transcript, options)) {
+    const steps = turn.steps
+      .map((step) => ({
+        step,
+        content: [
+          ...(options.dropThinking
+            ? []
+            : step.thinking.map((thinking) => ({
+                type: "thinking" as const,
+                thinking,
+              }))),
+          ...step.text.map((text) => ({ type: "text" as const, text })),
+          ...step.calls.map(({ toolUse }) => ({
+            type: "tool_use" as const,
+            id: toolUse.id,
+            name: toolUse.name,
+            input: toolUse.input,
+          })),
+        ],
+      }))
+      .filter(({ content }) => content.length > 0);
+    if (steps.length === 0) continue;
+
+    push("user", [{ type: "text", text: turn.prompt }]);
+    for (const { step, content } of steps) {
+      push("assistant", content);
+      if (step.calls.length === 0) continue;
+      push(
+        "user",
+        step.calls.map(({ toolUse, result }) => ({
+          type: "tool_result" as const,
+          tool_use_id: toolUse.id,
+          content: resultText(result),
+          ...(result.is_error && { is_error: true }),
+        })),
+      );
+    }
+    hasResponse = true;
+  }
+
+  return hasResponse ? { messages } : null;
+}
+
+/**
+ * One JSONL dataset line for a transcript
+ * @returns "" when the transcript has no assistant response
+ */
+export function transcriptToDatasetLine(
+  transcript: ParsedTranscript,
+  format: DatasetFormat,
+  options: DatasetOptions = {},
+): string {
+  const example =
+    format === "openai"
+      ? transcriptToOpenAiExample(transcript, options)
+      : transcriptToAnthropicExample(transcript, options);
+  return example ? `${JSON.stringify(example)}\n` : "";
+}
+
+/**
+ * JSONL dataset with one example per transcript; transcripts without an
+ * assistant response are left out
+ */
+export function transcriptsToDataset(
+  transcripts: ParsedTranscript[],
+  format: DatasetFormat,
+  options: DatasetOptions = {},
+): string {
+  return transcripts
+    .map((transcript) => transcriptToDatasetLine(transcript, format, options))
+    .join("");
+}
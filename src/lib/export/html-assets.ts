@@ -0,0 +1,167 @@
+/**
+ * Styles and scripts inlined into static HTML exports
+ * Colors follow the app theme (globals.css) so an archived session looks like
+ * the viewer in both light and dark mode.
+ */
+
+export const HTML_EXPORT_STYLES = `
+:root {
+  --background: oklch(0.99 0.005 240);
+  --foreground: oklch(0.18 0.02 250);
+  --card: oklch(1 0 0);
+  --primary: oklch(0.35 0.08 250);
+  --muted: oklch(0.96 0.008 245);
+  --muted-foreground: oklch(0.48 0.03 250);
+  --accent: oklch(0.94 0.015 240);
+  --accent-foreground: oklch(0.25 0.02 250);
+  --border: oklch(0.9 0.01 245);
+  --added: rgb(34 197 94 / 0.1);
+  --removed: rgb(239 68 68 / 0.1);
+  --warning-bg: #fefce8;
+  --warning-border: #fef08a;
+  --warning-foreground: #854d0e;
+  --radius: 0.625rem;
+  color-scheme: light;
+}
+html.dark {
+  --background: oklch(0.15 0.015 250);
+  --foreground: oklch(0.95 0.01 245);
+  --card: oklch(0.2 0.018 250);
+  --primary: oklch(0.75 0.1 250);
+  --muted: oklch(0.24 0.02 248);
+  --muted-foreground: oklch(0.6 0.04 245);
+  --accent: oklch(0.28 0.025 245);
+  --accent-foreground: oklch(0.95 0.01 245);
+  --border: oklch(0.3 0.025 250);
+  --warning-bg: rgb(66 32 6 / 0.3);
+  --warning-border: #713f12;
+  --warning-foreground: #fef08a;
+  color-scheme: dark;
+}
+html.dark .shiki, html.dark .shiki span {
+  color: var(--shiki-dark) !important;
+  background-color: var(--shiki-dark-bg) !important;
+}
+* { box-sizing: border-box; }
+body {
+  margin: 0;
+  background: var(--background);
+  color: var(--foreground);
+  font: 14px/1.6 ui-sans-serif, system-ui, -apple-system, "Segoe UI", sans-serif;
+}
+code, pre, .mono { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; }
+a { color: inherit; }
+.page-header { border-bottom: 1px solid var(--border); }
+.container { max-width: 56rem; margin: 0 auto; padding: 1.5rem 1rem; }
+.header-row { display: flex; align-items: flex-start; justify-content: space-between; gap: 1rem; }
+h1 { margin: 0; font-size: 1.5rem; line-height: 1.3; }
+.meta { display: flex; flex-wrap: wrap; gap: 0.25rem 0.75rem; margin-top: 0.5rem; color: var(--muted-foreground); font-size: 0.8125rem; }
+.theme-toggle {
+  border: 1px solid var(--border); border-radius: 0.5rem; background: var(--card);
+  color: var(--foreground); padding: 0.25rem 0.625rem; font-size: 0.75rem; cursor: pointer;
+}
+.conversation { display: flex; flex-direction: column; gap: 1.5rem; }
+.message { border-radius: var(--radius); padding: 0.75rem 1rem; }
+.message.user { background: var(--accent); color: var(--accent-foreground); margin-left: auto; max-width: 90%; }
+.message-header { display: flex; align-items: center; gap: 0.5rem; margin-bottom: 0.5rem; font-size: 0.75rem; opacity: 0.7; }
+.message-header .author { font-weight: 600; }
+.message-body { display: flex; flex-direction: column; gap: 1rem; min-width: 0; }
+.prose { overflow-wrap: anywhere; }
+.prose > :first-child { margin-top: 0; }
+.prose > :last-child { margin-bottom: 0; }
+.prose table { border-collapse: collapse; }
+.prose th, .prose td { border: 1px solid var(--border); padding: 0.25rem 0.5rem; }
+.prose :not(pre) > code { background: var(--muted); border-radius: 0.25rem; padding: 0.1rem 0.3rem; font-size: 0.85em; }
+.prose blockquote { margin: 0; padding-left: 1rem; border-left: 3px solid var(--border); color: var(--muted-foreground); }
+pre { margin: 0; }
+pre.shiki, pre.plain {
+  border: 1px solid var(--border); border-radius: 0.375rem; padding: 0.75rem;
+  overflow-x: auto; font-size: 0.75rem; line-height: 1.5;
+}
+pre.plain { background: var(--muted); white-space: pre-wrap; overflow-wrap: anywhere; }
+details > summary { cursor: pointer; list-style: none; }
+details > summary::-webkit-details-marker { display: none; }
+details > summary::before { content: "\\25B8"; display: inline-block; width: 1rem; transition: transform 0.15s; }
+details[open] > summary::before { transform: rotate(90deg); }
+.tool { border: 1px solid var(--border); border-radius: 0.375rem; background: var(--card); }
+.tool > summary { display: flex; align-items: center; gap: 0.5rem; padding: 0.75rem; font-size: 0.875rem; font-weight: 500; }
+.tool-title { overflow: hidden; text-overflow: ellipsis; white-space: nowrap; min-width: 0; }
+.badge {
+  margin-left: auto; flex-shrink: 0; border-radius: 999px; padding: 0.1rem 0.5rem;
+  background: var(--muted); color: var(--muted-foreground); font-size: 0.7rem; font-weight: 500;
+}
+.badge.error { background: var(--removed); color: #dc2626; }
+.section { padding: 0 1rem 1rem; display: flex; flex-direction: column; gap: 0.5rem; }
+.section-title {
+  margin: 0; font-size: 0.7rem; font-weight: 500; letter-spacing: 0.05em;
+  text-transform: uppercase; color: var(--muted-foreground);
+}
+.reasoning > summary, .subagent > summary { color: var(--muted-foreground); font-size: 0.875rem; }
+.reasoning > .prose { margin-top: 0.5rem; color: var(--muted-foreground); }
+.subagent { border-top: 1px solid var(--border); padding: 1rem; }
+.subagent > .conversation { margin-top: 1rem; gap: 1rem; }
+.subagent .message { border-left: 2px solid var(--border); border-radius: 0; padding: 0 0 0 0.75rem; background: none; margin: 0; max-width: none; }
+.diff { display: flex; flex-direction: column; gap: 0.75rem; }
+.diff-header { display: flex; align-items: center; justify-content: space-between; gap: 1rem; }
+.diff-split { display: grid; grid-template-columns: 1fr 1fr; gap: 1rem; }
+.diff[data-mode="split"] .diff-unified, .diff[data-mode="unified"] .diff-header { display: flex; align-items: center; justify-content: space-between; gap: 1rem; }
+.diff-split { display: none; }
+.diff-lines { border: 1px solid var(--border); border-radius: 0.375rem; overflow: hidden; font-size: 0.75rem; }
+.diff-row { display: flex; }
+.diff-row.added { background: var(--added); }
+.diff-row.removed { background: var(--removed); }
+.diff-row .ln { flex-shrink: 0; width: 3rem; padding: 0.25rem 0.5rem; text-align: right; color: var(--muted-foreground); border-right: 1px solid var(--border); user-select: none; }
+.diff-row .sign { flex-shrink: 0; width: 1.5rem; padding: 0.25rem; text-align: center; user-select: none; }
+.diff-row.added .sign { color: #16a34a; }
+.diff-row.removed .sign { color: #dc2626; }
+.diff-row pre { flex: 1; padding: 0.25rem 0.5rem; white-space: pre-wrap; overflow-wrap: anywhere; }
+.diff-toggle { display: flex; gap: 0.25rem; font-size: 0.75rem; color: var(--muted-foreground); }
+.diff-toggle button { border: 0; background: none; color: inherit; cursor: pointer; padding: 0.25rem 0.5rem; }
+.diff[data-mode="split"] [data-diff-mode="split"], .diff[data-mode="unified"] [data-diff-mode="unified"] { color: var(--foreground); font-weight: 500; }
+.slash-command { background: var(--muted); border-left: 4px solid var(--primary); border-radius: 0.5rem; padding: 0.75rem 1rem; }
+.slash-command .args { margin-top: 0.5rem; font-size: 0.75rem; }
+.bash { display: flex; flex-direction: column; gap: 0.75rem; }
+.bash > .section { padding: 0; }
+.bash-command { background: var(--muted); border: 1px solid var(--border); border-radius: 0.5rem; padding: 0.75rem; }
+.bash-command code { color: #059669; }
+html.dark .bash-command code { color: #34d399; }
+.system-note { align-self: center; background: var(--warning-bg); border: 1px solid var(--warning-border); color: var(--warning-foreground); border-radius: 0.5rem; padding: 0.5rem 1rem; font-size: 0.875rem; font-style: italic; }
+.divider { display: flex; align-items: center; gap: 1rem; color: var(--muted-foreground); font-size: 0.75rem; }
+.divider::before, .divider::after { content: ""; flex: 1; height: 1px; background: var(--border); }
+details.divider-details > summary { list-style: none; }
+details.divider-details > .prose { margin-top: 0.5rem; border: 1px solid var(--border); border-radius: 0.375rem; background: var(--muted); padding: 1rem; }
+.gallery { display: flex; flex-wrap: wrap; gap: 0.5rem; }
+.gallery > a { border: 1px solid var(--border); border-radius: 0.375rem; overflow: hidden; }
+.gallery img { display: block; height: 6rem; max-width: 12rem; object-fit: cover; }
+.image-missing { display: flex; align-items: center; justify-content: center; height: 6rem; width: 8rem; padding: 0.5rem; border: 1px solid var(--border); border-radius: 0.375rem; color: var(--muted-foreground); font-size: 0.75rem; text-align: center; overflow-wrap: anywhere; }
+.lightbox { display: none; position: fixed; inset: 0; z-index: 50; align-items: center; justify-content: center; padding: 2rem; background: rgb(0 0 0 / 0.8); }
+.lightbox:target { display: flex; }
+.lightbox img { max-width: 100%; max-height: 100%; border-radius: 0.375rem; }
+.page-footer { border-top: 1px solid var(--border); color: var(--muted-foreground); font-size: 0.75rem; }
+@media (max-width: 640px) { .diff-header { display: flex; align-items: center; justify-content: space-between; gap: 1rem; }
+.diff-split { grid-template-columns: 1fr; } .message.user { max-width: none; } }
+`;
+
+// Applies the saved or system theme before the page paints
+export const HTML_EXPORT_THEME_SCRIPT = `(function () {
+  var theme;
+  try { theme = localStorage.getItem("theme"); } catch (e) {}
+  if (theme === "dark" || ((!theme || theme === "system") && matchMedia("(prefers-color-scheme: dark)").matches)) {
+    document.documentElement.classList.add("dark");
+  }
+})();`;
+
+// Theme toggle, split/unified diff toggle and closing the image lightbox
+export const HTML_EXPORT_SCRIPT = `document.addEventListener("click", function (event) {
+  var target = event.target.closest("[data-theme-toggle], [data-diff-mode]");
+  if (!target) return;
+  if (target.hasAttribute("data-theme-toggle")) {
+    var dark = document.documentElement.classList.toggle("dark");
+    try { localStorage.setItem("theme", dark ? "dark" : "light"); } catch (e) {}
+    return;
+  }
+  target.closest(".diff").setAttribute("data-mode", target.getAttribute("data-diff-mode"));
+});
+document.addEventListener("keydown", function (event) {
+  if (event.key === "Escape" && location.hash.indexOf("#image-") === 0) location.hash = "_";
+});`;
@@ -0,0 +1,537 @@
+/**
+ * HTML export
+ * Renders a parsed transcript as a single self-contained page that looks like
+ * the viewer: collapsible tool calls, split/unified diffs, highlighted code and
+ * a theme toggle. Styles, scripts and images are inlined and a CSP blocks
+ * every other request, so the file can be archived or attached to a ticket
+ * and opened without access to the app.
+ */
+
+import { createHash } from "node:crypto";
+import { format } from "date-fns";
+import { micromark } from "micromark";
+import { gfm, gfmHtml } from "micromark-extension-gfm";
+import {
+  type BundledLanguage,
+  bundledLanguages,
+  createHighlighter,
+  type Highlighter,
+} from "shiki";
+import { getToolPreview } from "@/components/getToolPreview";
+import { computeDiff, type DiffLine } from "@/lib/diff";
+import { makeRelativePath } from "@/lib/path-utils";
+import { getImageSrc, getRemoteImageUrl } from "@/lib/providers/images";
+import { getShortAssistantName } from "@/lib/source-utils";
+import {
+  isBracketSystemMessage,
+  isSystemMessageToHide,
+  isToolResultMessage,
+  looksLikeRawContent,
+} from "@/lib/transcript-utils";
+import type {
+  ContentBlock,
+  ImageContent,
+  ParsedTranscript,
+  SystemEvent,
+  ToolUse,
+  TranscriptLine,
+} from "@/types/transcript";
+import {
+  HTML_EXPORT_SCRIPT,
+  HTML_EXPORT_STYLES,
+  HTML_EXPORT_THEME_SCRIPT,
+} from "./html-assets";
+import {
+  collectToolResults,
+  describeSystemEvent,
+  type ExportOptions,
+  type FileEdit,
+  getFileEdits,
+  getSessionDetails,
+  shouldShowToolInput,
+} from "./shared";
+
+export interface HtmlExportOptions extends ExportOptions {
+  githubUsername?: string; // Shown as the author of user messages
+  assets?: Record<string, { mediaType: string; data: string }>; // Stored images by hash, base64 encoded
+}
+
+interface RenderContext {
+  transcript: ParsedTranscript;
+  options: HtmlExportOptions;
+  toolResults: ReturnType<typeof collectToolResults>;
+  codeBlocks: { code: string; language: string }[];
+  imageCount: number;
+}
+
+const scriptHash = (script: string) =>
+  `'sha256-${createHash("sha256").update(script).digest("base64")}'`;
+
+// Only the page's own scripts may run, so markup that slips into the
+// transcript cannot execute
+const CONTENT_SECURITY_POLICY = `default-src 'none'; img-src data:; style-src 'unsafe-inline'; script-src ${scriptHash(HTML_EXPORT_THEME_SCRIPT)} ${scriptHash(HTML_EXPORT_SCRIPT)}`;
+
+const CODE_THEMES = { light: "one-light", dark: "one-dark-pro" } as const;
+
+// Larger blocks are left unhighlighted to keep exports of long logs fast
+const MAX_HIGHLIGHT_CHARS = 100_000;
+
+const SHELL_TOOLS = [
+  "shell",
+  "bash",
+  "run_terminal_cmd",
+  "execute_command",
+  "run",
+];
+
+let highlighterPromise: Promise<Highlighter> | null = null;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function unescapeHtml(html: string): string {
+  return html
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Placeholder for a code block, highlighted once the whole page is rendered
+ */
+function code(
+  context: RenderContext,
+  source: string,
+  language: string,
+): string {
+  context.codeBlocks.push({ code: source.replace(/\n+$/, ""), language });
+  return `<!--code:${context.codeBlocks.length - 1}-->`;
+}
+
+function plainCode(source: string): string {
+  return `<pre class="plain"><code>${escapeHtml(source)}</code></pre>`;
+}
+
+async function highlightCodeBlocks(
+  blocks: RenderContext["codeBlocks"],
+): Promise<string[]> {
+  if (blocks.length === 0) return [];
+
+  highlighterPromise ??= createHighlighter({
+    themes: Object.values(CODE_THEMES),
+    langs: [],
+  });
+  const highlighter = await highlighterPromise;
+
+  const languages = new Set(blocks.map((block) => block.language));
+  for (const language of languages) {
+    if (
+      language in bundledLanguages &&
+      !highlighter.getLoadedLanguages().includes(language)
+    ) {
+      await highlighter.loadLanguage(language as BundledLanguage);
+    }
+  }
+
+  return blocks.map(({ code: source, language }) => {
+    if (source.length > MAX_HIGHLIGHT_CHARS) return plainCode(source);
+    const lang = language in bundledLanguages ? language : "text";
+    return highlighter.codeToHtml(source, { lang, themes: CODE_THEMES });
+  });
+}
+
+/**
+ * Markdown to HTML; raw HTML in the text is escaped, and fenced code goes
+ * through the highlighter
+ */
+function renderMarkdown(text: string, context: RenderContext): string {
+  const html = micromark(text, {
+    extensions: [gfm()],
+    htmlExtensions: [gfmHtml()],
+  });
+  return html.replace(
+    /<pre><code(?: class="language-([^"]*)")?>([\s\S]*?)<\/code><\/pre>/g,
+    (_, language: string | undefined, body: string) =>
+      code(context, unescapeHtml(body), language || "text"),
+  );
+}
+
+function section(title: string, body: string): string {
+  return `<div class="section"><h4 class="section-title">${escapeHtml(title)}</h4>${body}</div>`;
+}
+
+function renderDiffRows(
+  lines: DiffLine[],
+  lineNumber: (line: DiffLine) => number | undefined,
+): string {
+  const rows = lines.map((line) => {
+    const sign =
+      line.type === "added" ? "+" : line.type === "removed" ? "-" : " ";
+    return `<div class="diff-row ${line.type}"><span class="ln">${lineNumber(line) ?? ""}</span><span class="sign">${sign}</span><pre>${escapeHtml(line.content)}</pre></div>`;
+  });
+  return `<div class="diff-lines mono">${rows.join("")}</div>`;
+}
+
+/**
+ * Same layout as DiffView; new files start in unified mode
+ */
+function renderDiff(edit: FileEdit, context: RenderContext): string {
+  const path = makeRelativePath(edit.filePath, context.transcript.cwd);
+  const lines = computeDiff(edit.oldString, edit.newString);
+  const mode = edit.oldString === "" ? "unified" : "split";
+
+  const before = renderDiffRows(
+    lines.filter((line) => line.type !== "added"),
+    (line) => line.oldLineNumber,
+  );
+  const after = renderDiffRows(
+    lines.filter((line) => line.type !== "removed"),
+    (line) => line.newLineNumber,
+  );
+  const unified = renderDiffRows(lines, (line) =>
+    line.type === "added" ? line.newLineNumber : line.oldLineNumber,
+  );
+
+  return `<div class="section diff" data-mode="${mode}">
+<div class="diff-header"><h4 class="section-title">Edit ${escapeHtml(path)}</h4><div class="diff-toggle"><button type="button" data-diff-mode="split">Split</button><button type="button" data-diff-mode="unified">Unified</button></div></div>
+<div class="diff-split"><div><p class="section-title">Before</p>${before}</div><div><p class="section-title">After</p>${after}</div></div>
+<div class="diff-unified">${unified}</div>
+</div>`;
+}
+
+function renderToolUse(toolUse: ToolUse, context: RenderContext): string {
+  const preview = getToolPreview(
+    toolUse.name,
+    toolUse.input,
+    context.transcript.cwd,
+  );
+  const isShellTool = SHELL_TOOLS.includes(toolUse.name);
+  const title =
+    isShellTool && preview
+      ? preview
+      : preview
+        ? `${toolUse.name}: ${preview}`
+        : toolUse.name;
+  const results = context.toolResults.get(toolUse.id) ?? [];
+  const failed = results.some((result) => result.is_error);
+
+  const edits = getFileEdits(toolUse);
+  const parts = edits.map((edit) => renderDiff(edit, context));
+
+  if (shouldShowToolInput(toolUse, preview, edits)) {
+    parts.push(
+      section(
+        "Parameters",
+        code(context, JSON.stringify(toolUse.input, null, 2), "json"),
+      ),
+    );
+  }
+
+  for (const result of results) {
+    if (!result.content) continue;
+    parts.push(
+      section(result.is_error ? "Error" : "Result", plainCode(result.content)),
+    );
+  }
+
+  const subagent = context.transcript.subagents?.[toolUse.id];
+  if (subagent) {
+    const count = subagent.messages.filter(
+      (line) => line.message && !isToolResultMessage(line.message.content),
+    ).length;
+    parts.push(
+      `<details class="subagent"><summary>Sub-agent conversation (${count} ${count === 1 ? "message" : "messages"})</summary><div class="conversation">${renderConversation(subagent.messages, context, true)}</div></details>`,
+    );
+  }
+
+  return `<details class="tool"${edits.length > 0 ? " open" : ""}><summary><span class="tool-title${isShellTool ? " mono" : ""}">${escapeHtml(title)}</span><span class="badge${failed ? " error" : ""}">${failed ? "Error" : "Completed"}</span></summary>${parts.join("")}</details>`;
+}
+
+/**
+ * Format a transcript timestamp, or an empty string when it is not a date
+ */
+function formatDate(timestamp: string, pattern: string): string {
+  const date = new Date(timestamp);
+  return Number.isNaN(date.getTime()) ? "" : format(date, pattern);
+}
+
+/**
+ * Image thumbnails; each opens full size in a CSS :target lightbox
+ */
+function renderImages(images: ImageContent[], context: RenderContext): string {
+  const items = images.map((image) => {
+    const alt = escapeHtml(image.alt || "Image");
+    const asset = image.assetId
+      ? context.options.assets?.[image.assetId]
+      : undefined;
+    const src = asset
+      ? `data:${asset.mediaType};base64,${asset.data}`
+      : image.data
+        ? getImageSrc(image)
+        : null;
+
+    if (!src) {
+      // Remote images would be a request from the archived page
+      const remoteUrl = getRemoteImageUrl(image);
+      return remoteUrl
+        ? `<a class="image-missing" href="${escapeHtml(remoteUrl)}">${alt}</a>`
+        : `<span class="image-missing">${alt}</span>`;
+    }
+
+    const id = `image-${++context.imageCount}`;
+    return `<a href="#${id}" title="${alt}"><img src="${escapeHtml(src)}" alt="${alt}"></a><a class="lightbox" id="${id}" href="#_" aria-label="Close"><img src="${escapeHtml(src)}" alt="${alt}"></a>`;
+  });
+  return `<div class="gallery">${items.join("")}</div>`;
+}
+
+function renderBash(
+  input: string | undefined,
+  stdout: string | undefined,
+  stderr: string | undefined,
+): string {
+  const parts = [
+    input !== undefined &&
+      section(
+        "Command",
+        `<div class="bash-command mono"><code>$ ${escapeHtml(input)}</code></div>`,
+      ),
+    stdout?.trim() && section("Output", plainCode(stdout)),
+    stderr?.trim() && section("Error Output", plainCode(stderr)),
+  ].filter(Boolean);
+  return `<div class="bash">${parts.join("")}</div>`;
+}
+
+/**
+ * Content blocks of one message, grouped the way MessageRenderer groups them
+ */
+function renderBlocks(
+  content: ContentBlock[],
+  context: RenderContext,
+): string[] {
+  const parts: string[] = [];
+  let i = 0;
+
+  while (i < content.length) {
+    const block = content[i];
+    i++;
+
+    switch (block.type) {
+      case "text":
+        if (!block.text.trim()) break;
+        parts.push(
+          looksLikeRawContent(block.text)
+            ? code(context, block.text, "text")
+            : `<div class="prose">${renderMarkdown(block.text, context)}</div>`,
+        );
+        break;
+      case "thinking":
+        if (!block.thinking.trim()) break;
+        parts.push(
+          `<details class="reasoning"><summary>Thinking</summary><div class="prose">${renderMarkdown(block.thinking, context)}</div></details>`,
+        );
+        break;
+      case "tool_use":
+        parts.push(renderToolUse(block, context));
+        break;
+      case "command-name": {
+        let args: string | undefined;
+        while (
+          i < content.length &&
+          (content[i].type === "command-message" ||
+            content[i].type === "command-args")
+        ) {
+          const next = content[i];
+          if (next.type === "command-args") args = next.text;
+          i++;
+        }
+        parts.push(
+          `<div class="slash-command"><span class="section-title">Slash command:</span> <strong class="mono">${escapeHtml(block.text)}</strong>${args?.trim() ? `<div class="args mono">${escapeHtml(args)}</div>` : ""}</div>`,
+        );
+        break;
+      }
+      case "bash-input":
+      case "bash-stdout":
+      case "bash-stderr": {
+        const input = block.type === "bash-input" ? block.text : undefined;
+        let stdout = block.type === "bash-stdout" ? block.text : undefined;
+        let stderr = block.type === "bash-stderr" ? block.text : undefined;
+        while (
+          i < content.length &&
+          (content[i].type === "bash-stdout" ||
+            content[i].type === "bash-stderr")
+        ) {
+          const next = content[i];
+          if (next.type === "bash-stdout") stdout = next.text;
+          if (next.type === "bash-stderr") stderr = next.text;
+          i++;
+        }
+        parts.push(renderBash(input, stdout, stderr));
+        break;
+      }
+      case "user-instructions":
+        parts.push(
+          `<details class="reasoning"><summary>User Instructions</summary><div class="prose">${renderMarkdown(block.text, context)}</div></details>`,
+        );
+        break;
+      case "image": {
+        const images: ImageContent[] = [block];
+        while (i < content.length && content[i].type === "image") {
+          images.push(content[i] as ImageContent);
+          i++;
+        }
+        parts.push(renderImages(images, context));
+        break;
+      }
+      case "command-args":
+      case "command-message":
+      case "tool_result":
+        // Shown with the command or call they belong to
+        break;
+    }
+  }
+
+  return parts;
+}
+
+function renderSystemEvent(event: SystemEvent, context: RenderContext): string {
+  const label = `<div class="divider">${escapeHtml(describeSystemEvent(event))}</div>`;
+  if (event.eventType === "compaction" && event.data.summary) {
+    return `<details class="divider-details"><summary>${label}</summary><div class="prose">${renderMarkdown(event.data.summary, context)}</div></details>`;
+  }
+  return label;
+}
+
+/**
+ * One card per message, as in the viewer; sub-agent messages are labelled
+ * Prompt and Sub-agent instead of showing the author and time
+ */
+function renderConversation(
+  lines: TranscriptLine[],
+  context: RenderContext,
+  isSubagent = false,
+): string {
+  const { options } = context;
+  const parts: string[] = [];
+
+  for (const line of lines) {
+    if (line.systemEvent) {
+      parts.push(renderSystemEvent(line.systemEvent, context));
+      continue;
+    }
+
+    const message = line.message;
+    if (!message) continue;
+    const isUser = message.role === "user";
+    const clock = isSubagent ? "" : formatDate(line.timestamp, "HH:mm:ss");
+    const time = clock
+      ? `<time datetime="${escapeHtml(line.timestamp)}">${clock}</time>`
+      : "";
+
+    if (isUser) {
+      if (
+        isToolResultMessage(message.content) ||
+        isSystemMessageToHide(message.content)
+      ) {
+        continue;
+      }
+      const bracket = isBracketSystemMessage(message.content);
+      if (bracket.isSystemMessage) {
+        parts.push(
+          `<div class="system-note">${escapeHtml(bracket.text)} ${time}</div>`,
+        );
+        continue;
+      }
+    }
+
+    const blocks: ContentBlock[] =
+      typeof message.content === "string"
+        ? [{ type: "text", text: message.content }]
+        : message.content;
+    const body = renderBlocks(blocks, context);
+    if (body.length === 0) continue;
+
+    const author = isSubagent
+      ? isUser
+        ? "Prompt"
+        : "Sub-agent"
+      : isUser
+        ? options.githubUsername || "User"
+        : getShortAssistantName(options.source);
+    parts.push(
+      `<article class="message ${message.role}"><div class="message-header"><span class="author">${escapeHtml(author)}</span>${time}</div><div class="message-body">${body.join("")}</div></article>`,
+    );
+  }
+
+  return parts.join("\n");
+}
+
+function renderHeader(
+  transcript: ParsedTranscript,
+  options: HtmlExportOptions,
+): string {
+  const { toolName, date, models } = getSessionDetails(transcript, options);
+  const git = transcript.git;
+
+  const facts = [
+    toolName,
+    date && formatDate(date, "MMM d, yyyy"),
+    models.length > 0 && models.join(", "),
+    git?.branch &&
+      `${git.branch}${git.commit ? ` @ ${git.commit.slice(0, 7)}` : ""}`,
+  ]
+    .filter((fact): fact is string => !!fact)
+    .map((fact) => `<span>${escapeHtml(fact)}</span>`);
+
+  return `<header class="page-header"><div class="container header-row"><div><h1>${escapeHtml(options.title)}</h1><div class="meta">${facts.join("")}</div></div><button type="button" class="theme-toggle" data-theme-toggle>Toggle theme</button></div></header>`;
+}
+
+/**
+ * Render a transcript as a standalone HTML document
+ */
+export async function transcriptToHtml(
+  transcript: ParsedTranscript,
+  options: HtmlExportOptions,
+): Promise<string> {
+  const context: RenderContext = {
+    transcript,
+    options,
+    toolResults: collectToolResults(transcript),
+    codeBlocks: [],
+    imageCount: 0,
+  };
+  const conversation = renderConversation(transcript.messages, context);
+  const highlighted = await highlightCodeBlocks(context.codeBlocks);
+
+  const page = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta http-equiv="Content-Security-Policy" content="${CONTENT_SECURITY_POLICY}">
+<meta name="generator" content="AI Sessions">
+<title>${escapeHtml(options.title)}</title>
+<script>${HTML_EXPORT_THEME_SCRIPT}</script>
+<style>${HTML_EXPORT_STYLES}</style>
+</head>
+<body>
+${renderHeader(transcript, options)}
+<main class="container"><div class="conversation">
+${conversation}
+</div></main>
+<footer class="page-footer"><div class="container">Exported from AI Sessions</div></footer>
+<script>${HTML_EXPORT_SCRIPT}</script>
+</body>
+</html>
+`;
+
+  return page.replace(
+    /<!--code:(\d+)-->/g,
+    (_, index: string) => highlighted[Number(index)],
+  );
+}
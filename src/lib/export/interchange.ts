@@ -0,0 +1,82 @@
+/**
+ * Interchange export
+ * Writes the normalized transcript every provider produces as a versioned
+ * AI Sessions interchange document, which the interchange provider reads back
+ */
+
+import {
+  INTERCHANGE_FORMAT,
+  INTERCHANGE_VERSION,
+  type InterchangeDocument,
+} from "@/lib/providers/interchange";
+import type {
+  ContentBlock,
+  ParsedTranscript,
+  TranscriptLine,
+} from "@/types/transcript";
+import type { ExportOptions } from "./shared";
+
+export interface InterchangeExportOptions extends ExportOptions {
+  assets?: Record<string, { mediaType: string; data: string }>; // Stored images by hash, base64 encoded
+}
+
+/**
+ * Put stored images back inline so the document does not depend on this
+ * server's asset storage
+ */
+function inlineAssets(
+  lines: TranscriptLine[],
+  assets: InterchangeExportOptions["assets"],
+): TranscriptLine[] {
+  if (!assets) return lines;
+
+  return lines.map((line) => {
+    if (!Array.isArray(line.message?.content)) return line;
+    const content = line.message.content.map((block): ContentBlock => {
+      if (block.type !== "image" || !block.assetId) return block;
+      const asset = assets[block.assetId];
+      if (!asset) return block;
+      const { assetId: _, ...image } = block;
+      return { ...image, mediaType: asset.mediaType, data: asset.data };
+    });
+    return { ...line, message: { ...line.message, content } };
+  });
+}
+
+/**
+ * Convert a transcript to an interchange document
+ * Parse diagnostics and derived metadata are left out; they are recomputed
+ * when the document is uploaded
+ */
+export function transcriptToInterchange(
+  transcript: ParsedTranscript,
+  options: InterchangeExportOptions,
+): InterchangeDocument {
+  const subagents = transcript.subagents
+    ? Object.fromEntries(
+        Object.entries(transcript.subagents).map(([toolUseId, subagent]) => [
+          toolUseId,
+          {
+            ...subagent,
+            messages: inlineAssets(subagent.messages, options.assets),
+          },
+        ]),
+      )
+    : undefined;
+
+  return {
+    format: INTERCHANGE_FORMAT,
+    version: INTERCHANGE_VERSION,
+    source: options.source,
+    title: options.title,
+    createdAt: options.createdAt,
+    sessionId: transcript.sessionId,
+    cwd: transcript.cwd,
+    git: transcript.git,
+    agentRun: transcript.agentRun,
+    benchmark: transcript.benchmark,
+    tokenCounts: transcript.tokenCounts,
+    messages: inlineAssets(transcript.messages, options.assets),
+    subagents,
+  };
+}
@@ -0,0 +1,276 @@
+/**
+ * Markdown export
+ * Renders a parsed transcript as Markdown that keeps its structure when
+ * pasted into PR descriptions, design docs or Notion: a heading per speaker,
+ * fenced code, tool calls folded into <details> with the same summary as the
+ * viewer, and file edits as diff blocks.
+ */
+
+import { getToolPreview } from "@/components/getToolPreview";
+import { formatDiff } from "@/lib/diff";
+import { makeRelativePath } from "@/lib/path-utils";
+import { getImageSrc, getRemoteImageUrl } from "@/lib/providers/images";
+import {
+  isBracketSystemMessage,
+  isSystemMessageToHide,
+  isToolResultMessage,
+} from "@/lib/transcript-utils";
+import type {
+  ContentBlock,
+  ParsedTranscript,
+  SystemEvent,
+  ToolResult,
+  ToolUse,
+  TranscriptLine,
+} from "@/types/transcript";
+import {
+  collectToolResults,
+  describeSystemEvent,
+  type ExportOptions,
+  getFileEdits,
+  getSessionDetails,
+  shouldShowToolInput,
+} from "./shared";
+
+export interface MarkdownExportOptions extends ExportOptions {
+  assetBaseUrl?: string; // Absolute URL that stored images are served under
+}
+
+interface RenderContext {
+  transcript: ParsedTranscript;
+  toolResults: Map<string, ToolResult[]>;
+  assetBaseUrl?: string;
+}
+
+/**
+ * Fenced code block with a fence longer than any backtick run in the code
+ */
+function fence(code: string, language = ""): string {
+  const longestRun = Math.max(
+    2,
+    ...(code.match(/`+/g) ?? []).map((run) => run.length),
+  );
+  const marker = "`".repeat(longestRun + 1);
+  return `${marker}${language}\n${code.replace(/\n+$/, "")}\n${marker}`;
+}
+
+/**
+ * Inline code span that can contain backticks
+ */
+function inlineCode(text: string): string {
+  const longestRun = Math.max(
+    0,
+    ...(text.match(/`+/g) ?? []).map((run) => run.length),
+  );
+  const marker = "`".repeat(longestRun + 1);
+  const padding = text.startsWith("`") || text.endsWith("`") ? " " : "";
+  return `${marker}${padding}${text}${padding}${marker}`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/**
+ * Collapsible section; the blank lines let Markdown render inside it
+ */
+function details(summary: string, body: string): string {
+  return `<details>\n<summary>${escapeHtml(summary)}</summary>\n\n${body}\n\n</details>`;
+}
+
+function renderToolUse(
+  toolUse: ToolUse,
+  context: RenderContext,
+  headingLevel: number,
+): string {
+  const { transcript } = context;
+  const preview = getToolPreview(toolUse.name, toolUse.input, transcript.cwd);
+  const summary = preview ? `${toolUse.name}: ${preview}` : toolUse.name;
+  const parts: string[] = [];
+
+  const edits = getFileEdits(toolUse);
+  for (const edit of edits) {
+    const path = makeRelativePath(edit.filePath, transcript.cwd);
+    parts.push(
+      fence(
+        `--- a/${path}\n+++ b/${path}\n${formatDiff(edit.oldString, edit.newString)}`,
+        "diff",
+      ),
+    );
+  }
+
+  if (shouldShowToolInput(toolUse, preview, edits)) {
+    parts.push(fence(JSON.stringify(toolUse.input, null, 2), "json"));
+  }
+
+  for (const result of context.toolResults.get(toolUse.id) ?? []) {
+    if (!result.content) continue;
+    parts.push(
+      `${result.is_error ? "**Error**" : "**Result**"}\n\n${fence(result.content)}`,
+    );
+  }
+
+  const subagent = transcript.subagents?.[toolUse.id];
+  if (subagent) {
+    parts.push(
+      renderConversation(subagent.messages, context, headingLevel + 1, {
+        user: "Prompt",
+        assistant: "Sub-agent",
+      }),
+    );
+  }
+
+  if (parts.length === 0) return inlineCode(summary);
+  return details(summary, parts.join("\n\n"));
+}
+
+function renderBlock(
+  block: ContentBlock,
+  context: RenderContext,
+  headingLevel: number,
+): string | null {
+  switch (block.type) {
+    case "text":
+      return block.text.trim() || null;
+    case "thinking":
+      return block.thinking.trim() ? details("Thinking", block.thinking) : null;
+    case "tool_use":
+      return renderToolUse(block, context, headingLevel);
+    case "tool_result":
+      // Rendered with the call that produced it
+      return null;
+    case "command-name":
+      return inlineCode(block.text);
+    case "command-args":
+      return block.text.trim() ? fence(block.text) : null;
+    case "command-message":
+      return null;
+    case "bash-input":
+      return fence(`$ ${block.text}`, "bash");
+    case "bash-stdout":
+    case "bash-stderr":
+      return block.text.trim() ? fence(block.text) : null;
+    case "user-instructions":
+      return details("User instructions", block.text);
+    case "image": {
+      const src = getImageSrc(block, context.assetBaseUrl);
+      const remote = getRemoteImageUrl(block);
+      const alt = block.alt || "image";
+      if (src) return `![${alt}](${src})`;
+      return remote ? `[${alt}](${remote})` : `_[${alt}]_`;
+    }
+  }
+}
+
+function renderSystemEvent(event: SystemEvent): string {
+  const label = describeSystemEvent(event);
+  const quoted = label
+    .split("\n")
+    .map((line) => `> ${line}`)
+    .join("\n");
+  if (event.eventType === "compaction" && event.data.summary) {
+    return `${quoted}\n\n${details("Summary", event.data.summary)}`;
+  }
+  return quoted;
+}
+
+/**
+ * Messages under a heading per speaker; consecutive messages from the same
+ * speaker share one heading
+ */
+function renderConversation(
+  lines: TranscriptLine[],
+  context: RenderContext,
+  headingLevel: number,
+  roleNames: Record<"user" | "assistant", string>,
+): string {
+  const sections: string[] = [];
+  let previousRole: string | null = null;
+
+  for (const line of lines) {
+    if (line.systemEvent) {
+      sections.push(renderSystemEvent(line.systemEvent));
+      previousRole = null;
+      continue;
+    }
+
+    const message = line.message;
+    if (!message) continue;
+    if (message.role === "user") {
+      if (
+        isToolResultMessage(message.content) ||
+        isSystemMessageToHide(message.content)
+      ) {
+        continue;
+      }
+      const bracket = isBracketSystemMessage(message.content);
+      if (bracket.isSystemMessage) {
+        sections.push(`> ${bracket.text}`);
+        previousRole = null;
+        continue;
+      }
+    }
+
+    const blocks: ContentBlock[] =
+      typeof message.content === "string"
+        ? [{ type: "text", text: message.content }]
+        : message.content;
+    const rendered = blocks
+      .map((block) => renderBlock(block, context, headingLevel))
+      .filter((part): part is string => !!part);
+    if (rendered.length === 0) continue;
+
+    if (message.role !== previousRole) {
+      sections.push(`${"#".repeat(headingLevel)} ${roleNames[message.role]}`);
+      previousRole = message.role;
+    }
+    sections.push(...rendered);
+  }
+
+  return sections.join("\n\n");
+}
+
+/**
+ * Header lines: tool, date, models and git context
+ */
+function renderHeader(
+  transcript: ParsedTranscript,
+  options: MarkdownExportOptions,
+): string {
+  const { toolName, date, models } = getSessionDetails(transcript, options);
+  const git = transcript.git;
+
+  const facts = [
+    `- **Tool:** ${toolName}`,
+    date && `- **Date:** ${date.slice(0, 10)}`,
+    models.length > 0 && `- **Models:** ${models.join(", ")}`,
+    git?.repositoryUrl && `- **Repository:** ${git.repositoryUrl}`,
+    git?.branch &&
+      `- **Branch:** \`${git.branch}\`${git.commit ? ` at \`${git.commit.slice(0, 7)}\`` : ""}`,
+  ].filter(Boolean);
+
+  return `# ${options.title}\n\n${facts.join("\n")}`;
+}
+
+/**
+ * Render a transcript as Markdown
+ */
+export function transcriptToMarkdown(
+  transcript: ParsedTranscript,
+  options: MarkdownExportOptions,
+): string {
+  const context: RenderContext = {
+    transcript,
+    toolResults: collectToolResults(transcript),
+    assetBaseUrl: options.assetBaseUrl,
+  };
+  const conversation = renderConversation(transcript.messages, context, 2, {
+    user: "User",
+    assistant: getSessionDetails(transcript, options).toolName,
+  });
+
+  return `${renderHeader(transcript, options)}\n\n---\n\n${conversation}\n`;
+}
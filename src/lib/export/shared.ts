@@ -0,0 +1,176 @@
+/**
+ * Helpers shared by the transcript exporters
+ */
+
+import { parsePatch, parseSearchReplaceBlocks } from "@/lib/parsePatch";
+import { getProviderByName } from "@/lib/providers";
+import { PERMISSION_MODE_LABELS } from "@/lib/transcript-utils";
+import type {
+  ParsedTranscript,
+  SystemEvent,
+  ToolResult,
+  ToolUse,
+} from "@/types/transcript";
+
+export interface ExportOptions {
+  title: string;
+  source: string; // Provider name, e.g. "claude-code"
+  createdAt?: string; // Upload date, used when the transcript has no timestamps
+}
+
+export interface FileEdit {
+  filePath: string;
+  oldString: string;
+  newString: string;
+}
+
+/**
+ * Tool name, date and models shown at the top of an export
+ */
+export function getSessionDetails(
+  transcript: ParsedTranscript,
+  options: ExportOptions,
+): { toolName: string; date?: string; models: string[] } {
+  const provider = getProviderByName(options.source);
+  const models = [
+    ...new Set(
+      transcript.messages
+        .map((line) => line.message?.model)
+        .filter((model): model is string => !!model && model !== "<synthetic>")
+        .map((model) => provider?.formatModelName?.(model) || model),
+    ),
+  ];
+
+  return {
+    toolName: provider?.displayName ?? options.source,
+    date: transcript.metadata.firstTimestamp || options.createdAt,
+    models,
+  };
+}
+
+/**
+ * File edits made by a tool call, in the formats the viewer shows as diffs
+ */
+export function getFileEdits(toolUse: ToolUse): FileEdit[] {
+  const { name, input } = toolUse;
+  const filePath = input.file_path || input.path || input.target_file;
+
+  if (name === "apply_patch" && typeof input.input === "string") {
+    return parsePatch(input.input);
+  }
+  if (typeof filePath !== "string") return [];
+
+  const oldString = input.old_string ?? input.old_text ?? input.old_str;
+  const newString = input.new_string ?? input.new_text ?? input.new_str;
+  if (
+    ["Edit", "edit", "replace", "search_replace"].includes(name) &&
+    typeof oldString === "string" &&
+    typeof newString === "string"
+  ) {
+    return [{ filePath, oldString, newString }];
+  }
+
+  const searchReplace =
+    name === "search_replace"
+      ? input.content
+      : name === "replace_in_file" || name === "apply_diff"
+        ? input.diff
+        : undefined;
+  if (typeof searchReplace === "string") {
+    return parseSearchReplaceBlocks(searchReplace).map((block) => ({
+      filePath,
+      oldString: block.oldText,
+      newString: block.newText,
+    }));
+  }
+
+  if (
+    ["Write", "write_file", "write_to_file", "write"].includes(name) &&
+    typeof input.content === "string"
+  ) {
+    return [{ filePath, oldString: "", newString: input.content }];
+  }
+  if (name === "edit_file" && typeof input.code_edit === "string") {
+    return [{ filePath, oldString: "", newString: input.code_edit }];
+  }
+
+  return [];
+}
+
+/**
+ * Whether a tool call's input is worth showing in full, following
+ * ToolCallBlock: not for file edits (shown as diffs) or a single parameter
+ * already in the preview
+ */
+export function shouldShowToolInput(
+  toolUse: ToolUse,
+  preview: string | null,
+  edits: FileEdit[],
+): boolean {
+  const inputKeys = Object.keys(toolUse.input || {});
+  return (
+    edits.length === 0 &&
+    (inputKeys.length > 1 || (inputKeys.length === 1 && preview === null))
+  );
+}
+
+/**
+ * One-line description of a system event, as shown on its divider
+ */
+export function describeSystemEvent(event: SystemEvent): string {
+  switch (event.eventType) {
+    case "model_change":
+      return `Model changed to ${event.data.newModel}`;
+    case "compaction":
+      return "Context compacted";
+    case "session_resumed":
+      return event.data.fileName
+        ? `Session resumed (${event.data.fileName})`
+        : "Session resumed";
+    case "mode_change":
+      return `Switched to ${PERMISSION_MODE_LABELS[event.data.mode] ?? event.data.mode}`;
+    case "interruption":
+      return event.data.message || "Interrupted";
+    case "info":
+      return event.data.message;
+  }
+}
+
+/**
+ * Tool results of the whole transcript, keyed by the call they answer
+ */
+export function collectToolResults(
+  transcript: ParsedTranscript,
+): Map<string, ToolResult[]> {
+  const results = new Map<string, ToolResult[]>();
+  const lines = [
+    ...transcript.messages,
+    ...Object.values(transcript.subagents ?? {}).flatMap(
+      (subagent) => subagent.messages,
+    ),
+  ];
+
+  for (const line of lines) {
+    if (!Array.isArray(line.message?.content)) continue;
+    for (const block of line.message.content) {
+      if (block.type !== "tool_result") continue;
+      const existing = results.get(block.tool_use_id) ?? [];
+      results.set(block.tool_use_id, [...existing, block]);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * File name for a download, derived from the transcript title
+ */
+export function getExportFileName(title: string, extension: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 80)
+    .replace(/-+$/, "");
+  return `${slug || "transcript"}.${extension}`;
+}
@@ -0,0 +1,114 @@
+/**
+ * Git repository links
+ * Files mentioned in a transcript are linked to the repository recorded by
+ * the CLI, at the recorded commit (or branch when no commit is known). Paths
+ * are resolved against the session's working directory, which is assumed to
+ * be the repository root.
+ */
+
+import type { GitContext } from "@/types/transcript";
+import { isAbsolutePath, makeRelativePath, normalizePath } from "./path-utils";
+
+export interface RepositoryInfo {
+  host: "github" | "gitlab";
+  name: string; // e.g. "owner/repo" or "group/subgroup/repo"
+  webUrl: string; // e.g. "https://github.com/owner/repo"
+}
+
+// https://host/path, ssh://git@host/path and git@host:path remotes
+const REMOTE_PATTERN =
+  /^(?:(?:https?|ssh|git):\/\/)?(?:[^@/]+@)?(github\.com|gitlab(?:\.[\w-]+)+)[:/](.+?)(?:\.git)?\/?$/;
+
+// scheme://userinfo@ at the start of a URL
+const URL_USERINFO_PATTERN = /^([a-z][a-z0-9+.-]*:\/\/)([^@/]+)@/i;
+
+/**
+ * Remote URL without credentials, such as the token in
+ * https://x-access-token:<token>@github.com/owner/repo; an SSH user name
+ * (ssh://git@host) is kept
+ */
+export function stripUrlCredentials(url: string): string {
+  return url.replace(
+    URL_USERINFO_PATTERN,
+    (match, scheme: string, userinfo: string) =>
+      scheme.toLowerCase() === "ssh://" && !userinfo.includes(":")
+        ? match
+        : scheme,
+  );
+}
+
+/**
+ * Encode each segment of a slash-separated path for use in a URL
+ */
+function encodePath(path: string): string {
+  return path.split("/").map(encodeURIComponent).join("/");
+}
+
+/**
+ * Parse a GitHub or GitLab remote URL, or return null for other hosts
+ */
+export function parseRepositoryUrl(url: string): RepositoryInfo | null {
+  const match = REMOTE_PATTERN.exec(url.trim());
+  if (!match) return null;
+
+  const [, hostname, path] = match;
+  const name = path.split("/").filter(Boolean).join("/");
+  if (!name.includes("/")) return null;
+
+  return {
+    host: hostname === "github.com" ? "github" : "gitlab",
+    name,
+    webUrl: `https://${hostname}/${name}`,
+  };
+}
+
+/**
+ * Web URL for the recorded commit, or the branch when no commit is known
+ */
+export function getRepositoryRefUrl(git?: GitContext): string | null {
+  const repo = git?.repositoryUrl
+    ? parseRepositoryUrl(git.repositoryUrl)
+    : null;
+  if (!repo) return null;
+
+  const sep = repo.host === "gitlab" ? "/-" : "";
+  if (git?.commit) {
+    return `${repo.webUrl}${sep}/commit/${encodeURIComponent(git.commit)}`;
+  }
+  if (git?.branch) {
+    return `${repo.webUrl}${sep}/tree/${encodePath(git.branch)}`;
+  }
+  return repo.webUrl;
+}
+
+/**
+ * Web URL of a file at the recorded commit or branch
+ * Returns null when the repository is not on GitHub/GitLab, no ref was
+ * recorded, or the file is outside the working directory
+ */
+export function getRepositoryFileUrl(
+  git: GitContext | undefined,
+  filePath: string,
+  cwd?: string,
+): string | null {
+  const repo = git?.repositoryUrl
+    ? parseRepositoryUrl(git.repositoryUrl)
+    : null;
+  const ref = git?.commit || git?.branch;
+  if (!repo || !ref) return null;
+
+  const relativePath = normalizePath(makeRelativePath(filePath, cwd)).replace(
+    /^\.\//,
+    "",
+  );
+  if (
+    !relativePath ||
+    isAbsolutePath(relativePath) ||
+    relativePath.startsWith("../")
+  ) {
+    return null;
+  }
+
+  const sep = repo.host === "gitlab" ? "/-" : "";
+  return `${repo.webUrl}${sep}/blob/${encodePath(ref)}/${encodePath(relativePath)}`;
+}
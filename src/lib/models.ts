@@ -0,0 +1,137 @@
+/**
+ * Model registry
+ * Vendor and context window size per model ID. Dated or prefixed model IDs
+ * (e.g. claude-sonnet-4-5-20250929, models/gemini-2.5-pro) resolve to the
+ * longest key they start with. Bedrock, OpenRouter and Cursor spellings of
+ * Claude models (anthropic.claude-…, claude-sonnet-4.5, claude-4-sonnet) are
+ * normalized first.
+ */
+
+import type { TranscriptLine } from "@/types/transcript";
+
+export type ModelVendor = "anthropic" | "openai" | "google" | "mistral";
+
+export interface ModelInfo {
+  vendor: ModelVendor;
+  contextWindow: number; // Maximum prompt and output tokens per request
+}
+
+export const MODELS: Record<string, ModelInfo> = {
+  "claude-opus-4-5": { vendor: "anthropic", contextWindow: 200_000 },
+  "claude-opus-4-1": { vendor: "anthropic", contextWindow: 200_000 },
+  "claude-opus-4": { vendor: "anthropic", contextWindow: 200_000 },
+  "claude-sonnet-4-5": { vendor: "anthropic", contextWindow: 200_000 },
+  "claude-sonnet-4": { vendor: "anthropic", contextWindow: 200_000 },
+  "claude-3-7-sonnet": { vendor: "anthropic", contextWindow: 200_000 },
+  "claude-haiku-4-5": { vendor: "anthropic", contextWindow: 200_000 },
+  "claude-3-5-haiku": { vendor: "anthropic", contextWindow: 200_000 },
+  "gpt-5": { vendor: "openai", contextWindow: 400_000 },
+  "gpt-5-codex": { vendor: "openai", contextWindow: 400_000 },
+  "gpt-5-mini": { vendor: "openai", contextWindow: 400_000 },
+  "gpt-5-nano": { vendor: "openai", contextWindow: 400_000 },
+  "gpt-4.1": { vendor: "openai", contextWindow: 1_047_576 },
+  "gpt-4o": { vendor: "openai", contextWindow: 128_000 },
+  o3: { vendor: "openai", contextWindow: 200_000 },
+  "o4-mini": { vendor: "openai", contextWindow: 200_000 },
+  "gemini-2.5-pro": { vendor: "google", contextWindow: 1_048_576 },
+  "gemini-2.5-flash": { vendor: "google", contextWindow: 1_048_576 },
+  "gemini-2.5-flash-lite": { vendor: "google", contextWindow: 1_048_576 },
+  "devstral-medium": { vendor: "mistral", contextWindow: 128_000 },
+  "devstral-small": { vendor: "mistral", contextWindow: 128_000 },
+  "mistral-medium": { vendor: "mistral", contextWindow: 128_000 },
+  codestral: { vendor: "mistral", contextWindow: 256_000 },
+};
+
+/**
+ * Model ID in the form used as table keys: without vendor prefixes
+ * (models/, anthropic/, Bedrock's [us.]anthropic.) and, for Claude, with
+ * hyphenated versions after the family (claude-4.5-sonnet → claude-sonnet-4-5)
+ */
+function normalizeModelId(model: string): string {
+  let id = (model.toLowerCase().split("/").pop() ?? "").replace(
+    /^(?:[a-z]+\.)?anthropic\./,
+    "",
+  );
+  if (id.startsWith("claude-")) {
+    id = id
+      .replace(/(\d)\.(\d)/g, "$1-$2")
+      // Version first is how Claude 3 models are named, so only 4 and later
+      .replace(/^claude-([4-9](?:-\d)?)-(opus|sonnet|haiku)/, "claude-$2-$1");
+  }
+  return id;
+}
+
+/**
+ * Key of a model ID in a table keyed by model ID, or null when none matches
+ */
+export function findModelKey(
+  model: string,
+  table: Record<string, unknown>,
+): string | null {
+  const id = normalizeModelId(model);
+  let bestKey: string | null = null;
+
+  for (const key of Object.keys(table)) {
+    const matches =
+      id === key || (id.startsWith(key) && /[-@:]/.test(id[key.length]));
+    if (matches && (!bestKey || key.length > bestKey.length)) bestKey = key;
+  }
+
+  return bestKey;
+}
+
+/**
+ * Registry entry for a model ID
+ */
+export function findModel(model: string): ModelInfo | null {
+  const key = findModelKey(model, MODELS);
+  return key ? MODELS[key] : null;
+}
+
+// Share of the context window above which a session is under pressure;
+// Claude Code compacts automatically shortly after
+export const CONTEXT_PRESSURE_THRESHOLD = 0.8;
+
+export interface ContextUsage {
+  usedTokens: number; // Prompt size of the request
+  maxTokens: number; // Context window of the model
+}
+
+/**
+ * How full the context window was for an assistant response
+ * @returns Usage, or null when the prompt size or model is unknown
+ */
+export function getContextUsage(line: TranscriptLine): ContextUsage | null {
+  const usedTokens = line.usage?.contextTokens;
+  const model = line.message?.model ? findModel(line.message.model) : null;
+  if (!usedTokens || !model) return null;
+
+  return { usedTokens, maxTokens: model.contextWindow };
+}
+
+export interface ContextPoint extends ContextUsage {
+  uuid: string;
+}
+
+/**
+ * Context usage of each assistant response in the main conversation, and
+ * the positions of compactions between them
+ */
+export function getContextSeries(messages: TranscriptLine[]): {
+  points: ContextPoint[];
+  compactions: number[]; // Number of points before each compaction
+} {
+  const points: ContextPoint[] = [];
+  const compactions: number[] = [];
+
+  for (const line of messages) {
+    if (line.systemEvent?.eventType === "compaction") {
+      compactions.push(points.length);
+      continue;
+    }
+    const usage = getContextUsage(line);
+    if (usage) points.push({ uuid: line.uuid, ...usage });
+  }
+
+  return { points, compactions };
+}
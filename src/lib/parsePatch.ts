@@ -1,5 +1,5 @@
 /**
- * Utilities for parsing Codex apply_patch tool format
+ * Utilities for parsing Codex apply_patch and SEARCH/REPLACE edit formats
  */
 
 export interface ParsedFile {
@@ -115,3 +115,30 @@ export function parsePatch(patch: string): ParsedFile[] {
     return [];
   }
 }
+
+/**
+ * Parse Mistral Vibe / Aider / Cline search_replace content format into diff blocks
+ * Format: <<<<<<< SEARCH\n[old]\n=======\n[new]\n>>>>>>> REPLACE
+ * Cline writes "------- SEARCH" / "+++++++ REPLACE" markers, and Roo Code
+ * prefixes the old text with ":start_line:N" and a "-------" separator
+ */
+export function parseSearchReplaceBlocks(
+  content: string,
+): Array<{ oldText: string; newText: string }> {
+  const blocks: Array<{ oldText: string; newText: string }> = [];
+  // Handle trailing whitespace on marker lines and flexible newlines
+  const pattern =
+    /(?:<<<<<<<|-------) SEARCH[ \t]*\r?\n([\s\S]*?)\r?\n[ \t]*=======[ \t]*\r?\n([\s\S]*?)\r?\n[ \t]*(?:>>>>>>>|\+\+\+\+\+\+\+) REPLACE/g;
+
+  for (const match of content.matchAll(pattern)) {
+    blocks.push({
+      oldText: match[1].replace(
+        /^(?::(?:start|end)_line:[ \t]*\d+[ \t]*\r?\n)+-------[ \t]*\r?\n/,
+        "",
+      ),
+      newText: match[2],
+    });
+  }
+
+  return blocks;
+}
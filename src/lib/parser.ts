@@ -1,9 +1,18 @@
-import type { ParsedTranscript, TranscriptMetadata } from "@/types/transcript";
+import type {
+  CostEstimate,
+  ParsedTranscript,
+  TokenCounts,
+  TranscriptMetadata,
+} from "@/types/transcript";
+import { estimateTranscriptCost } from "./pricing";
 import {
   calculateModelStats as calculateModelStatsFromProvider,
-  calculateTokenCounts as calculateTokenCountsFromProvider,
+  calculateTranscriptTokenCounts,
+  getProviderByName,
+  type ParseDiagnostics,
   parseTranscript as parseTranscriptWithProvider,
 } from "./providers";
+import { getAllMessages } from "./transcript-utils";
 
 /**
  * Generate a default title when no custom title is provided
@@ -12,10 +21,18 @@ import {
 export function generateDefaultTitle(source: string, createdAt: Date): string {
   const sourceDisplayNames: Record<string, string> = {
     "claude-code": "Claude Code",
+    "claude-agent-sdk": "Claude Agent SDK",
     codex: "Codex",
     "copilot-cli": "Copilot CLI",
+    cursor: "Cursor",
+    aider: "Aider",
+    cline: "Cline",
     "gemini-cli": "Gemini CLI",
     "mistral-vibe": "Mistral Vibe",
+    "swe-agent": "SWE-agent",
+    openhands: "OpenHands",
+    "messages-api": "Messages API",
+    interchange: "AI Sessions interchange",
   };
 
   const sourceName = sourceDisplayNames[source] || source;
@@ -70,42 +87,65 @@ export function calculateModelStats(
   return calculateModelStatsFromProvider(transcript, source);
 }
 
+/**
+ * Estimate the session cost from the pricing catalog
+ * Model names are formatted the same way as in the model stats
+ * @param transcript Parsed transcript
+ * @param source Source provider name
+ * @param tokenCounts Session totals, used when responses carry no usage
+ */
+export function calculateCostEstimate(
+  transcript: ParsedTranscript,
+  source?: string,
+  tokenCounts?: TokenCounts | null,
+): CostEstimate | null {
+  const provider = source ? getProviderByName(source) : null;
+  return estimateTranscriptCost(
+    transcript,
+    tokenCounts,
+    (model) => provider?.formatModelName?.(model) || model,
+  );
+}
+
 /**
  * Parse JSONL transcript content
  * Automatically detects the provider format and uses appropriate parser
  * @param content Raw JSONL content
  * @param sourceHint Optional hint about which provider to use (from database)
+ * @param diagnostics Optional collector for malformed or ignored lines
  */
 export function parseJSONL(
   content: string,
   sourceHint?: string,
+  diagnostics?: ParseDiagnostics,
 ): ParsedTranscript {
-  return parseTranscriptWithProvider(content, sourceHint);
+  return parseTranscriptWithProvider(content, sourceHint, diagnostics);
 }
 
 /**
  * Calculate all metadata statistics for a transcript
  * This should be called on upload and the results stored in the database
  * @param transcript Parsed transcript
- * @param rawContent Raw JSONL/JSON content (needed for token extraction)
- * @param source Source provider name (for model formatting and token extraction)
+ * @param source Source provider name (for model formatting and token totals)
  * @returns Metadata object ready to be stored in database
  */
 export function calculateTranscriptMetadata(
   transcript: ParsedTranscript,
-  rawContent: string,
   source?: string,
 ): TranscriptMetadata {
+  // Sub-agent messages count toward the session totals
+  const messages = getAllMessages(transcript);
+
   // Count messages by role
-  const userMessageCount = transcript.messages.filter(
+  const userMessageCount = messages.filter(
     (line) => line.message?.role === "user",
   ).length;
-  const assistantMessageCount = transcript.messages.filter(
+  const assistantMessageCount = messages.filter(
     (line) => line.message?.role === "assistant",
   ).length;
 
   // Count tool calls from assistant messages
-  const toolCallCount = transcript.messages.reduce((count, line) => {
+  const toolCallCount = messages.reduce((count, line) => {
     if (line.message?.role !== "assistant") return count;
     const content = line.message.content;
     if (!Array.isArray(content)) return count;
@@ -118,11 +158,13 @@ export function calculateTranscriptMetadata(
   // Calculate model usage statistics
   const modelStats = calculateModelStatsFromProvider(transcript, source);
 
-  // Calculate token counts from raw content (provider-specific)
+  // Token totals from the usage providers attached while parsing
   const tokenCounts = source
-    ? calculateTokenCountsFromProvider(rawContent, source)
+    ? calculateTranscriptTokenCounts(transcript, source)
     : null;
 
+  const costEstimate = calculateCostEstimate(transcript, source, tokenCounts);
+
   return {
     cwd: transcript.cwd,
     userMessageCount,
@@ -130,5 +172,10 @@ export function calculateTranscriptMetadata(
     toolCallCount,
     modelStats,
     tokenCounts: tokenCounts || undefined,
+    costEstimate: costEstimate || undefined,
+    agentRun: transcript.agentRun,
+    benchmark: transcript.benchmark,
+    git: transcript.git,
+    diagnostics: transcript.diagnostics,
   };
 }
@@ -3,13 +3,20 @@ import { posix } from "node:path";
 
 /**
  * Check if a path is absolute (supports both Unix and Windows formats)
+ * Home-relative paths (~/...) count as absolute: uploads are anonymized by
+ * replacing the home directory with ~
  */
-function isAbsolutePath(path: string): boolean {
+export function isAbsolutePath(path: string): boolean {
   // Unix absolute path starts with /
   if (path.startsWith("/")) {
     return true;
   }
 
+  // Anonymized home directory
+  if (path === "~" || /^~[/\\]/.test(path)) {
+    return true;
+  }
+
   // Windows absolute path starts with drive letter (e.g., C:\, D:\)
   if (/^[A-Za-z]:[/\\]/.test(path)) {
     return true;
@@ -21,7 +28,7 @@ function isAbsolutePath(path: string): boolean {
 /**
  * Normalize path to use forward slashes (works on both Unix and Windows)
  */
-function normalizePath(path: string): string {
+export function normalizePath(path: string): string {
   return path.replace(/\\/g, "/");
 }
 
@@ -0,0 +1,371 @@
+/**
+ * Model pricing catalog and session cost estimates
+ * Prices are list prices in USD per million tokens, keyed by model ID. Each
+ * model keeps its price history with effective dates so a session is priced
+ * as of when it ran. Bump PRICING_VERSION whenever the catalog changes:
+ * stored estimates with an older version are recomputed when viewed.
+ */
+
+import type {
+  CostEstimate,
+  ParsedTranscript,
+  TokenCounts,
+  TokenUsage,
+  TranscriptLine,
+} from "@/types/transcript";
+import { findModel, findModelKey } from "./models";
+import { getAllMessages } from "./transcript-utils";
+
+export const PRICING_VERSION = "2025-11-24";
+
+export interface ModelPrice {
+  effectiveFrom: string; // ISO date the price applies from
+  input: number;
+  output: number;
+  cacheRead?: number; // Defaults to the input price
+  cacheWrite?: number; // Defaults to the input price
+  thinking?: number; // Defaults to the output price
+}
+
+// Price history per model, oldest first. Model IDs are matched the same way
+// as in the model registry
+export const MODEL_PRICING: Record<string, ModelPrice[]> = {
+  "claude-opus-4-5": [
+    {
+      effectiveFrom: "2025-11-24",
+      input: 5,
+      output: 25,
+      cacheRead: 0.5,
+      cacheWrite: 6.25,
+    },
+  ],
+  "claude-opus-4-1": [
+    {
+      effectiveFrom: "2025-08-05",
+      input: 15,
+      output: 75,
+      cacheRead: 1.5,
+      cacheWrite: 18.75,
+    },
+  ],
+  "claude-opus-4": [
+    {
+      effectiveFrom: "2025-05-22",
+      input: 15,
+      output: 75,
+      cacheRead: 1.5,
+      cacheWrite: 18.75,
+    },
+  ],
+  "claude-sonnet-4-5": [
+    {
+      effectiveFrom: "2025-09-29",
+      input: 3,
+      output: 15,
+      cacheRead: 0.3,
+      cacheWrite: 3.75,
+    },
+  ],
+  "claude-sonnet-4": [
+    {
+      effectiveFrom: "2025-05-22",
+      input: 3,
+      output: 15,
+      cacheRead: 0.3,
+      cacheWrite: 3.75,
+    },
+  ],
+  "claude-3-7-sonnet": [
+    {
+      effectiveFrom: "2025-02-24",
+      input: 3,
+      output: 15,
+      cacheRead: 0.3,
+      cacheWrite: 3.75,
+    },
+  ],
+  "claude-haiku-4-5": [
+    {
+      effectiveFrom: "2025-10-15",
+      input: 1,
+      output: 5,
+      cacheRead: 0.1,
+      cacheWrite: 1.25,
+    },
+  ],
+  "claude-3-5-haiku": [
+    {
+      effectiveFrom: "2024-11-04",
+      input: 0.8,
+      output: 4,
+      cacheRead: 0.08,
+      cacheWrite: 1,
+    },
+  ],
+  "gpt-5": [
+    {
+      effectiveFrom: "2025-08-07",
+      input: 1.25,
+      output: 10,
+      cacheRead: 0.125,
+    },
+  ],
+  "gpt-5-codex": [
+    {
+      effectiveFrom: "2025-09-15",
+      input: 1.25,
+      output: 10,
+      cacheRead: 0.125,
+    },
+  ],
+  "gpt-5-mini": [
+    {
+      effectiveFrom: "2025-08-07",
+      input: 0.25,
+      output: 2,
+      cacheRead: 0.025,
+    },
+  ],
+  "gpt-5-nano": [
+    {
+      effectiveFrom: "2025-08-07",
+      input: 0.05,
+      output: 0.4,
+      cacheRead: 0.005,
+    },
+  ],
+  "gpt-4.1": [
+    {
+      effectiveFrom: "2025-04-14",
+      input: 2,
+      output: 8,
+      cacheRead: 0.5,
+    },
+  ],
+  "gpt-4o": [
+    {
+      effectiveFrom: "2024-10-01",
+      input: 2.5,
+      output: 10,
+      cacheRead: 1.25,
+    },
+  ],
+  o3: [
+    { effectiveFrom: "2025-04-16", input: 10, output: 40, cacheRead: 2.5 },
+    { effectiveFrom: "2025-06-10", input: 2, output: 8, cacheRead: 0.5 },
+  ],
+  "o4-mini": [
+    {
+      effectiveFrom: "2025-04-16",
+      input: 1.1,
+      output: 4.4,
+      cacheRead: 0.275,
+    },
+  ],
+  "gemini-2.5-pro": [
+    {
+      effectiveFrom: "2025-06-17",
+      input: 1.25,
+      output: 10,
+      cacheRead: 0.31,
+    },
+  ],
+  "gemini-2.5-flash": [
+    {
+      effectiveFrom: "2025-04-17",
+      input: 0.15,
+      output: 0.6,
+      cacheRead: 0.0375,
+      thinking: 3.5,
+    },
+    { effectiveFrom: "2025-06-17", input: 0.3, output: 2.5, cacheRead: 0.075 },
+  ],
+  "gemini-2.5-flash-lite": [
+    {
+      effectiveFrom: "2025-07-22",
+      input: 0.1,
+      output: 0.4,
+      cacheRead: 0.025,
+    },
+  ],
+  "devstral-medium": [
+    {
+      effectiveFrom: "2025-07-10",
+      input: 0.4,
+      output: 2,
+    },
+  ],
+  "devstral-small": [
+    {
+      effectiveFrom: "2025-07-10",
+      input: 0.1,
+      output: 0.3,
+    },
+  ],
+  "mistral-medium": [
+    {
+      effectiveFrom: "2025-05-07",
+      input: 0.4,
+      output: 2,
+    },
+  ],
+  codestral: [{ effectiveFrom: "2025-01-13", input: 0.3, output: 0.9 }],
+};
+
+/**
+ * Price history for a model ID, ignoring vendor prefixes and date suffixes
+ */
+export function findModelPricing(model: string): ModelPrice[] | null {
+  const key = findModelKey(model, MODEL_PRICING);
+  return key ? MODEL_PRICING[key] : null;
+}
+
+/**
+ * Price in effect on a date, or the earliest price for older sessions
+ */
+function priceOn(prices: ModelPrice[], date: string): ModelPrice {
+  const day = date.slice(0, 10);
+  return prices.findLast((price) => price.effectiveFrom <= day) ?? prices[0];
+}
+
+/**
+ * Estimated cost in USD of token usage for a model, or null when the model
+ * is not in the catalog
+ * @param date - When the tokens were used (ISO timestamp)
+ */
+export function estimateUsageCost(
+  model: string,
+  usage: TokenUsage | TokenCounts,
+  date: string,
+): number | null {
+  const pricing = findModelPricing(model);
+  if (!pricing) return null;
+
+  const price = priceOn(pricing, date);
+  const cacheRead = usage.cacheReadTokens ?? 0;
+  const cacheWrite = usage.cacheWriteTokens ?? 0;
+  const thinking = usage.thinkingTokens ?? 0;
+  // Anthropic reports cache reads separately from input tokens; other
+  // vendors count them as part of the input
+  const uncachedInput =
+    findModel(model)?.vendor === "anthropic"
+      ? usage.inputTokens
+      : Math.max(usage.inputTokens - cacheRead, 0);
+
+  // Thinking tokens are part of the output count
+  const dollars =
+    uncachedInput * price.input +
+    cacheRead * (price.cacheRead ?? price.input) +
+    cacheWrite * (price.cacheWrite ?? price.input) +
+    Math.max(usage.outputTokens - thinking, 0) * price.output +
+    thinking * (price.thinking ?? price.output);
+
+  return dollars / 1_000_000;
+}
+
+/**
+ * Dollar amount for display, e.g. "$1.24" or "<$0.01"
+ */
+export function formatUsd(amount: number): string {
+  if (amount > 0 && amount < 0.01) return "<$0.01";
+  return `$${amount.toFixed(2)}`;
+}
+
+/**
+ * Estimated cost of one assistant line, or null without usage or pricing
+ */
+export function estimateLineCost(
+  line: TranscriptLine,
+  date: string,
+): number | null {
+  const model = line.message?.model;
+  if (!line.usage || !model) return null;
+  return estimateUsageCost(model, line.usage, line.timestamp || date);
+}
+
+/**
+ * Session token totals split across models by their share of responses
+ * Used when the tool only records session totals
+ */
+function splitByModel(
+  lines: TranscriptLine[],
+  tokenCounts: TokenCounts,
+): Map<string, TokenCounts> {
+  const responses = new Map<string, number>();
+  for (const line of lines) {
+    const model = line.message?.role === "assistant" && line.message.model;
+    if (model) responses.set(model, (responses.get(model) ?? 0) + 1);
+  }
+
+  const total = [...responses.values()].reduce((sum, n) => sum + n, 0);
+  const share = (value: number | undefined, n: number) =>
+    value === undefined ? undefined : (value * n) / total;
+
+  return new Map(
+    [...responses].map(([model, n]) => [
+      model,
+      {
+        inputTokens: share(tokenCounts.inputTokens, n) ?? 0,
+        outputTokens: share(tokenCounts.outputTokens, n) ?? 0,
+        totalTokens: share(tokenCounts.totalTokens, n) ?? 0,
+        cacheReadTokens: share(tokenCounts.cacheReadTokens, n),
+        cacheWriteTokens: share(tokenCounts.cacheWriteTokens, n),
+        thinkingTokens: share(tokenCounts.thinkingTokens, n),
+      },
+    ]),
+  );
+}
+
+/**
+ * Estimated session cost per model
+ * Priced from the usage attached to each response, or from the session
+ * totals split across models when responses carry no usage
+ *
+ * @param transcript - The parsed transcript
+ * @param tokenCounts - Session totals, used when lines have no usage
+ * @param formatModelName - Display name for a model ID
+ * @returns The estimate, or null when there is no usage to price
+ */
+export function estimateTranscriptCost(
+  transcript: ParsedTranscript,
+  tokenCounts?: TokenCounts | null,
+  formatModelName: (model: string) => string = (model) => model,
+): CostEstimate | null {
+  const lines = getAllMessages(transcript);
+  const date = transcript.metadata.firstTimestamp || new Date().toISOString();
+  const costs = new Map<string, number>();
+  const unpriced = new Set<string>();
+
+  const add = (model: string, cost: number | null) => {
+    const name = formatModelName(model);
+    if (cost === null) unpriced.add(name);
+    else costs.set(name, (costs.get(name) ?? 0) + cost);
+  };
+
+  let hasLineUsage = false;
+  for (const line of lines) {
+    const model = line.message?.model;
+    if (!line.usage || !model) continue;
+    hasLineUsage = true;
+    add(model, estimateLineCost(line, date));
+  }
+
+  if (!hasLineUsage && tokenCounts) {
+    for (const [model, counts] of splitByModel(lines, tokenCounts)) {
+      add(model, estimateUsageCost(model, counts, date));
+    }
+  }
+
+  if (costs.size === 0 && unpriced.size === 0) return null;
+
+  const models = [...costs]
+    .map(([model, costUsd]) => ({ model, costUsd }))
+    .sort((a, b) => b.costUsd - a.costUsd);
+
+  return {
+    pricingVersion: PRICING_VERSION,
+    totalUsd: models.reduce((sum, { costUsd }) => sum + costUsd, 0),
+    models,
+    unpricedModels: unpriced.size > 0 ? [...unpriced] : undefined,
+  };
+}
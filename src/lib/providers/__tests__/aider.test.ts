@@ -0,0 +1,123 @@
+/**
+ * Aider provider tests
+ */
+
+import { describe, expect, test } from "vitest";
+import type { ContentBlock, ToolResult, ToolUse } from "@/types/transcript";
+import { AiderProvider } from "../aider";
+import { detectProvider } from "../index";
+import { AIDER_SAMPLE } from "./fixtures/aider-sample";
+
+describe("AiderProvider", () => {
+  const provider = new AiderProvider();
+
+  describe("detection", () => {
+    test("should detect Aider chat history format", () => {
+      expect(provider.detect(AIDER_SAMPLE)).not.toBeNull();
+    });
+
+    test("should not detect non-Aider content", () => {
+      expect(provider.detect("# My notes\n\nSome markdown")).toBeNull();
+      expect(provider.detect('{"type": "user"}')).toBeNull();
+      expect(provider.detect("")).toBeNull();
+    });
+
+    test("should be picked by detectProvider", () => {
+      expect(detectProvider(AIDER_SAMPLE).provider).toBe("aider");
+    });
+  });
+
+  describe("parsing", () => {
+    const result = provider.parse(AIDER_SAMPLE);
+    const contentOf = (index: number) =>
+      result.messages[index].message?.content as ContentBlock[];
+
+    test("should combine sessions and parse timestamps", () => {
+      expect(result.sessionId).toBe("aider-2024-12-13T14:26:40.000Z");
+      expect(result.metadata.firstTimestamp).toBe("2024-12-13T14:26:40.000Z");
+      expect(result.metadata.lastTimestamp).toBe("2024-12-13T15:00:05.000Z");
+      expect(result.messages).toHaveLength(6);
+      expect(result.metadata.messageCount).toBe(6);
+    });
+
+    test("should map slash commands to command blocks", () => {
+      expect(contentOf(0)).toEqual([
+        { type: "command-name", text: "/add" },
+        { type: "command-args", text: "src/timer.py" },
+      ]);
+    });
+
+    test("should join multi-line prompts", () => {
+      expect(result.messages[1].type).toBe("user");
+      expect(contentOf(1)).toEqual([
+        {
+          type: "text",
+          text: "Add a start method to the Timer class\nand make it return self",
+        },
+      ]);
+    });
+
+    test("should take the model from the session banner", () => {
+      expect(result.messages[2].message?.model).toBe("gpt-4o-2024-08-06");
+      expect(result.messages[5].message?.model).toBe(
+        "claude-3-5-sonnet-20241022",
+      );
+    });
+
+    test("should convert SEARCH/REPLACE blocks into search_replace tool calls", () => {
+      const content = contentOf(2);
+      expect(content[0]).toEqual({
+        type: "text",
+        text: "I'll add a `start` method that records the start time.",
+      });
+
+      const edits = content.filter(
+        (block): block is ToolUse => block.type === "tool_use",
+      );
+      expect(edits).toHaveLength(2);
+      expect(edits[0].name).toBe("search_replace");
+      expect(edits[0].input.file_path).toBe("src/timer.py");
+      expect(edits[0].input.content).toContain("<<<<<<< SEARCH\nclass Timer:");
+      expect(edits[0].input.content).toMatch(/>>>>>>> REPLACE$/);
+      expect(edits[1].input.content).toContain("import time");
+    });
+
+    test("should pair applied edits with results", () => {
+      const results = contentOf(2).filter(
+        (block): block is ToolResult => block.type === "tool_result",
+      );
+      expect(results).toHaveLength(2);
+      expect(results[0].content).toBe("Applied edit to src/timer.py");
+      expect(results[0].is_error).toBeUndefined();
+    });
+
+    test("should map /run commands to bash blocks", () => {
+      expect(contentOf(3)).toEqual([
+        { type: "bash-input", text: "pytest -q" },
+        { type: "bash-stdout", text: "3 passed in 0.12s" },
+      ]);
+    });
+
+    test("should read file names inside diff-fenced blocks", () => {
+      const content = contentOf(5);
+      expect(content[0]).toEqual({
+        type: "text",
+        text: "Done, see the edit below.",
+      });
+      expect((content[1] as ToolUse).input.file_path).toBe("src/app.py");
+    });
+
+    test("should mark failed edits as errors", () => {
+      const result5 = contentOf(5)[2] as ToolResult;
+      expect(result5.type).toBe("tool_result");
+      expect(result5.is_error).toBe(true);
+      expect(result5.content).toContain("failed to exactly match");
+    });
+
+    test("should throw on content without a session header", () => {
+      expect(() => provider.parse("#### hello")).toThrow(
+        "No Aider chat session found",
+      );
+    });
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Claude Agent SDK provider tests
+ */
+
+import { describe, expect, test } from "vitest";
+import { calculateTranscriptMetadata } from "@/lib/parser";
+import { ClaudeAgentSdkProvider } from "../claude-agent-sdk";
+import { calculateTokenCounts, detectProvider } from "../index";
+import { CLAUDE_AGENT_SDK_SAMPLE } from "./fixtures/claude-agent-sdk-sample";
+import { claudeCodeSample } from "./fixtures/claude-code-sample";
+
+describe("ClaudeAgentSdkProvider", () => {
+  const provider = new ClaudeAgentSdkProvider();
+
+  describe("detection", () => {
+    test("should detect stream-json output", () => {
+      expect(provider.detect(CLAUDE_AGENT_SDK_SAMPLE)).not.toBeNull();
+    });
+
+    test("should detect output without an init event", () => {
+      const withoutInit = CLAUDE_AGENT_SDK_SAMPLE.split("\n")
+        .slice(1)
+        .join("\n");
+      expect(provider.detect(withoutInit)).not.toBeNull();
+    });
+
+    test("should not detect Claude Code session JSONL", () => {
+      expect(provider.detect(claudeCodeSample)).toBeNull();
+      expect(provider.detect("invalid json")).toBeNull();
+    });
+
+    test("should be picked by detectProvider", () => {
+      expect(detectProvider(CLAUDE_AGENT_SDK_SAMPLE).provider).toBe(
+        "claude-agent-sdk",
+      );
+    });
+  });
+
+  describe("parsing", () => {
+    const result = provider.parse(CLAUDE_AGENT_SDK_SAMPLE);
+
+    test("should parse session info", () => {
+      expect(result.sessionId).toBe("sdk-session-123");
+      expect(result.cwd).toBe("/home/runner/work/project");
+    });
+
+    test("should keep main-thread messages and skip sub-agent ones", () => {
+      expect(result.messages.map((line) => line.uuid)).toEqual([
+        "assistant-uuid-1",
+        "user-uuid-1",
+        "assistant-uuid-2",
+      ]);
+      expect(result.metadata.messageCount).toBe(3);
+    });
+
+    test("should normalize tool result content to text", () => {
+      expect(result.messages[1].message?.content).toEqual([
+        {
+          type: "tool_result",
+          tool_use_id: "toolu_1",
+          content: "All tests passed",
+        },
+      ]);
+    });
+
+    test("should capture init and result events as run info", () => {
+      expect(result.agentRun).toEqual({
+        model: "claude-sonnet-4-5-20250929",
+        tools: ["Task", "Bash", "Read", "Edit", "mcp__github__create_issue"],
+        mcpServers: [{ name: "github", status: "connected" }],
+        totalCostUsd: 0.0421,
+        durationMs: 12345,
+        numTurns: 3,
+        isError: false,
+      });
+    });
+  });
+
+  describe("metadata", () => {
+    test("should store run info and token usage in transcript metadata", () => {
+      const parsed = provider.parse(CLAUDE_AGENT_SDK_SAMPLE);
+      const metadata = calculateTranscriptMetadata(parsed, "claude-agent-sdk");
+
+      expect(metadata.agentRun?.totalCostUsd).toBe(0.0421);
+      expect(metadata.modelStats).toEqual([
+        { model: "Claude Sonnet 4.5", count: 2, percentage: 100 },
+      ]);
+    });
+
+    test("should take token totals from the result event", () => {
+      expect(
+        calculateTokenCounts(CLAUDE_AGENT_SDK_SAMPLE, "claude-agent-sdk"),
+      ).toEqual({
+        inputTokens: 120,
+        outputTokens: 80,
+        totalTokens: 3200,
+        cacheReadTokens: 3000,
+        cacheWriteTokens: 500,
+      });
+    });
+  });
+});
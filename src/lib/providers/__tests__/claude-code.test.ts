@@ -1,8 +1,12 @@
 import { describe, expect, it } from "vitest";
+import { calculateTranscriptMetadata } from "@/lib/parser";
 import { ClaudeCodeProvider } from "../claude-code";
+import { ParseDiagnostics } from "../diagnostics";
 import {
   claudeCodeSample,
   claudeCodeWithCommands,
+  claudeCodeWithSessionEvents,
+  claudeCodeWithSubagent,
 } from "./fixtures/claude-code-sample";
 
 describe("ClaudeCodeProvider", () => {
@@ -17,27 +21,27 @@ describe("ClaudeCodeProvider", () => {
 
   describe("detect", () => {
     it("should detect Claude Code format with file-history-snapshot", () => {
-      expect(provider.detect(claudeCodeSample)).toBe(true);
+      expect(provider.detect(claudeCodeSample)).not.toBeNull();
     });
 
     it("should detect Claude Code format with thinking blocks", () => {
       const withThinking = `{"type":"assistant","message":{"role":"assistant","content":[{"type":"thinking","thinking":"test"}]}}`;
-      expect(provider.detect(withThinking)).toBe(true);
+      expect(provider.detect(withThinking)).not.toBeNull();
     });
 
     it("should detect Claude Code format with parentUuid", () => {
       const withParentUuid = `{"type":"user","message":{"role":"user"},"parentUuid":"123"}`;
-      expect(provider.detect(withParentUuid)).toBe(true);
+      expect(provider.detect(withParentUuid)).not.toBeNull();
     });
 
     it("should not detect non-Claude Code format", () => {
       const codexFormat = `{"record_type":"state"}`;
-      expect(provider.detect(codexFormat)).toBe(false);
+      expect(provider.detect(codexFormat)).toBeNull();
     });
 
     it("should handle invalid JSONL gracefully", () => {
-      expect(provider.detect("not json at all")).toBe(false);
-      expect(provider.detect("")).toBe(false);
+      expect(provider.detect("not json at all")).toBeNull();
+      expect(provider.detect("")).toBeNull();
     });
   });
 
@@ -138,6 +142,202 @@ describe("ClaudeCodeProvider", () => {
     });
   });
 
+  describe("git context", () => {
+    it("should take the branch from the first line that records one", () => {
+      const withBranch = claudeCodeSample
+        .split("\n")
+        .map((line, index) =>
+          index === 1 ? line.replace(/}$/, ',"gitBranch":"feat/timer"}') : line,
+        )
+        .join("\n");
+
+      expect(provider.parse(withBranch).git).toEqual({ branch: "feat/timer" });
+      expect(provider.parse(claudeCodeSample).git).toBeUndefined();
+    });
+  });
+
+  describe("sub-agent sidechains", () => {
+    it("should nest sidechain lines under the Task call via agentId", () => {
+      const result = provider.parse(claudeCodeWithSubagent);
+
+      expect(result.messages.map((line) => line.uuid)).toEqual([
+        "main-001",
+        "main-002",
+        "main-003",
+        "main-004",
+      ]);
+      expect(Object.keys(result.subagents ?? {})).toEqual(["toolu_task1"]);
+
+      const subagent = result.subagents?.toolu_task1;
+      expect(subagent?.agentId).toBe("a1b2c3d4");
+      expect(subagent?.messages.map((line) => line.uuid)).toEqual([
+        "side-001",
+        "side-002",
+        "side-003",
+        "side-004",
+      ]);
+    });
+
+    it("should link sidechains without agentId by their prompt", () => {
+      const legacy = claudeCodeWithSubagent
+        .split("\n")
+        .map((line) =>
+          line
+            .replace(/,"agentId":"a1b2c3d4"/, "")
+            .replace(/"toolUseResult":\{[^}]*\}/, '"toolUseResult":"done"'),
+        )
+        .join("\n");
+
+      const result = provider.parse(legacy);
+
+      expect(result.subagents?.toolu_task1?.agentId).toBeUndefined();
+      expect(result.subagents?.toolu_task1?.messages).toHaveLength(4);
+    });
+
+    it("should report sidechains that match no Task call", () => {
+      const orphan = claudeCodeWithSubagent
+        .split("\n")
+        .filter((line) => !line.includes("toolu_task1"))
+        .join("\n");
+      const diagnostics = new ParseDiagnostics();
+
+      const result = provider.parse(orphan, diagnostics);
+
+      expect(result.subagents).toEqual({});
+      expect(diagnostics.list()).toContainEqual(
+        expect.objectContaining({
+          recordType: "sidechain without Task call",
+          count: 4,
+        }),
+      );
+    });
+
+    it("should show a sub-agent file uploaded on its own as the conversation", () => {
+      const sidechainOnly = claudeCodeWithSubagent
+        .split("\n")
+        .filter((line) => line.includes('"isSidechain":true'))
+        .join("\n");
+
+      const result = provider.parse(sidechainOnly);
+
+      expect(result.messages).toHaveLength(4);
+      expect(result.subagents).toBeUndefined();
+    });
+
+    it("should count sub-agent messages toward transcript metadata", () => {
+      const result = provider.parse(claudeCodeWithSubagent);
+      const metadata = calculateTranscriptMetadata(result, "claude-code");
+
+      expect(metadata.userMessageCount).toBe(4);
+      expect(metadata.assistantMessageCount).toBe(4);
+      expect(metadata.toolCallCount).toBe(2);
+      expect(metadata.modelStats).toEqual([
+        { model: "Claude Sonnet 4.5", count: 2, percentage: 50 },
+        { model: "Claude Haiku 4.5", count: 2, percentage: 50 },
+      ]);
+    });
+  });
+
+  describe("images", () => {
+    it("should turn pasted screenshots into image blocks", () => {
+      const content = JSON.stringify({
+        type: "user",
+        uuid: "u1",
+        parentUuid: null,
+        timestamp: "2025-10-20T10:00:00.000Z",
+        sessionId: "s1",
+        message: {
+          role: "user",
+          content: [
+            { type: "text", text: "What is wrong here?" },
+            {
+              type: "image",
+              source: {
+                type: "base64",
+                media_type: "image/png",
+                data: "iVBORw0KGgo=",
+              },
+            },
+            {
+              type: "image",
+              source: {
+                type: "base64",
+                media_type: "image/jpeg",
+                data: "ai-sessions-asset:abc123",
+              },
+            },
+          ],
+        },
+      });
+
+      const result = provider.parse(content);
+
+      expect(result.messages[0].message?.content).toEqual([
+        { type: "text", text: "What is wrong here?" },
+        { type: "image", mediaType: "image/png", data: "iVBORw0KGgo=" },
+        { type: "image", mediaType: "image/jpeg", assetId: "abc123" },
+      ]);
+    });
+  });
+
+  describe("session events", () => {
+    it("should turn compaction, mode switches and interruptions into system events", () => {
+      const result = provider.parse(claudeCodeWithSessionEvents);
+
+      expect(
+        result.messages.map(
+          (line) => line.systemEvent?.eventType ?? line.message?.role,
+        ),
+      ).toEqual([
+        "mode_change",
+        "user",
+        "assistant",
+        "mode_change",
+        "user",
+        "interruption",
+        "compaction",
+        "user",
+      ]);
+    });
+
+    it("should attach the compact summary to the compaction event", () => {
+      const result = provider.parse(claudeCodeWithSessionEvents);
+      const compaction = result.messages.find(
+        (line) => line.systemEvent?.eventType === "compaction",
+      );
+
+      expect(compaction?.systemEvent).toEqual({
+        eventType: "compaction",
+        data: {
+          trigger: "manual",
+          preTokens: 48213,
+          summary:
+            "This session is being continued from a previous conversation. Summary: the timer was refactored.",
+        },
+      });
+    });
+
+    it("should record the previous permission mode", () => {
+      const result = provider.parse(claudeCodeWithSessionEvents);
+      const modes = result.messages
+        .filter((line) => line.systemEvent?.eventType === "mode_change")
+        .map((line) => line.systemEvent?.data);
+
+      expect(modes).toEqual([
+        { mode: "plan", previousMode: undefined },
+        { mode: "acceptEdits", previousMode: "plan" },
+      ]);
+    });
+
+    it("should not report compaction lines as ignored", () => {
+      const diagnostics = new ParseDiagnostics();
+
+      provider.parse(claudeCodeWithSessionEvents, diagnostics);
+
+      expect(diagnostics.list()).toEqual([]);
+    });
+  });
+
   describe("formatModelName", () => {
     it("should format claude-opus-4 correctly", () => {
       expect(provider.formatModelName?.("claude-opus-4-20250514")).toBe(
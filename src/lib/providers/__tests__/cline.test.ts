@@ -0,0 +1,223 @@
+/**
+ * Cline provider tests
+ */
+
+import { describe, expect, test } from "vitest";
+import type { ContentBlock, ToolResult, ToolUse } from "@/types/transcript";
+import { ClineProvider } from "../cline";
+import { ParseDiagnostics } from "../diagnostics";
+import { detectProvider } from "../index";
+import { CLINE_SAMPLE, CLINE_UI_SAMPLE } from "./fixtures/cline-sample";
+
+describe("ClineProvider", () => {
+  const provider = new ClineProvider();
+
+  describe("detection", () => {
+    test("should detect Cline task history format", () => {
+      expect(provider.detect(CLINE_SAMPLE)).not.toBeNull();
+    });
+
+    test("should not detect non-Cline content", () => {
+      expect(provider.detect("invalid json")).toBeNull();
+      expect(provider.detect("[]")).toBeNull();
+      expect(
+        provider.detect(JSON.stringify([{ role: "user", content: "Hello" }])),
+      ).toBeNull();
+      expect(
+        provider.detect('{"role": "user", "content": "<task>"}'),
+      ).toBeNull();
+    });
+
+    test("should detect ui_messages.json", () => {
+      expect(provider.detect(CLINE_UI_SAMPLE)?.evidence).toContain(
+        "found say/ask UI messages",
+      );
+    });
+
+    test("should be picked by detectProvider", () => {
+      expect(detectProvider(CLINE_SAMPLE).provider).toBe("cline");
+      expect(detectProvider(CLINE_UI_SAMPLE).provider).toBe("cline");
+    });
+  });
+
+  describe("parsing", () => {
+    const result = provider.parse(CLINE_SAMPLE);
+    const contentOf = (index: number) =>
+      result.messages[index].message?.content as ContentBlock[];
+
+    test("should parse session metadata", () => {
+      expect(result.sessionId).toBe("cline-1734100000000");
+      expect(result.cwd).toBe("/Users/test/project");
+      expect(result.metadata.firstTimestamp).toBe("2024-12-13T14:26:40.000Z");
+      expect(result.metadata.lastTimestamp).toBe("2024-12-13T14:27:50.000Z");
+      expect(result.metadata.messageCount).toBe(8);
+    });
+
+    test("should unwrap the task and drop environment details", () => {
+      expect(contentOf(0)).toEqual([
+        { type: "text", text: "Add a start method to the timer" },
+      ]);
+    });
+
+    test("should convert thinking and XML tool calls", () => {
+      const content = contentOf(1);
+      expect(content[0]).toEqual({
+        type: "thinking",
+        thinking: "I should look at the timer first.",
+      });
+      expect(content[1]).toMatchObject({
+        type: "tool_use",
+        name: "read_file",
+        input: { path: "src/timer.ts" },
+      });
+    });
+
+    test("should pair tool results with the preceding tool call", () => {
+      const toolUse = contentOf(1)[1] as ToolUse;
+      expect(contentOf(2)).toEqual([
+        {
+          type: "tool_result",
+          tool_use_id: toolUse.id,
+          content: "export class Timer {}",
+          is_error: undefined,
+        },
+      ]);
+    });
+
+    test("should keep the SEARCH/REPLACE diff of replace_in_file", () => {
+      const content = contentOf(3);
+      expect(content[0]).toEqual({
+        type: "text",
+        text: "I'll add the method.",
+      });
+      const toolUse = content[1] as ToolUse;
+      expect(toolUse.name).toBe("replace_in_file");
+      expect(toolUse.input.path).toBe("src/timer.ts");
+      expect(toolUse.input.diff).toMatch(/^------- SEARCH\n/);
+      expect(toolUse.input.diff).toMatch(/\+\+\+\+\+\+\+ REPLACE$/);
+    });
+
+    test("should mark denied tool calls as errors", () => {
+      const toolUse = contentOf(5)[0] as ToolUse;
+      expect(toolUse.input).toEqual({
+        command: "npm test",
+        requires_approval: "false",
+      });
+      const toolResult = contentOf(6)[0] as ToolResult;
+      expect(toolResult.tool_use_id).toBe(toolUse.id);
+      expect(toolResult.is_error).toBe(true);
+      expect(toolResult.content).toContain("Skip the tests");
+    });
+
+    test("should parse attempt_completion", () => {
+      expect(contentOf(7)[0]).toMatchObject({
+        type: "tool_use",
+        name: "attempt_completion",
+        input: { result: "Added a start() method to Timer." },
+      });
+    });
+
+    test("should pass through native tool calls", () => {
+      const native = provider.parse(
+        JSON.stringify([
+          { role: "user", content: "<task>\nList files\n</task>" },
+          {
+            role: "assistant",
+            content: [
+              {
+                type: "tool_use",
+                id: "toolu_1",
+                name: "list_files",
+                input: { path: "." },
+              },
+            ],
+          },
+          {
+            role: "user",
+            content: [
+              {
+                type: "tool_result",
+                tool_use_id: "toolu_1",
+                content: [{ type: "text", text: "src/" }],
+              },
+            ],
+          },
+        ]),
+      );
+      expect(native.messages[2].message?.content).toEqual([
+        {
+          type: "tool_result",
+          tool_use_id: "toolu_1",
+          content: "src/",
+          is_error: undefined,
+        },
+      ]);
+    });
+  });
+
+  describe("parsing ui_messages.json", () => {
+    const diagnostics = new ParseDiagnostics();
+    const result = provider.parse(CLINE_UI_SAMPLE, diagnostics);
+    const contentOf = (index: number) =>
+      result.messages[index].message?.content as ContentBlock[];
+
+    test("should parse session metadata", () => {
+      expect(result.sessionId).toBe("cline-1734100000000");
+      expect(result.metadata.firstTimestamp).toBe("2024-12-13T14:26:40.000Z");
+      expect(result.metadata.messageCount).toBe(8);
+    });
+
+    test("should convert the task, reasoning and text", () => {
+      expect(result.messages[0].type).toBe("user");
+      expect(contentOf(0)).toEqual([
+        { type: "text", text: "Add a start method to the timer" },
+      ]);
+      expect(contentOf(1)).toEqual([
+        { type: "thinking", thinking: "I should look at the timer first." },
+      ]);
+      expect(contentOf(3)).toEqual([
+        { type: "text", text: "I'll add the method." },
+      ]);
+    });
+
+    test("should map UI tool entries to XML tool names", () => {
+      expect(contentOf(2)[0]).toMatchObject({
+        type: "tool_use",
+        name: "read_file",
+        input: { path: "src/timer.ts" },
+      });
+      const edit = contentOf(4)[0] as ToolUse;
+      expect(edit.name).toBe("replace_in_file");
+      expect(edit.input.diff).toMatch(/^------- SEARCH\n/);
+    });
+
+    test("should join streamed command output into one result", () => {
+      const command = contentOf(5)[0] as ToolUse;
+      expect(command.input).toEqual({ command: "npm test" });
+      expect(contentOf(6)).toEqual([
+        {
+          type: "tool_result",
+          tool_use_id: command.id,
+          content: "> timer@1.0.0 test\n1 passing",
+        },
+      ]);
+    });
+
+    test("should parse the completion result once", () => {
+      expect(contentOf(7)[0]).toMatchObject({
+        type: "tool_use",
+        name: "attempt_completion",
+        input: { result: "Added a start() method to Timer." },
+      });
+    });
+
+    test("should report unknown entries but not bookkeeping", () => {
+      expect(diagnostics.list()).toEqual([
+        expect.objectContaining({
+          recordType: "say 'browser_action_launch'",
+          line: 10,
+        }),
+      ]);
+    });
+  });
+});
@@ -15,7 +15,7 @@ describe("CopilotCliProvider", () => {
 
   describe("detection", () => {
     test("should detect Copilot CLI format by producer", () => {
-      expect(provider.detect(COPILOT_CLI_SAMPLE)).toBe(true);
+      expect(provider.detect(COPILOT_CLI_SAMPLE)).not.toBeNull();
     });
 
     test("should detect by copilotVersion field", () => {
@@ -26,7 +26,7 @@ describe("CopilotCliProvider", () => {
         timestamp: "2025-01-01T00:00:00Z",
         parentId: null,
       });
-      expect(provider.detect(content)).toBe(true);
+      expect(provider.detect(content)).not.toBeNull();
     });
 
     test("should detect by session.model_change event", () => {
@@ -37,13 +37,13 @@ describe("CopilotCliProvider", () => {
         timestamp: "2025-01-01T00:00:00Z",
         parentId: null,
       });
-      expect(provider.detect(content)).toBe(true);
+      expect(provider.detect(content)).not.toBeNull();
     });
 
     test("should not detect non-Copilot content", () => {
-      expect(provider.detect("invalid json")).toBe(false);
-      expect(provider.detect("[]")).toBe(false);
-      expect(provider.detect('{"messages": []}')).toBe(false);
+      expect(provider.detect("invalid json")).toBeNull();
+      expect(provider.detect("[]")).toBeNull();
+      expect(provider.detect('{"messages": []}')).toBeNull();
     });
 
     test("should not detect Claude Code format", () => {
@@ -52,7 +52,7 @@ describe("CopilotCliProvider", () => {
         message: { role: "user", content: "Hello" },
         uuid: "abc",
       });
-      expect(provider.detect(claudeContent)).toBe(false);
+      expect(provider.detect(claudeContent)).toBeNull();
     });
   });
 
@@ -196,11 +196,99 @@ describe("CopilotCliProvider", () => {
       );
 
       expect(modelChangeEvent).toBeDefined();
-      expect(modelChangeEvent?.systemEvent?.eventType).toBe("model_change");
-      expect(modelChangeEvent?.systemEvent?.data.newModel).toBe("gpt-5.2");
-      expect(modelChangeEvent?.systemEvent?.data.previousModel).toBe(
-        "claude-sonnet-4.5",
-      );
+      expect(modelChangeEvent?.systemEvent).toEqual({
+        eventType: "model_change",
+        data: { newModel: "gpt-5.2", previousModel: "claude-sonnet-4.5" },
+      });
+    });
+  });
+
+  describe("attachments", () => {
+    test("should show pasted images and ignore file attachments", () => {
+      const content = [
+        JSON.stringify({
+          type: "session.start",
+          data: { sessionId: "images" },
+          id: "1",
+          timestamp: "2025-01-01T00:00:01Z",
+          parentId: null,
+        }),
+        JSON.stringify({
+          type: "user.message",
+          data: {
+            content: "Match this design",
+            attachments: [
+              { type: "file", path: "src/app.tsx" },
+              {
+                type: "image",
+                displayName: "design.png",
+                mimeType: "image/png",
+                data: "iVBORw0KGgo=",
+              },
+            ],
+          },
+          id: "2",
+          timestamp: "2025-01-01T00:00:02Z",
+          parentId: "1",
+        }),
+      ].join("\n");
+
+      const result = provider.parse(content);
+
+      expect(result.messages[0].message?.content).toEqual([
+        { type: "text", text: "Match this design" },
+        {
+          type: "image",
+          mediaType: "image/png",
+          data: "iVBORw0KGgo=",
+          alt: "design.png",
+        },
+      ]);
+    });
+  });
+
+  describe("session events", () => {
+    test("should turn info, truncation and abort events into system events", () => {
+      const event = (id: string, type: string, data: object) =>
+        JSON.stringify({
+          type,
+          data,
+          id,
+          timestamp: `2025-01-01T00:00:0${id}Z`,
+          parentId: null,
+        });
+      const content = [
+        event("1", "session.start", { sessionId: "events" }),
+        event("2", "session.info", {
+          infoType: "authentication",
+          message: "Logged in as octocat",
+        }),
+        event("3", "user.message", { content: "Hello" }),
+        event("4", "abort", { reason: "user initiated" }),
+        event("5", "session.truncation", {
+          preTruncationTokensInMessages: 120000,
+        }),
+      ].join("\n");
+
+      const result = provider.parse(content);
+
+      expect(
+        result.messages.map((m) => m.systemEvent ?? m.message?.role),
+      ).toEqual([
+        {
+          eventType: "info",
+          data: {
+            message: "Logged in as octocat",
+            infoType: "authentication",
+          },
+        },
+        "user",
+        { eventType: "interruption", data: { message: "user initiated" } },
+        {
+          eventType: "compaction",
+          data: { trigger: "auto", preTokens: 120000 },
+        },
+      ]);
     });
   });
 
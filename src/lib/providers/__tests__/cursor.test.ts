@@ -0,0 +1,107 @@
+/**
+ * Cursor provider tests
+ */
+
+import { describe, expect, test } from "vitest";
+import type { ContentBlock, ToolResult, ToolUse } from "@/types/transcript";
+import { CursorProvider } from "../cursor";
+import { detectProvider } from "../index";
+import { CURSOR_SAMPLE } from "./fixtures/cursor-sample";
+
+describe("CursorProvider", () => {
+  const provider = new CursorProvider();
+
+  describe("detection", () => {
+    test("should detect Cursor composer format", () => {
+      expect(provider.detect(CURSOR_SAMPLE)).not.toBeNull();
+    });
+
+    test("should not detect non-Cursor content", () => {
+      expect(provider.detect("invalid json")).toBeNull();
+      expect(provider.detect("[]")).toBeNull();
+      expect(provider.detect('{"conversation": []}')).toBeNull();
+      expect(
+        provider.detect('{"composerId": "abc", "conversation": [{"x": 1}]}'),
+      ).toBeNull();
+    });
+
+    test("should be picked by detectProvider", () => {
+      expect(detectProvider(CURSOR_SAMPLE).provider).toBe("cursor");
+    });
+  });
+
+  describe("parsing", () => {
+    const result = provider.parse(CURSOR_SAMPLE);
+
+    test("should parse session metadata", () => {
+      expect(result.sessionId).toBe("test-composer-123");
+      expect(result.metadata.firstTimestamp).toBe("2024-12-13T14:26:40.000Z");
+      expect(result.metadata.lastTimestamp).toBe("2024-12-13T14:28:10.000Z");
+    });
+
+    test("should merge consecutive AI bubbles into one assistant message", () => {
+      expect(result.messages.map((m) => m.type)).toEqual([
+        "user",
+        "assistant",
+        "user",
+      ]);
+      expect(result.metadata.messageCount).toBe(3);
+
+      const assistant = result.messages[1];
+      expect(assistant.message?.model).toBe("claude-4-sonnet");
+      const types = (assistant.message?.content as ContentBlock[]).map(
+        (b) => b.type,
+      );
+      expect(types).toEqual([
+        "thinking",
+        "tool_use",
+        "tool_result",
+        "tool_use",
+        "tool_result",
+        "tool_use",
+        "tool_result",
+        "text",
+      ]);
+    });
+
+    test("should map tool calls to tool_use blocks with parsed arguments", () => {
+      const content = result.messages[1].message?.content as ContentBlock[];
+      const toolUses = content.filter(
+        (b): b is ToolUse => b.type === "tool_use",
+      );
+
+      expect(toolUses.map((t) => t.name)).toEqual([
+        "codebase_search",
+        "edit_file",
+        "run_terminal_cmd",
+      ]);
+      expect(toolUses[0].input).toEqual({ query: "timer component" });
+      expect(toolUses[1].input.target_file).toBe("src/Timer.tsx");
+      expect(toolUses[1].input.code_edit).toContain("<button>Start</button>");
+      // params objects are used as-is when rawArgs is missing
+      expect(toolUses[2].input.command).toBe("npm test");
+    });
+
+    test("should normalize tool results", () => {
+      const content = result.messages[1].message?.content as ContentBlock[];
+      const results = content.filter(
+        (b): b is ToolResult => b.type === "tool_result",
+      );
+
+      expect(results[0].tool_use_id).toBe("toolu_search");
+      expect(results[0].content).toBe(
+        "src/Timer.tsx\nexport function Timer() {}",
+      );
+      expect(results[1].content).toContain("+  return <button>Start</button>;");
+      expect(results[2].content).toBe("1 test failed");
+      expect(results[2].is_error).toBe(true);
+      expect(results[2].metadata?.exit_code).toBe(1);
+    });
+
+    test("should throw on invalid JSON", () => {
+      expect(() => provider.parse("not json")).toThrow(
+        "Failed to parse Cursor session JSON",
+      );
+    });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Parse diagnostics tests
+ */
+
+import { describe, expect, it } from "vitest";
+import { formatDiagnostic, ParseDiagnostics } from "../diagnostics";
+import { parseTranscript } from "../index";
+import { AIDER_SAMPLE } from "./fixtures/aider-sample";
+import { claudeCodeSample } from "./fixtures/claude-code-sample";
+
+describe("ParseDiagnostics", () => {
+  it("should list errors before warnings", () => {
+    const diagnostics = new ParseDiagnostics();
+    diagnostics.warn("odd content", { line: 1 });
+    diagnostics.error("invalid JSON, line skipped", { line: 7 });
+
+    expect(diagnostics.list().map((d) => d.severity)).toEqual([
+      "error",
+      "warning",
+    ]);
+  });
+
+  it("should fold ignored lines by record type", () => {
+    const diagnostics = new ParseDiagnostics();
+    for (let line = 10; line < 52; line++) {
+      diagnostics.ignore("progress", line);
+    }
+    diagnostics.ignore("queue-operation", 60);
+
+    expect(diagnostics.list()).toEqual([
+      {
+        severity: "warning",
+        message: "42 lines of type 'progress' ignored",
+        line: 10,
+        recordType: "progress",
+        count: 42,
+      },
+      {
+        severity: "warning",
+        message: "1 line of type 'queue-operation' ignored",
+        line: 60,
+        recordType: "queue-operation",
+        count: 1,
+      },
+    ]);
+  });
+
+  it("should cap the number of stored diagnostics", () => {
+    const diagnostics = new ParseDiagnostics();
+    for (let line = 1; line <= 60; line++) {
+      diagnostics.error("invalid JSON, line skipped", { line });
+    }
+
+    const list = diagnostics.list();
+    expect(list).toHaveLength(51);
+    expect(list[50].message).toBe("10 more diagnostics omitted");
+  });
+
+  it("should format line numbers", () => {
+    expect(
+      formatDiagnostic({
+        severity: "warning",
+        message: "unknown Codex record_type 'x'",
+        line: 812,
+      }),
+    ).toBe("line 812: unknown Codex record_type 'x'");
+    expect(
+      formatDiagnostic({
+        severity: "warning",
+        message: "42 lines of type 'progress' ignored",
+        line: 3,
+        count: 42,
+      }),
+    ).toBe("42 lines of type 'progress' ignored");
+  });
+});
+
+describe("parseTranscript diagnostics", () => {
+  it("should attach diagnostics to the parsed transcript", () => {
+    const content = `${claudeCodeSample}\n{"type":"progress","data":{}}\nnot json`;
+    const result = parseTranscript(content, "claude-code");
+
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({
+        severity: "error",
+        message: "invalid JSON, line skipped",
+      }),
+      expect.objectContaining({ recordType: "progress", count: 1 }),
+    ]);
+  });
+
+  it("should leave clean transcripts without diagnostics", () => {
+    expect(parseTranscript(claudeCodeSample).diagnostics).toBeUndefined();
+  });
+
+  it("should record the failure when parsing throws", () => {
+    const diagnostics = new ParseDiagnostics();
+
+    expect(() => parseTranscript("not json", "cursor", diagnostics)).toThrow();
+    expect(diagnostics.list()[0]).toMatchObject({ severity: "error" });
+  });
+});
+
+describe("provider diagnostics", () => {
+  it("should report Codex tool calls with invalid arguments", () => {
+    const content = [
+      '{"type":"message","role":"user","content":[{"type":"input_text","text":"Run it"}]}',
+      '{"type":"function_call","name":"shell","arguments":"{not json","call_id":"call_1"}',
+    ].join("\n");
+    const diagnostics = new ParseDiagnostics();
+    parseTranscript(content, "codex", diagnostics);
+
+    expect(diagnostics.list()).toEqual([
+      expect.objectContaining({
+        severity: "error",
+        message: "invalid arguments for shell, tool call skipped",
+        line: 2,
+      }),
+    ]);
+  });
+
+  it("should report Gemini tool results without a response", () => {
+    const content = JSON.stringify({
+      sessionId: "gemini-1",
+      startTime: "2025-01-01T10:00:00.000Z",
+      lastUpdated: "2025-01-01T10:01:00.000Z",
+      messages: [
+        {
+          id: "m1",
+          timestamp: "2025-01-01T10:00:00.000Z",
+          type: "gemini",
+          content: "",
+          toolCalls: [
+            {
+              id: "call-1",
+              name: "read_file",
+              args: { path: "a.ts" },
+              result: [{ functionResponse: { id: "call-1" } }],
+            },
+          ],
+        },
+      ],
+    });
+    const diagnostics = new ParseDiagnostics();
+    parseTranscript(content, "gemini-cli", diagnostics);
+
+    expect(diagnostics.list()).toEqual([
+      expect.objectContaining({
+        message: "tool call call-1: result missing response field",
+        recordType: "read_file",
+      }),
+    ]);
+  });
+
+  it("should report Aider text before the first session", () => {
+    const diagnostics = new ParseDiagnostics();
+    parseTranscript(`stray notes\n${AIDER_SAMPLE}`, "aider", diagnostics);
+
+    expect(diagnostics.list()).toEqual([
+      expect.objectContaining({
+        recordType: "text before first session",
+        line: 1,
+      }),
+    ]);
+  });
+});
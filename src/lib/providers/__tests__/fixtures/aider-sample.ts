@@ -0,0 +1,73 @@
+/**
+ * Simplified Aider chat history for testing
+ * Based on the .aider.chat.history.md file Aider appends to in the project root
+ */
+
+export const AIDER_SAMPLE = `
+# aider chat started at 2024-12-13 14:26:40
+
+> /usr/local/bin/aider --model gpt-4o
+> Aider v0.65.1
+> Main model: gpt-4o-2024-08-06 with diff edit format
+> Git repo: .git with 12 files
+> Repo-map: using 1024 tokens, auto refresh
+
+#### /add src/timer.py
+
+#### Add a start method to the Timer class
+#### and make it return self
+
+I'll add a \`start\` method that records the start time.
+
+src/timer.py
+\`\`\`python
+<<<<<<< SEARCH
+class Timer:
+    pass
+=======
+class Timer:
+    def start(self):
+        self.started = time.time()
+        return self
+>>>>>>> REPLACE
+\`\`\`
+
+src/timer.py
+\`\`\`python
+<<<<<<< SEARCH
+import os
+=======
+import os
+import time
+>>>>>>> REPLACE
+\`\`\`
+
+> Tokens: 2.1k sent, 120 received. Cost: $0.0065 message, $0.0065 session.
+> Applied edit to src/timer.py
+> Commit 1a2b3c4 feat: Add start method to Timer
+
+#### /run pytest -q
+
+> 3 passed in 0.12s
+
+# aider chat started at 2024-12-13 15:00:05
+
+> Main model: claude-3-5-sonnet-20241022 with diff edit format
+
+#### Rename the module
+
+Done, see the edit below.
+
+\`\`\`
+src/app.py
+<<<<<<< SEARCH
+from timer import Timer
+=======
+from stopwatch import Timer
+>>>>>>> REPLACE
+\`\`\`
+
+> src/app.py
+> The LLM did not conform to the edit format.
+> SearchReplaceNoExactMatch: This SEARCH block failed to exactly match lines in src/app.py
+`;
@@ -0,0 +1,102 @@
+/**
+ * Simplified Claude Agent SDK stream-json output for testing
+ * Based on `claude -p --output-format stream-json --verbose`
+ */
+
+export const CLAUDE_AGENT_SDK_SAMPLE = [
+  {
+    type: "system",
+    subtype: "init",
+    cwd: "/home/runner/work/project",
+    session_id: "sdk-session-123",
+    tools: ["Task", "Bash", "Read", "Edit", "mcp__github__create_issue"],
+    mcp_servers: [{ name: "github", status: "connected" }],
+    model: "claude-sonnet-4-5-20250929",
+    permissionMode: "bypassPermissions",
+    uuid: "init-uuid",
+  },
+  {
+    type: "assistant",
+    message: {
+      id: "msg_1",
+      type: "message",
+      role: "assistant",
+      model: "claude-sonnet-4-5-20250929",
+      content: [
+        { type: "text", text: "Let me check the test suite." },
+        {
+          type: "tool_use",
+          id: "toolu_1",
+          name: "Bash",
+          input: { command: "npm test" },
+        },
+      ],
+      usage: { input_tokens: 10, output_tokens: 20 },
+    },
+    parent_tool_use_id: null,
+    session_id: "sdk-session-123",
+    uuid: "assistant-uuid-1",
+  },
+  {
+    type: "user",
+    message: {
+      role: "user",
+      content: [
+        {
+          type: "tool_result",
+          tool_use_id: "toolu_1",
+          content: [{ type: "text", text: "All tests passed" }],
+        },
+      ],
+    },
+    parent_tool_use_id: null,
+    session_id: "sdk-session-123",
+    uuid: "user-uuid-1",
+  },
+  {
+    type: "assistant",
+    message: {
+      id: "msg_2",
+      type: "message",
+      role: "assistant",
+      model: "claude-haiku-4-5-20251001",
+      content: [{ type: "text", text: "Sub-agent step" }],
+    },
+    parent_tool_use_id: "toolu_task",
+    session_id: "sdk-session-123",
+    uuid: "subagent-uuid-1",
+  },
+  {
+    type: "assistant",
+    message: {
+      id: "msg_3",
+      type: "message",
+      role: "assistant",
+      model: "claude-sonnet-4-5-20250929",
+      content: [{ type: "text", text: "The test suite passes." }],
+    },
+    parent_tool_use_id: null,
+    session_id: "sdk-session-123",
+    uuid: "assistant-uuid-2",
+  },
+  {
+    type: "result",
+    subtype: "success",
+    is_error: false,
+    duration_ms: 12345,
+    duration_api_ms: 9000,
+    num_turns: 3,
+    result: "The test suite passes.",
+    session_id: "sdk-session-123",
+    total_cost_usd: 0.0421,
+    usage: {
+      input_tokens: 120,
+      cache_creation_input_tokens: 500,
+      cache_read_input_tokens: 3000,
+      output_tokens: 80,
+    },
+    uuid: "result-uuid",
+  },
+]
+  .map((event) => JSON.stringify(event))
+  .join("\n");
@@ -9,3 +9,24 @@ export const claudeCodeSample = `{"type":"user","message":{"role":"user","conten
 
 export const claudeCodeWithCommands = `{"type":"user","message":{"role":"user","content":"<command-name>/commit</command-name><command-message>Committing changes</command-message><command-args></command-args>"},"uuid":"cmd-001","timestamp":"2024-01-01T10:00:00.000Z","sessionId":"test-session-456"}
 {"type":"user","message":{"role":"user","content":[{"type":"text","text":"<bash-input>ls -la</bash-input><bash-stdout>total 0</bash-stdout>"}]},"uuid":"cmd-002","timestamp":"2024-01-01T10:00:01.000Z","sessionId":"test-session-456"}`;
+
+/**
+ * Session that ran a Task sub-agent, followed by the sub-agent's
+ * agent-*.jsonl sidechain lines (as combined on upload)
+ */
+export const claudeCodeWithSubagent = `{"type":"user","message":{"role":"user","content":"Find where the timer is started"},"uuid":"main-001","parentUuid":null,"isSidechain":false,"sessionId":"session-sub","timestamp":"2025-10-20T10:00:00.000Z","cwd":"/home/user/project"}
+{"type":"assistant","message":{"role":"assistant","content":[{"type":"tool_use","id":"toolu_task1","name":"Task","input":{"description":"Locate timer start","prompt":"Search the codebase for where the timer starts","subagent_type":"Explore"}}],"model":"claude-sonnet-4-5-20250929"},"uuid":"main-002","parentUuid":"main-001","isSidechain":false,"sessionId":"session-sub","timestamp":"2025-10-20T10:00:01.000Z"}
+{"type":"user","message":{"role":"user","content":[{"type":"tool_result","tool_use_id":"toolu_task1","content":[{"type":"text","text":"The timer starts in src/timer.ts"}]}]},"uuid":"main-003","parentUuid":"main-002","isSidechain":false,"sessionId":"session-sub","timestamp":"2025-10-20T10:00:09.000Z","toolUseResult":{"status":"completed","agentId":"a1b2c3d4","totalToolUseCount":1}}
+{"type":"assistant","message":{"role":"assistant","content":[{"type":"text","text":"It starts in src/timer.ts."}],"model":"claude-sonnet-4-5-20250929"},"uuid":"main-004","parentUuid":"main-003","isSidechain":false,"sessionId":"session-sub","timestamp":"2025-10-20T10:00:10.000Z"}
+{"type":"user","message":{"role":"user","content":"Search the codebase for where the timer starts"},"uuid":"side-001","parentUuid":null,"isSidechain":true,"agentId":"a1b2c3d4","sessionId":"session-sub","timestamp":"2025-10-20T10:00:02.000Z"}
+{"type":"assistant","message":{"role":"assistant","content":[{"type":"tool_use","id":"toolu_grep1","name":"Grep","input":{"pattern":"startTimer"}}],"model":"claude-haiku-4-5-20251001"},"uuid":"side-002","parentUuid":"side-001","isSidechain":true,"agentId":"a1b2c3d4","sessionId":"session-sub","timestamp":"2025-10-20T10:00:03.000Z"}
+{"type":"user","message":{"role":"user","content":[{"type":"tool_result","tool_use_id":"toolu_grep1","content":"src/timer.ts:12: export function startTimer()"}]},"uuid":"side-003","parentUuid":"side-002","isSidechain":true,"agentId":"a1b2c3d4","sessionId":"session-sub","timestamp":"2025-10-20T10:00:04.000Z"}
+{"type":"assistant","message":{"role":"assistant","content":[{"type":"text","text":"The timer starts in src/timer.ts"}],"model":"claude-haiku-4-5-20251001"},"uuid":"side-004","parentUuid":"side-003","isSidechain":true,"agentId":"a1b2c3d4","sessionId":"session-sub","timestamp":"2025-10-20T10:00:08.000Z"}`;
+
+export const claudeCodeWithSessionEvents = `{"type":"user","message":{"role":"user","content":"Plan the timer refactor"},"uuid":"evt-001","parentUuid":null,"sessionId":"session-evt","timestamp":"2025-10-20T10:00:00.000Z","permissionMode":"plan"}
+{"type":"assistant","message":{"role":"assistant","content":[{"type":"text","text":"Here is the plan."}],"model":"claude-sonnet-4-5-20250929"},"uuid":"evt-002","parentUuid":"evt-001","sessionId":"session-evt","timestamp":"2025-10-20T10:00:05.000Z"}
+{"type":"user","message":{"role":"user","content":"Go ahead"},"uuid":"evt-003","parentUuid":"evt-002","sessionId":"session-evt","timestamp":"2025-10-20T10:01:00.000Z","permissionMode":"acceptEdits"}
+{"type":"user","message":{"role":"user","content":[{"type":"text","text":"[Request interrupted by user]"}]},"uuid":"evt-004","parentUuid":"evt-003","sessionId":"session-evt","timestamp":"2025-10-20T10:01:10.000Z","permissionMode":"acceptEdits"}
+{"type":"system","subtype":"compact_boundary","content":"Conversation compacted","compactMetadata":{"trigger":"manual","preTokens":48213},"uuid":"evt-005","parentUuid":null,"logicalParentUuid":"evt-004","sessionId":"session-evt","timestamp":"2025-10-20T10:02:00.000Z"}
+{"type":"user","message":{"role":"user","content":"This session is being continued from a previous conversation. Summary: the timer was refactored."},"isCompactSummary":true,"uuid":"evt-006","parentUuid":"evt-005","sessionId":"session-evt","timestamp":"2025-10-20T10:02:00.000Z","permissionMode":"acceptEdits"}
+{"type":"user","message":{"role":"user","content":"Now add tests"},"uuid":"evt-007","parentUuid":"evt-006","sessionId":"session-evt","timestamp":"2025-10-20T10:03:00.000Z","permissionMode":"acceptEdits"}`;
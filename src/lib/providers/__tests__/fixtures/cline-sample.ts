@@ -0,0 +1,170 @@
+/**
+ * Simplified Cline task history for testing
+ * Based on the api_conversation_history.json Cline keeps per task
+ */
+
+const ENVIRONMENT_DETAILS =
+  "<environment_details>\n# VSCode Visible Files\nsrc/timer.ts\n\n# Current Working Directory (/Users/test/project) Files\nsrc/\nsrc/timer.ts\n</environment_details>";
+
+export const CLINE_SAMPLE = JSON.stringify([
+  {
+    role: "user",
+    ts: 1734100000000,
+    content: [
+      {
+        type: "text",
+        text: "<task>\nAdd a start method to the timer\n</task>",
+      },
+      { type: "text", text: ENVIRONMENT_DETAILS },
+    ],
+  },
+  {
+    role: "assistant",
+    ts: 1734100010000,
+    content: [
+      {
+        type: "text",
+        text: "<thinking>\nI should look at the timer first.\n</thinking>\n\n<read_file>\n<path>src/timer.ts</path>\n</read_file>",
+      },
+    ],
+  },
+  {
+    role: "user",
+    ts: 1734100020000,
+    content: [
+      { type: "text", text: "[read_file for 'src/timer.ts'] Result:" },
+      { type: "text", text: "export class Timer {}" },
+      { type: "text", text: ENVIRONMENT_DETAILS },
+    ],
+  },
+  {
+    role: "assistant",
+    ts: 1734100030000,
+    content: [
+      {
+        type: "text",
+        text: "I'll add the method.\n\n<replace_in_file>\n<path>src/timer.ts</path>\n<diff>\n------- SEARCH\nexport class Timer {}\n=======\nexport class Timer {\n  start() {}\n}\n+++++++ REPLACE\n</diff>\n</replace_in_file>",
+      },
+    ],
+  },
+  {
+    role: "user",
+    ts: 1734100040000,
+    content: [
+      { type: "text", text: "[replace_in_file for 'src/timer.ts'] Result:" },
+      {
+        type: "text",
+        text: "The content was successfully saved to src/timer.ts.",
+      },
+    ],
+  },
+  {
+    role: "assistant",
+    ts: 1734100050000,
+    content: [
+      {
+        type: "text",
+        text: "<execute_command>\n<command>npm test</command>\n<requires_approval>false</requires_approval>\n</execute_command>",
+      },
+    ],
+  },
+  {
+    role: "user",
+    ts: 1734100060000,
+    content: [
+      { type: "text", text: "[execute_command for 'npm test'] Result:" },
+      {
+        type: "text",
+        text: "The user denied this operation.\nThe user provided the following feedback:\n<feedback>\nSkip the tests\n</feedback>",
+      },
+    ],
+  },
+  {
+    role: "assistant",
+    ts: 1734100070000,
+    content: [
+      {
+        type: "text",
+        text: "<attempt_completion>\n<result>\nAdded a start() method to Timer.\n</result>\n</attempt_completion>",
+      },
+    ],
+  },
+]);
+
+/**
+ * The same task as ui_messages.json, the chat Cline shows in the extension
+ */
+export const CLINE_UI_SAMPLE = JSON.stringify([
+  {
+    ts: 1734100000000,
+    type: "say",
+    say: "task",
+    text: "Add a start method to the timer",
+  },
+  {
+    ts: 1734100001000,
+    type: "say",
+    say: "api_req_started",
+    text: '{"request":"<task>...","tokensIn":1200,"tokensOut":80}',
+  },
+  {
+    ts: 1734100010000,
+    type: "say",
+    say: "reasoning",
+    text: "I should look at the timer first.",
+  },
+  {
+    ts: 1734100011000,
+    type: "say",
+    say: "tool",
+    text: '{"tool":"readFile","path":"src/timer.ts","content":"/Users/test/project/src/timer.ts"}',
+  },
+  {
+    ts: 1734100030000,
+    type: "say",
+    say: "text",
+    text: "I'll add the method.",
+  },
+  {
+    ts: 1734100031000,
+    type: "ask",
+    ask: "tool",
+    text: '{"tool":"editedExistingFile","path":"src/timer.ts","diff":"------- SEARCH\\nexport class Timer {}\\n=======\\nexport class Timer {\\n  start() {}\\n}\\n+++++++ REPLACE"}',
+  },
+  {
+    ts: 1734100040000,
+    type: "ask",
+    ask: "command",
+    text: "npm test",
+  },
+  {
+    ts: 1734100041000,
+    type: "say",
+    say: "command_output",
+    text: "> timer@1.0.0 test",
+  },
+  {
+    ts: 1734100042000,
+    type: "say",
+    say: "command_output",
+    text: "1 passing",
+  },
+  {
+    ts: 1734100045000,
+    type: "say",
+    say: "browser_action_launch",
+    text: "http://localhost:3000",
+  },
+  {
+    ts: 1734100050000,
+    type: "say",
+    say: "completion_result",
+    text: "Added a start() method to Timer.",
+  },
+  {
+    ts: 1734100050500,
+    type: "ask",
+    ask: "completion_result",
+    text: "",
+  },
+]);
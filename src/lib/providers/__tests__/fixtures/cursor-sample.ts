@@ -0,0 +1,105 @@
+/**
+ * Simplified Cursor composer session for testing
+ * Based on the composerData records Cursor keeps in its chat storage
+ */
+
+export const CURSOR_SAMPLE = JSON.stringify({
+  composerId: "test-composer-123",
+  name: "Add pomodoro timer",
+  createdAt: 1734100000000,
+  lastUpdatedAt: 1734100090000,
+  modelConfig: {
+    modelName: "claude-4-sonnet",
+  },
+  conversation: [
+    {
+      type: 1,
+      bubbleId: "bubble-1",
+      text: "Add a start button to the timer",
+      createdAt: 1734100000000,
+    },
+    {
+      type: 2,
+      bubbleId: "bubble-2",
+      text: "",
+      createdAt: 1734100010000,
+      thinking: {
+        text: "I should look for the timer component first.",
+      },
+    },
+    {
+      type: 2,
+      bubbleId: "bubble-3",
+      text: "",
+      createdAt: 1734100020000,
+      toolFormerData: {
+        toolCallId: "toolu_search",
+        name: "codebase_search",
+        rawArgs: JSON.stringify({ query: "timer component" }),
+        status: "completed",
+        result: JSON.stringify({
+          codeResults: [
+            {
+              codeBlock: {
+                relativeWorkspacePath: "src/Timer.tsx",
+                contents: "export function Timer() {}",
+              },
+            },
+          ],
+        }),
+      },
+    },
+    {
+      type: 2,
+      bubbleId: "bubble-4",
+      text: "",
+      createdAt: 1734100030000,
+      toolFormerData: {
+        toolCallId: "toolu_edit",
+        name: "edit_file",
+        rawArgs: JSON.stringify({
+          target_file: "src/Timer.tsx",
+          instructions: "Add a start button",
+          code_edit:
+            "export function Timer() {\n  return <button>Start</button>;\n}",
+        }),
+        status: "completed",
+        result: JSON.stringify({
+          diff: {
+            chunks: [
+              {
+                diffString:
+                  "-export function Timer() {}\n+export function Timer() {\n+  return <button>Start</button>;\n+}",
+              },
+            ],
+          },
+        }),
+      },
+    },
+    {
+      type: 2,
+      bubbleId: "bubble-5",
+      text: "",
+      createdAt: 1734100040000,
+      toolFormerData: {
+        toolCallId: "toolu_cmd",
+        name: "run_terminal_cmd",
+        params: { command: "npm test", is_background: false },
+        status: "error",
+        result: JSON.stringify({ output: "1 test failed", exitCode: 1 }),
+      },
+    },
+    {
+      type: 2,
+      bubbleId: "bubble-6",
+      text: "I added the start button, but one test is failing.",
+      createdAt: 1734100050000,
+    },
+    {
+      type: 1,
+      bubbleId: "bubble-7",
+      text: "Thanks!",
+      createdAt: 1734100090000,
+    },
+  ],
+});
@@ -0,0 +1,67 @@
+/**
+ * Interchange document as an internal tool would write it
+ * Lines leave out uuid and parentUuid, which the provider fills in
+ */
+export const INTERCHANGE_SAMPLE = JSON.stringify({
+  format: "ai-sessions-interchange",
+  version: 1,
+  source: "eval-harness",
+  title: "Fix flaky timer test",
+  sessionId: "run-42",
+  cwd: "/work/app",
+  git: { branch: "main", commit: "0123456789abcdef" },
+  messages: [
+    {
+      timestamp: "2025-10-20T10:00:00.000Z",
+      message: { role: "user", content: "The timer test is flaky, fix it" },
+    },
+    {
+      timestamp: "2025-10-20T10:00:02.000Z",
+      message: {
+        role: "assistant",
+        model: "claude-sonnet-4-5-20250929",
+        content: [
+          { type: "thinking", thinking: "Look at the test first" },
+          {
+            type: "tool_use",
+            id: "call_1",
+            name: "read_file",
+            input: { path: "test/timer.test.ts" },
+          },
+        ],
+      },
+      usage: { inputTokens: 1200, outputTokens: 80 },
+    },
+    {
+      timestamp: "2025-10-20T10:00:03.000Z",
+      message: {
+        role: "user",
+        content: [
+          {
+            type: "tool_result",
+            tool_use_id: "call_1",
+            content: "it('fires', () => { ... })",
+          },
+        ],
+      },
+    },
+    {
+      timestamp: "2025-10-20T10:00:04.000Z",
+      systemEvent: {
+        eventType: "model_change",
+        data: { newModel: "claude-opus-4-1-20250805" },
+      },
+    },
+    {
+      timestamp: "2025-10-20T10:00:10.000Z",
+      message: {
+        role: "assistant",
+        model: "claude-opus-4-1-20250805",
+        content: [
+          { type: "text", text: "The test now uses fake timers." },
+          { type: "diagram", source: "graph TD" },
+        ],
+      },
+    },
+  ],
+});
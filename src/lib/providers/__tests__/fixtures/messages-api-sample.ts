@@ -0,0 +1,72 @@
+/**
+ * Raw messages arrays for testing
+ * Shaped like the request bodies sent to the Chat Completions and Messages APIs
+ */
+
+export const OPENAI_MESSAGES_SAMPLE = JSON.stringify({
+  model: "gpt-4o-2024-08-06",
+  messages: [
+    { role: "system", content: "You are a coding assistant." },
+    { role: "user", content: "What is in package.json?" },
+    {
+      role: "assistant",
+      content: null,
+      tool_calls: [
+        {
+          id: "call_abc123",
+          type: "function",
+          function: {
+            name: "read_file",
+            arguments: '{"path":"package.json"}',
+          },
+        },
+      ],
+    },
+    {
+      role: "tool",
+      tool_call_id: "call_abc123",
+      content: '{"name": "demo"}',
+    },
+    {
+      role: "assistant",
+      content: "The package is called demo.",
+    },
+  ],
+});
+
+export const ANTHROPIC_MESSAGES_SAMPLE = JSON.stringify([
+  {
+    role: "user",
+    content: [{ type: "text", text: "List the files" }],
+  },
+  {
+    role: "assistant",
+    content: [
+      {
+        type: "thinking",
+        thinking: "I should run ls.",
+        signature: "sig",
+      },
+      {
+        type: "tool_use",
+        id: "toolu_01",
+        name: "bash",
+        input: { command: "ls" },
+      },
+    ],
+  },
+  {
+    role: "user",
+    content: [
+      {
+        type: "tool_result",
+        tool_use_id: "toolu_01",
+        content: [{ type: "text", text: "README.md\nsrc" }],
+      },
+    ],
+  },
+  {
+    role: "assistant",
+    content: "There are two entries.",
+  },
+]);
@@ -0,0 +1,88 @@
+/**
+ * Simplified OpenHands trajectory for testing
+ * Based on the evaluation output records OpenHands writes per instance
+ */
+
+export const OPENHANDS_EVENTS = [
+  {
+    id: 0,
+    timestamp: "2024-12-13T14:26:40.000000",
+    source: "agent",
+    message: "You are OpenHands agent...",
+    action: "system",
+    args: { content: "You are OpenHands agent..." },
+  },
+  {
+    id: 1,
+    timestamp: "2024-12-13T14:26:41.000000",
+    source: "user",
+    message: "Fix Timer.start()",
+    action: "message",
+    args: { content: "Fix Timer.start()", image_urls: null },
+  },
+  {
+    id: 2,
+    timestamp: "2024-12-13T14:26:45.000000",
+    source: "agent",
+    message: "Running command: pytest -q",
+    action: "run",
+    args: {
+      command: "pytest -q",
+      thought: "Let me run the tests first.",
+      blocking: false,
+    },
+    tool_call_metadata: {
+      model_response: { model: "claude-sonnet-4-5-20250929" },
+    },
+  },
+  {
+    id: 3,
+    timestamp: "2024-12-13T14:26:50.000000",
+    source: "agent",
+    message: "Command `pytest -q` executed with exit code 1.",
+    observation: "run",
+    content: "1 failed",
+    cause: 2,
+    extras: { command: "pytest -q", metadata: { exit_code: 1 } },
+  },
+  {
+    id: 4,
+    timestamp: "2024-12-13T14:26:55.000000",
+    source: "agent",
+    message: "I edited the file src/timer.py.",
+    action: "edit",
+    args: {
+      path: "/workspace/src/timer.py",
+      command: "str_replace",
+      old_str: "pass",
+      new_str: "return self",
+      thought: "",
+    },
+  },
+  {
+    id: 5,
+    timestamp: "2024-12-13T14:27:00.000000",
+    source: "agent",
+    message: "I edited the file src/timer.py.",
+    observation: "edit",
+    content: "The file /workspace/src/timer.py has been edited.",
+    cause: 4,
+    extras: { path: "/workspace/src/timer.py" },
+  },
+  {
+    id: 6,
+    timestamp: "2024-12-13T14:27:01.000000",
+    source: "environment",
+    message: "",
+    observation: "agent_state_changed",
+    content: "",
+    extras: { agent_state: "finished" },
+  },
+];
+
+export const OPENHANDS_SAMPLE = JSON.stringify({
+  instance_id: "example__timer-42",
+  history: OPENHANDS_EVENTS,
+  metadata: { llm_config: { model: "anthropic/claude-sonnet-4-5" } },
+  report: { resolved: false },
+});
@@ -0,0 +1,48 @@
+/**
+ * Simplified SWE-agent trajectory for testing
+ * Based on the .traj files SWE-agent writes per benchmark instance
+ */
+
+export const SWE_AGENT_SAMPLE = JSON.stringify({
+  environment: "swe_main",
+  trajectory: [
+    {
+      thought: "Let me find the failing function.",
+      action: "find_file timer.py",
+      observation: 'Found 1 matches for "timer.py":\n/repo/src/timer.py',
+      response:
+        "Let me find the failing function.\n\n```\nfind_file timer.py\n```",
+      execution_time: 0.234,
+    },
+    {
+      thought: "The fix is in place, submitting.",
+      action: "submit",
+      observation: "diff --git a/src/timer.py b/src/timer.py",
+      execution_time: 0.05,
+    },
+  ],
+  history: [
+    { role: "system", content: "You are an autonomous programmer." },
+    {
+      role: "user",
+      content: "Here is a demonstration of how to solve a task.",
+      is_demo: true,
+    },
+    {
+      role: "user",
+      content: [{ type: "text", text: "Timer.start() returns None" }],
+    },
+  ],
+  info: {
+    exit_status: "submitted",
+    submission: "diff --git a/src/timer.py b/src/timer.py",
+  },
+  replay_config: JSON.stringify({
+    agent: { model: { name: "gpt-4o-2024-08-06" } },
+    problem_statement: {
+      id: "example__timer-42",
+      text: "Timer.start() returns None",
+    },
+  }),
+  resolved: true,
+});
@@ -0,0 +1,49 @@
+/**
+ * Builders for transcripts in tests: parsed lines and transcripts for code
+ * that works on ParsedTranscript, and Claude Code JSONL records for code that
+ * rewrites raw file data
+ */
+
+import type {
+  ContentBlock,
+  ParsedTranscript,
+  TranscriptLine,
+} from "@/types/transcript";
+
+export const makeLine = (
+  uuid: string,
+  role: "user" | "assistant",
+  content: string | ContentBlock[],
+  extra: Partial<Omit<TranscriptLine, "parentUuid">> = {},
+): TranscriptLine => ({
+  type: role,
+  uuid,
+  timestamp: "2025-10-20T10:00:00.000Z",
+  parentUuid: null,
+  message: { role, content },
+  ...extra,
+});
+
+export const makeTranscript = (
+  messages: TranscriptLine[],
+  extra: Partial<ParsedTranscript> = {},
+): ParsedTranscript => ({
+  sessionId: "s1",
+  messages,
+  metadata: {
+    firstTimestamp: "2025-10-20T10:00:00.000Z",
+    lastTimestamp: "2025-10-20T10:05:00.000Z",
+    messageCount: messages.length,
+  },
+  ...extra,
+});
+
+/**
+ * One line of a Claude Code JSONL file
+ */
+export const makeJsonlLine = (record: Record<string, unknown>) =>
+  JSON.stringify({
+    sessionId: "session-1",
+    timestamp: "2025-11-20T12:00:00.000Z",
+    ...record,
+  });
@@ -18,40 +18,40 @@ describe("GeminiProvider", () => {
 
   describe("detect", () => {
     it("should detect Gemini format with type: gemini", () => {
-      expect(provider.detect(geminiSample)).toBe(true);
+      expect(provider.detect(geminiSample)).not.toBeNull();
     });
 
     it("should detect Gemini format with thoughts array", () => {
-      expect(provider.detect(geminiWithThoughtsOnly)).toBe(true);
+      expect(provider.detect(geminiWithThoughtsOnly)).not.toBeNull();
     });
 
     it("should detect minimal Gemini format", () => {
-      expect(provider.detect(minimalGeminiSample)).toBe(true);
+      expect(provider.detect(minimalGeminiSample)).not.toBeNull();
     });
 
     it("should not detect JSONL format (Claude Code/Codex)", () => {
       const jsonlFormat = `{"type":"user","message":{"role":"user"}}
 {"type":"assistant","message":{"role":"assistant"}}`;
-      expect(provider.detect(jsonlFormat)).toBe(false);
+      expect(provider.detect(jsonlFormat)).toBeNull();
     });
 
     it("should not detect Claude Code format", () => {
       const claudeCode = `{"type":"file-history-snapshot"}`;
-      expect(provider.detect(claudeCode)).toBe(false);
+      expect(provider.detect(claudeCode)).toBeNull();
     });
 
     it("should handle invalid JSON gracefully", () => {
-      expect(provider.detect("not json at all")).toBe(false);
-      expect(provider.detect("")).toBe(false);
-      expect(provider.detect("{}")).toBe(false);
+      expect(provider.detect("not json at all")).toBeNull();
+      expect(provider.detect("")).toBeNull();
+      expect(provider.detect("{}")).toBeNull();
     });
 
     it("should require Gemini-specific fields", () => {
       const missingProjectHash = `{"sessionId":"123","messages":[]}`;
-      expect(provider.detect(missingProjectHash)).toBe(false);
+      expect(provider.detect(missingProjectHash)).toBeNull();
 
       const missingMessages = `{"sessionId":"123","projectHash":"abc"}`;
-      expect(provider.detect(missingMessages)).toBe(false);
+      expect(provider.detect(missingMessages)).toBeNull();
     });
   });
 
@@ -110,6 +110,16 @@ describe("GeminiProvider", () => {
       );
     });
 
+    it("should count thoughts as output tokens", () => {
+      const result = provider.parse(geminiSample);
+
+      expect(result.messages[1].usage).toMatchObject({
+        inputTokens: 8396,
+        outputTokens: 44,
+        thinkingTokens: 24,
+      });
+    });
+
     it("should parse tool calls correctly", () => {
       const result = provider.parse(geminiSample);
 
@@ -346,6 +356,74 @@ describe("GeminiProvider", () => {
   });
 
   describe("edge cases from real sessions", () => {
+    it("should parse images in user parts and tool results", () => {
+      const sessionWithImages = JSON.stringify({
+        sessionId: "test-session",
+        projectHash: "abc123",
+        startTime: "2025-10-18T10:00:00.000Z",
+        lastUpdated: "2025-10-18T10:05:00.000Z",
+        messages: [
+          {
+            id: "msg-1",
+            timestamp: "2025-10-18T10:00:00.000Z",
+            type: "user",
+            content: [
+              { text: "What does this show?" },
+              { inlineData: { mimeType: "image/png", data: "iVBORw0KGgo=" } },
+            ],
+          },
+          {
+            id: "msg-2",
+            timestamp: "2025-10-18T10:00:01.000Z",
+            type: "gemini",
+            content: "",
+            toolCalls: [
+              {
+                id: "read-1",
+                name: "read_file",
+                args: { absolute_path: "/tmp/shot.jpg" },
+                result: [
+                  {
+                    functionResponse: {
+                      id: "read-1",
+                      name: "read_file",
+                      response: { output: "Read image file" },
+                    },
+                  },
+                  {
+                    inlineData: { mimeType: "image/jpeg", data: "/9j/4AAQ" },
+                  },
+                ],
+                status: "success",
+                timestamp: "2025-10-18T10:00:01.000Z",
+              },
+            ],
+          },
+        ],
+      });
+
+      const result = provider.parse(sessionWithImages);
+
+      expect(result.messages[0].message?.content).toEqual([
+        { type: "text", text: "What does this show?" },
+        { type: "image", mediaType: "image/png", data: "iVBORw0KGgo=" },
+      ]);
+      expect(result.messages[1].message?.content).toEqual([
+        {
+          type: "tool_use",
+          id: "read-1",
+          name: "read_file",
+          input: { absolute_path: "/tmp/shot.jpg" },
+        },
+        {
+          type: "tool_result",
+          tool_use_id: "read-1",
+          content: "Read image file",
+        },
+        { type: "image", mediaType: "image/jpeg", data: "/9j/4AAQ" },
+      ]);
+    });
+
     it("should skip user messages starting with [Function Response:", () => {
       const sessionWithFunctionResponse = `{
         "sessionId": "test-session",
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import {
+  fromAnthropicImage,
+  getImageSrc,
+  getRemoteImageUrl,
+  imageFromUrl,
+  normalizeImageBlocks,
+} from "../images";
+
+describe("imageFromUrl", () => {
+  it("should decode data URLs", () => {
+    expect(imageFromUrl("data:image/png;base64,iVBORw0KGgo=")).toEqual({
+      type: "image",
+      mediaType: "image/png",
+      data: "iVBORw0KGgo=",
+    });
+  });
+
+  it("should resolve asset references left in data URLs", () => {
+    expect(imageFromUrl("data:image/png;base64,ai-sessions-asset:abc")).toEqual(
+      { type: "image", mediaType: "image/png", assetId: "abc" },
+    );
+  });
+
+  it("should keep remote URLs", () => {
+    expect(imageFromUrl("https://example.com/shot.png")).toEqual({
+      type: "image",
+      url: "https://example.com/shot.png",
+    });
+  });
+});
+
+describe("fromAnthropicImage", () => {
+  it("should convert base64 and URL sources", () => {
+    expect(
+      fromAnthropicImage({
+        type: "image",
+        source: { type: "base64", media_type: "image/gif", data: "R0lGOD" },
+      }),
+    ).toEqual({ type: "image", mediaType: "image/gif", data: "R0lGOD" });
+    expect(
+      fromAnthropicImage({
+        type: "image",
+        source: { type: "url", url: "https://example.com/a.png" },
+      }),
+    ).toEqual({ type: "image", url: "https://example.com/a.png" });
+  });
+
+  it("should return null for images without data", () => {
+    expect(fromAnthropicImage({ type: "image" })).toBeNull();
+    expect(
+      normalizeImageBlocks([{ type: "image" }, { type: "text", text: "Hi" }]),
+    ).toEqual([{ type: "text", text: "Hi" }]);
+  });
+});
+
+describe("getImageSrc", () => {
+  it("should build a source for inline and stored images", () => {
+    expect(
+      getImageSrc({ type: "image", mediaType: "image/png", data: "iVBOR" }),
+    ).toBe("data:image/png;base64,iVBOR");
+    expect(
+      getImageSrc(
+        { type: "image", assetId: "abc" },
+        "/api/transcripts/t/assets",
+      ),
+    ).toBe("/api/transcripts/t/assets/abc");
+  });
+
+  it("should not load remote images", () => {
+    expect(
+      getImageSrc({ type: "image", url: "https://x.test/a.png" }),
+    ).toBeNull();
+  });
+
+  it("should return null for stored images without an asset URL", () => {
+    expect(getImageSrc({ type: "image", assetId: "abc" })).toBeNull();
+  });
+});
+
+describe("getRemoteImageUrl", () => {
+  it("should link http(s) images only", () => {
+    expect(
+      getRemoteImageUrl({ type: "image", url: "https://x.test/a.png" }),
+    ).toBe("https://x.test/a.png");
+    expect(
+      getRemoteImageUrl({ type: "image", url: "javascript:alert(1)" }),
+    ).toBeNull();
+    expect(getRemoteImageUrl({ type: "image", data: "iVBOR" })).toBeNull();
+  });
+});
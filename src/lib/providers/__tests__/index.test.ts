@@ -56,6 +56,37 @@ describe("Provider Registry", () => {
       const result = detectProvider('{"unknown":"format"}');
       expect(result.provider).toBe("claude-code");
       expect(result.confidence).toBe("low");
+      expect(result.score).toBe(0);
+      expect(result.candidates).toEqual([]);
+    });
+
+    it("should include the evidence that matched", () => {
+      const result = detectProvider(geminiSample);
+      expect(result.provider).toBe("gemini-cli");
+      expect(result.evidence).toContain("found sessionId+projectHash");
+    });
+
+    it("should rank every matching provider by score", () => {
+      // Stream-json runs also contain thinking blocks, which Claude Code claims weakly
+      const content = [
+        '{"type":"system","subtype":"init","session_id":"s1","tools":["Bash"]}',
+        '{"type":"assistant","session_id":"s1","message":{"role":"assistant","content":[{"type":"thinking","thinking":"hmm"}]}}',
+      ].join("\n");
+
+      const result = detectProvider(content);
+      expect(result.provider).toBe("claude-agent-sdk");
+      expect(result.candidates).toEqual([
+        {
+          provider: "claude-agent-sdk",
+          score: 95,
+          evidence: ["found system/init event with tools list"],
+        },
+        {
+          provider: "claude-code",
+          score: 50,
+          evidence: ["found message line with thinking blocks"],
+        },
+      ]);
     });
   });
 
@@ -154,28 +185,28 @@ describe("Provider Registry", () => {
         const claudeProvider = getProviderByName("claude-code");
         const geminiProvider = getProviderByName("gemini-cli");
 
-        expect(claudeProvider?.detect(geminiSample)).toBe(false);
-        expect(geminiProvider?.detect(geminiSample)).toBe(true);
+        expect(claudeProvider?.detect(geminiSample)).toBeNull();
+        expect(geminiProvider?.detect(geminiSample)).not.toBeNull();
       });
 
       it("should not misdetect Gemini as Codex", () => {
         const codexProvider = getProviderByName("codex");
         const geminiProvider = getProviderByName("gemini-cli");
 
-        expect(codexProvider?.detect(geminiSample)).toBe(false);
-        expect(geminiProvider?.detect(geminiSample)).toBe(true);
+        expect(codexProvider?.detect(geminiSample)).toBeNull();
+        expect(geminiProvider?.detect(geminiSample)).not.toBeNull();
       });
 
       it("should not misdetect Claude Code as Gemini", () => {
         const geminiProvider = getProviderByName("gemini-cli");
 
-        expect(geminiProvider?.detect(claudeCodeSample)).toBe(false);
+        expect(geminiProvider?.detect(claudeCodeSample)).toBeNull();
       });
 
       it("should not misdetect Codex as Gemini", () => {
         const geminiProvider = getProviderByName("gemini-cli");
 
-        expect(geminiProvider?.detect(codexOlderFormat)).toBe(false);
+        expect(geminiProvider?.detect(codexOlderFormat)).toBeNull();
       });
     });
 
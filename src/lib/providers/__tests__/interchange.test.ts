@@ -0,0 +1,223 @@
+/**
+ * Interchange provider tests
+ */
+
+import { describe, expect, test } from "vitest";
+import { extractImageAssets, INLINE_IMAGE_MAX_CHARS } from "@/lib/assets";
+import { transcriptToInterchange } from "@/lib/export/interchange";
+import { ClaudeCodeProvider } from "../claude-code";
+import { ParseDiagnostics } from "../diagnostics";
+import { detectProvider } from "../index";
+import { InterchangeProvider } from "../interchange";
+import { claudeCodeWithSubagent } from "./fixtures/claude-code-sample";
+import { INTERCHANGE_SAMPLE } from "./fixtures/interchange-sample";
+import { OPENAI_MESSAGES_SAMPLE } from "./fixtures/messages-api-sample";
+
+describe("InterchangeProvider", () => {
+  const provider = new InterchangeProvider();
+
+  describe("detection", () => {
+    test("should detect documents with the format marker", () => {
+      expect(detectProvider(INTERCHANGE_SAMPLE)).toMatchObject({
+        provider: "interchange",
+        confidence: "high",
+        evidence: ["found ai-sessions-interchange v1 marker"],
+      });
+    });
+
+    test("should not detect other formats", () => {
+      expect(provider.detect("invalid json")).toBeNull();
+      expect(provider.detect(OPENAI_MESSAGES_SAMPLE)).toBeNull();
+      expect(provider.detect('{"format": "other", "messages": []}')).toBeNull();
+    });
+  });
+
+  describe("parsing", () => {
+    test("should fill in line ids and session details", () => {
+      const result = provider.parse(INTERCHANGE_SAMPLE);
+
+      expect(result.sessionId).toBe("run-42");
+      expect(result.cwd).toBe("/work/app");
+      expect(result.git).toEqual({
+        branch: "main",
+        commit: "0123456789abcdef",
+      });
+      expect(result.messages.map((line) => line.uuid)).toEqual([
+        "run-42-0",
+        "run-42-1",
+        "run-42-2",
+        "run-42-3",
+        "run-42-4",
+      ]);
+      expect(result.messages[0]).toMatchObject({
+        type: "user",
+        parentUuid: null,
+        message: { role: "user", content: "The timer test is flaky, fix it" },
+      });
+      expect(result.messages[1].usage).toEqual({
+        inputTokens: 1200,
+        outputTokens: 80,
+      });
+      expect(result.messages[3]).toMatchObject({
+        type: "system_event",
+        systemEvent: { eventType: "model_change" },
+      });
+      expect(result.metadata).toEqual({
+        firstTimestamp: "2025-10-20T10:00:00.000Z",
+        lastTimestamp: "2025-10-20T10:00:10.000Z",
+        messageCount: 5,
+      });
+    });
+
+    test("should attach tool results to the line with their call", () => {
+      const result = provider.parse(INTERCHANGE_SAMPLE);
+      expect(result.messages[2].parentUuid).toBe("run-42-1");
+    });
+
+    test("should skip invalid blocks and lines with a diagnostic", () => {
+      const diagnostics = new ParseDiagnostics();
+      const result = provider.parse(
+        JSON.stringify({
+          format: "ai-sessions-interchange",
+          version: 1,
+          messages: [
+            { message: { role: "narrator", content: "Once upon a time" } },
+            "not a line",
+            ...JSON.parse(INTERCHANGE_SAMPLE).messages.slice(4),
+          ],
+        }),
+        diagnostics,
+      );
+
+      expect(result.messages).toHaveLength(1);
+      expect(result.messages[0].message?.content).toEqual([
+        { type: "text", text: "The test now uses fake timers." },
+      ]);
+      expect(diagnostics.list().map((d) => d.message)).toEqual([
+        "message 1 has no user or assistant message",
+        "message 2 is not an object",
+        "message 3: skipped invalid content block",
+      ]);
+    });
+
+    test("should reject newer and missing versions", () => {
+      expect(() =>
+        provider.parse(
+          '{"format": "ai-sessions-interchange", "version": 2, "messages": []}',
+        ),
+      ).toThrow("Interchange version 2 is not supported (latest is 1)");
+      expect(() =>
+        provider.parse('{"format": "ai-sessions-interchange", "messages": []}'),
+      ).toThrow("Interchange document has no valid version");
+      expect(() =>
+        provider.parse('{"format": "ai-sessions-interchange", "version": 1}'),
+      ).toThrow("Interchange document has no messages array");
+    });
+
+    test("should format Claude model names", () => {
+      expect(provider.formatModelName("claude-sonnet-4-5-20250929")).toBe(
+        "Claude Sonnet 4.5",
+      );
+      expect(provider.formatModelName("gpt-4o")).toBe("gpt-4o");
+    });
+  });
+
+  describe("round trip", () => {
+    test("should read back an exported transcript unchanged", () => {
+      const original = new ClaudeCodeProvider().parse(claudeCodeWithSubagent);
+      const exported = JSON.stringify(
+        transcriptToInterchange(original, {
+          title: "Timer",
+          source: "claude-code",
+        }),
+      );
+
+      const imported = provider.parse(exported);
+
+      expect(imported.messages).toEqual(original.messages);
+      expect(imported.subagents).toEqual(original.subagents);
+      expect(imported.sessionId).toBe(original.sessionId);
+      expect(imported.cwd).toBe(original.cwd);
+      expect(imported.metadata.messageCount).toBe(
+        original.metadata.messageCount,
+      );
+    });
+
+    test("should inline stored images", () => {
+      const document = transcriptToInterchange(
+        {
+          sessionId: "s1",
+          messages: [
+            {
+              type: "user",
+              uuid: "u1",
+              timestamp: "",
+              parentUuid: null,
+              message: {
+                role: "user",
+                content: [
+                  { type: "image", mediaType: "image/png", assetId: "abc" },
+                ],
+              },
+            },
+          ],
+          metadata: { firstTimestamp: "", lastTimestamp: "", messageCount: 1 },
+        },
+        {
+          title: "Screenshot",
+          source: "claude-code",
+          assets: { abc: { mediaType: "image/png", data: "iVBORw0KGgo=" } },
+        },
+      );
+
+      expect(document.messages[0].message?.content).toEqual([
+        { type: "image", mediaType: "image/png", data: "iVBORw0KGgo=" },
+      ]);
+    });
+
+    test("should read back exported images stored as assets on upload", () => {
+      const image = `iVBORw0KGgo${"A".repeat(INLINE_IMAGE_MAX_CHARS)}`;
+      const exported = JSON.stringify(
+        transcriptToInterchange(
+          {
+            sessionId: "s1",
+            messages: [
+              {
+                type: "user",
+                uuid: "u1",
+                timestamp: "",
+                parentUuid: null,
+                message: {
+                  role: "user",
+                  content: [
+                    { type: "text", text: "See the screenshot" },
+                    { type: "image", mediaType: "image/png", assetId: "abc" },
+                  ],
+                },
+              },
+            ],
+            metadata: {
+              firstTimestamp: "",
+              lastTimestamp: "",
+              messageCount: 1,
+            },
+          },
+          {
+            title: "Screenshot",
+            source: "claude-code",
+            assets: { abc: { mediaType: "image/png", data: image } },
+          },
+        ),
+      );
+
+      const { content, assets } = extractImageAssets(exported);
+      const imported = provider.parse(content);
+
+      expect(assets).toHaveLength(1);
+      expect(imported.messages[0].message?.content).toEqual([
+        { type: "text", text: "See the screenshot" },
+        { type: "image", mediaType: "image/png", assetId: assets[0].hash },
+      ]);
+    });
+  });
+});
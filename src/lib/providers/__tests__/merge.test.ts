@@ -0,0 +1,199 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateTokenCounts,
+  calculateTranscriptTokenCounts,
+  detectProvider,
+  parseTranscript,
+} from "..";
+import { createBundle, readBundle } from "../bundle";
+import { mergeTranscripts } from "../merge";
+
+const line = (
+  uuid: string,
+  parentUuid: string | null,
+  sessionId: string,
+  timestamp: string,
+  role: "user" | "assistant",
+  text: string,
+) =>
+  JSON.stringify({
+    type: role,
+    message: {
+      role,
+      content: [{ type: "text", text }],
+      ...(role === "assistant"
+        ? {
+            model: "claude-sonnet-4-5-20250929",
+            usage: { input_tokens: 10, output_tokens: 5 },
+          }
+        : {}),
+    },
+    uuid,
+    parentUuid,
+    sessionId,
+    timestamp,
+  });
+
+const original = [
+  line("u1", null, "s1", "2025-10-20T10:00:00.000Z", "user", "Add a timer"),
+  line("a1", "u1", "s1", "2025-10-20T10:00:05.000Z", "assistant", "Done."),
+].join("\n");
+
+// Resumed file repeats the history before continuing under a new session id
+const resumed = [
+  line("u1", null, "s1", "2025-10-20T10:00:00.000Z", "user", "Add a timer"),
+  line("a1", "u1", "s1", "2025-10-20T10:00:05.000Z", "assistant", "Done."),
+  line("u2", "a1", "s2", "2025-10-21T09:00:00.000Z", "user", "Now add tests"),
+  line("a2", "u2", "s2", "2025-10-21T09:00:04.000Z", "assistant", "Added."),
+].join("\n");
+
+describe("transcript bundles", () => {
+  it("should round-trip files through a bundle", () => {
+    const files = [
+      { name: "s1.jsonl", content: original },
+      { name: "s2.jsonl", content: resumed },
+    ];
+
+    expect(readBundle(createBundle(files))).toEqual(files);
+  });
+
+  it("should not treat regular transcripts as bundles", () => {
+    expect(readBundle(original)).toBeNull();
+    expect(readBundle('{"messages":[]}')).toBeNull();
+  });
+
+  it("should detect the provider from the first file", () => {
+    const bundle = createBundle([{ name: "s1.jsonl", content: original }]);
+
+    expect(detectProvider(bundle).provider).toBe("claude-code");
+  });
+});
+
+describe("mergeTranscripts", () => {
+  it("should stitch resumed files in time order without repeated lines", () => {
+    // Uploaded out of order
+    const bundle = createBundle([
+      { name: "s2.jsonl", content: resumed },
+      { name: "s1.jsonl", content: original },
+    ]);
+
+    const result = parseTranscript(bundle, "claude-code");
+
+    expect(result.messages.map((message) => message.uuid)).toEqual([
+      "u1",
+      "a1",
+      "session-resumed-1",
+      "u2",
+      "a2",
+    ]);
+    expect(result.sessionId).toBe("s1");
+    expect(result.metadata).toEqual({
+      firstTimestamp: "2025-10-20T10:00:00.000Z",
+      lastTimestamp: "2025-10-21T09:00:04.000Z",
+      messageCount: 4,
+    });
+  });
+
+  it("should describe where the session was resumed", () => {
+    const bundle = createBundle([
+      { name: "s1.jsonl", content: original },
+      { name: "s2.jsonl", content: resumed },
+    ]);
+
+    const divider = parseTranscript(bundle, "claude-code").messages[2];
+
+    expect(divider).toMatchObject({
+      type: "system_event",
+      timestamp: "2025-10-21T09:00:00.000Z",
+      systemEvent: {
+        eventType: "session_resumed",
+        data: {
+          sessionId: "s1",
+          previousSessionId: "s1",
+          fileName: "s2.jsonl",
+        },
+      },
+    });
+  });
+
+  it("should keep upload order and every line when files have no timestamps", () => {
+    const bundle = createBundle([
+      {
+        name: "first.json",
+        content: JSON.stringify([{ role: "user", content: "continue" }]),
+      },
+      {
+        name: "second.json",
+        content: JSON.stringify([{ role: "user", content: "continue" }]),
+      },
+    ]);
+
+    const result = parseTranscript(bundle, "messages-api");
+
+    expect(result.messages.map((message) => message.type)).toEqual([
+      "user",
+      "system_event",
+      "user",
+    ]);
+  });
+
+  it("should count repeated history once when adding up token usage", () => {
+    const bundle = createBundle([
+      { name: "s1.jsonl", content: original },
+      { name: "s2.jsonl", content: resumed },
+    ]);
+
+    expect(calculateTokenCounts(bundle, "claude-code")).toMatchObject({
+      inputTokens: 20,
+      outputTokens: 10,
+    });
+  });
+
+  it("should add up token usage across files", () => {
+    const bundle = createBundle([
+      { name: "s1.jsonl", content: original },
+      {
+        name: "s2.jsonl",
+        content: resumed.split("\n").slice(2).join("\n"),
+      },
+    ]);
+
+    expect(calculateTokenCounts(bundle, "claude-code")).toMatchObject({
+      inputTokens: 20,
+      outputTokens: 10,
+    });
+  });
+
+  it("should not add up file totals that repeat history", () => {
+    const part = (texts: string[]) => ({
+      messages: texts.map((text, index) => ({
+        type: "assistant" as const,
+        message: { role: "assistant" as const, content: text },
+        uuid: `a-${index}`,
+        timestamp: `2025-10-20T10:00:0${index}.000Z`,
+        parentUuid: null,
+        usage: { inputTokens: 10, outputTokens: 5 },
+      })),
+      sessionId: "s1",
+      // Running totals recorded by the tool, as Codex does
+      tokenCounts: {
+        inputTokens: texts.length * 10,
+        outputTokens: texts.length * 5,
+        totalTokens: texts.length * 15,
+      },
+      metadata: {
+        firstTimestamp: "2025-10-20T10:00:00.000Z",
+        lastTimestamp: `2025-10-20T10:00:0${texts.length - 1}.000Z`,
+        messageCount: texts.length,
+      },
+    });
+
+    const merged = mergeTranscripts([part(["a"]), part(["a", "b"])]);
+
+    expect(merged.tokenCounts).toBeUndefined();
+    expect(calculateTranscriptTokenCounts(merged, "codex")).toMatchObject({
+      inputTokens: 20,
+      outputTokens: 10,
+    });
+  });
+});
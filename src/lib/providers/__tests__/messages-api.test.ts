@@ -0,0 +1,142 @@
+/**
+ * Messages API provider tests
+ */
+
+import { describe, expect, test } from "vitest";
+import type { ContentBlock } from "@/types/transcript";
+import { detectProvider } from "../index";
+import { MessagesApiProvider } from "../messages-api";
+import { CLINE_SAMPLE } from "./fixtures/cline-sample";
+import {
+  ANTHROPIC_MESSAGES_SAMPLE,
+  OPENAI_MESSAGES_SAMPLE,
+} from "./fixtures/messages-api-sample";
+import { MISTRAL_VIBE_SAMPLE } from "./fixtures/mistral-vibe-sample";
+
+describe("MessagesApiProvider", () => {
+  const provider = new MessagesApiProvider();
+
+  describe("detection", () => {
+    test("should detect wrapped OpenAI messages", () => {
+      expect(provider.detect(OPENAI_MESSAGES_SAMPLE)).not.toBeNull();
+    });
+
+    test("should detect bare Anthropic messages", () => {
+      expect(provider.detect(ANTHROPIC_MESSAGES_SAMPLE)).not.toBeNull();
+    });
+
+    test("should not detect non-message content", () => {
+      expect(provider.detect("invalid json")).toBeNull();
+      expect(provider.detect("[]")).toBeNull();
+      expect(
+        provider.detect('[{"role": "narrator", "content": "hi"}]'),
+      ).toBeNull();
+      expect(
+        provider.detect('[{"role": "system", "content": "hi"}]'),
+      ).toBeNull();
+    });
+
+    test("should be picked by detectProvider", () => {
+      expect(detectProvider(OPENAI_MESSAGES_SAMPLE)).toMatchObject({
+        provider: "messages-api",
+        confidence: "low",
+        evidence: ["found object with messages array"],
+      });
+      expect(detectProvider(ANTHROPIC_MESSAGES_SAMPLE).provider).toBe(
+        "messages-api",
+      );
+    });
+
+    test("should leave tool-specific formats to their providers", () => {
+      const cline = detectProvider(CLINE_SAMPLE);
+      expect(cline.provider).toBe("cline");
+      expect(cline.candidates.map((c) => c.provider)).toEqual([
+        "cline",
+        "messages-api",
+      ]);
+      expect(detectProvider(MISTRAL_VIBE_SAMPLE).provider).toBe("mistral-vibe");
+    });
+  });
+
+  describe("parsing OpenAI messages", () => {
+    const result = provider.parse(OPENAI_MESSAGES_SAMPLE);
+    const contentOf = (index: number) =>
+      result.messages[index].message?.content as ContentBlock[];
+
+    test("should skip system prompts", () => {
+      expect(result.messages).toHaveLength(4);
+      expect(result.messages[0].type).toBe("user");
+      expect(contentOf(0)).toEqual([
+        { type: "text", text: "What is in package.json?" },
+      ]);
+    });
+
+    test("should convert tool calls", () => {
+      expect(result.messages[1].message?.model).toBe("gpt-4o-2024-08-06");
+      expect(contentOf(1)).toEqual([
+        {
+          type: "tool_use",
+          id: "call_abc123",
+          name: "read_file",
+          input: { path: "package.json" },
+        },
+      ]);
+    });
+
+    test("should convert tool messages to results", () => {
+      expect(result.messages[2].type).toBe("user");
+      expect(contentOf(2)).toEqual([
+        {
+          type: "tool_result",
+          tool_use_id: "call_abc123",
+          content: '{"name": "demo"}',
+        },
+      ]);
+    });
+  });
+
+  describe("parsing Anthropic messages", () => {
+    const result = provider.parse(ANTHROPIC_MESSAGES_SAMPLE);
+    const contentOf = (index: number) =>
+      result.messages[index].message?.content as ContentBlock[];
+
+    test("should keep thinking and tool use blocks", () => {
+      expect(result.messages).toHaveLength(4);
+      expect(contentOf(1)).toEqual([
+        { type: "thinking", thinking: "I should run ls." },
+        {
+          type: "tool_use",
+          id: "toolu_01",
+          name: "bash",
+          input: { command: "ls" },
+        },
+      ]);
+    });
+
+    test("should flatten tool result content", () => {
+      expect(contentOf(2)).toEqual([
+        {
+          type: "tool_result",
+          tool_use_id: "toolu_01",
+          content: "README.md\nsrc",
+          is_error: undefined,
+        },
+      ]);
+    });
+
+    test("should convert string content to text", () => {
+      expect(contentOf(3)).toEqual([
+        { type: "text", text: "There are two entries." },
+      ]);
+    });
+  });
+
+  describe("formatModelName", () => {
+    test("should format Claude models and keep others", () => {
+      expect(provider.formatModelName("claude-sonnet-4-5-20250929")).toBe(
+        "Claude Sonnet 4.5",
+      );
+      expect(provider.formatModelName("gpt-4o")).toBe("gpt-4o");
+    });
+  });
+});
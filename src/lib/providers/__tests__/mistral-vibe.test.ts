@@ -11,13 +11,13 @@ describe("MistralVibeProvider", () => {
   const provider = new MistralVibeProvider();
 
   test("should detect Mistral Vibe format", () => {
-    expect(provider.detect(MISTRAL_VIBE_SAMPLE)).toBe(true);
+    expect(provider.detect(MISTRAL_VIBE_SAMPLE)).not.toBeNull();
   });
 
   test("should not detect non-Mistral Vibe content", () => {
-    expect(provider.detect("invalid json")).toBe(false);
-    expect(provider.detect("[]")).toBe(false);
-    expect(provider.detect('{"messages": []}')).toBe(false);
+    expect(provider.detect("invalid json")).toBeNull();
+    expect(provider.detect("[]")).toBeNull();
+    expect(provider.detect('{"messages": []}')).toBeNull();
   });
 
   test("should parse Mistral Vibe session correctly", () => {
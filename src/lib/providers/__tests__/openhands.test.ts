@@ -0,0 +1,103 @@
+/**
+ * OpenHands provider tests
+ */
+
+import { describe, expect, test } from "vitest";
+import type { ContentBlock } from "@/types/transcript";
+import { detectProvider } from "../index";
+import { OpenHandsProvider } from "../openhands";
+import {
+  OPENHANDS_EVENTS,
+  OPENHANDS_SAMPLE,
+} from "./fixtures/openhands-sample";
+
+describe("OpenHandsProvider", () => {
+  const provider = new OpenHandsProvider();
+
+  describe("detection", () => {
+    test("should detect evaluation output records", () => {
+      expect(provider.detect(OPENHANDS_SAMPLE)).not.toBeNull();
+    });
+
+    test("should detect bare event lists", () => {
+      expect(provider.detect(JSON.stringify(OPENHANDS_EVENTS))).not.toBeNull();
+    });
+
+    test("should not detect non-OpenHands content", () => {
+      expect(provider.detect("invalid json")).toBeNull();
+      expect(provider.detect("[]")).toBeNull();
+      expect(
+        provider.detect(JSON.stringify([{ role: "user", content: "hi" }])),
+      ).toBeNull();
+    });
+
+    test("should be picked by detectProvider", () => {
+      expect(detectProvider(OPENHANDS_SAMPLE).provider).toBe("openhands");
+    });
+  });
+
+  describe("parsing", () => {
+    const result = provider.parse(OPENHANDS_SAMPLE);
+    const contentOf = (index: number) =>
+      result.messages[index].message?.content as ContentBlock[];
+
+    test("should parse session metadata", () => {
+      expect(result.sessionId).toBe("example__timer-42");
+      expect(result.metadata.firstTimestamp).toBe("2024-12-13T14:26:40.000000");
+      expect(result.metadata.lastTimestamp).toBe("2024-12-13T14:27:01.000000");
+    });
+
+    test("should skip system prompt and state changes", () => {
+      expect(result.messages).toHaveLength(5);
+      expect(contentOf(0)).toEqual([
+        { type: "text", text: "Fix Timer.start()" },
+      ]);
+      expect(result.messages[0].type).toBe("user");
+    });
+
+    test("should map thoughts and actions", () => {
+      expect(result.messages[1].message?.model).toBe(
+        "claude-sonnet-4-5-20250929",
+      );
+      expect(contentOf(1)).toEqual([
+        { type: "thinking", thinking: "Let me run the tests first." },
+        {
+          type: "tool_use",
+          id: "2",
+          name: "run",
+          input: { command: "pytest -q", blocking: false },
+        },
+      ]);
+    });
+
+    test("should link observations through their cause", () => {
+      expect(contentOf(2)).toEqual([
+        {
+          type: "tool_result",
+          tool_use_id: "2",
+          content: "1 failed",
+          is_error: true,
+          metadata: { exit_code: 1 },
+        },
+      ]);
+      expect(contentOf(4)[0]).toMatchObject({
+        type: "tool_result",
+        tool_use_id: "4",
+        is_error: undefined,
+      });
+    });
+
+    test("should fall back to the configured model", () => {
+      expect(result.messages[3].message?.model).toBe(
+        "anthropic/claude-sonnet-4-5",
+      );
+    });
+
+    test("should carry benchmark details", () => {
+      expect(result.benchmark).toEqual({
+        instanceId: "example__timer-42",
+        resolved: false,
+      });
+    });
+  });
+});
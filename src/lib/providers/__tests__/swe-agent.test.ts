@@ -0,0 +1,78 @@
+/**
+ * SWE-agent provider tests
+ */
+
+import { describe, expect, test } from "vitest";
+import type { ContentBlock } from "@/types/transcript";
+import { detectProvider } from "../index";
+import { SweAgentProvider } from "../swe-agent";
+import { SWE_AGENT_SAMPLE } from "./fixtures/swe-agent-sample";
+
+describe("SweAgentProvider", () => {
+  const provider = new SweAgentProvider();
+
+  describe("detection", () => {
+    test("should detect SWE-agent trajectory format", () => {
+      expect(provider.detect(SWE_AGENT_SAMPLE)).not.toBeNull();
+    });
+
+    test("should not detect non-trajectory content", () => {
+      expect(provider.detect("invalid json")).toBeNull();
+      expect(provider.detect('{"trajectory": "nope"}')).toBeNull();
+      expect(provider.detect('{"trajectory": []}')).toBeNull();
+    });
+
+    test("should be picked by detectProvider", () => {
+      expect(detectProvider(SWE_AGENT_SAMPLE).provider).toBe("swe-agent");
+    });
+  });
+
+  describe("parsing", () => {
+    const result = provider.parse(SWE_AGENT_SAMPLE);
+    const contentOf = (index: number) =>
+      result.messages[index].message?.content as ContentBlock[];
+
+    test("should use the instance ID as session ID", () => {
+      expect(result.sessionId).toBe("example__timer-42");
+      expect(result.metadata.messageCount).toBe(5);
+    });
+
+    test("should start with the non-demo task prompt", () => {
+      expect(contentOf(0)).toEqual([
+        { type: "text", text: "Timer.start() returns None" },
+      ]);
+    });
+
+    test("should map thoughts and actions", () => {
+      expect(result.messages[1].message?.model).toBe("gpt-4o-2024-08-06");
+      expect(contentOf(1)).toEqual([
+        { type: "thinking", thinking: "Let me find the failing function." },
+        {
+          type: "tool_use",
+          id: "example__timer-42-step-1",
+          name: "bash",
+          input: { command: "find_file timer.py" },
+        },
+      ]);
+    });
+
+    test("should map observations to tool results", () => {
+      expect(contentOf(2)).toEqual([
+        {
+          type: "tool_result",
+          tool_use_id: "example__timer-42-step-1",
+          content: 'Found 1 matches for "timer.py":\n/repo/src/timer.py',
+          metadata: { duration_seconds: 0.2 },
+        },
+      ]);
+    });
+
+    test("should carry benchmark details", () => {
+      expect(result.benchmark).toEqual({
+        instanceId: "example__timer-42",
+        resolved: true,
+        exitStatus: "submitted",
+      });
+    });
+  });
+});
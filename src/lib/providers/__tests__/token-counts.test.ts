@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { calculateTokenCounts } from "../index";
+import { calculateTokenCounts, parseTranscript } from "../index";
 
 describe("calculateTokenCounts", () => {
   describe("Claude Code", () => {
@@ -20,6 +20,24 @@ describe("calculateTokenCounts", () => {
       });
     });
 
+    it("should count a response split across several lines once", () => {
+      // Claude Code writes one line per content block, repeating the usage
+      const content = `{"type":"assistant","uuid":"a1","message":{"id":"msg_1","role":"assistant","content":[{"type":"thinking","thinking":"Hmm"}],"usage":{"input_tokens":100,"output_tokens":50}}}
+{"type":"assistant","uuid":"a2","message":{"id":"msg_1","role":"assistant","content":[{"type":"text","text":"Hi"}],"usage":{"input_tokens":100,"output_tokens":50}}}`;
+
+      const transcript = parseTranscript(content, "claude-code");
+
+      expect(transcript.messages.map((line) => line.usage)).toEqual([
+        undefined,
+        { inputTokens: 100, outputTokens: 50, contextTokens: 100 },
+      ]);
+      expect(calculateTokenCounts(content, "claude-code")).toEqual({
+        inputTokens: 100,
+        outputTokens: 50,
+        totalTokens: 150,
+      });
+    });
+
     it("should use max for cumulative cache tokens (not sum)", () => {
       // Claude's API reports cumulative cache tokens, not per-message
       const content = `{"type":"assistant","message":{"role":"assistant","content":"1","usage":{"input_tokens":100,"output_tokens":50,"cache_read_input_tokens":1000,"cache_creation_input_tokens":500}}}
@@ -130,10 +148,11 @@ this is not json
 
       const result = calculateTokenCounts(content, "gemini-cli");
 
+      // Thoughts are added to the output
       expect(result).toEqual({
         inputTokens: 300,
-        outputTokens: 125,
-        totalTokens: 425,
+        outputTokens: 150,
+        totalTokens: 450,
         cacheReadTokens: 50,
         thinkingTokens: 25,
         toolTokens: 13,
@@ -146,6 +165,7 @@ this is not json
           {
             id: "msg-1",
             type: "gemini",
+            content: "Hi",
             tokens: {
               input: 100,
               output: 50,
@@ -249,6 +269,24 @@ this is not json
       });
     });
 
+    it("should attach the last response's usage to the assistant line", () => {
+      const content = `{"timestamp":"2024-01-01T10:00:00.000Z","type":"session_meta","payload":{"id":"s1","cwd":"/project"}}
+{"timestamp":"2024-01-01T10:00:01.000Z","type":"response_item","payload":{"type":"message","role":"user","content":[{"type":"input_text","text":"Hello"}]}}
+{"timestamp":"2024-01-01T10:00:02.000Z","type":"response_item","payload":{"type":"message","role":"assistant","content":[{"type":"output_text","text":"Hi"}]}}
+{"timestamp":"2024-01-01T10:00:03.000Z","type":"event_msg","payload":{"type":"token_count","info":{"total_token_usage":{"input_tokens":100,"cached_input_tokens":40,"output_tokens":20,"total_tokens":120},"last_token_usage":{"input_tokens":100,"cached_input_tokens":40,"output_tokens":20,"total_tokens":120}}}}`;
+
+      const transcript = parseTranscript(content, "codex");
+      const assistant = transcript.messages.find(
+        (line) => line.type === "assistant",
+      );
+
+      expect(assistant?.usage).toEqual({
+        inputTokens: 100,
+        outputTokens: 20,
+        cacheReadTokens: 40,
+      });
+    });
+
     it("should handle token_count event without cache/thinking tokens", () => {
       const content = `{"type":"event_msg","payload":{"type":"token_count","info":{"total_token_usage":{"input_tokens":100,"cached_input_tokens":0,"output_tokens":50,"reasoning_output_tokens":0,"total_tokens":150}}}}`;
 
@@ -300,6 +338,44 @@ another bad line`;
     });
   });
 
+  describe("Copilot CLI", () => {
+    it("should add up assistant.usage events", () => {
+      const event = (id: string, type: string, data: object) =>
+        JSON.stringify({
+          type,
+          data,
+          id,
+          timestamp: `2025-01-01T00:00:0${id}Z`,
+          parentId: null,
+        });
+      const content = [
+        event("1", "session.start", { sessionId: "usage" }),
+        event("2", "user.message", { content: "Hello" }),
+        event("3", "assistant.message", { messageId: "m1", content: "Hi" }),
+        event("4", "assistant.usage", { inputTokens: 100, outputTokens: 10 }),
+        event("5", "assistant.usage", {
+          inputTokens: 200,
+          outputTokens: 30,
+          cacheReadTokens: 80,
+        }),
+      ].join("\n");
+
+      const transcript = parseTranscript(content, "copilot-cli");
+
+      expect(transcript.messages[1].usage).toEqual({
+        inputTokens: 300,
+        outputTokens: 40,
+        cacheReadTokens: 80,
+      });
+      expect(calculateTokenCounts(content, "copilot-cli")).toEqual({
+        inputTokens: 300,
+        outputTokens: 40,
+        totalTokens: 340,
+        cacheReadTokens: 80,
+      });
+    });
+  });
+
   describe("Edge cases", () => {
     it("should return null for unknown provider", () => {
       const content = `{"some":"data"}`;
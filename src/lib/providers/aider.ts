@@ -0,0 +1,397 @@
+/**
+ * Aider transcript provider
+ * Parses the markdown chat log Aider writes to .aider.chat.history.md
+ */
+
+import type {
+  ContentBlock,
+  ParsedTranscript,
+  TranscriptLine,
+} from "@/types/transcript";
+import type { ParseDiagnostics } from "./diagnostics";
+import type { DetectionMatch, TranscriptProvider } from "./types";
+
+// Line prefixes Aider uses in its chat history
+const SESSION_HEADER_REGEX = /^# aider chat started at (.+)$/;
+const USER_PREFIX = "####";
+const TOOL_OUTPUT_PREFIX = ">";
+
+// SEARCH/REPLACE edit block markers
+const SEARCH_MARKER_REGEX = /^<<<<<<< SEARCH\s*$/;
+const REPLACE_MARKER_REGEX = /^>>>>>>> REPLACE\s*$/;
+const FENCE_REGEX = /^\s*(`{3,}|~{3,})/;
+
+// "Model: gpt-4o with diff edit format" / "Main model: claude-3-5-sonnet-20241022 with ..."
+const MODEL_LINE_REGEX = /^(?:Main model|Models?):\s*(\S+)/;
+const APPLIED_EDIT_REGEX = /^Applied edit to (.+)$/;
+
+/**
+ * A run of consecutive lines of the same kind
+ */
+interface AiderChunk {
+  kind: "user" | "assistant" | "tool";
+  lines: string[];
+}
+
+/**
+ * One "# aider chat started at" section of the history file
+ */
+interface AiderSession {
+  startedAt: string;
+  line: number; // Line of the session heading
+  headerLines: string[];
+  chunks: AiderChunk[];
+}
+
+/**
+ * Convert Aider's "YYYY-MM-DD HH:MM:SS" header timestamp to ISO format
+ * Aider writes local time without a timezone, so it is treated as UTC
+ */
+function toIsoTimestamp(value: string): string {
+  const match = value
+    .trim()
+    .match(/^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2}:\d{2})/);
+  if (!match) return "";
+  const date = new Date(`${match[1]}T${match[2]}Z`);
+  return Number.isNaN(date.getTime()) ? "" : date.toISOString();
+}
+
+/**
+ * Strip the markdown decoration Aider sometimes puts around edit file names
+ */
+function cleanFilePath(line: string): string {
+  return line
+    .trim()
+    .replace(/^[*`]+|[*`:]+$/g, "")
+    .trim();
+}
+
+/**
+ * Split the history file into sessions made of user/assistant/tool chunks
+ */
+function splitSessions(
+  content: string,
+  diagnostics?: ParseDiagnostics,
+): AiderSession[] {
+  const sessions: AiderSession[] = [];
+  let session: AiderSession | null = null;
+
+  // Each "####" line run is one prompt, so a blank line ends it
+  let promptEnded = false;
+
+  for (const [index, line] of content.split("\n").entries()) {
+    const headerMatch = line.match(SESSION_HEADER_REGEX);
+    if (headerMatch) {
+      session = {
+        startedAt: headerMatch[1],
+        line: index + 1,
+        headerLines: [],
+        chunks: [],
+      };
+      sessions.push(session);
+      continue;
+    }
+
+    if (!session) {
+      if (line.trim())
+        diagnostics?.ignore("text before first session", index + 1);
+      continue;
+    }
+
+    let kind: AiderChunk["kind"];
+    let text: string;
+    if (line.startsWith(USER_PREFIX)) {
+      kind = "user";
+      text = line.slice(USER_PREFIX.length).replace(/^ /, "");
+    } else if (
+      line.startsWith(TOOL_OUTPUT_PREFIX) &&
+      !REPLACE_MARKER_REGEX.test(line)
+    ) {
+      kind = "tool";
+      text = line.slice(TOOL_OUTPUT_PREFIX.length).replace(/^ /, "");
+    } else {
+      kind = "assistant";
+      text = line;
+    }
+
+    // Tool output before the first prompt is the startup banner
+    if (kind === "tool" && session.chunks.length === 0) {
+      session.headerLines.push(text);
+      continue;
+    }
+
+    const last = session.chunks[session.chunks.length - 1];
+    if (!line.trim() && last?.kind === "user") {
+      promptEnded = true;
+      continue;
+    }
+
+    if (last && last.kind === kind && !(kind === "user" && promptEnded)) {
+      last.lines.push(text);
+    } else if (kind !== "assistant" || text.trim()) {
+      session.chunks.push({ kind, lines: [text] });
+    }
+    promptEnded = false;
+  }
+
+  return sessions;
+}
+
+/**
+ * Parse an assistant reply into text blocks and search_replace tool calls
+ * Each fenced group of SEARCH/REPLACE blocks for one file becomes one tool call,
+ * so ToolCallBlock can render it with its SEARCH/REPLACE diff view
+ */
+function parseAssistantReply(
+  lines: string[],
+  idPrefix: string,
+): ContentBlock[] {
+  const blocks: ContentBlock[] = [];
+  let textBuffer: string[] = [];
+  let lastFilePath = "";
+  let editCount = 0;
+
+  const flushText = () => {
+    const text = textBuffer.join("\n").trim();
+    if (text) {
+      blocks.push({ type: "text", text });
+    }
+    textBuffer = [];
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    if (!SEARCH_MARKER_REGEX.test(lines[i])) {
+      textBuffer.push(lines[i]);
+      i++;
+      continue;
+    }
+
+    // Walk back over the fence opener and file name that precede the block
+    let filePath = "";
+    let fenced = false;
+    let k = textBuffer.length - 1;
+    if (k >= 0 && FENCE_REGEX.test(textBuffer[k])) {
+      fenced = true;
+      k--;
+    }
+    if (k >= 0 && textBuffer[k].trim()) {
+      filePath = cleanFilePath(textBuffer[k]);
+      k--;
+      // diff-fenced format puts the file name inside the fence
+      if (!fenced && k >= 0 && FENCE_REGEX.test(textBuffer[k])) {
+        fenced = true;
+        k--;
+      }
+    }
+    textBuffer = textBuffer.slice(0, k + 1);
+    flushText();
+
+    // Collect consecutive SEARCH/REPLACE blocks for the same file
+    const editLines: string[] = [];
+    while (i < lines.length && SEARCH_MARKER_REGEX.test(lines[i])) {
+      while (i < lines.length) {
+        editLines.push(lines[i]);
+        i++;
+        if (REPLACE_MARKER_REGEX.test(editLines[editLines.length - 1])) break;
+      }
+      // Skip blank lines between blocks, but only if another block follows
+      let next = i;
+      while (next < lines.length && !lines[next].trim()) next++;
+      if (next < lines.length && SEARCH_MARKER_REGEX.test(lines[next])) {
+        i = next;
+      }
+    }
+
+    if (fenced && i < lines.length && FENCE_REGEX.test(lines[i])) {
+      i++;
+    }
+
+    filePath = filePath || lastFilePath;
+    lastFilePath = filePath;
+    editCount++;
+    blocks.push({
+      type: "tool_use",
+      id: `${idPrefix}-edit-${editCount}`,
+      name: "search_replace",
+      input: {
+        file_path: filePath,
+        content: editLines.join("\n"),
+      },
+    });
+  }
+
+  flushText();
+  return blocks;
+}
+
+/**
+ * Attach Aider's tool output ("Applied edit to ...") to the edits it belongs to
+ */
+function attachEditResults(blocks: ContentBlock[], output: string[]) {
+  const outputText = output.join("\n").trim();
+  if (!outputText) return;
+
+  const appliedFiles = new Set(
+    output
+      .map((line) => line.trim().match(APPLIED_EDIT_REGEX)?.[1])
+      .filter((file): file is string => Boolean(file)),
+  );
+
+  for (let index = blocks.length - 1; index >= 0; index--) {
+    const block = blocks[index];
+    if (block.type !== "tool_use") continue;
+
+    const filePath = block.input.file_path as string;
+    const applied = appliedFiles.has(filePath);
+    blocks.splice(index + 1, 0, {
+      type: "tool_result",
+      tool_use_id: block.id,
+      content: applied ? `Applied edit to ${filePath}` : outputText,
+      is_error: applied ? undefined : true,
+    });
+  }
+}
+
+/**
+ * Build user message content, mapping /run and ! commands to bash blocks
+ * and other slash commands to command blocks
+ */
+function parseUserPrompt(prompt: string, output: string[]): ContentBlock[] {
+  const runMatch = prompt.match(/^(?:\/run\s+|!)([\s\S]+)$/);
+  if (runMatch) {
+    const blocks: ContentBlock[] = [
+      { type: "bash-input", text: runMatch[1].trim() },
+    ];
+    const stdout = output.join("\n").trim();
+    if (stdout) {
+      blocks.push({ type: "bash-stdout", text: stdout });
+    }
+    return blocks;
+  }
+
+  const commandMatch = prompt.match(/^(\/[a-z-]+)(?:\s+([\s\S]*))?$/);
+  if (commandMatch) {
+    return [
+      { type: "command-name", text: commandMatch[1] },
+      { type: "command-args", text: (commandMatch[2] || "").trim() },
+    ];
+  }
+
+  return [{ type: "text", text: prompt }];
+}
+
+/**
+ * Aider provider implementation
+ */
+export class AiderProvider implements TranscriptProvider {
+  readonly name = "aider";
+  readonly displayName = "Aider";
+
+  /**
+   * Detect if content is an Aider chat history
+   * Aider starts every session with a "# aider chat started at" heading
+   */
+  detect(content: string): DetectionMatch | null {
+    const lines = content
+      .trim()
+      .split("\n")
+      .filter((line) => line.trim())
+      .slice(0, 10);
+
+    if (!lines.some((line) => SESSION_HEADER_REGEX.test(line))) return null;
+
+    return { score: 95, evidence: ['found "# aider chat started at" heading'] };
+  }
+
+  /**
+   * Parse Aider markdown chat history
+   * Multiple sessions appended to the same file are combined into one transcript
+   */
+  parse(content: string, diagnostics?: ParseDiagnostics): ParsedTranscript {
+    const sessions = splitSessions(content, diagnostics);
+    if (sessions.length === 0) {
+      throw new Error("No Aider chat session found");
+    }
+
+    const messages: TranscriptLine[] = [];
+    const firstTimestamp = toIsoTimestamp(sessions[0].startedAt);
+    const sessionId = `aider-${firstTimestamp || sessions[0].startedAt}`;
+    let lastTimestamp = firstTimestamp;
+
+    for (const session of sessions) {
+      if (!toIsoTimestamp(session.startedAt)) {
+        diagnostics?.warn(`unrecognized session start '${session.startedAt}'`, {
+          line: session.line,
+        });
+      }
+      const timestamp = toIsoTimestamp(session.startedAt) || lastTimestamp;
+      if (timestamp > lastTimestamp) {
+        lastTimestamp = timestamp;
+      }
+
+      let model: string | undefined;
+      for (const line of session.headerLines) {
+        const modelMatch = line.trim().match(MODEL_LINE_REGEX);
+        if (modelMatch) {
+          model = modelMatch[1];
+          break;
+        }
+      }
+
+      const pushLine = (role: "user" | "assistant", blocks: ContentBlock[]) => {
+        messages.push({
+          type: role,
+          message: {
+            role,
+            content: blocks,
+            model: role === "assistant" ? model : undefined,
+          },
+          uuid: `${sessionId}-${messages.length}`,
+          timestamp,
+          parentUuid: null,
+          sessionId,
+        });
+      };
+
+      const { chunks } = session;
+      for (let index = 0; index < chunks.length; index++) {
+        const chunk = chunks[index];
+        const next = chunks[index + 1];
+        const output = next?.kind === "tool" ? next.lines : null;
+
+        if (chunk.kind === "user") {
+          const prompt = chunk.lines.join("\n").trim();
+          if (!prompt) continue;
+          pushLine("user", parseUserPrompt(prompt, output || []));
+        } else if (chunk.kind === "assistant") {
+          const blocks = parseAssistantReply(
+            chunk.lines,
+            `${sessionId}-${messages.length}`,
+          );
+          if (output) {
+            attachEditResults(blocks, output);
+          }
+          if (blocks.length > 0) {
+            pushLine("assistant", blocks);
+          }
+        }
+
+        // Tool output is consumed by the chunk it follows
+        if (output) {
+          index++;
+        }
+      }
+    }
+
+    return {
+      messages,
+      sessionId,
+      metadata: {
+        firstTimestamp,
+        lastTimestamp,
+        messageCount: messages.length,
+      },
+    };
+  }
+}
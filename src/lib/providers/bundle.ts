@@ -0,0 +1,65 @@
+/**
+ * Multi-file transcript bundles
+ * A session resumed across several files (Claude Code --resume, Codex
+ * resumes, Gemini checkpoints) is stored as one document and stitched back
+ * together when parsed. Each file's content is kept verbatim after a marker
+ * line, so line-based processing (DLP scanning, redaction) still works.
+ */
+
+export interface BundleFile {
+  name: string;
+  content: string;
+}
+
+const MARKER_PREFIX = '{"aiSessionsBundle":1,';
+
+/**
+ * Serialize files into a bundle document
+ */
+export function createBundle(files: BundleFile[]): string {
+  return files
+    .map(
+      (file) =>
+        `${JSON.stringify({ aiSessionsBundle: 1, file: file.name })}\n${file.content.trim()}`,
+    )
+    .join("\n");
+}
+
+/**
+ * File name from a bundle marker line, or null for content lines
+ */
+function readMarker(line: string): string | null {
+  if (!line.startsWith(MARKER_PREFIX)) return null;
+  try {
+    const marker = JSON.parse(line) as {
+      aiSessionsBundle?: number;
+      file?: unknown;
+    };
+    return marker.aiSessionsBundle === 1 && typeof marker.file === "string"
+      ? marker.file
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Files in a bundle document, or null for regular transcript content
+ */
+export function readBundle(content: string): BundleFile[] | null {
+  if (!content.startsWith(MARKER_PREFIX)) return null;
+
+  const files: Array<{ name: string; lines: string[] }> = [];
+  for (const line of content.split("\n")) {
+    const name = readMarker(line);
+    if (name !== null) {
+      files.push({ name, lines: [] });
+    } else if (files.length > 0) {
+      files[files.length - 1].lines.push(line);
+    }
+  }
+
+  return files.length > 0
+    ? files.map(({ name, lines }) => ({ name, content: lines.join("\n") }))
+    : null;
+}
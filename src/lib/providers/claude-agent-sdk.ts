@@ -0,0 +1,279 @@
+/**
+ * Claude Agent SDK transcript provider
+ * Parses `claude -p --output-format stream-json` output from headless runs
+ */
+
+import type {
+  AgentRunInfo,
+  ContentBlock,
+  ParsedTranscript,
+  TokenCounts,
+  TranscriptLine,
+} from "@/types/transcript";
+import { formatClaudeModelName } from "./claude-code";
+import type { ParseDiagnostics } from "./diagnostics";
+import { normalizeImageBlocks } from "./images";
+import type { DetectionMatch, TranscriptProvider } from "./types";
+import {
+  type AnthropicUsage,
+  fromAnthropicUsage,
+  sumTokenUsage,
+} from "./usage";
+
+/**
+ * Stream-json event structure (one JSON object per line)
+ */
+interface StreamJsonEvent {
+  type: "system" | "assistant" | "user" | "result" | string;
+  subtype?: string;
+  uuid?: string;
+  session_id?: string;
+  parent_tool_use_id?: string | null;
+  message?: {
+    role: "user" | "assistant";
+    content: string | ContentBlock[];
+    model?: string;
+    usage?: AnthropicUsage;
+  };
+  // system/init fields
+  cwd?: string;
+  model?: string;
+  tools?: string[];
+  mcp_servers?: Array<{ name: string; status?: string }>;
+  // system/compact_boundary fields
+  compact_metadata?: { trigger?: string; pre_tokens?: number };
+  // result fields
+  is_error?: boolean;
+  duration_ms?: number;
+  num_turns?: number;
+  total_cost_usd?: number;
+  usage?: AnthropicUsage;
+}
+
+/**
+ * Normalize tool_result content (string or text block array) to a string
+ * and image blocks to image content
+ */
+function normalizeContent(
+  content: string | ContentBlock[],
+): string | ContentBlock[] {
+  if (typeof content === "string") return content;
+
+  return normalizeImageBlocks(content).map((block) => {
+    if (block.type !== "tool_result") return block;
+
+    const raw: unknown = block.content;
+    if (!Array.isArray(raw)) return block;
+
+    const text = (raw as Array<{ type: string; text?: string }>)
+      .filter((item) => item.type === "text" && item.text)
+      .map((item) => item.text)
+      .join("\n");
+    return { ...block, content: text };
+  });
+}
+
+/**
+ * Claude Agent SDK provider implementation
+ */
+export class ClaudeAgentSdkProvider implements TranscriptProvider {
+  readonly name = "claude-agent-sdk";
+  readonly displayName = "Claude Agent SDK";
+
+  /**
+   * Detect if content is Claude Agent SDK stream-json output
+   * Runs start with a system/init event and end with a result event
+   */
+  detect(content: string): DetectionMatch | null {
+    const lines = content.trim().split("\n");
+    const candidates = [...lines.slice(0, 10), lines[lines.length - 1]];
+
+    for (const line of candidates) {
+      try {
+        const parsed = JSON.parse(line) as StreamJsonEvent & {
+          parentUuid?: unknown;
+        };
+
+        // Claude Code session JSONL tracks parentUuid; stream-json does not
+        if (parsed.parentUuid !== undefined) {
+          return null;
+        }
+
+        if (
+          parsed.type === "system" &&
+          parsed.subtype === "init" &&
+          Array.isArray(parsed.tools)
+        ) {
+          return {
+            score: 95,
+            evidence: ["found system/init event with tools list"],
+          };
+        }
+
+        if (
+          parsed.type === "result" &&
+          typeof parsed.num_turns === "number" &&
+          parsed.session_id !== undefined
+        ) {
+          return {
+            score: 85,
+            evidence: ["found result event with num_turns and session_id"],
+          };
+        }
+      } catch {
+        // Skip invalid lines
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Parse stream-json output
+   * Events carry no timestamps, so messages are left untimed
+   */
+  parse(content: string, diagnostics?: ParseDiagnostics): ParsedTranscript {
+    const lines = content.trim().split("\n");
+    const messages: TranscriptLine[] = [];
+    const agentRun: AgentRunInfo = {};
+    let sessionId = "";
+    let cwd: string | undefined;
+    let tokenCounts: TokenCounts | undefined;
+
+    for (const [index, line] of lines.entries()) {
+      if (!line.trim()) continue;
+
+      let event: StreamJsonEvent;
+      try {
+        event = JSON.parse(line) as StreamJsonEvent;
+      } catch {
+        diagnostics?.error("invalid JSON, event skipped", { line: index + 1 });
+        continue;
+      }
+
+      if (event.session_id && !sessionId) {
+        sessionId = event.session_id;
+      }
+
+      if (event.type === "system" && event.subtype === "init") {
+        cwd = event.cwd || cwd;
+        agentRun.model = event.model;
+        agentRun.tools = event.tools;
+        agentRun.mcpServers = event.mcp_servers;
+        continue;
+      }
+
+      if (event.type === "system" && event.subtype === "compact_boundary") {
+        messages.push({
+          type: "system_event",
+          systemEvent: {
+            eventType: "compaction",
+            data: {
+              trigger: event.compact_metadata?.trigger,
+              preTokens: event.compact_metadata?.pre_tokens,
+            },
+          },
+          uuid: event.uuid || `${sessionId}-${messages.length}`,
+          timestamp: "",
+          parentUuid: null,
+          sessionId: event.session_id,
+          cwd,
+        });
+        continue;
+      }
+
+      if (event.type === "result") {
+        agentRun.totalCostUsd = event.total_cost_usd;
+        agentRun.durationMs = event.duration_ms;
+        agentRun.numTurns = event.num_turns;
+        agentRun.isError = event.is_error;
+
+        // Usage for the whole run, including cache reads
+        if (event.usage) {
+          const usage = fromAnthropicUsage(event.usage);
+          if (usage.inputTokens > 0 || usage.outputTokens > 0) {
+            tokenCounts = {
+              inputTokens: usage.inputTokens,
+              outputTokens: usage.outputTokens,
+              totalTokens:
+                usage.inputTokens +
+                (usage.cacheReadTokens ?? 0) +
+                usage.outputTokens,
+              cacheReadTokens: usage.cacheReadTokens,
+              cacheWriteTokens: usage.cacheWriteTokens,
+            };
+          }
+        }
+        continue;
+      }
+
+      if (
+        (event.type !== "assistant" && event.type !== "user") ||
+        !event.message
+      ) {
+        diagnostics?.ignore(
+          event.subtype ? `${event.type}/${event.subtype}` : event.type,
+          index + 1,
+        );
+        continue;
+      }
+
+      // Sub-agent messages belong to their Task call, not the main thread
+      if (event.parent_tool_use_id) {
+        diagnostics?.ignore("sub-agent message", index + 1);
+        continue;
+      }
+
+      messages.push({
+        type: event.type,
+        message: {
+          role: event.message.role,
+          content: normalizeContent(event.message.content),
+          model: event.message.model,
+        },
+        uuid: event.uuid || `${sessionId}-${messages.length}`,
+        timestamp: "",
+        parentUuid: null,
+        sessionId: event.session_id,
+        cwd,
+        usage:
+          event.type === "assistant" && event.message.usage
+            ? fromAnthropicUsage(event.message.usage)
+            : undefined,
+      });
+    }
+
+    return {
+      messages,
+      sessionId,
+      cwd,
+      agentRun: Object.values(agentRun).some((value) => value !== undefined)
+        ? agentRun
+        : undefined,
+      tokenCounts,
+      metadata: {
+        firstTimestamp: "",
+        lastTimestamp: "",
+        messageCount: messages.length,
+      },
+    };
+  }
+
+  /**
+   * Token totals from the result event, or from per-response usage when the
+   * run was cut short before it
+   */
+  calculateTokenCounts(transcript: ParsedTranscript): TokenCounts | null {
+    return (
+      transcript.tokenCounts ??
+      sumTokenUsage(transcript.messages, { cacheInInput: false })
+    );
+  }
+
+  /**
+   * Format Claude model names
+   */
+  formatModelName(modelId: string): string | null {
+    return formatClaudeModelName(modelId);
+  }
+}
@@ -3,12 +3,62 @@
  * Parses JSONL files exported from Claude Code sessions
  */
 
+import { getAllMessages } from "@/lib/transcript-utils";
 import type {
   ContentBlock,
+  Message,
   ParsedTranscript,
+  SubagentTranscript,
+  SystemEvent,
+  TokenCounts,
   TranscriptLine,
 } from "@/types/transcript";
-import type { TranscriptProvider } from "./types";
+import type { ParseDiagnostics } from "./diagnostics";
+import { normalizeImageBlocks } from "./images";
+import type { DetectionMatch, TranscriptProvider } from "./types";
+import {
+  type AnthropicUsage,
+  fromAnthropicUsage,
+  sumTokenUsage,
+} from "./usage";
+
+// Line types that carry no message and are intentionally not displayed
+const SILENT_LINE_TYPES = new Set(["file-history-snapshot", "summary"]);
+
+// User lines Claude Code writes when a turn is stopped with Esc
+const INTERRUPTION_PATTERN =
+  /^\[(Request interrupted by user(?: for tool use)?)\]$/;
+
+/**
+ * Raw Claude Code line, including fields only used while parsing
+ */
+interface ClaudeCodeLine extends TranscriptLine {
+  message?: Message & { id?: string; usage?: AnthropicUsage };
+  subtype?: string;
+  compactMetadata?: { trigger?: string; preTokens?: number };
+  isCompactSummary?: boolean;
+  permissionMode?: string;
+}
+
+/**
+ * System event line that takes the place of a raw line
+ */
+function toSystemEventLine(
+  line: ClaudeCodeLine,
+  systemEvent: SystemEvent,
+): TranscriptLine {
+  return {
+    type: "system_event",
+    systemEvent,
+    uuid: line.uuid,
+    timestamp: line.timestamp,
+    parentUuid: line.parentUuid,
+    sessionId: line.sessionId,
+    cwd: line.cwd,
+    isSidechain: line.isSidechain,
+    agentId: line.agentId,
+  };
+}
 
 function parseSlashCommandString(content: string): ContentBlock[] | null {
   // Only parse if the content starts with a command tag
@@ -79,6 +129,115 @@ function parseBashString(content: string): ContentBlock[] | null {
   return blocks.length > 0 ? blocks : null;
 }
 
+/**
+ * Plain text of a message, used to match a sub-agent prompt to its Task call
+ */
+function messageText(line: TranscriptLine): string {
+  const content = line.message?.content;
+  if (typeof content === "string") return content.trim();
+  if (!Array.isArray(content)) return "";
+  return content
+    .map((block) => (block.type === "text" ? block.text : ""))
+    .join("")
+    .trim();
+}
+
+/**
+ * Group sidechain lines by sub-agent and attach each group to the Task tool
+ * call that spawned it
+ * Groups are linked through the agentId on the Task's tool result, falling
+ * back to matching the sub-agent's first prompt against the Task input
+ */
+function linkSidechains(
+  messages: TranscriptLine[],
+  sidechain: Array<{ line: TranscriptLine; lineNumber: number }>,
+  diagnostics?: ParseDiagnostics,
+): Record<string, SubagentTranscript> {
+  const byUuid = new Map(sidechain.map(({ line }) => [line.uuid, line]));
+
+  // Older sidechains have no agentId, so group them by the root of their chain
+  const groupKey = (line: TranscriptLine): string => {
+    if (line.agentId) return line.agentId;
+    let current = line;
+    const seen = new Set<string>();
+    while (current.parentUuid && byUuid.has(current.parentUuid)) {
+      if (seen.has(current.uuid)) break;
+      seen.add(current.uuid);
+      current = byUuid.get(current.parentUuid) as TranscriptLine;
+    }
+    return current.uuid;
+  };
+
+  const groups = new Map<
+    string,
+    { agentId?: string; lines: TranscriptLine[]; lineNumbers: number[] }
+  >();
+  for (const { line, lineNumber } of sidechain) {
+    const key = groupKey(line);
+    const group = groups.get(key) ?? {
+      agentId: line.agentId,
+      lines: [],
+      lineNumbers: [],
+    };
+    group.lines.push(line);
+    group.lineNumbers.push(lineNumber);
+    groups.set(key, group);
+  }
+
+  const allLines = [...messages, ...sidechain.map(({ line }) => line)];
+  const taskCalls: Array<{ id: string; prompt: string }> = [];
+  const toolUseIdByAgent = new Map<string, string>();
+
+  for (const line of allLines) {
+    const content = line.message?.content;
+    if (!Array.isArray(content)) continue;
+
+    for (const block of content) {
+      if (block.type === "tool_use" && block.name === "Task") {
+        taskCalls.push({
+          id: block.id,
+          prompt: String(block.input?.prompt ?? "").trim(),
+        });
+      }
+      if (
+        block.type === "tool_result" &&
+        typeof line.toolUseResult === "object" &&
+        typeof line.toolUseResult?.agentId === "string"
+      ) {
+        toolUseIdByAgent.set(line.toolUseResult.agentId, block.tool_use_id);
+      }
+    }
+  }
+
+  const subagents: Record<string, SubagentTranscript> = {};
+  for (const group of groups.values()) {
+    let toolUseId = group.agentId
+      ? toolUseIdByAgent.get(group.agentId)
+      : undefined;
+
+    if (!toolUseId) {
+      const firstPrompt = group.lines.find(
+        (line) => line.message?.role === "user",
+      );
+      const prompt = firstPrompt ? messageText(firstPrompt) : "";
+      toolUseId = taskCalls.find(
+        (task) => task.prompt === prompt && !subagents[task.id],
+      )?.id;
+    }
+
+    if (!toolUseId) {
+      for (const lineNumber of group.lineNumbers) {
+        diagnostics?.ignore("sidechain without Task call", lineNumber);
+      }
+      continue;
+    }
+
+    subagents[toolUseId] = { agentId: group.agentId, messages: group.lines };
+  }
+
+  return subagents;
+}
+
 /**
  * Map raw model IDs to friendly display names
  * Returns null for synthetic/invalid models
@@ -88,7 +247,7 @@ function parseBashString(content: string): ContentBlock[] | null {
  * - "claude-sonnet-4-5-20250929" → "Claude Sonnet 4.5"
  * - "claude-3-5-sonnet-20241022" → "Claude Sonnet 3.5"
  */
-function formatClaudeModelName(modelId: string): string | null {
+export function formatClaudeModelName(modelId: string): string | null {
   // Ignore synthetic model entries
   if (modelId === "<synthetic>" || modelId.includes("synthetic")) {
     return null;
@@ -139,7 +298,7 @@ export class ClaudeCodeProvider implements TranscriptProvider {
    * Detect if content is a Claude Code transcript
    * Checks for Claude-specific format indicators
    */
-  detect(content: string): boolean {
+  detect(content: string): DetectionMatch | null {
     try {
       const lines = content.trim().split("\n").slice(0, 10);
 
@@ -149,53 +308,170 @@ export class ClaudeCodeProvider implements TranscriptProvider {
 
           // Check for Claude Code-specific fields
           if (parsed.type === "file-history-snapshot") {
-            return true;
+            return {
+              score: 95,
+              evidence: ["found file-history-snapshot line"],
+            };
+          }
+
+          // Check for parentUuid field (Claude Code relationship tracking)
+          if (parsed.parentUuid !== undefined) {
+            return { score: 80, evidence: ["found parentUuid field"] };
           }
 
-          // Check for thinking blocks in content
+          // Check for thinking blocks in content (other Anthropic formats have them too)
           if (
             parsed.message &&
             Array.isArray(parsed.message.content) &&
             parsed.message.content.some((block) => block.type === "thinking")
           ) {
-            return true;
-          }
-
-          // Check for parentUuid field (Claude Code relationship tracking)
-          if (parsed.parentUuid !== undefined) {
-            return true;
+            return {
+              score: 50,
+              evidence: ["found message line with thinking blocks"],
+            };
           }
         } catch {
           // Skip invalid lines
         }
       }
     } catch {
-      return false;
+      return null;
     }
 
-    return false;
+    return null;
   }
 
   /**
    * Parse Claude Code JSONL transcript
+   * Sub-agent sidechain lines (from agent-*.jsonl files uploaded alongside the
+   * session) are nested under the Task call that spawned them
    */
-  parse(content: string): ParsedTranscript {
+  parse(content: string, diagnostics?: ParseDiagnostics): ParsedTranscript {
     const lines = content.trim().split("\n");
-    const messages: TranscriptLine[] = [];
+    let messages: TranscriptLine[] = [];
+    const sidechain: Array<{ line: TranscriptLine; lineNumber: number }> = [];
     let sessionId = "";
     let firstTimestamp = "";
     let lastTimestamp = "";
     let cwd = "";
+    let gitBranch = "";
+    const usageLines = new Map<string, TranscriptLine>();
+    let compaction: {
+      summary?: string;
+      trigger?: string;
+      preTokens?: number;
+    } | null = null;
+    let permissionMode: string | undefined;
+
+    for (const [index, line] of lines.entries()) {
+      if (!line.trim()) continue;
 
-    for (const line of lines) {
       try {
-        const parsed = JSON.parse(line) as TranscriptLine;
+        const parsed = JSON.parse(line) as ClaudeCodeLine;
+        const addLine = (entry: TranscriptLine) => {
+          if (entry.isSidechain) {
+            sidechain.push({ line: entry, lineNumber: index + 1 });
+          } else {
+            messages.push(entry);
+          }
+
+          // Extract metadata
+          if (entry.sessionId && !sessionId) {
+            sessionId = entry.sessionId;
+          }
+          if (entry.timestamp) {
+            if (!firstTimestamp) {
+              firstTimestamp = entry.timestamp;
+            }
+            lastTimestamp = entry.timestamp;
+          }
+          if (entry.cwd && !cwd) {
+            cwd = entry.cwd;
+          }
+          if (entry.gitBranch && !gitBranch) {
+            gitBranch = entry.gitBranch;
+          }
+        };
+
+        // /compact or auto-compaction; the summary follows as a user line
+        if (
+          (parsed.type as string) === "system" &&
+          parsed.subtype === "compact_boundary"
+        ) {
+          compaction = {
+            trigger: parsed.compactMetadata?.trigger,
+            preTokens: parsed.compactMetadata?.preTokens,
+          };
+          addLine(
+            toSystemEventLine(parsed, {
+              eventType: "compaction",
+              data: compaction,
+            }),
+          );
+          continue;
+        }
+        if (parsed.isCompactSummary && parsed.message) {
+          if (compaction && !compaction.summary) {
+            compaction.summary = messageText(parsed);
+          } else {
+            addLine(
+              toSystemEventLine(parsed, {
+                eventType: "compaction",
+                data: { summary: messageText(parsed) },
+              }),
+            );
+          }
+          continue;
+        }
+
+        if (parsed.message?.role === "user") {
+          const interruption = messageText(parsed).match(INTERRUPTION_PATTERN);
+          if (interruption) {
+            addLine(
+              toSystemEventLine(parsed, {
+                eventType: "interruption",
+                data: { message: interruption[1] },
+              }),
+            );
+            continue;
+          }
+
+          // Plan mode, auto-accept edits, ... are recorded on each prompt
+          const mode = parsed.permissionMode;
+          if (
+            mode &&
+            !parsed.isSidechain &&
+            mode !== permissionMode &&
+            (permissionMode !== undefined || mode !== "default")
+          ) {
+            addLine(
+              toSystemEventLine(
+                { ...parsed, uuid: `${parsed.uuid}-mode` },
+                {
+                  eventType: "mode_change",
+                  data: { mode, previousMode: permissionMode },
+                },
+              ),
+            );
+          }
+          if (mode && !parsed.isSidechain) permissionMode = mode;
+        }
+
+        // Lines without a message are not displayed by the viewer
+        if (!parsed.message && !SILENT_LINE_TYPES.has(parsed.type)) {
+          diagnostics?.ignore(String(parsed.type ?? "untyped"), index + 1);
+        }
 
         // Skip file history snapshots
         if (parsed.type === "file-history-snapshot") {
           continue;
         }
 
+        // Pasted screenshots
+        if (parsed.message && Array.isArray(parsed.message.content)) {
+          parsed.message.content = normalizeImageBlocks(parsed.message.content);
+        }
+
         // Parse slash commands and bash blocks if message content is a string starting with special tags
         if (parsed.message && typeof parsed.message.content === "string") {
           const commandBlocks = parseSlashCommandString(parsed.message.content);
@@ -227,31 +503,36 @@ export class ClaudeCodeProvider implements TranscriptProvider {
           }
         }
 
-        messages.push(parsed);
-
-        // Extract metadata
-        if (parsed.sessionId && !sessionId) {
-          sessionId = parsed.sessionId;
+        // One API response is written as one line per content block, each
+        // repeating its usage; keep it on the last line only
+        if (parsed.type === "assistant" && parsed.message?.usage) {
+          const responseId = parsed.message.id;
+          const previous = responseId ? usageLines.get(responseId) : undefined;
+          if (previous) delete previous.usage;
+          parsed.usage = fromAnthropicUsage(parsed.message.usage);
+          if (responseId) usageLines.set(responseId, parsed);
         }
-        if (parsed.timestamp) {
-          if (!firstTimestamp) {
-            firstTimestamp = parsed.timestamp;
-          }
-          lastTimestamp = parsed.timestamp;
-        }
-        if (parsed.cwd && !cwd) {
-          cwd = parsed.cwd;
-        }
-      } catch (err) {
-        console.error("Failed to parse line:", err);
-        // Skip invalid lines
+
+        addLine(parsed);
+      } catch {
+        diagnostics?.error("invalid JSON, line skipped", { line: index + 1 });
       }
     }
 
+    // A sub-agent file uploaded on its own is shown as the conversation
+    let subagents: Record<string, SubagentTranscript> | undefined;
+    if (messages.length === 0) {
+      messages = sidechain.map(({ line }) => line);
+    } else if (sidechain.length > 0) {
+      subagents = linkSidechains(messages, sidechain, diagnostics);
+    }
+
     return {
       messages,
       sessionId,
       cwd,
+      git: gitBranch ? { branch: gitBranch } : undefined,
+      subagents,
       metadata: {
         firstTimestamp,
         lastTimestamp,
@@ -260,6 +541,18 @@ export class ClaudeCodeProvider implements TranscriptProvider {
     };
   }
 
+  /**
+   * Token totals from per-response usage, including sub-agents
+   * Anthropic input counts exclude cache reads, and cache counts are taken
+   * at their peak rather than summed
+   */
+  calculateTokenCounts(transcript: ParsedTranscript): TokenCounts | null {
+    return sumTokenUsage(getAllMessages(transcript), {
+      cacheInInput: false,
+      maxCache: true,
+    });
+  }
+
   /**
    * Format Claude model names
    */
@@ -0,0 +1,734 @@
+/**
+ * Cline transcript provider
+ * Parses the api_conversation_history.json and ui_messages.json task files
+ * from Cline and Roo Code
+ */
+
+import type {
+  ContentBlock,
+  ParsedTranscript,
+  ToolUse,
+  TranscriptLine,
+} from "@/types/transcript";
+import type { ParseDiagnostics } from "./diagnostics";
+import { fromAnthropicImage, imageFromUrl } from "./images";
+import type { DetectionMatch, TranscriptProvider } from "./types";
+
+/**
+ * Tools Cline and Roo Code express as XML inside assistant text
+ */
+const XML_TOOL_NAMES = [
+  "read_file",
+  "write_to_file",
+  "replace_in_file",
+  "apply_diff",
+  "insert_content",
+  "search_and_replace",
+  "search_files",
+  "list_files",
+  "list_code_definition_names",
+  "codebase_search",
+  "execute_command",
+  "browser_action",
+  "use_mcp_tool",
+  "access_mcp_resource",
+  "ask_followup_question",
+  "attempt_completion",
+  "plan_mode_respond",
+  "new_task",
+  "switch_mode",
+  "update_todo_list",
+  "fetch_instructions",
+  "load_mcp_documentation",
+  "web_fetch",
+];
+
+// Opening tag of a thinking block or XML tool invocation
+const XML_BLOCK_REGEX = new RegExp(
+  `<(thinking|${XML_TOOL_NAMES.join("|")})>`,
+  "g",
+);
+
+// "[read_file for 'src/app.ts'] Result:" header Cline puts before each tool result
+const TOOL_RESULT_HEADER_REGEX = /^\[([a-z_]+)(?: for [\s\S]*?)?\] Result:/;
+
+// Parameters whose values may contain their own closing tag (file contents, diffs)
+const GREEDY_PARAMS = new Set(["content", "diff"]);
+
+const ENVIRONMENT_DETAILS_REGEX =
+  /<environment_details>[\s\S]*?<\/environment_details>/g;
+const CWD_REGEX = /# Current (?:Working|Workspace) Directory \((.+?)\) Files/;
+
+/**
+ * Cline stores Anthropic-style message params, optionally with a timestamp
+ */
+interface ClineMessage {
+  role: "user" | "assistant";
+  content: string | ClineContentBlock[];
+  ts?: number;
+  modelInfo?: {
+    modelId?: string;
+  };
+}
+
+interface ClineContentBlock {
+  type: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  // biome-ignore lint/suspicious/noExplicitAny: Tool input can be any JSON structure
+  input?: Record<string, any>;
+  tool_use_id?: string;
+  content?: string | Array<{ type: string; text?: string }>;
+  is_error?: boolean;
+}
+
+/**
+ * Entry of ui_messages.json, the chat as shown in the extension
+ * "say" entries report progress, "ask" entries wait for the user
+ */
+interface ClineUiMessage {
+  ts: number;
+  type: "say" | "ask";
+  say?: string;
+  ask?: string;
+  text?: string;
+  images?: string[];
+  partial?: boolean;
+}
+
+/**
+ * Tool names of ui_messages.json "tool" entries mapped to the XML tool names
+ * used in the API history, so both files render with the same tool blocks
+ */
+const UI_TOOL_NAMES: Record<string, string> = {
+  readFile: "read_file",
+  newFileCreated: "write_to_file",
+  editedExistingFile: "replace_in_file",
+  appliedDiff: "apply_diff",
+  insertContent: "insert_content",
+  searchAndReplace: "search_and_replace",
+  listFilesTopLevel: "list_files",
+  listFilesRecursive: "list_files",
+  listCodeDefinitionNames: "list_code_definition_names",
+  searchFiles: "search_files",
+  codebaseSearch: "codebase_search",
+  webFetch: "web_fetch",
+  newTask: "new_task",
+  switchMode: "switch_mode",
+  fetchInstructions: "fetch_instructions",
+};
+
+// Tools whose "content" field holds the tool output rather than its input
+const UI_TOOL_RESULT_NAMES = new Set([
+  "list_files",
+  "list_code_definition_names",
+  "search_files",
+  "codebase_search",
+  "web_fetch",
+]);
+
+// UI bookkeeping with nothing to show (API request status, checkpoints, ...)
+const UI_SKIPPED_TYPES = new Set([
+  "api_req_started",
+  "api_req_finished",
+  "api_req_retried",
+  "api_req_failed",
+  "checkpoint_created",
+  "checkpoint_saved",
+  "deleted_api_reqs",
+  "resume_task",
+  "resume_completed_task",
+  "completion_result",
+  "shell_integration_warning",
+]);
+
+/**
+ * Normalize message content to an array of blocks
+ */
+function toBlocks(content: ClineMessage["content"]): ClineContentBlock[] {
+  if (typeof content === "string") {
+    return [{ type: "text", text: content }];
+  }
+  return Array.isArray(content) ? content : [];
+}
+
+/**
+ * Normalize native tool_result content to a string
+ */
+function toolResultText(content: ClineContentBlock["content"]): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .filter((item) => item.type === "text" && item.text)
+    .map((item) => item.text)
+    .join("\n");
+}
+
+/**
+ * Strip a single wrapping tag (e.g. <task>...</task>) from user text
+ */
+function unwrapTag(text: string, tag: string): string {
+  const match = text.trim().match(new RegExp(`^<${tag}>([\\s\\S]*)</${tag}>$`));
+  return match ? match[1].trim() : text;
+}
+
+/**
+ * Parse the <param>value</param> children of an XML tool invocation
+ */
+function parseToolParams(body: string): Record<string, string> {
+  const params: Record<string, string> = {};
+  const openTag = /<([a-z_]+)>/g;
+  let match: RegExpExecArray | null = openTag.exec(body);
+
+  while (match) {
+    const name = match[1];
+    const valueStart = match.index + match[0].length;
+    const closeTag = `</${name}>`;
+    const valueEnd = GREEDY_PARAMS.has(name)
+      ? body.lastIndexOf(closeTag)
+      : body.indexOf(closeTag, valueStart);
+
+    if (valueEnd < valueStart) break;
+
+    params[name] = body
+      .slice(valueStart, valueEnd)
+      .replace(/^\r?\n/, "")
+      .replace(/\r?\n$/, "");
+    openTag.lastIndex = valueEnd + closeTag.length;
+    match = openTag.exec(body);
+  }
+
+  return params;
+}
+
+/**
+ * Split assistant text into text, thinking and tool_use blocks
+ */
+function parseAssistantText(
+  text: string,
+  nextToolId: () => string,
+): ContentBlock[] {
+  const blocks: ContentBlock[] = [];
+  let cursor = 0;
+
+  const pushText = (value: string) => {
+    const trimmed = value.trim();
+    if (trimmed) {
+      blocks.push({ type: "text", text: trimmed });
+    }
+  };
+
+  XML_BLOCK_REGEX.lastIndex = 0;
+  let match: RegExpExecArray | null = XML_BLOCK_REGEX.exec(text);
+
+  while (match) {
+    const tag = match[1];
+    const bodyStart = match.index + match[0].length;
+    const bodyEnd = text.indexOf(`</${tag}>`, bodyStart);
+
+    // Unclosed tag (e.g. the model was interrupted) - keep it as text
+    if (bodyEnd === -1) break;
+
+    pushText(text.slice(cursor, match.index));
+    const body = text.slice(bodyStart, bodyEnd);
+
+    if (tag === "thinking") {
+      if (body.trim()) {
+        blocks.push({ type: "thinking", thinking: body.trim() });
+      }
+    } else {
+      blocks.push({
+        type: "tool_use",
+        id: nextToolId(),
+        name: tag,
+        input: parseToolParams(body),
+      });
+    }
+
+    cursor = bodyEnd + tag.length + 3;
+    XML_BLOCK_REGEX.lastIndex = cursor;
+    match = XML_BLOCK_REGEX.exec(text);
+  }
+
+  pushText(text.slice(cursor));
+  return blocks;
+}
+
+/**
+ * Whether a tool result text reports a failure
+ */
+function isErrorResult(text: string): boolean {
+  return (
+    text.startsWith("The tool execution failed") ||
+    text.startsWith("The user denied this operation") ||
+    text.startsWith("[ERROR]")
+  );
+}
+
+/**
+ * Whether parsed JSON is a ui_messages.json array
+ */
+function isUiMessages(value: unknown[]): value is ClineUiMessage[] {
+  return value.every(
+    (item) =>
+      !!item &&
+      typeof (item as ClineUiMessage).ts === "number" &&
+      ((item as ClineUiMessage).type === "say" ||
+        (item as ClineUiMessage).type === "ask"),
+  );
+}
+
+/**
+ * Parse the JSON payload of a ui_messages.json entry, or null for plain text
+ */
+function parseUiPayload(
+  text: string | undefined,
+): Record<string, unknown> | null {
+  if (!text?.trim().startsWith("{")) return null;
+  try {
+    const payload = JSON.parse(text);
+    return payload && typeof payload === "object" ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Convert a ui_messages.json "tool" payload into a tool call and, for tools
+ * that report their output in the same entry, its result
+ */
+function parseUiTool(payload: Record<string, unknown>): {
+  name: string;
+  input: Record<string, string>;
+  result?: string;
+} {
+  const tool = String(payload.tool ?? "tool");
+  const name =
+    UI_TOOL_NAMES[tool] ??
+    tool.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`);
+  const hasResult = UI_TOOL_RESULT_NAMES.has(name);
+
+  const input: Record<string, string> = {};
+  for (const [key, value] of Object.entries(payload)) {
+    if (key === "tool" || typeof value !== "string") continue;
+    if (key === "content" && (hasResult || name === "read_file")) continue;
+    input[key === "filePattern" ? "file_pattern" : key] = value;
+  }
+  if (tool === "listFilesRecursive") {
+    input.recursive = "true";
+  }
+
+  return {
+    name,
+    input,
+    result:
+      hasResult && typeof payload.content === "string"
+        ? payload.content
+        : undefined,
+  };
+}
+
+/**
+ * Parse ui_messages.json entries
+ * Tool approvals, command output and MCP responses become tool calls and
+ * results; API request bookkeeping is skipped
+ */
+function parseUiMessages(
+  entries: ClineUiMessage[],
+  diagnostics?: ParseDiagnostics,
+): ParsedTranscript {
+  const sessionId = `cline-${entries[0]?.ts ?? "task"}`;
+  const messages: TranscriptLine[] = [];
+  let toolCount = 0;
+  // Tool call whose output the next command_output / MCP response belongs to
+  let pendingToolId: string | null = null;
+
+  const push = (
+    role: "user" | "assistant",
+    blocks: ContentBlock[],
+    ts: number,
+  ) => {
+    messages.push({
+      type: role,
+      message: { role, content: blocks },
+      uuid: `${sessionId}-${messages.length}`,
+      timestamp: new Date(ts).toISOString(),
+      parentUuid: null,
+      sessionId,
+    });
+  };
+
+  const pushToolUse = (
+    name: string,
+    input: Record<string, unknown>,
+    ts: number,
+  ): string => {
+    toolCount++;
+    const id = `${sessionId}-tool-${toolCount}`;
+    push("assistant", [{ type: "tool_use", id, name, input }], ts);
+    return id;
+  };
+
+  const pushToolResult = (toolUseId: string, output: string, ts: number) => {
+    // Streamed output arrives in several entries - append to the last result
+    const last = messages[messages.length - 1]?.message?.content;
+    const previous = Array.isArray(last) ? last[0] : undefined;
+    if (
+      previous?.type === "tool_result" &&
+      previous.tool_use_id === toolUseId
+    ) {
+      previous.content = `${previous.content}\n${output}`.trim();
+      return;
+    }
+    push(
+      "user",
+      [{ type: "tool_result", tool_use_id: toolUseId, content: output.trim() }],
+      ts,
+    );
+  };
+
+  entries.forEach((entry, index) => {
+    if (entry.partial) return;
+
+    const kind = entry.type === "say" ? entry.say : entry.ask;
+    const text = entry.text ?? "";
+    const payload = parseUiPayload(entry.text);
+
+    switch (kind) {
+      case "task":
+      case "user_feedback": {
+        const blocks: ContentBlock[] = [];
+        if (text.trim()) blocks.push({ type: "text", text: text.trim() });
+        for (const image of entry.images ?? []) {
+          blocks.push(imageFromUrl(image));
+        }
+        if (blocks.length > 0) push("user", blocks, entry.ts);
+        pendingToolId = null;
+        return;
+      }
+      case "text":
+        if (text.trim()) {
+          push("assistant", [{ type: "text", text: text.trim() }], entry.ts);
+        }
+        return;
+      case "reasoning":
+        if (text.trim()) {
+          push(
+            "assistant",
+            [{ type: "thinking", thinking: text.trim() }],
+            entry.ts,
+          );
+        }
+        return;
+      case "command":
+        pendingToolId = pushToolUse(
+          "execute_command",
+          { command: text },
+          entry.ts,
+        );
+        return;
+      case "command_output":
+      case "mcp_server_response":
+        if (pendingToolId) {
+          pushToolResult(pendingToolId, text, entry.ts);
+        } else {
+          diagnostics?.warn(`${kind} without a tool call`, {
+            line: index + 1,
+            recordType: kind,
+          });
+        }
+        return;
+      case "use_mcp_server":
+        pendingToolId = pushToolUse(
+          "use_mcp_tool",
+          {
+            server_name: payload?.serverName,
+            tool_name: payload?.toolName,
+            arguments: payload?.arguments,
+            uri: payload?.uri,
+          },
+          entry.ts,
+        );
+        return;
+      case "tool": {
+        if (!payload) break;
+        const tool = parseUiTool(payload);
+        const id = pushToolUse(tool.name, tool.input, entry.ts);
+        if (tool.result !== undefined) {
+          pushToolResult(id, tool.result, entry.ts);
+        }
+        pendingToolId = null;
+        return;
+      }
+      case "followup":
+        pushToolUse(
+          "ask_followup_question",
+          {
+            question:
+              typeof payload?.question === "string" ? payload.question : text,
+          },
+          entry.ts,
+        );
+        return;
+      case "completion_result":
+        // The "ask" repeats the "say" with an empty text once the task is done
+        if (entry.type === "say" && text.trim()) {
+          pushToolUse("attempt_completion", { result: text.trim() }, entry.ts);
+        }
+        return;
+    }
+
+    if (!kind || !UI_SKIPPED_TYPES.has(kind)) {
+      diagnostics?.ignore(`${entry.type} '${kind ?? "untyped"}'`, index + 1);
+    }
+  });
+
+  const firstTimestamp = entries.length
+    ? new Date(entries[0].ts).toISOString()
+    : "";
+  const lastTimestamp = entries.length
+    ? new Date(entries[entries.length - 1].ts).toISOString()
+    : "";
+
+  return {
+    messages,
+    sessionId,
+    metadata: {
+      firstTimestamp,
+      lastTimestamp,
+      messageCount: messages.length,
+    },
+  };
+}
+
+/**
+ * Cline provider implementation
+ */
+export class ClineProvider implements TranscriptProvider {
+  readonly name = "cline";
+  readonly displayName = "Cline";
+
+  /**
+   * Detect if content is a Cline / Roo Code api_conversation_history.json
+   * The file is a JSON array of messages whose user turns carry <task> and
+   * <environment_details> blocks. ui_messages.json is an array of timestamped
+   * "say" / "ask" entries.
+   */
+  detect(content: string): DetectionMatch | null {
+    try {
+      const parsed = JSON.parse(content);
+      if (!Array.isArray(parsed) || parsed.length === 0) return null;
+
+      if (isUiMessages(parsed)) {
+        const evidence = ["found say/ask UI messages"];
+        if (parsed.some((item) => item.say === "task")) {
+          evidence.push("found task message");
+        }
+        return { score: 90, evidence };
+      }
+
+      const isMessageArray = parsed.every(
+        (item) =>
+          item &&
+          (item.role === "user" || item.role === "assistant") &&
+          item.content !== undefined,
+      );
+      if (!isMessageArray) return null;
+
+      const userTexts = parsed
+        .filter((item: ClineMessage) => item.role === "user")
+        .flatMap((item: ClineMessage) => toBlocks(item.content))
+        .filter(
+          (block) => block.type === "text" && typeof block.text === "string",
+        )
+        .map((block) => block.text as string);
+
+      const evidence: string[] = [];
+      if (userTexts.some((text) => text.trim().startsWith("<task>"))) {
+        evidence.push("found <task> user message");
+      }
+      if (userTexts.some((text) => text.includes("<environment_details>"))) {
+        evidence.push("found <environment_details> block");
+      }
+      if (evidence.length === 0) return null;
+
+      return { score: 90, evidence };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Parse Cline JSON transcript
+   * XML tool invocations become tool_use blocks, and the "[tool] Result:"
+   * text that follows in the next user turn becomes their tool_result
+   */
+  parse(content: string, diagnostics?: ParseDiagnostics): ParsedTranscript {
+    let history: ClineMessage[];
+
+    try {
+      history = JSON.parse(content) as ClineMessage[];
+    } catch (error) {
+      throw new Error(
+        `Failed to parse Cline task JSON: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    if (!Array.isArray(history)) {
+      throw new Error("Cline task history must be a JSON array of messages");
+    }
+
+    if (history.length > 0 && isUiMessages(history)) {
+      return parseUiMessages(history, diagnostics);
+    }
+
+    const timestamps = history
+      .map((item) => item.ts)
+      .filter((ts): ts is number => typeof ts === "number")
+      .map((ts) => new Date(ts).toISOString());
+    const firstTimestamp = timestamps[0] || "";
+    const lastTimestamp = timestamps[timestamps.length - 1] || "";
+    const sessionId = `cline-${history.find((item) => item.ts)?.ts ?? "task"}`;
+
+    const messages: TranscriptLine[] = [];
+    let cwd: string | undefined;
+    let toolCount = 0;
+    // Tool calls from the last assistant turn still waiting for a result
+    let pendingTools: ToolUse[] = [];
+
+    const nextToolId = () => {
+      toolCount++;
+      return `${sessionId}-tool-${toolCount}`;
+    };
+
+    for (const item of history) {
+      const timestamp = item.ts ? new Date(item.ts).toISOString() : "";
+      const blocks: ContentBlock[] = [];
+
+      if (item.role === "assistant") {
+        for (const block of toBlocks(item.content)) {
+          if (block.type === "text" && block.text) {
+            blocks.push(...parseAssistantText(block.text, nextToolId));
+          } else if (block.type === "tool_use" && block.name) {
+            // Native tool calling (newer Cline versions)
+            blocks.push({
+              type: "tool_use",
+              id: block.id || nextToolId(),
+              name: block.name,
+              input: block.input || {},
+            });
+          }
+        }
+        pendingTools = blocks.filter(
+          (block): block is ToolUse => block.type === "tool_use",
+        );
+      } else {
+        // The current tool result collects text blocks until the next header
+        let currentResult: { tool_use_id: string; parts: string[] } | null =
+          null;
+
+        const flushResult = () => {
+          if (!currentResult) return;
+          const text = currentResult.parts.join("\n").trim();
+          blocks.push({
+            type: "tool_result",
+            tool_use_id: currentResult.tool_use_id,
+            content: text,
+            is_error: isErrorResult(text) ? true : undefined,
+          });
+          currentResult = null;
+        };
+
+        for (const block of toBlocks(item.content)) {
+          if (block.type === "tool_result" && block.tool_use_id) {
+            flushResult();
+            blocks.push({
+              type: "tool_result",
+              tool_use_id: block.tool_use_id,
+              content: toolResultText(block.content),
+              is_error: block.is_error ? true : undefined,
+            });
+            continue;
+          }
+
+          if (block.type === "image") {
+            const image = fromAnthropicImage(block);
+            if (image) blocks.push(image);
+            continue;
+          }
+
+          if (block.type !== "text" || !block.text) continue;
+
+          if (!cwd) {
+            cwd = block.text.match(CWD_REGEX)?.[1];
+          }
+
+          const text = block.text.replace(ENVIRONMENT_DETAILS_REGEX, "").trim();
+          if (!text) continue;
+
+          const header = text.match(TOOL_RESULT_HEADER_REGEX);
+          if (header) {
+            flushResult();
+            const index = pendingTools.findIndex(
+              (tool) => tool.name === header[1],
+            );
+            const tool =
+              index >= 0 ? pendingTools.splice(index, 1)[0] : undefined;
+            const remainder = text.slice(header[0].length).trim();
+
+            if (tool) {
+              currentResult = {
+                tool_use_id: tool.id,
+                parts: remainder ? [remainder] : [],
+              };
+            } else if (remainder) {
+              blocks.push({ type: "text", text: remainder });
+            }
+            continue;
+          }
+
+          if (currentResult) {
+            currentResult.parts.push(text);
+            continue;
+          }
+
+          const prompt = unwrapTag(unwrapTag(text, "task"), "feedback");
+          if (prompt) {
+            blocks.push({ type: "text", text: prompt });
+          }
+        }
+
+        flushResult();
+      }
+
+      if (blocks.length === 0) continue;
+
+      messages.push({
+        type: item.role,
+        message: {
+          role: item.role,
+          content: blocks,
+          model:
+            item.role === "assistant" ? item.modelInfo?.modelId : undefined,
+        },
+        uuid: `${sessionId}-${messages.length}`,
+        timestamp,
+        parentUuid: null,
+        sessionId,
+        cwd,
+      });
+    }
+
+    return {
+      messages,
+      sessionId,
+      cwd,
+      metadata: {
+        firstTimestamp,
+        lastTimestamp,
+        messageCount: messages.length,
+      },
+    };
+  }
+}
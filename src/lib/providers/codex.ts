@@ -3,13 +3,21 @@
  * Parses JSONL files exported from Codex/Pair CLI sessions
  */
 
+import { stripUrlCredentials } from "@/lib/git-utils";
 import { parseUserInstructions } from "@/lib/transcript-utils";
 import type {
   ContentBlock,
+  GitContext,
   ParsedTranscript,
+  SystemEvent,
+  TokenCounts,
+  TokenUsage,
   TranscriptLine,
 } from "@/types/transcript";
-import type { TranscriptProvider } from "./types";
+import type { ParseDiagnostics } from "./diagnostics";
+import { imageFromUrl } from "./images";
+import type { DetectionMatch, TranscriptProvider } from "./types";
+import { addTokenUsage } from "./usage";
 
 /**
  * Codex event types (newer format with event wrapper)
@@ -27,7 +35,7 @@ interface CodexDirectEntry {
   type?: string;
   record_type?: string;
   role?: "user" | "assistant";
-  content?: Array<{ type: string; text?: string }>;
+  content?: Array<{ type: string; text?: string; image_url?: string }>;
   name?: string;
   arguments?: string;
   call_id?: string;
@@ -37,11 +45,13 @@ interface CodexDirectEntry {
   summary?: Array<{ type: string; text?: string }>;
   // Session metadata fields (first line)
   instructions?: unknown;
-  git?: {
-    commit_hash?: string;
-    branch?: string;
-    repository_url?: string;
-  };
+  git?: CodexGitInfo;
+}
+
+interface CodexGitInfo {
+  commit_hash?: string;
+  branch?: string;
+  repository_url?: string;
 }
 
 interface SessionMetaPayload {
@@ -50,11 +60,7 @@ interface SessionMetaPayload {
   cwd?: string;
   originator?: string;
   cli_version?: string;
-  git?: {
-    commit_hash?: string;
-    branch?: string;
-    repository_url?: string;
-  };
+  git?: CodexGitInfo;
 }
 
 interface ResponseItemPayload {
@@ -66,7 +72,7 @@ interface ResponseItemPayload {
     | "custom_tool_call"
     | "custom_tool_call_output";
   role?: "user" | "assistant";
-  content?: Array<{ type: string; text?: string }>;
+  content?: Array<{ type: string; text?: string; image_url?: string }>;
   name?: string;
   arguments?: string;
   call_id?: string;
@@ -80,6 +86,76 @@ interface ResponseItemPayload {
 interface TurnContextPayload {
   model?: string;
   cwd?: string;
+  approval_policy?: string;
+}
+
+interface CodexTokenUsage {
+  input_tokens?: number;
+  cached_input_tokens?: number;
+  output_tokens?: number;
+  reasoning_output_tokens?: number;
+  total_tokens?: number;
+}
+
+interface EventMsgPayload {
+  type?: string;
+  reason?: string;
+  // token_count events
+  info?: {
+    total_token_usage?: CodexTokenUsage; // Cumulative for the session
+    last_token_usage?: CodexTokenUsage; // Latest model response
+  } | null;
+}
+
+// Response item types the parser turns into messages
+const RESPONSE_ITEM_TYPES = new Set<string>([
+  "message",
+  "function_call",
+  "function_call_output",
+  "reasoning",
+  "custom_tool_call",
+  "custom_tool_call_output",
+]);
+
+// Top-level entry types in the older/direct format
+const DIRECT_ENTRY_TYPES = new Set([
+  "message",
+  "function_call",
+  "function_call_output",
+  "reasoning",
+]);
+
+// Event lines that repeat information already in response items
+const SILENT_EVENT_TYPES = new Set(["event_msg"]);
+
+/**
+ * Normalize the git info recorded in session metadata
+ * Credentials in the remote URL (e.g. a CI token) are dropped
+ */
+function toGitContext(git?: CodexGitInfo): GitContext | undefined {
+  if (!git || (!git.repository_url && !git.branch && !git.commit_hash)) {
+    return undefined;
+  }
+  return {
+    repositoryUrl: git.repository_url
+      ? stripUrlCredentials(git.repository_url)
+      : undefined,
+    branch: git.branch || undefined,
+    commit: git.commit_hash || undefined,
+  };
+}
+
+/**
+ * Convert Codex token usage to line usage
+ * Input tokens include cached input, as in the OpenAI API
+ */
+function fromCodexUsage(usage: CodexTokenUsage): TokenUsage {
+  return {
+    inputTokens: usage.input_tokens || 0,
+    outputTokens: usage.output_tokens || 0,
+    cacheReadTokens: usage.cached_input_tokens || undefined,
+    thinkingTokens: usage.reasoning_output_tokens || undefined,
+  };
 }
 
 /**
@@ -252,6 +328,7 @@ interface MessageContext {
   content: ContentBlock[];
   timestamp: string;
   hasContent: boolean;
+  usage?: TokenUsage;
 }
 
 /**
@@ -263,17 +340,27 @@ interface SessionContext {
   lastTimestamp: string;
   cwd: string;
   gitBranch: string;
+  git?: GitContext;
+  tokenCounts?: TokenCounts;
   currentModel: string;
+  approvalPolicy: string;
 }
 
 /**
  * Process message content blocks (handles user instructions and environment skipping)
  */
 function processMessageContent(
-  contentArray: Array<{ type: string; text?: string }>,
+  contentArray: Array<{ type: string; text?: string; image_url?: string }>,
   messageCtx: MessageContext,
 ) {
   for (const item of contentArray) {
+    // Images attached with --image or pasted into the TUI
+    if (item.type === "input_image" && item.image_url) {
+      messageCtx.content.push(imageFromUrl(item.image_url));
+      messageCtx.hasContent = true;
+      continue;
+    }
+
     if (
       (item.type === "input_text" ||
         item.type === "output_text" ||
@@ -311,9 +398,9 @@ function processFunctionCall(
       input: parsedArgs,
     });
     messageCtx.hasContent = true;
-  } catch (err) {
-    console.error(`Failed to parse function call arguments for ${name}:`, err);
-    // Skip invalid function calls
+  } catch {
+    // Reported by the line loop, which skips the call
+    throw new Error(`invalid arguments for ${name}, tool call skipped`);
   }
 }
 
@@ -370,6 +457,7 @@ function handleSessionMeta(
   sessionCtx.sessionId = payload.id || "";
   sessionCtx.cwd = payload.cwd || "";
   sessionCtx.gitBranch = payload.git?.branch || "";
+  sessionCtx.git = toGitContext(payload.git);
 }
 
 /**
@@ -557,7 +645,7 @@ export class CodexProvider implements TranscriptProvider {
    * Detect if content is a Codex transcript
    * Handles both newer event-based format and older direct format
    */
-  detect(content: string): boolean {
+  detect(content: string): DetectionMatch | null {
     try {
       const lines = content.trim().split("\n").slice(0, 10);
 
@@ -572,13 +660,16 @@ export class CodexProvider implements TranscriptProvider {
             isSessionMetaPayload(parsed.payload)
           ) {
             if (parsed.payload.originator === "codex_exec") {
-              return true;
+              return {
+                score: 95,
+                evidence: ["found session_meta line from codex_exec"],
+              };
             }
           }
 
           // Newer format: Check for turn_context event
           if (parsed.type === "turn_context") {
-            return true;
+            return { score: 90, evidence: ["found turn_context line"] };
           }
 
           // Newer format: Check for response_item structure
@@ -587,39 +678,45 @@ export class CodexProvider implements TranscriptProvider {
             parsed.payload &&
             "type" in parsed.payload
           ) {
-            return true;
+            return { score: 85, evidence: ["found response_item line"] };
           }
 
           // Older/direct format: Check for record_type field
           if (parsed.record_type === "state") {
-            return true;
+            return { score: 90, evidence: ['found record_type "state" line'] };
           }
 
           // Older/direct format: Check for git metadata in first line
           if (parsed.git && parsed.timestamp && parsed.id) {
-            return true;
+            return {
+              score: 80,
+              evidence: ["found session header with git, timestamp and id"],
+            };
           }
 
           // Older/direct format: Check for reasoning with encrypted_content
           if (parsed.type === "reasoning" && "encrypted_content" in parsed) {
-            return true;
+            return {
+              score: 90,
+              evidence: ["found reasoning line with encrypted_content"],
+            };
           }
         } catch {
           // Skip invalid lines
         }
       }
     } catch {
-      return false;
+      return null;
     }
 
-    return false;
+    return null;
   }
 
   /**
    * Parse Codex JSONL transcript
    * Handles both newer event-based format and older direct format
    */
-  parse(content: string): ParsedTranscript {
+  parse(content: string, diagnostics?: ParseDiagnostics): ParsedTranscript {
     const lines = content.trim().split("\n");
     const messages: TranscriptLine[] = [];
 
@@ -631,6 +728,7 @@ export class CodexProvider implements TranscriptProvider {
       cwd: "",
       gitBranch: "",
       currentModel: "",
+      approvalPolicy: "",
     };
 
     // Message building context
@@ -658,6 +756,7 @@ export class CodexProvider implements TranscriptProvider {
           cwd: sessionCtx.cwd,
           gitBranch: sessionCtx.gitBranch || undefined,
           sessionId: sessionCtx.sessionId,
+          usage: messageCtx.role === "assistant" ? messageCtx.usage : undefined,
         };
         messages.push(transcriptLine);
 
@@ -665,10 +764,42 @@ export class CodexProvider implements TranscriptProvider {
         messageCtx.content = [];
         messageCtx.role = undefined;
         messageCtx.hasContent = false;
+        messageCtx.usage = undefined;
       }
     };
 
-    for (const line of lines) {
+    // Divider between messages, e.g. compaction or an interrupted turn
+    const pushSystemEvent = (systemEvent: SystemEvent, timestamp: string) => {
+      flushMessage();
+      messages.push({
+        type: "system_event",
+        systemEvent,
+        uuid: crypto.randomUUID(),
+        timestamp,
+        parentUuid: null,
+        cwd: sessionCtx.cwd,
+        sessionId: sessionCtx.sessionId,
+      });
+    };
+
+    // token_count events follow the response they measure
+    const recordUsage = (usage: TokenUsage) => {
+      if (messageCtx.role === "assistant" && messageCtx.hasContent) {
+        messageCtx.usage = addTokenUsage(messageCtx.usage, usage);
+        return;
+      }
+      const lastAssistant = messages.findLast(
+        (message) => message.type === "assistant",
+      );
+      if (lastAssistant) {
+        lastAssistant.usage = addTokenUsage(lastAssistant.usage, usage);
+      }
+    };
+
+    for (const [index, line] of lines.entries()) {
+      if (!line.trim()) continue;
+      const lineNumber = index + 1;
+
       try {
         const entry = JSON.parse(line) as CodexEvent & CodexDirectEntry;
 
@@ -676,6 +807,13 @@ export class CodexProvider implements TranscriptProvider {
         if (entry.record_type === "state") {
           continue;
         }
+        if (entry.record_type) {
+          diagnostics?.warn(
+            `unknown Codex record_type '${entry.record_type}'`,
+            { line: lineNumber, recordType: entry.record_type },
+          );
+          continue;
+        }
 
         // Handle session metadata (first line in older format)
         if (entry.id && entry.timestamp && entry.git && !entry.type) {
@@ -684,6 +822,7 @@ export class CodexProvider implements TranscriptProvider {
             sessionCtx.firstTimestamp = entry.timestamp;
           }
           sessionCtx.gitBranch = entry.git.branch || "";
+          sessionCtx.git = toGitContext(entry.git);
           continue;
         }
 
@@ -708,6 +847,39 @@ export class CodexProvider implements TranscriptProvider {
         if (entry.type === "turn_context" && entry.payload) {
           const payload = entry.payload as TurnContextPayload;
           handleTurnContext(payload, sessionCtx);
+
+          // Approval policy switches (e.g. /approvals) apply from the next turn
+          const policy = payload.approval_policy;
+          if (policy && policy !== sessionCtx.approvalPolicy) {
+            if (sessionCtx.approvalPolicy) {
+              pushSystemEvent(
+                {
+                  eventType: "mode_change",
+                  data: {
+                    mode: policy,
+                    previousMode: sessionCtx.approvalPolicy,
+                  },
+                },
+                entry.timestamp || sessionCtx.lastTimestamp,
+              );
+            }
+            sessionCtx.approvalPolicy = policy;
+          }
+          continue;
+        }
+
+        // Context compaction replaces the history with a summary
+        if (entry.type === "compacted") {
+          const summary = entry.payload?.message;
+          pushSystemEvent(
+            {
+              eventType: "compaction",
+              data: {
+                summary: typeof summary === "string" ? summary : undefined,
+              },
+            },
+            entry.timestamp || sessionCtx.lastTimestamp,
+          );
           continue;
         }
 
@@ -716,6 +888,13 @@ export class CodexProvider implements TranscriptProvider {
           entry.payload &&
           isResponseItemPayload(entry.payload)
         ) {
+          if (!RESPONSE_ITEM_TYPES.has(entry.payload.type)) {
+            diagnostics?.ignore(
+              `response_item/${entry.payload.type}`,
+              lineNumber,
+            );
+            continue;
+          }
           handleResponseItem(
             entry.payload,
             entry.timestamp || sessionCtx.lastTimestamp,
@@ -726,11 +905,48 @@ export class CodexProvider implements TranscriptProvider {
           continue;
         }
 
+        // Events (token counts, UI notifications) duplicate response items
+        if (entry.type && SILENT_EVENT_TYPES.has(entry.type)) {
+          const payload = entry.payload as EventMsgPayload | undefined;
+          if (payload?.type === "turn_aborted") {
+            pushSystemEvent(
+              {
+                eventType: "interruption",
+                data: { message: payload.reason },
+              },
+              entry.timestamp || sessionCtx.lastTimestamp,
+            );
+          }
+          if (payload?.type === "token_count" && payload.info) {
+            const { total_token_usage: total, last_token_usage: last } =
+              payload.info;
+            if (total) {
+              const usage = fromCodexUsage(total);
+              sessionCtx.tokenCounts = {
+                ...usage,
+                totalTokens: total.total_tokens || 0,
+              };
+            }
+            if (last) recordUsage(fromCodexUsage(last));
+          }
+          continue;
+        }
+
         // Handle older/direct format (messages, function calls, etc. at top level)
+        if (!entry.type || !DIRECT_ENTRY_TYPES.has(entry.type)) {
+          diagnostics?.ignore(entry.type || "untyped", lineNumber);
+          continue;
+        }
         handleDirectFormat(entry, messageCtx, sessionCtx, flushMessage);
       } catch (err) {
-        console.error("Failed to parse Codex event:", err);
-        // Skip invalid lines
+        diagnostics?.error(
+          err instanceof SyntaxError
+            ? "invalid JSON, line skipped"
+            : err instanceof Error
+              ? err.message
+              : String(err),
+          { line: lineNumber },
+        );
       }
     }
 
@@ -741,6 +957,8 @@ export class CodexProvider implements TranscriptProvider {
       messages,
       sessionId: sessionCtx.sessionId,
       cwd: sessionCtx.cwd,
+      git: sessionCtx.git,
+      tokenCounts: sessionCtx.tokenCounts,
       metadata: {
         firstTimestamp: sessionCtx.firstTimestamp,
         lastTimestamp: sessionCtx.lastTimestamp,
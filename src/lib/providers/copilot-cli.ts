@@ -6,16 +6,24 @@
 import type {
   ContentBlock,
   ParsedTranscript,
+  SystemEvent,
   TranscriptLine,
 } from "@/types/transcript";
-import type { TranscriptProvider } from "./types";
+import type { ParseDiagnostics } from "./diagnostics";
+import { imageFromBase64 } from "./images";
+import type { DetectionMatch, TranscriptProvider } from "./types";
+import { addTokenUsage } from "./usage";
 
 // Event type constants
 const EVENT_SESSION_START = "session.start";
 const EVENT_SESSION_INFO = "session.info";
 const EVENT_MODEL_CHANGE = "session.model_change";
+const EVENT_SESSION_RESUME = "session.resume";
+const EVENT_SESSION_TRUNCATION = "session.truncation";
+const EVENT_ABORT = "abort";
 const EVENT_USER_MESSAGE = "user.message";
 const EVENT_ASSISTANT_MESSAGE = "assistant.message";
+const EVENT_ASSISTANT_USAGE = "assistant.usage";
 
 interface CopilotEvent {
   type: string;
@@ -38,6 +46,14 @@ interface CopilotSessionInfo {
   message: string;
 }
 
+interface CopilotTruncation {
+  preTruncationTokensInMessages?: number;
+}
+
+interface CopilotAbort {
+  reason?: string;
+}
+
 interface CopilotModelChange {
   previousModel?: string;
   newModel: string;
@@ -45,7 +61,15 @@ interface CopilotModelChange {
 
 interface CopilotUserMessage {
   content: string;
-  attachments?: unknown[];
+  attachments?: CopilotAttachment[];
+}
+
+interface CopilotAttachment {
+  type: string; // "file", "image", ...
+  path?: string;
+  displayName?: string;
+  mimeType?: string;
+  data?: string; // Base64 content of pasted images
 }
 
 interface CopilotAssistantMessage {
@@ -54,6 +78,14 @@ interface CopilotAssistantMessage {
   toolRequests?: CopilotToolRequest[];
 }
 
+interface CopilotAssistantUsage {
+  model?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+}
+
 interface CopilotToolRequest {
   toolCallId: string;
   name: string;
@@ -64,7 +96,7 @@ export class CopilotCliProvider implements TranscriptProvider {
   readonly name = "copilot-cli";
   readonly displayName = "Copilot CLI";
 
-  detect(content: string): boolean {
+  detect(content: string): DetectionMatch | null {
     const lines = content.trim().split("\n").slice(0, 10);
 
     for (const line of lines) {
@@ -77,7 +109,10 @@ export class CopilotCliProvider implements TranscriptProvider {
             data.producer === "copilot-agent" ||
             data.copilotVersion !== undefined
           ) {
-            return true;
+            return {
+              score: 95,
+              evidence: [`found ${EVENT_SESSION_START} event from Copilot`],
+            };
           }
         }
 
@@ -89,17 +124,17 @@ export class CopilotCliProvider implements TranscriptProvider {
               (event.data as unknown as CopilotSessionInfo)?.infoType ===
                 "mcp"))
         ) {
-          return true;
+          return { score: 75, evidence: [`found ${event.type} event`] };
         }
       } catch {
         continue;
       }
     }
 
-    return false;
+    return null;
   }
 
-  parse(content: string): ParsedTranscript {
+  parse(content: string, diagnostics?: ParseDiagnostics): ParsedTranscript {
     const lines = content.trim().split("\n");
     const messages: TranscriptLine[] = [];
 
@@ -110,7 +145,21 @@ export class CopilotCliProvider implements TranscriptProvider {
 
     const folderTrustRegex = /Folder (.+) has been added to trusted folders/;
 
-    for (const line of lines) {
+    const pushSystemEvent = (event: CopilotEvent, systemEvent: SystemEvent) => {
+      messages.push({
+        type: "system_event",
+        systemEvent,
+        uuid: event.id,
+        timestamp: event.timestamp,
+        parentUuid: event.parentId,
+        sessionId,
+        cwd,
+      });
+    };
+
+    for (const [index, line] of lines.entries()) {
+      if (!line.trim()) continue;
+
       try {
         const event = JSON.parse(line) as CopilotEvent;
 
@@ -138,36 +187,85 @@ export class CopilotCliProvider implements TranscriptProvider {
                 cwd = match[1];
               }
             }
+            if (data.message) {
+              pushSystemEvent(event, {
+                eventType: "info",
+                data: { message: data.message, infoType: data.infoType },
+              });
+            }
             break;
           }
 
           case EVENT_MODEL_CHANGE: {
             const data = event.data as unknown as CopilotModelChange;
-            messages.push({
-              type: "system_event",
-              systemEvent: {
-                eventType: "model_change",
-                data: {
-                  newModel: data.newModel,
-                  previousModel: data.previousModel,
-                },
+            pushSystemEvent(event, {
+              eventType: "model_change",
+              data: {
+                newModel: data.newModel,
+                previousModel: data.previousModel,
               },
-              uuid: event.id,
-              timestamp: event.timestamp,
-              parentUuid: event.parentId,
-              sessionId,
-              cwd,
+            });
+            break;
+          }
+
+          case EVENT_SESSION_RESUME: {
+            pushSystemEvent(event, {
+              eventType: "session_resumed",
+              data: { sessionId: sessionId || undefined },
+            });
+            break;
+          }
+
+          case EVENT_SESSION_TRUNCATION: {
+            const data = event.data as unknown as CopilotTruncation;
+            pushSystemEvent(event, {
+              eventType: "compaction",
+              data: {
+                trigger: "auto",
+                preTokens: data.preTruncationTokensInMessages,
+              },
+            });
+            break;
+          }
+
+          case EVENT_ABORT: {
+            const data = event.data as unknown as CopilotAbort;
+            pushSystemEvent(event, {
+              eventType: "interruption",
+              data: { message: data.reason },
             });
             break;
           }
 
           case EVENT_USER_MESSAGE: {
             const data = event.data as unknown as CopilotUserMessage;
+            // Pasted images; file attachments are only referenced by path
+            const images = (data.attachments ?? []).flatMap((attachment) =>
+              attachment.data &&
+              (attachment.type === "image" ||
+                attachment.mimeType?.startsWith("image/"))
+                ? [
+                    imageFromBase64(
+                      attachment.mimeType,
+                      attachment.data,
+                      attachment.displayName ?? attachment.path,
+                    ),
+                  ]
+                : [],
+            );
             const transcriptLine: TranscriptLine = {
               type: "user",
               message: {
                 role: "user",
-                content: data.content,
+                content:
+                  images.length > 0
+                    ? [
+                        ...(data.content?.trim()
+                          ? [{ type: "text" as const, text: data.content }]
+                          : []),
+                        ...images,
+                      ]
+                    : data.content,
               },
               uuid: event.id,
               timestamp: event.timestamp,
@@ -236,9 +334,29 @@ export class CopilotCliProvider implements TranscriptProvider {
             }
             break;
           }
+
+          case EVENT_ASSISTANT_USAGE: {
+            // Usage of the model call behind the preceding assistant messages
+            const data = event.data as unknown as CopilotAssistantUsage;
+            const lastAssistant = messages.findLast(
+              (message) => message.type === "assistant",
+            );
+            if (lastAssistant) {
+              lastAssistant.usage = addTokenUsage(lastAssistant.usage, {
+                inputTokens: data.inputTokens || 0,
+                outputTokens: data.outputTokens || 0,
+                cacheReadTokens: data.cacheReadTokens || undefined,
+                cacheWriteTokens: data.cacheWriteTokens || undefined,
+              });
+            }
+            break;
+          }
+
+          default:
+            diagnostics?.ignore(event.type, index + 1);
         }
       } catch {
-        continue;
+        diagnostics?.error("invalid JSON, event skipped", { line: index + 1 });
       }
     }
 
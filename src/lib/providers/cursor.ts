@@ -0,0 +1,343 @@
+/**
+ * Cursor transcript provider
+ * Parses agent/composer sessions exported from Cursor's chat storage
+ */
+
+import type {
+  ContentBlock,
+  ParsedTranscript,
+  TranscriptLine,
+} from "@/types/transcript";
+import type { ParseDiagnostics } from "./diagnostics";
+import type { DetectionMatch, TranscriptProvider } from "./types";
+
+// Bubble type constants (Cursor stores these as numbers)
+const BUBBLE_TYPE_USER = 1;
+const BUBBLE_TYPE_AI = 2;
+
+/**
+ * Cursor composer structure (single JSON object, not JSONL)
+ */
+interface CursorComposer {
+  composerId: string;
+  name?: string;
+  createdAt?: number | string;
+  lastUpdatedAt?: number | string;
+  modelConfig?: {
+    modelName?: string;
+  };
+  conversation: CursorBubble[];
+}
+
+/**
+ * Cursor bubble structure (one entry per user prompt, reply or tool call)
+ */
+interface CursorBubble {
+  type: number;
+  bubbleId: string;
+  text?: string;
+  createdAt?: number | string;
+  thinking?: {
+    text?: string;
+  };
+  modelInfo?: {
+    modelName?: string;
+  };
+  toolFormerData?: CursorToolFormerData;
+}
+
+/**
+ * Cursor tool call structure attached to AI bubbles
+ */
+interface CursorToolFormerData {
+  toolCallId?: string;
+  name: string;
+  rawArgs?: string;
+  // biome-ignore lint/suspicious/noExplicitAny: Tool arguments can be any JSON structure
+  params?: Record<string, any> | string;
+  result?: string;
+  status?: string;
+}
+
+/**
+ * Normalize Cursor timestamps (epoch milliseconds or ISO strings) to ISO strings
+ */
+function toIsoTimestamp(value: number | string | undefined): string {
+  if (value === undefined || value === null || value === "") return "";
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? "" : date.toISOString();
+}
+
+/**
+ * Parse tool arguments, preferring the raw JSON the model produced
+ */
+function parseToolArgs(
+  toolData: CursorToolFormerData,
+  // biome-ignore lint/suspicious/noExplicitAny: Tool arguments can be any JSON structure
+): Record<string, any> {
+  const candidates = [toolData.rawArgs, toolData.params];
+
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    if (typeof candidate === "object") return candidate;
+    try {
+      const parsed = JSON.parse(candidate);
+      if (parsed && typeof parsed === "object") return parsed;
+    } catch {
+      // Try the next candidate
+    }
+  }
+
+  return {};
+}
+
+/**
+ * Normalize Cursor's JSON tool results into display text
+ * Each tool serializes a different result shape, so pick out the useful part
+ */
+function parseToolResult(result: string | undefined): {
+  content: string;
+  metadata?: { exit_code?: number };
+} {
+  if (!result) return { content: "" };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(result);
+  } catch {
+    return { content: result };
+  }
+
+  if (typeof parsed === "string") {
+    return { content: parsed };
+  }
+
+  if (typeof parsed !== "object" || parsed === null) {
+    return { content: result };
+  }
+
+  const data = parsed as Record<string, unknown>;
+
+  // run_terminal_cmd: {output, exitCode}
+  if (typeof data.output === "string") {
+    return {
+      content: data.output,
+      metadata:
+        typeof data.exitCode === "number"
+          ? { exit_code: data.exitCode }
+          : undefined,
+    };
+  }
+
+  // read_file: {contents}
+  if (typeof data.contents === "string") {
+    return { content: data.contents };
+  }
+
+  // codebase_search: {codeResults: [{codeBlock: {relativeWorkspacePath, contents}}]}
+  if (Array.isArray(data.codeResults)) {
+    const sections = data.codeResults
+      .map((item: { codeBlock?: Record<string, unknown> }) => {
+        const block = item.codeBlock;
+        if (!block) return null;
+        const path = block.relativeWorkspacePath;
+        const contents = block.contents;
+        if (typeof path !== "string") return null;
+        return typeof contents === "string" ? `${path}\n${contents}` : path;
+      })
+      .filter((section): section is string => section !== null);
+    return { content: sections.join("\n\n") };
+  }
+
+  // edit_file: {diff: {chunks: [{diffString}]}}
+  const diff = data.diff as { chunks?: Array<{ diffString?: string }> };
+  if (diff && Array.isArray(diff.chunks)) {
+    return {
+      content: diff.chunks
+        .map((chunk) => chunk.diffString)
+        .filter(Boolean)
+        .join("\n"),
+    };
+  }
+
+  return { content: JSON.stringify(parsed, null, 2) };
+}
+
+/**
+ * Convert a tool bubble into tool_use + tool_result blocks
+ */
+function parseToolCall(
+  toolData: CursorToolFormerData,
+  fallbackId: string,
+): ContentBlock[] {
+  const id = toolData.toolCallId || fallbackId;
+  const blocks: ContentBlock[] = [
+    {
+      type: "tool_use",
+      id,
+      name: toolData.name,
+      input: parseToolArgs(toolData),
+    },
+  ];
+
+  if (toolData.result !== undefined || toolData.status === "error") {
+    const { content, metadata } = parseToolResult(toolData.result);
+    blocks.push({
+      type: "tool_result",
+      tool_use_id: id,
+      content,
+      is_error: toolData.status === "error" ? true : undefined,
+      metadata,
+    });
+  }
+
+  return blocks;
+}
+
+/**
+ * Cursor provider implementation
+ */
+export class CursorProvider implements TranscriptProvider {
+  readonly name = "cursor";
+  readonly displayName = "Cursor";
+
+  /**
+   * Detect if content is a Cursor composer export
+   * Cursor uses a single JSON object (not JSONL) keyed by composerId
+   */
+  detect(content: string): DetectionMatch | null {
+    try {
+      const parsed = JSON.parse(content) as Partial<CursorComposer>;
+
+      if (parsed.composerId && Array.isArray(parsed.conversation)) {
+        const hasBubbles = parsed.conversation.some(
+          (bubble) =>
+            typeof bubble.bubbleId === "string" &&
+            (bubble.type === BUBBLE_TYPE_USER ||
+              bubble.type === BUBBLE_TYPE_AI),
+        );
+        if (!hasBubbles) return null;
+
+        return {
+          score: 95,
+          evidence: ["found composerId", "found conversation bubbles"],
+        };
+      }
+    } catch {
+      return null;
+    }
+
+    return null;
+  }
+
+  /**
+   * Parse Cursor composer JSON transcript
+   * Consecutive AI bubbles (text, thinking and tool calls) are merged into a single assistant message
+   */
+  parse(content: string, diagnostics?: ParseDiagnostics): ParsedTranscript {
+    let composer: CursorComposer;
+
+    try {
+      composer = JSON.parse(content) as CursorComposer;
+    } catch (error) {
+      throw new Error(
+        `Failed to parse Cursor session JSON: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    const messages: TranscriptLine[] = [];
+    const sessionTimestamp = toIsoTimestamp(composer.createdAt);
+    let firstTimestamp = "";
+    let lastTimestamp = "";
+    let current: TranscriptLine | null = null;
+
+    const flush = () => {
+      if (current && (current.message?.content as ContentBlock[]).length > 0) {
+        messages.push(current);
+      }
+      current = null;
+    };
+
+    for (const bubble of composer.conversation || []) {
+      const timestamp =
+        toIsoTimestamp(bubble.createdAt) || lastTimestamp || sessionTimestamp;
+
+      if (timestamp) {
+        if (!firstTimestamp || timestamp < firstTimestamp) {
+          firstTimestamp = timestamp;
+        }
+        if (!lastTimestamp || timestamp > lastTimestamp) {
+          lastTimestamp = timestamp;
+        }
+      }
+
+      if (bubble.type === BUBBLE_TYPE_USER) {
+        flush();
+        if (bubble.text?.trim()) {
+          messages.push({
+            type: "user",
+            message: {
+              role: "user",
+              content: [{ type: "text", text: bubble.text }],
+            },
+            uuid: bubble.bubbleId,
+            timestamp,
+            parentUuid: null,
+            sessionId: composer.composerId,
+          });
+        }
+        continue;
+      }
+
+      if (bubble.type !== BUBBLE_TYPE_AI) {
+        diagnostics?.ignore(`bubble type ${bubble.type}`);
+        continue;
+      }
+
+      if (!current) {
+        current = {
+          type: "assistant",
+          message: {
+            role: "assistant",
+            content: [],
+            model:
+              bubble.modelInfo?.modelName || composer.modelConfig?.modelName,
+          },
+          uuid: bubble.bubbleId,
+          timestamp,
+          parentUuid: null,
+          sessionId: composer.composerId,
+        };
+      }
+
+      const blocks = current.message?.content as ContentBlock[];
+
+      if (bubble.thinking?.text?.trim()) {
+        blocks.push({ type: "thinking", thinking: bubble.thinking.text });
+      }
+
+      if (bubble.text?.trim()) {
+        blocks.push({ type: "text", text: bubble.text });
+      }
+
+      if (bubble.toolFormerData?.name) {
+        blocks.push(...parseToolCall(bubble.toolFormerData, bubble.bubbleId));
+      }
+    }
+
+    flush();
+
+    return {
+      messages,
+      sessionId: composer.composerId,
+      metadata: {
+        firstTimestamp: firstTimestamp || sessionTimestamp,
+        lastTimestamp:
+          lastTimestamp ||
+          toIsoTimestamp(composer.lastUpdatedAt) ||
+          sessionTimestamp,
+        messageCount: messages.length,
+      },
+    };
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Parse diagnostics collected while a provider parses a transcript
+ * Surfaces lines that were malformed or ignored, so format changes in a CLI
+ * show up instead of silently dropping content
+ */
+
+import type { ParseDiagnostic } from "@/types/transcript";
+
+// Keep stored metadata small for transcripts with many bad lines
+const MAX_DIAGNOSTICS = 50;
+
+interface DiagnosticDetails {
+  line?: number;
+  recordType?: string;
+}
+
+/**
+ * Diagnostics channel passed to TranscriptProvider.parse
+ */
+export class ParseDiagnostics {
+  private readonly entries: ParseDiagnostic[] = [];
+  private readonly ignored = new Map<
+    string,
+    { count: number; firstLine?: number }
+  >();
+  private omitted = 0;
+
+  /**
+   * Report content that was parsed but may render incorrectly
+   */
+  warn(message: string, details: DiagnosticDetails = {}): void {
+    this.add({ severity: "warning", message, ...details });
+  }
+
+  /**
+   * Report content that could not be parsed and was dropped
+   */
+  error(message: string, details: DiagnosticDetails = {}): void {
+    this.add({ severity: "error", message, ...details });
+  }
+
+  /**
+   * Count a record the provider does not know how to display
+   * Repeated record types are reported once with a count
+   */
+  ignore(recordType: string, line?: number): void {
+    const existing = this.ignored.get(recordType);
+    if (existing) {
+      existing.count++;
+    } else {
+      this.ignored.set(recordType, { count: 1, firstLine: line });
+    }
+  }
+
+  /**
+   * All diagnostics, errors first
+   */
+  list(): ParseDiagnostic[] {
+    const ignored: ParseDiagnostic[] = Array.from(this.ignored.entries()).map(
+      ([recordType, { count, firstLine }]) => ({
+        severity: "warning",
+        message: `${count} ${count === 1 ? "line" : "lines"} of type '${recordType}' ignored`,
+        line: firstLine,
+        recordType,
+        count,
+      }),
+    );
+
+    const result = [...this.entries, ...ignored].sort((a, b) =>
+      a.severity === b.severity ? 0 : a.severity === "error" ? -1 : 1,
+    );
+
+    if (this.omitted > 0) {
+      result.push({
+        severity: "warning",
+        message: `${this.omitted} more diagnostics omitted`,
+        count: this.omitted,
+      });
+    }
+
+    return result;
+  }
+
+  private add(diagnostic: ParseDiagnostic): void {
+    if (this.entries.length >= MAX_DIAGNOSTICS) {
+      this.omitted++;
+      return;
+    }
+    this.entries.push(diagnostic);
+  }
+}
+
+/**
+ * Format a diagnostic for display, e.g. "line 812: unknown Codex record_type 'x'"
+ */
+export function formatDiagnostic(diagnostic: ParseDiagnostic): string {
+  return diagnostic.line !== undefined && diagnostic.count === undefined
+    ? `line ${diagnostic.line}: ${diagnostic.message}`
+    : diagnostic.message;
+}
@@ -9,7 +9,9 @@ import type {
   ParsedTranscript,
   TranscriptLine,
 } from "@/types/transcript";
-import type { TranscriptProvider } from "./types";
+import type { ParseDiagnostics } from "./diagnostics";
+import { imageFromBase64 } from "./images";
+import type { DetectionMatch, TranscriptProvider } from "./types";
 
 /**
  * Gemini session structure (single JSON object, not JSONL)
@@ -28,8 +30,8 @@ interface GeminiSession {
 interface GeminiMessage {
   id: string;
   timestamp: string;
-  type: "user" | "gemini";
-  content: string;
+  type: "user" | "gemini" | "info" | "warning" | "error";
+  content: string | GeminiPart[]; // Parts when the prompt includes images
   toolCalls?: GeminiToolCall[];
   thoughts?: GeminiThought[];
   model?: string;
@@ -43,6 +45,17 @@ interface GeminiMessage {
   };
 }
 
+/**
+ * Gemini content part: text or inline data such as a pasted image
+ */
+interface GeminiPart {
+  text?: string;
+  inlineData?: {
+    mimeType: string;
+    data: string;
+  };
+}
+
 /**
  * Gemini tool call structure
  */
@@ -64,6 +77,9 @@ interface GeminiToolCall {
     | {
         text: string;
       }
+    | {
+        inlineData: GeminiPart["inlineData"];
+      }
   >;
   status: string;
   timestamp: string;
@@ -101,13 +117,52 @@ function formatGeminiModelName(modelId: string): string | null {
   return modelId;
 }
 
+/**
+ * Image block for an inline data part, or null for other data
+ */
+function parseInlineImage(part: GeminiPart): ContentBlock | null {
+  const inlineData = part.inlineData;
+  if (!inlineData?.data || !inlineData.mimeType?.startsWith("image/")) {
+    return null;
+  }
+  return imageFromBase64(inlineData.mimeType, inlineData.data);
+}
+
+/**
+ * Parse message content (plain text or parts) into content blocks
+ */
+function parseMessageContent(
+  content: GeminiMessage["content"],
+): ContentBlock[] {
+  if (typeof content === "string") {
+    return content.trim() ? [{ type: "text", text: content }] : [];
+  }
+  if (!Array.isArray(content)) return [];
+
+  const blocks: ContentBlock[] = [];
+  for (const part of content) {
+    if (typeof part.text === "string" && part.text.trim()) {
+      blocks.push({ type: "text", text: part.text });
+      continue;
+    }
+    const image = parseInlineImage(part);
+    if (image) blocks.push(image);
+  }
+  return blocks;
+}
+
 /**
  * Parse Gemini tool calls into content blocks
  */
-function parseToolCalls(toolCalls: GeminiToolCall[]): ContentBlock[] {
+function parseToolCalls(
+  toolCalls: GeminiToolCall[],
+  diagnostics?: ParseDiagnostics,
+): ContentBlock[] {
   const blocks: ContentBlock[] = [];
 
   for (const toolCall of toolCalls) {
+    const images: ContentBlock[] = [];
+
     // Add tool_use block
     blocks.push({
       type: "tool_use",
@@ -127,10 +182,10 @@ function parseToolCalls(toolCalls: GeminiToolCall[]): ContentBlock[] {
           if ("functionResponse" in result && result.functionResponse) {
             const response = result.functionResponse?.response;
             if (!response) {
-              console.warn("Tool result missing response field", {
-                toolCallId: toolCall.id,
-                toolName: toolCall.name,
-              });
+              diagnostics?.warn(
+                `tool call ${toolCall.id}: result missing response field`,
+                { recordType: toolCall.name },
+              );
               continue;
             }
 
@@ -138,27 +193,30 @@ function parseToolCalls(toolCalls: GeminiToolCall[]): ContentBlock[] {
             if (output && typeof output === "string") {
               contentParts.push(output);
             } else if (output) {
-              console.warn("Tool result output is not a string", {
-                toolCallId: toolCall.id,
-                outputType: typeof output,
-              });
+              diagnostics?.warn(
+                `tool call ${toolCall.id}: ${typeof output} output ignored`,
+                { recordType: toolCall.name },
+              );
             }
           }
           // Handle text items (actual content, like file contents from read_many_files)
           else if ("text" in result && typeof result.text === "string") {
             contentParts.push(result.text);
+          }
+          // Images read by a tool (e.g. read_many_files on a screenshot)
+          else if ("inlineData" in result && result.inlineData) {
+            const image = parseInlineImage(result);
+            if (image) images.push(image);
           } else {
-            console.warn("Unrecognized tool result format", {
-              toolCallId: toolCall.id,
-              resultKeys: Object.keys(result),
-            });
+            diagnostics?.ignore(
+              `tool result with ${Object.keys(result).join(", ") || "no"} fields`,
+            );
           }
         } catch (err) {
-          console.error("Failed to extract tool result content", {
-            error: err instanceof Error ? err.message : String(err),
-            toolCallId: toolCall.id,
-            toolName: toolCall.name,
-          });
+          diagnostics?.error(
+            `tool call ${toolCall.id}: ${err instanceof Error ? err.message : String(err)}`,
+            { recordType: toolCall.name },
+          );
         }
       }
 
@@ -169,12 +227,8 @@ function parseToolCalls(toolCalls: GeminiToolCall[]): ContentBlock[] {
           tool_use_id: toolCall.id,
           content: contentParts.join("\n"),
         });
-      } else {
-        console.debug("Tool call produced no content parts", {
-          toolCallId: toolCall.id,
-          resultCount: toolCall.result.length,
-        });
       }
+      blocks.push(...images);
     }
   }
 
@@ -205,7 +259,7 @@ export class GeminiProvider implements TranscriptProvider {
    * Detect if content is a Gemini CLI transcript
    * Gemini uses a single JSON object (not JSONL)
    */
-  detect(content: string): boolean {
+  detect(content: string): DetectionMatch | null {
     try {
       // Try to parse as JSON (not JSONL)
       const parsed = JSON.parse(content) as Partial<GeminiSession>;
@@ -225,20 +279,30 @@ export class GeminiProvider implements TranscriptProvider {
           Array.isArray(msg.thoughts),
         );
 
-        return hasGeminiMessage || hasThoughts;
+        if (!hasGeminiMessage && !hasThoughts) return null;
+
+        return {
+          score: 95,
+          evidence: [
+            "found sessionId+projectHash",
+            hasGeminiMessage
+              ? 'found message with type "gemini"'
+              : "found message with thoughts",
+          ],
+        };
       }
     } catch {
       // Not valid JSON or wrong structure
-      return false;
+      return null;
     }
 
-    return false;
+    return null;
   }
 
   /**
    * Parse Gemini CLI JSON transcript
    */
-  parse(content: string): ParsedTranscript {
+  parse(content: string, diagnostics?: ParseDiagnostics): ParsedTranscript {
     let session: GeminiSession;
 
     try {
@@ -258,12 +322,36 @@ export class GeminiProvider implements TranscriptProvider {
       // These are duplicates - the tool results are already in the toolCalls array
       if (
         geminiMessage.type === "user" &&
-        geminiMessage.content &&
+        typeof geminiMessage.content === "string" &&
         geminiMessage.content.startsWith("[Function Response:")
       ) {
         continue;
       }
 
+      // CLI notices (e.g. cancelled requests) are not part of the conversation
+      if (geminiMessage.type !== "user" && geminiMessage.type !== "gemini") {
+        if (
+          typeof geminiMessage.content === "string" &&
+          geminiMessage.content.trim()
+        ) {
+          messages.push({
+            type: "system_event",
+            systemEvent: {
+              eventType: "info",
+              data: {
+                message: geminiMessage.content,
+                infoType: geminiMessage.type,
+              },
+            },
+            uuid: geminiMessage.id,
+            timestamp: geminiMessage.timestamp,
+            parentUuid: null,
+            sessionId: session.sessionId,
+          });
+        }
+        continue;
+      }
+
       const contentBlocks: ContentBlock[] = [];
 
       // Map Gemini message type to our role format
@@ -275,17 +363,14 @@ export class GeminiProvider implements TranscriptProvider {
         contentBlocks.push(...parseThoughts(geminiMessage.thoughts));
       }
 
-      // Add text content (if present)
-      if (geminiMessage.content && geminiMessage.content.trim()) {
-        contentBlocks.push({
-          type: "text",
-          text: geminiMessage.content,
-        });
-      }
+      // Add text and image content (if present)
+      contentBlocks.push(...parseMessageContent(geminiMessage.content));
 
       // Add tool calls (if present)
       if (geminiMessage.toolCalls && geminiMessage.toolCalls.length > 0) {
-        contentBlocks.push(...parseToolCalls(geminiMessage.toolCalls));
+        contentBlocks.push(
+          ...parseToolCalls(geminiMessage.toolCalls, diagnostics),
+        );
       }
 
       // Only create a transcript line if we have content
@@ -301,6 +386,20 @@ export class GeminiProvider implements TranscriptProvider {
           timestamp: geminiMessage.timestamp,
           parentUuid: null, // Gemini doesn't track message relationships
           sessionId: session.sessionId,
+          usage: geminiMessage.tokens
+            ? {
+                inputTokens: geminiMessage.tokens.input || 0,
+                // Gemini counts thoughts separately from the output; other
+                // providers include thinking in the output tokens
+                outputTokens:
+                  (geminiMessage.tokens.output || 0) +
+                  (geminiMessage.tokens.thoughts || 0),
+                cacheReadTokens: geminiMessage.tokens.cached || undefined,
+                thinkingTokens: geminiMessage.tokens.thoughts || undefined,
+                toolTokens: geminiMessage.tokens.tool || undefined,
+                contextTokens: geminiMessage.tokens.input || undefined,
+              }
+            : undefined,
         };
 
         messages.push(transcriptLine);
@@ -0,0 +1,108 @@
+/**
+ * Image content helpers shared by providers
+ * Large base64 payloads are replaced by an asset reference when a transcript
+ * is uploaded (see lib/assets.ts); images built here point at the stored
+ * asset instead of carrying the data.
+ */
+
+import type { ContentBlock, ImageContent } from "@/types/transcript";
+
+export const ASSET_REF_PREFIX = "ai-sessions-asset:";
+
+const DATA_URL_PATTERN = /^data:([^;,]+)?(?:;[^,]*)?;base64,([\s\S]*)$/;
+
+/**
+ * Image from base64 data or an asset reference left in its place
+ */
+export function imageFromBase64(
+  mediaType: string | undefined,
+  data: string,
+  alt?: string,
+): ImageContent {
+  return data.startsWith(ASSET_REF_PREFIX)
+    ? {
+        type: "image",
+        mediaType,
+        assetId: data.slice(ASSET_REF_PREFIX.length),
+        alt,
+      }
+    : { type: "image", mediaType, data, alt };
+}
+
+/**
+ * Image from a URL, decoding base64 data URLs
+ */
+export function imageFromUrl(url: string, alt?: string): ImageContent {
+  const match = DATA_URL_PATTERN.exec(url);
+  return match
+    ? imageFromBase64(match[1], match[2], alt)
+    : { type: "image", url, alt };
+}
+
+interface AnthropicImageBlock {
+  type: "image";
+  source?: {
+    type?: string; // "base64" or "url"
+    media_type?: string;
+    data?: string;
+    url?: string;
+  };
+}
+
+/**
+ * Convert an Anthropic image block (Claude Code, Agent SDK, Cline, Messages
+ * API), or return null when it has no data
+ */
+export function fromAnthropicImage(block: unknown): ImageContent | null {
+  const source = (block as AnthropicImageBlock | null)?.source;
+  if (source?.data) return imageFromBase64(source.media_type, source.data);
+  if (source?.url) return imageFromUrl(source.url);
+  return null;
+}
+
+/**
+ * Replace raw Anthropic image blocks in message content with image content,
+ * dropping images without data
+ */
+export function normalizeImageBlocks(blocks: ContentBlock[]): ContentBlock[] {
+  return blocks.flatMap((block): ContentBlock[] => {
+    if (block.type !== "image") return [block];
+    const image = fromAnthropicImage(block);
+    return image ? [image] : [];
+  });
+}
+
+/**
+ * Source URL for displaying an image block
+ * Remote images are never loaded: the URL is chosen by the uploader, and
+ * every viewer of a shared transcript would request it (see getRemoteImageUrl)
+ * @param assetBaseUrl - URL that stored assets are served under
+ * @returns The URL, or null when the image has no data or its asset cannot
+ * be served
+ */
+export function getImageSrc(
+  image: ImageContent,
+  assetBaseUrl?: string,
+): string | null {
+  if (image.data) {
+    return `data:${image.mediaType || "image/png"};base64,${image.data}`;
+  }
+  if (image.assetId) {
+    return assetBaseUrl ? `${assetBaseUrl}/${image.assetId}` : null;
+  }
+  return null;
+}
+
+/**
+ * Link target for a remote image, to show as a text link
+ * @returns The URL, or null for images with data and non-http(s) URLs
+ */
+export function getRemoteImageUrl(image: ImageContent): string | null {
+  if (image.data || image.assetId || !image.url) return null;
+  try {
+    const { protocol } = new URL(image.url);
+    return protocol === "https:" || protocol === "http:" ? image.url : null;
+  } catch {
+    return null;
+  }
+}
@@ -3,23 +3,48 @@
  */
 
 import { log } from "@/lib/logger";
+import { getAllMessages } from "@/lib/transcript-utils";
 import type { ParsedTranscript, TokenCounts } from "@/types/transcript";
+import { AiderProvider } from "./aider";
+import { readBundle } from "./bundle";
+import { ClaudeAgentSdkProvider } from "./claude-agent-sdk";
 import { ClaudeCodeProvider } from "./claude-code";
+import { ClineProvider } from "./cline";
 import { CodexProvider } from "./codex";
 import { CopilotCliProvider } from "./copilot-cli";
+import { CursorProvider } from "./cursor";
+import { ParseDiagnostics } from "./diagnostics";
 import { GeminiProvider } from "./gemini";
+import { InterchangeProvider } from "./interchange";
+import { mergeTranscripts } from "./merge";
+import { MessagesApiProvider } from "./messages-api";
 import { MistralVibeProvider } from "./mistral-vibe";
-import type { DetectionResult, TranscriptProvider } from "./types";
+import { OpenHandsProvider } from "./openhands";
+import { SweAgentProvider } from "./swe-agent";
+import type {
+  DetectionCandidate,
+  DetectionResult,
+  TranscriptProvider,
+} from "./types";
+import { sumTokenUsage } from "./usage";
 
 /**
  * Registry of all available providers
  */
 const providers: TranscriptProvider[] = [
+  new InterchangeProvider(),
+  new ClaudeAgentSdkProvider(),
   new ClaudeCodeProvider(),
   new CodexProvider(),
   new CopilotCliProvider(),
   new GeminiProvider(),
   new MistralVibeProvider(),
+  new CursorProvider(),
+  new AiderProvider(),
+  new ClineProvider(),
+  new SweAgentProvider(),
+  new OpenHandsProvider(),
+  new MessagesApiProvider(),
 ];
 
 /**
@@ -36,21 +61,36 @@ export function getAvailableProviders(): string[] {
   return providers.map((p) => p.name);
 }
 
+/**
+ * Map a detection score to a confidence level
+ */
+function scoreToConfidence(score: number): DetectionResult["confidence"] {
+  if (score >= 80) return "high";
+  if (score >= 50) return "medium";
+  return "low";
+}
+
 /**
  * Detect which provider should be used for the given content
- * Returns the first provider that reports it can handle the content
+ * Every provider scores the content; the highest score wins, with registry
+ * order breaking ties
  */
 export function detectProvider(content: string): DetectionResult {
+  // Multi-file uploads are detected from their first file
+  const bundleFiles = readBundle(content);
+  if (bundleFiles && bundleFiles.length > 0) {
+    return detectProvider(bundleFiles[0].content);
+  }
+
   const detectionErrors: Array<{ provider: string; error: string }> = [];
+  const candidates: DetectionCandidate[] = [];
 
-  // Try each provider's detect method
+  // Score content with each provider's detect method
   for (const provider of providers) {
     try {
-      if (provider.detect(content)) {
-        return {
-          provider: provider.name,
-          confidence: "high",
-        };
+      const match = provider.detect(content);
+      if (match && match.score > 0) {
+        candidates.push({ provider: provider.name, ...match });
       }
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
@@ -72,23 +112,39 @@ export function detectProvider(content: string): DetectionResult {
     });
   }
 
+  // Array.prototype.sort is stable, so equal scores keep registry order
+  candidates.sort((a, b) => b.score - a.score);
+
+  const best = candidates[0];
+  if (best) {
+    return {
+      provider: best.provider,
+      confidence: scoreToConfidence(best.score),
+      score: best.score,
+      evidence: best.evidence,
+      candidates,
+      detectionErrors: detectionErrors.length > 0 ? detectionErrors : undefined,
+    };
+  }
+
   // Fallback to claude-code with low confidence
   return {
     provider: "claude-code",
     confidence: "low",
+    score: 0,
+    evidence: ["no provider matched, defaulting to claude-code"],
+    candidates,
     detectionErrors: detectionErrors.length > 0 ? detectionErrors : undefined,
   };
 }
 
 /**
- * Parse transcript content using the appropriate provider
- * @param content Raw JSONL content
- * @param providerHint Optional hint about which provider to use (from database)
- * @returns Parsed transcript
+ * Parse a single file with the hinted or detected provider
  */
-export function parseTranscript(
+function parseWithProvider(
   content: string,
-  providerHint?: string,
+  providerHint: string | undefined,
+  diagnostics: ParseDiagnostics,
 ): ParsedTranscript {
   let provider: TranscriptProvider | null = null;
 
@@ -109,14 +165,45 @@ export function parseTranscript(
   }
 
   try {
-    return provider.parse(content);
+    return provider.parse(content, diagnostics);
   } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    diagnostics.error(errorMsg);
     throw new Error(
-      `Failed to parse transcript with ${provider.name} provider: ${error instanceof Error ? error.message : String(error)}`,
+      `Failed to parse transcript with ${provider.name} provider: ${errorMsg}`,
     );
   }
 }
 
+/**
+ * Parse transcript content using the appropriate provider
+ * Multi-file bundles (resumed sessions) are parsed file by file and stitched
+ * into one transcript
+ * @param content Raw JSONL content
+ * @param providerHint Optional hint about which provider to use (from database)
+ * @param diagnostics Collector for malformed or ignored lines; still holds
+ * what was found when parsing throws
+ * @returns Parsed transcript
+ */
+export function parseTranscript(
+  content: string,
+  providerHint?: string,
+  diagnostics: ParseDiagnostics = new ParseDiagnostics(),
+): ParsedTranscript {
+  const bundleFiles = readBundle(content);
+  const parsed = bundleFiles
+    ? mergeTranscripts(
+        bundleFiles.map((file) =>
+          parseWithProvider(file.content, providerHint, diagnostics),
+        ),
+        bundleFiles.map((file) => file.name),
+      )
+    : parseWithProvider(content, providerHint, diagnostics);
+
+  const found = diagnostics.list();
+  return found.length > 0 ? { ...parsed, diagnostics: found } : parsed;
+}
+
 /**
  * Calculate model usage statistics from transcript messages
  * Works with any provider's parsed transcript
@@ -136,7 +223,7 @@ export function calculateModelStats(
   const provider = providerHint ? getProviderByName(providerHint) : null;
 
   // Count messages by model (only assistant messages with model metadata)
-  for (const line of transcript.messages) {
+  for (const line of getAllMessages(transcript)) {
     if (line.message?.role === "assistant" && line.message.model) {
       let friendlyName: string | null = null;
 
@@ -175,163 +262,63 @@ export function calculateModelStats(
 }
 
 /**
- * Calculate total token usage from transcript
- * Extracts and aggregates token information from provider-specific formats
- * @param content Raw JSONL/JSON content (needed to extract provider-specific token data)
- * @param providerName Provider name to use correct extraction logic
+ * Calculate total token usage of a parsed transcript
+ * Uses the provider's calculateTokenCounts hook when it has one, otherwise
+ * the totals recorded by the tool or the sum of per-response usage
+ * @param transcript Parsed transcript (usage is attached to assistant lines)
+ * @param providerName Provider that parsed the transcript
  * @returns Aggregated token counts or null if no token data available
  */
-export function calculateTokenCounts(
-  content: string,
+export function calculateTranscriptTokenCounts(
+  transcript: ParsedTranscript,
   providerName: string,
 ): TokenCounts | null {
-  const lines = content.trim().split("\n");
-
-  if (providerName === "claude-code") {
-    // Claude Code: Extract from assistant messages with .message.usage
-    let totalInput = 0;
-    let totalOutput = 0;
-    let maxCacheRead = 0;
-    let maxCacheWrite = 0;
-
-    for (const line of lines) {
-      try {
-        const parsed = JSON.parse(line);
-        if (parsed.type === "assistant" && parsed.message?.usage) {
-          const usage = parsed.message.usage;
-          totalInput += usage.input_tokens || 0;
-          totalOutput += usage.output_tokens || 0;
-          // Cache tokens are cumulative in Claude's API, so use max instead of sum
-          maxCacheRead = Math.max(
-            maxCacheRead,
-            usage.cache_read_input_tokens || 0,
-          );
-          maxCacheWrite = Math.max(
-            maxCacheWrite,
-            usage.cache_creation_input_tokens || 0,
-          );
-        }
-      } catch {
-        // Skip malformed lines
-      }
-    }
-
-    if (totalInput === 0 && totalOutput === 0) return null;
-
-    return {
-      inputTokens: totalInput,
-      outputTokens: totalOutput,
-      // Total includes all tokens: fresh input + cached input + output
-      totalTokens: totalInput + maxCacheRead + totalOutput,
-      cacheReadTokens: maxCacheRead > 0 ? maxCacheRead : undefined,
-      cacheWriteTokens: maxCacheWrite > 0 ? maxCacheWrite : undefined,
-    };
+  const provider = getProviderByName(providerName);
+  if (!provider) return null;
+  if (provider.calculateTokenCounts) {
+    return provider.calculateTokenCounts(transcript);
   }
+  return transcript.tokenCounts ?? sumTokenUsage(getAllMessages(transcript));
+}
 
-  if (providerName === "gemini-cli") {
-    // Gemini: Parse JSON and extract from .messages[].tokens
-    try {
-      const data = JSON.parse(content);
-      if (!data.messages || !Array.isArray(data.messages)) return null;
-
-      let totalInput = 0;
-      let totalOutput = 0;
-      let totalCached = 0;
-      let totalThinking = 0;
-      let totalTool = 0;
-
-      for (const message of data.messages) {
-        if (message.tokens) {
-          totalInput += message.tokens.input || 0;
-          totalOutput += message.tokens.output || 0;
-          totalCached += message.tokens.cached || 0;
-          totalThinking += message.tokens.thoughts || 0;
-          totalTool += message.tokens.tool || 0;
-        }
-      }
-
-      if (totalInput === 0 && totalOutput === 0) return null;
-
-      return {
-        inputTokens: totalInput,
-        outputTokens: totalOutput,
-        totalTokens: totalInput + totalOutput,
-        cacheReadTokens: totalCached > 0 ? totalCached : undefined,
-        thinkingTokens: totalThinking > 0 ? totalThinking : undefined,
-        toolTokens: totalTool > 0 ? totalTool : undefined,
-      };
-    } catch {
-      return null;
-    }
-  }
-
-  if (providerName === "codex") {
-    // Codex: Extract from event_msg with payload.type === "token_count"
-    // Use the last token_count event for cumulative totals
-    let lastTokenData: TokenCounts | null = null;
-
-    for (const line of lines) {
-      try {
-        const parsed = JSON.parse(line);
-        if (
-          parsed.type === "event_msg" &&
-          parsed.payload?.type === "token_count" &&
-          parsed.payload?.info?.total_token_usage
-        ) {
-          const usage = parsed.payload.info.total_token_usage;
-          lastTokenData = {
-            inputTokens: usage.input_tokens || 0,
-            outputTokens: usage.output_tokens || 0,
-            totalTokens: usage.total_tokens || 0,
-            cacheReadTokens:
-              usage.cached_input_tokens > 0
-                ? usage.cached_input_tokens
-                : undefined,
-            thinkingTokens:
-              usage.reasoning_output_tokens > 0
-                ? usage.reasoning_output_tokens
-                : undefined,
-          };
-        }
-      } catch {
-        // Skip malformed lines
-      }
-    }
-
-    return lastTokenData;
-  }
-
-  if (providerName === "mistral-vibe") {
-    // Mistral Vibe: Parse JSON and extract from metadata.stats
-    try {
-      const data = JSON.parse(content);
-      if (!data.metadata?.stats) return null;
-
-      const stats = data.metadata.stats;
-      const inputTokens = stats.session_prompt_tokens || 0;
-      const outputTokens = stats.session_completion_tokens || 0;
-      const totalTokens =
-        stats.session_total_llm_tokens || inputTokens + outputTokens;
-
-      if (inputTokens === 0 && outputTokens === 0) return null;
+/**
+ * Calculate total token usage from raw transcript content
+ * @param content Raw JSONL/JSON content (single file or multi-file bundle)
+ * @param providerName Provider to parse the content with
+ * @returns Aggregated token counts or null if no token data available
+ */
+export function calculateTokenCounts(
+  content: string,
+  providerName: string,
+): TokenCounts | null {
+  if (!getProviderByName(providerName)) return null;
 
-      return {
-        inputTokens,
-        outputTokens,
-        totalTokens,
-      };
-    } catch {
-      return null;
-    }
+  try {
+    const transcript = parseTranscript(content, providerName);
+    return calculateTranscriptTokenCounts(transcript, providerName);
+  } catch {
+    return null;
   }
-
-  return null;
 }
 
 // Export providers and types
+export { AiderProvider } from "./aider";
+export { type BundleFile, createBundle, readBundle } from "./bundle";
+export { ClaudeAgentSdkProvider } from "./claude-agent-sdk";
 export { ClaudeCodeProvider } from "./claude-code";
+export { ClineProvider } from "./cline";
 export { CodexProvider } from "./codex";
 export { CopilotCliProvider } from "./copilot-cli";
+export { CursorProvider } from "./cursor";
+export { formatDiagnostic, ParseDiagnostics } from "./diagnostics";
 export { GeminiProvider } from "./gemini";
+export { MessagesApiProvider } from "./messages-api";
 export { MistralVibeProvider } from "./mistral-vibe";
-export type { DetectionResult, TranscriptProvider } from "./types";
+export { OpenHandsProvider } from "./openhands";
+export { SweAgentProvider } from "./swe-agent";
+export type {
+  DetectionCandidate,
+  DetectionMatch,
+  DetectionResult,
+  TranscriptProvider,
+} from "./types";
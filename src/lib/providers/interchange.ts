@@ -0,0 +1,426 @@
+/**
+ * AI Sessions interchange provider
+ * Reads the normalized transcript format written by the JSON export, so
+ * internal tools can emit one documented format instead of a CLI's own logs.
+ * The format is described in docs/interchange-format.md.
+ */
+
+import { stripUrlCredentials } from "@/lib/git-utils";
+import type {
+  AgentRunInfo,
+  BenchmarkInfo,
+  ContentBlock,
+  GitContext,
+  ParsedTranscript,
+  SubagentTranscript,
+  SystemEvent,
+  TokenCounts,
+  TokenUsage,
+  TranscriptLine,
+} from "@/types/transcript";
+import { formatClaudeModelName } from "./claude-code";
+import type { ParseDiagnostics } from "./diagnostics";
+import { imageFromBase64, imageFromUrl } from "./images";
+import type { DetectionMatch, TranscriptProvider } from "./types";
+
+export const INTERCHANGE_FORMAT = "ai-sessions-interchange";
+
+/**
+ * Current version of the format
+ * Bump when a change would make older readers misread a document; adding
+ * optional fields does not need a new version
+ */
+export const INTERCHANGE_VERSION = 1;
+
+/**
+ * A transcript in the interchange format
+ * Messages and content blocks are the same shapes the viewer renders
+ * (see types/transcript.ts)
+ */
+export interface InterchangeDocument {
+  format: typeof INTERCHANGE_FORMAT;
+  version: number;
+  source?: string; // Tool that recorded the session, e.g. "claude-code"
+  title?: string;
+  createdAt?: string; // ISO date the session was uploaded or recorded
+  sessionId?: string;
+  cwd?: string;
+  git?: GitContext;
+  agentRun?: AgentRunInfo;
+  benchmark?: BenchmarkInfo;
+  tokenCounts?: TokenCounts;
+  messages: InterchangeLine[];
+  subagents?: Record<string, { agentId?: string; messages: InterchangeLine[] }>; // Keyed by the tool_use id that spawned them
+}
+
+/**
+ * A transcript line; uuid, timestamp and parentUuid may be left out
+ */
+export type InterchangeLine = Partial<
+  Pick<TranscriptLine, "uuid" | "timestamp" | "parentUuid" | "type">
+> &
+  Omit<TranscriptLine, "uuid" | "timestamp" | "parentUuid" | "type">;
+
+const LINE_TYPES = new Set<string>([
+  "user",
+  "assistant",
+  "file-history-snapshot",
+  "system_event",
+]);
+
+const SYSTEM_EVENT_TYPES = new Set<string>([
+  "model_change",
+  "compaction",
+  "session_resumed",
+  "mode_change",
+  "interruption",
+  "info",
+]);
+
+const TEXT_BLOCK_FIELDS: Record<string, string> = {
+  text: "text",
+  thinking: "thinking",
+  "command-name": "text",
+  "command-message": "text",
+  "command-args": "text",
+  "bash-input": "text",
+  "bash-stdout": "text",
+  "bash-stderr": "text",
+  "user-instructions": "text",
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Whether a block has the fields the viewer needs for its type
+ */
+function isContentBlock(block: unknown): block is ContentBlock {
+  if (!isObject(block) || typeof block.type !== "string") return false;
+
+  const textField = TEXT_BLOCK_FIELDS[block.type];
+  if (textField) return typeof block[textField] === "string";
+
+  switch (block.type) {
+    case "tool_use":
+      return (
+        typeof block.id === "string" &&
+        typeof block.name === "string" &&
+        isObject(block.input)
+      );
+    case "tool_result":
+      return (
+        typeof block.tool_use_id === "string" &&
+        // Some providers keep the tool's content block array as-is
+        (typeof block.content === "string" || Array.isArray(block.content))
+      );
+    case "image":
+      return (
+        typeof block.data === "string" ||
+        typeof block.url === "string" ||
+        typeof block.assetId === "string"
+      );
+    default:
+      return false;
+  }
+}
+
+/**
+ * Image data moved to a stored asset when the document was uploaded (see
+ * lib/assets.ts) becomes a reference to the asset
+ */
+function normalizeBlock(block: ContentBlock): ContentBlock {
+  if (block.type !== "image") return block;
+  if (block.data)
+    return imageFromBase64(block.mediaType, block.data, block.alt);
+  if (block.url) return imageFromUrl(block.url, block.alt);
+  return block;
+}
+
+/**
+ * Git context without credentials in the remote URL
+ */
+function toGitContext(git: Record<string, unknown>): GitContext {
+  return typeof git.repositoryUrl === "string"
+    ? { ...git, repositoryUrl: stripUrlCredentials(git.repositoryUrl) }
+    : (git as GitContext);
+}
+
+function isTokenUsage(usage: unknown): usage is TokenUsage {
+  return (
+    isObject(usage) &&
+    typeof usage.inputTokens === "number" &&
+    typeof usage.outputTokens === "number"
+  );
+}
+
+/**
+ * Validate one line and fill in the optional identity fields
+ */
+function normalizeLine(
+  raw: unknown,
+  index: number,
+  idPrefix: string,
+  label: string,
+  diagnostics?: ParseDiagnostics,
+): TranscriptLine | null {
+  const position = `${label} ${index + 1}`;
+  if (!isObject(raw)) {
+    diagnostics?.warn(`${position} is not an object`);
+    return null;
+  }
+
+  const base = {
+    uuid: typeof raw.uuid === "string" ? raw.uuid : `${idPrefix}-${index}`,
+    timestamp: typeof raw.timestamp === "string" ? raw.timestamp : "",
+    parentUuid: typeof raw.parentUuid === "string" ? raw.parentUuid : null,
+    ...(typeof raw.cwd === "string" && { cwd: raw.cwd }),
+    ...(typeof raw.gitBranch === "string" && { gitBranch: raw.gitBranch }),
+    ...(typeof raw.sessionId === "string" && { sessionId: raw.sessionId }),
+    ...(typeof raw.isSidechain === "boolean" && {
+      isSidechain: raw.isSidechain,
+    }),
+    ...(typeof raw.agentId === "string" && { agentId: raw.agentId }),
+  };
+
+  if (isObject(raw.systemEvent)) {
+    const event = raw.systemEvent;
+    if (
+      typeof event.eventType !== "string" ||
+      !SYSTEM_EVENT_TYPES.has(event.eventType) ||
+      !isObject(event.data)
+    ) {
+      diagnostics?.warn(`${position}: unknown system event`, {
+        recordType: String(event.eventType ?? "unknown"),
+      });
+      return null;
+    }
+    return {
+      ...base,
+      type: "system_event",
+      systemEvent: event as unknown as SystemEvent,
+    };
+  }
+
+  const message = raw.message;
+  if (
+    !isObject(message) ||
+    (message.role !== "user" && message.role !== "assistant")
+  ) {
+    diagnostics?.warn(`${position} has no user or assistant message`, {
+      recordType: typeof raw.type === "string" ? raw.type : "unknown",
+    });
+    return null;
+  }
+
+  let content: string | ContentBlock[];
+  if (typeof message.content === "string") {
+    content = message.content;
+  } else if (Array.isArray(message.content)) {
+    content = [];
+    for (const block of message.content) {
+      if (isContentBlock(block)) {
+        content.push(normalizeBlock(block));
+      } else {
+        diagnostics?.warn(`${position}: skipped invalid content block`, {
+          recordType: String(
+            (block as { type?: unknown } | null)?.type ?? "unknown",
+          ),
+        });
+      }
+    }
+  } else {
+    diagnostics?.warn(`${position} has no content`, {
+      recordType: message.role,
+    });
+    return null;
+  }
+
+  return {
+    ...base,
+    type:
+      typeof raw.type === "string" && LINE_TYPES.has(raw.type)
+        ? (raw.type as TranscriptLine["type"])
+        : message.role,
+    message: {
+      role: message.role,
+      content,
+      ...(typeof message.model === "string" && { model: message.model }),
+    },
+    ...(isTokenUsage(raw.usage) && { usage: raw.usage }),
+    ...((typeof raw.toolUseResult === "string" ||
+      isObject(raw.toolUseResult)) && {
+      toolUseResult: raw.toolUseResult as TranscriptLine["toolUseResult"],
+    }),
+  };
+}
+
+/**
+ * Validate lines and attach tool results that have no parentUuid to the line
+ * with the matching call, which is how the viewer groups them
+ */
+function normalizeLines(
+  rawLines: unknown,
+  idPrefix: string,
+  label: string,
+  diagnostics?: ParseDiagnostics,
+): TranscriptLine[] {
+  if (!Array.isArray(rawLines)) return [];
+
+  const lines = rawLines
+    .map((raw, index) =>
+      normalizeLine(raw, index, idPrefix, label, diagnostics),
+    )
+    .filter((line): line is TranscriptLine => line !== null);
+
+  const callLines = new Map<string, string>();
+  for (const line of lines) {
+    if (!Array.isArray(line.message?.content)) continue;
+    for (const block of line.message.content) {
+      if (block.type === "tool_use") callLines.set(block.id, line.uuid);
+    }
+  }
+
+  return lines.map((line) => {
+    const content = line.message?.content;
+    if (line.parentUuid || !Array.isArray(content)) return line;
+    const result = content.find((block) => block.type === "tool_result");
+    const parentUuid =
+      result?.type === "tool_result"
+        ? callLines.get(result.tool_use_id)
+        : undefined;
+    return parentUuid && parentUuid !== line.uuid
+      ? { ...line, parentUuid }
+      : line;
+  });
+}
+
+/**
+ * Interchange provider implementation
+ */
+export class InterchangeProvider implements TranscriptProvider {
+  readonly name = "interchange";
+  readonly displayName = "AI Sessions interchange";
+
+  /**
+   * Detect if content is an interchange document
+   * The format marker is unique, so any document that carries it matches
+   */
+  detect(content: string): DetectionMatch | null {
+    try {
+      const document = JSON.parse(content);
+      if (!isObject(document) || document.format !== INTERCHANGE_FORMAT) {
+        return null;
+      }
+      return {
+        score: 100,
+        evidence: [`found ${INTERCHANGE_FORMAT} v${document.version} marker`],
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Parse an interchange document
+   * Invalid lines and content blocks are skipped with a diagnostic; documents
+   * from a newer version of the format are rejected
+   */
+  parse(content: string, diagnostics?: ParseDiagnostics): ParsedTranscript {
+    let document: unknown;
+    try {
+      document = JSON.parse(content);
+    } catch (error) {
+      throw new Error(
+        `Failed to parse interchange JSON: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    if (!isObject(document) || document.format !== INTERCHANGE_FORMAT) {
+      throw new Error(
+        `Expected a document with format "${INTERCHANGE_FORMAT}"`,
+      );
+    }
+    if (
+      typeof document.version !== "number" ||
+      !Number.isInteger(document.version) ||
+      document.version < 1
+    ) {
+      throw new Error("Interchange document has no valid version");
+    }
+    if (document.version > INTERCHANGE_VERSION) {
+      throw new Error(
+        `Interchange version ${document.version} is not supported (latest is ${INTERCHANGE_VERSION})`,
+      );
+    }
+    if (!Array.isArray(document.messages)) {
+      throw new Error("Interchange document has no messages array");
+    }
+
+    const sessionId =
+      typeof document.sessionId === "string" && document.sessionId
+        ? document.sessionId
+        : "interchange";
+    const messages = normalizeLines(
+      document.messages,
+      sessionId,
+      "message",
+      diagnostics,
+    );
+
+    let subagents: Record<string, SubagentTranscript> | undefined;
+    if (isObject(document.subagents)) {
+      subagents = {};
+      for (const [toolUseId, subagent] of Object.entries(document.subagents)) {
+        if (!isObject(subagent)) continue;
+        subagents[toolUseId] = {
+          ...(typeof subagent.agentId === "string" && {
+            agentId: subagent.agentId,
+          }),
+          messages: normalizeLines(
+            subagent.messages,
+            `${sessionId}-${toolUseId}`,
+            `sub-agent ${toolUseId} message`,
+            diagnostics,
+          ),
+        };
+      }
+    }
+
+    const timestamps = messages
+      .map((line) => line.timestamp)
+      .filter((timestamp) => timestamp);
+
+    return {
+      messages,
+      sessionId,
+      ...(typeof document.cwd === "string" && { cwd: document.cwd }),
+      ...(isObject(document.git) && { git: toGitContext(document.git) }),
+      ...(isObject(document.agentRun) && {
+        agentRun: document.agentRun as AgentRunInfo,
+      }),
+      ...(isObject(document.benchmark) && {
+        benchmark: document.benchmark as BenchmarkInfo,
+      }),
+      ...(isObject(document.tokenCounts) && {
+        tokenCounts: document.tokenCounts as unknown as TokenCounts,
+      }),
+      ...(subagents && { subagents }),
+      metadata: {
+        firstTimestamp: timestamps[0] || "",
+        lastTimestamp: timestamps[timestamps.length - 1] || "",
+        messageCount: messages.length,
+      },
+    };
+  }
+
+  /**
+   * Format Claude model names, leaving other models as-is
+   */
+  formatModelName(modelId: string): string | null {
+    return modelId.startsWith("claude-")
+      ? formatClaudeModelName(modelId)
+      : modelId;
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Stitch a session resumed across several files into one transcript
+ * Files are ordered by their timestamps, lines repeated from an earlier file
+ * (resumed sessions often start with a copy of the history) are dropped, and
+ * a "session resumed" divider marks where each following file begins
+ */
+
+import { getAllMessages } from "@/lib/transcript-utils";
+import type {
+  ParsedTranscript,
+  SubagentTranscript,
+  TranscriptLine,
+} from "@/types/transcript";
+import { sumTokenCounts } from "./usage";
+
+/**
+ * Key identifying a line across files
+ * Only timestamped lines are deduplicated; providers without timestamps
+ * cannot tell a repeated line from a repeated prompt
+ */
+function lineKey(line: TranscriptLine): string | null {
+  if (!line.timestamp) return null;
+  return `${line.timestamp}\u0000${line.type}\u0000${JSON.stringify(
+    line.message ?? line.systemEvent ?? null,
+  )}`;
+}
+
+/**
+ * Merge transcripts parsed from the files of one resumed session
+ * @param parts Parsed files, in upload order
+ * @param fileNames Optional file names, used to label resume dividers
+ */
+export function mergeTranscripts(
+  parts: ParsedTranscript[],
+  fileNames: string[] = [],
+): ParsedTranscript {
+  if (parts.length === 1) return parts[0];
+
+  // Stable sort keeps upload order for files without timestamps
+  const byTime = (a: string, b: string) => (a && b ? a.localeCompare(b) : 0);
+  const ordered = parts
+    .map((part, index) => ({ part, fileName: fileNames[index] }))
+    .sort(
+      (a, b) =>
+        byTime(
+          a.part.metadata.firstTimestamp,
+          b.part.metadata.firstTimestamp,
+        ) ||
+        byTime(a.part.metadata.lastTimestamp, b.part.metadata.lastTimestamp),
+    );
+
+  const seen = new Set<string>();
+  const messages: TranscriptLine[] = [];
+  const subagents: Record<string, SubagentTranscript> = {};
+  let previousSessionId: string | undefined;
+  let dividerCount = 0;
+
+  for (const [index, { part, fileName }] of ordered.entries()) {
+    const newLines = part.messages.filter((line) => {
+      const key = lineKey(line);
+      if (key === null) return true;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+    if (index > 0 && newLines.length > 0) {
+      const firstNew = newLines[0];
+      messages.push({
+        type: "system_event",
+        systemEvent: {
+          eventType: "session_resumed",
+          data: {
+            sessionId: part.sessionId || undefined,
+            previousSessionId,
+            fileName,
+          },
+        },
+        uuid: `session-resumed-${index}`,
+        timestamp: firstNew.timestamp,
+        parentUuid: null,
+        sessionId: part.sessionId,
+      });
+      dividerCount++;
+    }
+
+    messages.push(...newLines);
+    Object.assign(subagents, part.subagents);
+    previousSessionId = part.sessionId || previousSessionId;
+  }
+
+  const [first] = ordered.map(({ part }) => part);
+  const timestamps = ordered.flatMap(({ part }) =>
+    [part.metadata.firstTimestamp, part.metadata.lastTimestamp].filter(Boolean),
+  );
+  timestamps.sort();
+
+  const merged: ParsedTranscript = {
+    messages,
+    sessionId: first.sessionId,
+    cwd: ordered.find(({ part }) => part.cwd)?.part.cwd,
+    agentRun: ordered.find(({ part }) => part.agentRun)?.part.agentRun,
+    benchmark: ordered.find(({ part }) => part.benchmark)?.part.benchmark,
+    git: ordered.find(({ part }) => part.git)?.part.git,
+    subagents: Object.keys(subagents).length > 0 ? subagents : undefined,
+    metadata: {
+      firstTimestamp: timestamps[0] ?? "",
+      lastTimestamp: timestamps[timestamps.length - 1] ?? "",
+      messageCount: messages.length - dividerCount,
+    },
+  };
+
+  // Each file's own totals include the history it repeats, so totals are
+  // recomputed from the deduplicated lines whenever those carry usage
+  if (!getAllMessages(merged).some((line) => line.usage)) {
+    merged.tokenCounts =
+      sumTokenCounts(ordered.map(({ part }) => part.tokenCounts)) ?? undefined;
+  }
+
+  return merged;
+}
@@ -0,0 +1,337 @@
+/**
+ * Messages API transcript provider
+ * Fallback for raw `messages` arrays sent to the OpenAI Chat Completions or
+ * Anthropic Messages API, either bare or wrapped as `{ model, messages }`
+ */
+
+import type {
+  ContentBlock,
+  ParsedTranscript,
+  TranscriptLine,
+} from "@/types/transcript";
+import { formatClaudeModelName } from "./claude-code";
+import type { ParseDiagnostics } from "./diagnostics";
+import { fromAnthropicImage, imageFromUrl } from "./images";
+import type { DetectionMatch, TranscriptProvider } from "./types";
+
+/**
+ * Request body wrapping the messages array
+ */
+interface MessagesRequest {
+  id?: string;
+  model?: string;
+  messages: ApiMessage[];
+}
+
+/**
+ * Chat message in either API's shape
+ */
+interface ApiMessage {
+  role: string;
+  content?: string | ApiContentPart[] | null;
+  model?: string;
+  // OpenAI assistant tool calls
+  tool_calls?: OpenAiToolCall[];
+  // OpenAI tool result
+  tool_call_id?: string;
+  // Reasoning text some OpenAI-compatible APIs return alongside content
+  reasoning_content?: string;
+}
+
+/**
+ * Content part (OpenAI) or content block (Anthropic)
+ */
+interface ApiContentPart {
+  type: string;
+  text?: string;
+  thinking?: string;
+  id?: string;
+  name?: string;
+  // biome-ignore lint/suspicious/noExplicitAny: Tool input can be any JSON structure
+  input?: Record<string, any>;
+  tool_use_id?: string;
+  content?: string | Array<{ type: string; text?: string }>;
+  is_error?: boolean;
+  image_url?: string | { url: string }; // OpenAI image part
+}
+
+interface OpenAiToolCall {
+  id: string;
+  type?: "function";
+  function: {
+    name: string;
+    arguments: string; // JSON string
+  };
+}
+
+const KNOWN_ROLES = new Set([
+  "system",
+  "developer",
+  "user",
+  "assistant",
+  "tool",
+]);
+
+/**
+ * Split the parsed file into messages and the optional request model
+ */
+function unwrap(
+  parsed: unknown,
+): { messages: ApiMessage[]; request?: MessagesRequest } | null {
+  if (Array.isArray(parsed)) {
+    return { messages: parsed };
+  }
+  if (
+    parsed &&
+    typeof parsed === "object" &&
+    Array.isArray((parsed as MessagesRequest).messages)
+  ) {
+    const request = parsed as MessagesRequest;
+    return { messages: request.messages, request };
+  }
+  return null;
+}
+
+/**
+ * Whether an item looks like a chat message from either API
+ */
+function isApiMessage(item: unknown): item is ApiMessage {
+  if (!item || typeof item !== "object") return false;
+  const message = item as ApiMessage;
+  if (typeof message.role !== "string" || !KNOWN_ROLES.has(message.role)) {
+    return false;
+  }
+  return (
+    message.content === null ||
+    typeof message.content === "string" ||
+    Array.isArray(message.content) ||
+    Array.isArray(message.tool_calls)
+  );
+}
+
+/**
+ * Normalize tool result content (string or text part array) to a string
+ */
+function resultText(content: ApiContentPart["content"] | null): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .filter((item) => item.type === "text" && item.text)
+    .map((item) => item.text)
+    .join("\n");
+}
+
+/**
+ * Convert message content (string, OpenAI parts or Anthropic blocks)
+ */
+function parseContent(content: ApiMessage["content"]): ContentBlock[] {
+  if (typeof content === "string") {
+    return content.trim() ? [{ type: "text", text: content }] : [];
+  }
+  if (!Array.isArray(content)) return [];
+
+  const blocks: ContentBlock[] = [];
+  for (const part of content) {
+    if (part.type === "text" && part.text?.trim()) {
+      blocks.push({ type: "text", text: part.text });
+    } else if (part.type === "thinking" && part.thinking?.trim()) {
+      blocks.push({ type: "thinking", thinking: part.thinking });
+    } else if (part.type === "tool_use" && part.id && part.name) {
+      blocks.push({
+        type: "tool_use",
+        id: part.id,
+        name: part.name,
+        input: part.input || {},
+      });
+    } else if (part.type === "tool_result" && part.tool_use_id) {
+      blocks.push({
+        type: "tool_result",
+        tool_use_id: part.tool_use_id,
+        content: resultText(part.content),
+        is_error: part.is_error,
+      });
+    } else if (part.type === "image") {
+      const image = fromAnthropicImage(part);
+      if (image) blocks.push(image);
+    } else if (part.type === "image_url" && part.image_url) {
+      blocks.push(
+        imageFromUrl(
+          typeof part.image_url === "string"
+            ? part.image_url
+            : part.image_url.url,
+        ),
+      );
+    }
+  }
+  return blocks;
+}
+
+function parseToolCalls(toolCalls: OpenAiToolCall[]): ContentBlock[] {
+  return toolCalls.map((toolCall) => {
+    let parsedArgs: Record<string, unknown> = {};
+    try {
+      parsedArgs = JSON.parse(toolCall.function.arguments);
+    } catch {
+      parsedArgs = { raw: toolCall.function.arguments };
+    }
+
+    return {
+      type: "tool_use" as const,
+      id: toolCall.id,
+      name: toolCall.function.name,
+      input: parsedArgs,
+    };
+  });
+}
+
+/**
+ * Messages API provider implementation
+ */
+export class MessagesApiProvider implements TranscriptProvider {
+  readonly name = "messages-api";
+  readonly displayName = "Messages API";
+
+  /**
+   * Detect if content is a raw messages array
+   * Every item must be a chat message with a known role
+   */
+  detect(content: string): DetectionMatch | null {
+    try {
+      const unwrapped = unwrap(JSON.parse(content));
+      if (!unwrapped || unwrapped.messages.length === 0) return null;
+
+      if (
+        !unwrapped.messages.every(isApiMessage) ||
+        !unwrapped.messages.some(
+          (message) => message.role === "user" || message.role === "assistant",
+        )
+      ) {
+        return null;
+      }
+
+      return {
+        score: 30,
+        evidence: [
+          unwrapped.request
+            ? "found object with messages array"
+            : "found bare messages array",
+        ],
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Parse a messages array
+   * System prompts are skipped and OpenAI tool messages become tool results
+   */
+  parse(content: string, diagnostics?: ParseDiagnostics): ParsedTranscript {
+    let unwrapped: ReturnType<typeof unwrap>;
+
+    try {
+      unwrapped = unwrap(JSON.parse(content));
+    } catch (error) {
+      throw new Error(
+        `Failed to parse messages JSON: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    if (!unwrapped) {
+      throw new Error(
+        "Expected a messages array or an object with a messages array",
+      );
+    }
+
+    const { messages: apiMessages, request } = unwrapped;
+    const sessionId = request?.id || "messages-api";
+    const messages: TranscriptLine[] = [];
+
+    for (const [index, apiMessage] of apiMessages.entries()) {
+      if (!isApiMessage(apiMessage)) {
+        diagnostics?.warn(`message ${index + 1} is not a chat message`, {
+          recordType: String(
+            (apiMessage as { role?: unknown })?.role ?? "unknown",
+          ),
+        });
+        continue;
+      }
+
+      let role: "user" | "assistant";
+      let blocks: ContentBlock[];
+
+      if (apiMessage.role === "assistant") {
+        role = "assistant";
+        blocks = [];
+        if (apiMessage.reasoning_content?.trim()) {
+          blocks.push({
+            type: "thinking",
+            thinking: apiMessage.reasoning_content,
+          });
+        }
+        blocks.push(...parseContent(apiMessage.content));
+        if (apiMessage.tool_calls && apiMessage.tool_calls.length > 0) {
+          blocks.push(...parseToolCalls(apiMessage.tool_calls));
+        }
+      } else if (apiMessage.role === "tool") {
+        if (!apiMessage.tool_call_id) {
+          diagnostics?.warn(
+            `message ${index + 1}: tool message without tool_call_id`,
+            { recordType: "tool" },
+          );
+          continue;
+        }
+        role = "user";
+        blocks = [
+          {
+            type: "tool_result",
+            tool_use_id: apiMessage.tool_call_id,
+            content: resultText(apiMessage.content),
+          },
+        ];
+      } else if (apiMessage.role === "user") {
+        role = "user";
+        blocks = parseContent(apiMessage.content);
+      } else {
+        continue;
+      }
+
+      if (blocks.length === 0) continue;
+
+      messages.push({
+        type: role,
+        message: {
+          role,
+          content: blocks,
+          model:
+            role === "assistant"
+              ? apiMessage.model || request?.model
+              : undefined,
+        },
+        uuid: `${sessionId}-${index}`,
+        timestamp: "",
+        parentUuid: null,
+        sessionId,
+      });
+    }
+
+    return {
+      messages,
+      sessionId,
+      metadata: {
+        firstTimestamp: "",
+        lastTimestamp: "",
+        messageCount: messages.length,
+      },
+    };
+  }
+
+  /**
+   * Format Claude model names, leaving other models as-is
+   */
+  formatModelName(modelId: string): string | null {
+    return modelId.startsWith("claude-")
+      ? formatClaudeModelName(modelId)
+      : modelId;
+  }
+}
@@ -6,9 +6,11 @@
 import type {
   ContentBlock,
   ParsedTranscript,
+  TokenCounts,
   TranscriptLine,
 } from "@/types/transcript";
-import type { TranscriptProvider } from "./types";
+import type { ParseDiagnostics } from "./diagnostics";
+import type { DetectionMatch, TranscriptProvider } from "./types";
 
 /**
  * Mistral Vibe session structure (single JSON object, not JSONL)
@@ -38,6 +40,23 @@ interface MistralVibeSession {
   messages: MistralVibeMessage[];
 }
 
+/**
+ * Session totals from metadata.stats (messages carry no usage)
+ */
+function sessionTokenCounts(
+  stats: MistralVibeSession["metadata"]["stats"],
+): TokenCounts | undefined {
+  const inputTokens = stats?.session_prompt_tokens || 0;
+  const outputTokens = stats?.session_completion_tokens || 0;
+  if (inputTokens === 0 && outputTokens === 0) return undefined;
+
+  return {
+    inputTokens,
+    outputTokens,
+    totalTokens: stats?.session_total_llm_tokens || inputTokens + outputTokens,
+  };
+}
+
 /**
  * Mistral Vibe message structure
  */
@@ -98,12 +117,19 @@ function formatMistralVibeModelName(modelId: string): string | null {
   return modelId;
 }
 
-function parseToolCalls(toolCalls: MistralVibeToolCall[]): ContentBlock[] {
+function parseToolCalls(
+  toolCalls: MistralVibeToolCall[],
+  diagnostics?: ParseDiagnostics,
+): ContentBlock[] {
   return toolCalls.map((toolCall) => {
     let parsedArgs: Record<string, unknown> = {};
     try {
       parsedArgs = JSON.parse(toolCall.function.arguments);
     } catch {
+      diagnostics?.warn(
+        `tool call ${toolCall.id}: invalid JSON arguments kept as raw text`,
+        { recordType: toolCall.function.name },
+      );
       parsedArgs = { raw: toolCall.function.arguments };
     }
 
@@ -134,7 +160,7 @@ export class MistralVibeProvider implements TranscriptProvider {
   readonly name = "mistral-vibe";
   readonly displayName = "Mistral Vibe";
 
-  detect(content: string): boolean {
+  detect(content: string): DetectionMatch | null {
     try {
       const parsed = JSON.parse(content) as Partial<MistralVibeSession>;
 
@@ -150,16 +176,26 @@ export class MistralVibeProvider implements TranscriptProvider {
           (msg) => msg.tool_calls && Array.isArray(msg.tool_calls),
         );
 
-        return hasAssistantMessage || hasToolCalls;
+        if (!hasAssistantMessage && !hasToolCalls) return null;
+
+        return {
+          score: 90,
+          evidence: [
+            "found metadata.session_id+start_time",
+            hasAssistantMessage
+              ? "found assistant message"
+              : "found message with tool_calls",
+          ],
+        };
       }
     } catch {
-      return false;
+      return null;
     }
 
-    return false;
+    return null;
   }
 
-  parse(content: string): ParsedTranscript {
+  parse(content: string, diagnostics?: ParseDiagnostics): ParsedTranscript {
     let session: MistralVibeSession;
 
     try {
@@ -188,6 +224,9 @@ export class MistralVibeProvider implements TranscriptProvider {
         role = "user";
       } else if (vibeMessage.role === "system") {
         continue;
+      } else {
+        diagnostics?.ignore(`role '${vibeMessage.role}'`);
+        continue;
       }
 
       if (vibeMessage.content && vibeMessage.content.trim()) {
@@ -198,7 +237,9 @@ export class MistralVibeProvider implements TranscriptProvider {
       }
 
       if (vibeMessage.tool_calls && vibeMessage.tool_calls.length > 0) {
-        contentBlocks.push(...parseToolCalls(vibeMessage.tool_calls));
+        contentBlocks.push(
+          ...parseToolCalls(vibeMessage.tool_calls, diagnostics),
+        );
       }
 
       if (
@@ -264,6 +305,10 @@ export class MistralVibeProvider implements TranscriptProvider {
       messages,
       sessionId: session.metadata.session_id,
       cwd: session.metadata.environment?.working_directory,
+      git: session.metadata.git_branch
+        ? { branch: session.metadata.git_branch }
+        : undefined,
+      tokenCounts: sessionTokenCounts(session.metadata.stats),
       metadata: {
         firstTimestamp,
         lastTimestamp,
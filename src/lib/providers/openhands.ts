@@ -0,0 +1,279 @@
+/**
+ * OpenHands transcript provider
+ * Parses trajectory JSON exported from OpenHands, either as a bare event list
+ * or as an evaluation output record with instance ID and test report
+ */
+
+import type {
+  BenchmarkInfo,
+  ContentBlock,
+  ParsedTranscript,
+  TranscriptLine,
+} from "@/types/transcript";
+import type { ParseDiagnostics } from "./diagnostics";
+import type { DetectionMatch, TranscriptProvider } from "./types";
+
+/**
+ * OpenHands event (action or observation)
+ */
+interface OpenHandsEvent {
+  id: number;
+  timestamp?: string;
+  source?: "user" | "agent" | "environment";
+  message?: string;
+  action?: string;
+  // biome-ignore lint/suspicious/noExplicitAny: Action arguments can be any JSON structure
+  args?: Record<string, any>;
+  observation?: string;
+  content?: string;
+  cause?: number;
+  extras?: {
+    exit_code?: number;
+    metadata?: {
+      exit_code?: number;
+    };
+  };
+  tool_call_metadata?: {
+    model_response?: {
+      model?: string;
+    };
+  };
+}
+
+/**
+ * Evaluation output record wrapping the event history
+ */
+interface OpenHandsEvalOutput {
+  instance_id?: string;
+  history: OpenHandsEvent[];
+  metadata?: {
+    llm_config?: {
+      model?: string;
+    };
+  };
+  report?: {
+    resolved?: boolean;
+  };
+  resolved?: boolean;
+}
+
+// Observations that report state changes rather than tool output
+const SKIPPED_OBSERVATIONS = new Set([
+  "agent_state_changed",
+  "null",
+  "recall",
+  "think",
+]);
+
+/**
+ * Whether an event looks like an OpenHands action or observation
+ */
+function isEvent(item: unknown): item is OpenHandsEvent {
+  if (!item || typeof item !== "object") return false;
+  const event = item as OpenHandsEvent;
+  return (
+    typeof event.id === "number" &&
+    (typeof event.action === "string" || typeof event.observation === "string")
+  );
+}
+
+/**
+ * Split the parsed file into events and evaluation details
+ */
+function unwrap(parsed: unknown): {
+  events: OpenHandsEvent[];
+  output?: OpenHandsEvalOutput;
+} | null {
+  if (Array.isArray(parsed)) {
+    return { events: parsed };
+  }
+  if (
+    parsed &&
+    typeof parsed === "object" &&
+    Array.isArray((parsed as OpenHandsEvalOutput).history)
+  ) {
+    const output = parsed as OpenHandsEvalOutput;
+    return { events: output.history, output };
+  }
+  return null;
+}
+
+/**
+ * OpenHands provider implementation
+ */
+export class OpenHandsProvider implements TranscriptProvider {
+  readonly name = "openhands";
+  readonly displayName = "OpenHands";
+
+  /**
+   * Detect if content is an OpenHands trajectory
+   * Events carry numeric ids with either an action or an observation
+   */
+  detect(content: string): DetectionMatch | null {
+    try {
+      const unwrapped = unwrap(JSON.parse(content));
+      if (!unwrapped || unwrapped.events.length === 0) return null;
+
+      if (
+        !unwrapped.events.every(isEvent) ||
+        !unwrapped.events.some((event) => event.action !== undefined)
+      ) {
+        return null;
+      }
+
+      const evidence = ["found events with numeric ids and action/observation"];
+      if (unwrapped.output) {
+        evidence.push("found evaluation output with history");
+      }
+      return { score: 85, evidence };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Parse OpenHands trajectory
+   * Agent thoughts become thinking blocks, actions become tool calls and
+   * observations become results linked through their cause id
+   */
+  parse(content: string, diagnostics?: ParseDiagnostics): ParsedTranscript {
+    let unwrapped: ReturnType<typeof unwrap>;
+
+    try {
+      unwrapped = unwrap(JSON.parse(content));
+    } catch (error) {
+      throw new Error(
+        `Failed to parse OpenHands trajectory JSON: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    if (!unwrapped) {
+      throw new Error("OpenHands trajectory must be a list of events");
+    }
+
+    const { events, output } = unwrapped;
+    const instanceId = output?.instance_id;
+    const sessionId = instanceId || "openhands-trajectory";
+    const defaultModel = output?.metadata?.llm_config?.model;
+    const messages: TranscriptLine[] = [];
+    let firstTimestamp = "";
+    let lastTimestamp = "";
+
+    const pushLine = (
+      role: "user" | "assistant",
+      blocks: ContentBlock[],
+      event: OpenHandsEvent,
+    ) => {
+      messages.push({
+        type: role,
+        message: {
+          role,
+          content: blocks,
+          model:
+            role === "assistant"
+              ? event.tool_call_metadata?.model_response?.model || defaultModel
+              : undefined,
+        },
+        uuid: `${sessionId}-${event.id}`,
+        timestamp: event.timestamp || "",
+        parentUuid: null,
+        sessionId,
+      });
+    };
+
+    for (const event of events) {
+      if (!isEvent(event)) {
+        diagnostics?.ignore("non-event item");
+        continue;
+      }
+
+      if (event.timestamp) {
+        if (!firstTimestamp) firstTimestamp = event.timestamp;
+        lastTimestamp = event.timestamp;
+      }
+
+      if (event.action) {
+        if (event.action === "system" || event.action === "recall") continue;
+
+        const args = { ...(event.args || {}) };
+        const thought = typeof args.thought === "string" ? args.thought : "";
+        delete args.thought;
+
+        if (event.action === "message") {
+          const text = args.content || event.message || "";
+          if (!text.trim()) continue;
+          const role = event.source === "user" ? "user" : "assistant";
+          pushLine(role, [{ type: "text", text }], event);
+          continue;
+        }
+
+        const blocks: ContentBlock[] = [];
+        if (thought.trim()) {
+          blocks.push({ type: "thinking", thinking: thought.trim() });
+        }
+
+        // "think" only records a thought, everything else is a tool call
+        if (event.action !== "think") {
+          blocks.push({
+            type: "tool_use",
+            id: String(event.id),
+            name: event.action,
+            input: args,
+          });
+        }
+
+        if (blocks.length > 0) {
+          pushLine("assistant", blocks, event);
+        }
+        continue;
+      }
+
+      if (
+        event.observation &&
+        event.cause !== undefined &&
+        !SKIPPED_OBSERVATIONS.has(event.observation)
+      ) {
+        const exitCode =
+          event.extras?.metadata?.exit_code ?? event.extras?.exit_code;
+        pushLine(
+          "user",
+          [
+            {
+              type: "tool_result",
+              tool_use_id: String(event.cause),
+              content: event.content || "",
+              is_error:
+                event.observation === "error" ||
+                (typeof exitCode === "number" && exitCode !== 0)
+                  ? true
+                  : undefined,
+              metadata:
+                typeof exitCode === "number"
+                  ? { exit_code: exitCode }
+                  : undefined,
+            },
+          ],
+          event,
+        );
+      }
+    }
+
+    const benchmark: BenchmarkInfo = {
+      instanceId,
+      resolved: output?.report?.resolved ?? output?.resolved,
+    };
+
+    return {
+      messages,
+      sessionId,
+      benchmark: Object.values(benchmark).some((value) => value !== undefined)
+        ? benchmark
+        : undefined,
+      metadata: {
+        firstTimestamp,
+        lastTimestamp,
+        messageCount: messages.length,
+      },
+    };
+  }
+}
@@ -0,0 +1,253 @@
+/**
+ * SWE-agent transcript provider
+ * Parses .traj trajectory files written by SWE-agent benchmark runs
+ */
+
+import type {
+  BenchmarkInfo,
+  ContentBlock,
+  ParsedTranscript,
+  TranscriptLine,
+} from "@/types/transcript";
+import type { ParseDiagnostics } from "./diagnostics";
+import type { DetectionMatch, TranscriptProvider } from "./types";
+
+/**
+ * SWE-agent trajectory file structure (single JSON object)
+ */
+interface SweAgentTrajectory {
+  trajectory: SweAgentStep[];
+  history?: SweAgentHistoryItem[];
+  info?: {
+    exit_status?: string;
+    instance_id?: string;
+    resolved?: boolean;
+  };
+  instance_id?: string;
+  resolved?: boolean;
+  // JSON-encoded run config (model and problem statement)
+  replay_config?: string | SweAgentReplayConfig;
+}
+
+/**
+ * One thought/action/observation step
+ */
+interface SweAgentStep {
+  thought?: string;
+  action?: string;
+  observation?: string;
+  execution_time?: number;
+}
+
+/**
+ * Chat history entry sent to the model
+ */
+interface SweAgentHistoryItem {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string | Array<{ type: string; text?: string }>;
+  is_demo?: boolean;
+}
+
+interface SweAgentReplayConfig {
+  agent?: {
+    model?: {
+      name?: string;
+    };
+  };
+  problem_statement?: {
+    id?: string;
+    text?: string;
+  };
+}
+
+/**
+ * Read the replay config, which SWE-agent stores as a JSON string
+ */
+function parseReplayConfig(
+  config: SweAgentTrajectory["replay_config"],
+  diagnostics?: ParseDiagnostics,
+): SweAgentReplayConfig {
+  if (!config) return {};
+  if (typeof config === "object") return config;
+  try {
+    return JSON.parse(config) as SweAgentReplayConfig;
+  } catch {
+    diagnostics?.warn("invalid replay_config JSON, model and task unknown", {
+      recordType: "replay_config",
+    });
+    return {};
+  }
+}
+
+/**
+ * Normalize history content to plain text
+ */
+function historyText(content: SweAgentHistoryItem["content"]): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .filter((item) => item.type === "text" && item.text)
+    .map((item) => item.text)
+    .join("\n");
+}
+
+/**
+ * SWE-agent provider implementation
+ */
+export class SweAgentProvider implements TranscriptProvider {
+  readonly name = "swe-agent";
+  readonly displayName = "SWE-agent";
+
+  /**
+   * Detect if content is a SWE-agent .traj file
+   * A single JSON object with a trajectory array of action/observation steps
+   */
+  detect(content: string): DetectionMatch | null {
+    try {
+      const parsed = JSON.parse(content) as Partial<SweAgentTrajectory>;
+
+      if (!parsed || !Array.isArray(parsed.trajectory)) return null;
+
+      if (parsed.trajectory.length === 0) {
+        return Array.isArray(parsed.history) && parsed.info !== undefined
+          ? {
+              score: 60,
+              evidence: ["found empty trajectory with history and info"],
+            }
+          : null;
+      }
+
+      const hasSteps = parsed.trajectory.some(
+        (step) =>
+          step &&
+          typeof step.action === "string" &&
+          step.observation !== undefined,
+      );
+      if (!hasSteps) return null;
+
+      return {
+        score: 90,
+        evidence: ["found trajectory with action/observation steps"],
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Parse SWE-agent trajectory
+   * Each step becomes an assistant message (thought + action) followed by a
+   * user message carrying the observation as the action's result
+   */
+  parse(content: string, diagnostics?: ParseDiagnostics): ParsedTranscript {
+    let traj: SweAgentTrajectory;
+
+    try {
+      traj = JSON.parse(content) as SweAgentTrajectory;
+    } catch (error) {
+      throw new Error(
+        `Failed to parse SWE-agent trajectory JSON: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    if (!Array.isArray(traj.trajectory)) {
+      throw new Error("SWE-agent trajectory is missing the trajectory array");
+    }
+
+    const replayConfig = parseReplayConfig(traj.replay_config, diagnostics);
+    const model = replayConfig.agent?.model?.name;
+    const instanceId =
+      traj.instance_id ||
+      traj.info?.instance_id ||
+      replayConfig.problem_statement?.id;
+    const sessionId = instanceId || "swe-agent-trajectory";
+    const messages: TranscriptLine[] = [];
+
+    const pushLine = (role: "user" | "assistant", blocks: ContentBlock[]) => {
+      messages.push({
+        type: role,
+        message: {
+          role,
+          content: blocks,
+          model: role === "assistant" ? model : undefined,
+        },
+        uuid: `${sessionId}-${messages.length}`,
+        timestamp: "",
+        parentUuid: null,
+        sessionId,
+      });
+    };
+
+    // The task prompt is the first non-demonstration user message
+    const prompt = traj.history?.find(
+      (item) => item.role === "user" && !item.is_demo,
+    );
+    const promptText = prompt
+      ? historyText(prompt.content)
+      : replayConfig.problem_statement?.text;
+    if (promptText?.trim()) {
+      pushLine("user", [{ type: "text", text: promptText.trim() }]);
+    }
+
+    traj.trajectory.forEach((step, index) => {
+      const blocks: ContentBlock[] = [];
+
+      if (step.thought?.trim()) {
+        blocks.push({ type: "thinking", thinking: step.thought.trim() });
+      }
+
+      if (!step.action?.trim()) {
+        if (blocks.length > 0) {
+          pushLine("assistant", blocks);
+        } else {
+          diagnostics?.ignore("empty step");
+        }
+        return;
+      }
+
+      const toolUseId = `${sessionId}-step-${index + 1}`;
+      blocks.push({
+        type: "tool_use",
+        id: toolUseId,
+        name: "bash",
+        input: { command: step.action.trim() },
+      });
+      pushLine("assistant", blocks);
+
+      if (step.observation !== undefined && step.observation !== null) {
+        pushLine("user", [
+          {
+            type: "tool_result",
+            tool_use_id: toolUseId,
+            content: step.observation,
+            metadata:
+              typeof step.execution_time === "number"
+                ? {
+                    duration_seconds: Math.round(step.execution_time * 10) / 10,
+                  }
+                : undefined,
+          },
+        ]);
+      }
+    });
+
+    const benchmark: BenchmarkInfo = {
+      instanceId,
+      resolved: traj.resolved ?? traj.info?.resolved,
+      exitStatus: traj.info?.exit_status || undefined,
+    };
+
+    return {
+      messages,
+      sessionId,
+      benchmark: Object.values(benchmark).some((value) => value !== undefined)
+        ? benchmark
+        : undefined,
+      metadata: {
+        firstTimestamp: "",
+        lastTimestamp: "",
+        messageCount: messages.length,
+      },
+    };
+  }
+}
@@ -2,7 +2,8 @@
  * Provider interface for parsing different transcript formats
  */
 
-import type { ParsedTranscript } from "@/types/transcript";
+import type { ParsedTranscript, TokenCounts } from "@/types/transcript";
+import type { ParseDiagnostics } from "./diagnostics";
 
 /**
  * Interface that all transcript providers must implement
@@ -21,17 +22,28 @@ export interface TranscriptProvider {
   /**
    * Detect if the given content matches this provider's format
    * @param content Raw JSONL content
-   * @returns true if this provider can parse the content
+   * @returns Score and matched evidence, or null if this provider cannot parse the content
    */
-  detect(content: string): boolean;
+  detect(content: string): DetectionMatch | null;
 
   /**
    * Parse the transcript content into a unified format
    * @param content Raw JSONL content
+   * @param diagnostics Optional channel for reporting malformed or ignored lines
    * @returns Parsed transcript
    * @throws Error if parsing fails
    */
-  parse(content: string): ParsedTranscript;
+  parse(content: string, diagnostics?: ParseDiagnostics): ParsedTranscript;
+
+  /**
+   * Calculate session token totals from a parsed transcript (optional)
+   * Providers attach per-response usage to assistant lines while parsing.
+   * Without this hook, totals are the tool-recorded `tokenCounts` or the sum
+   * of line usage with cache reads counted as part of input.
+   * @param transcript Transcript returned by parse()
+   * @returns Token totals or null if no usage was recorded
+   */
+  calculateTokenCounts?(transcript: ParsedTranscript): TokenCounts | null;
 
   /**
    * Format a model ID into a human-readable name (optional)
@@ -41,12 +53,38 @@ export interface TranscriptProvider {
   formatModelName?(modelId: string): string | null;
 }
 
+/**
+ * A provider's claim on some content
+ * Scores run from 0 to 100: signature fields unique to one tool score 90+,
+ * structural matches 60-80, and generic shapes shared by several tools below 50
+ */
+export interface DetectionMatch {
+  score: number;
+  /**
+   * What matched, e.g. "found session_meta line"
+   */
+  evidence: string[];
+}
+
+/**
+ * A ranked detection candidate
+ */
+export interface DetectionCandidate extends DetectionMatch {
+  provider: string;
+}
+
 /**
  * Result of provider detection with confidence level
  */
 export interface DetectionResult {
   provider: string;
   confidence: "high" | "medium" | "low";
+  score: number;
+  evidence: string[];
+  /**
+   * Every provider that claimed the content, best match first
+   */
+  candidates: DetectionCandidate[];
   /**
    * Errors encountered during detection (if any)
    * Useful for debugging provider detection issues
@@ -0,0 +1,148 @@
+/**
+ * Token usage helpers shared by providers
+ * Providers attach the usage of each model response to its assistant line;
+ * session totals are derived from those lines unless the tool records its
+ * own run-level counters.
+ */
+
+import type {
+  TokenCounts,
+  TokenUsage,
+  TranscriptLine,
+} from "@/types/transcript";
+
+export interface SumTokenUsageOptions {
+  /**
+   * Whether input tokens already include cache reads (OpenAI, Gemini) or are
+   * counted separately (Anthropic). Defaults to true.
+   */
+  cacheInInput?: boolean;
+  /**
+   * Use the largest cache count of any response instead of the sum
+   */
+  maxCache?: boolean;
+}
+
+/**
+ * Usage object of the Anthropic Messages API
+ */
+export interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_read_input_tokens?: number;
+  cache_creation_input_tokens?: number;
+}
+
+/**
+ * Convert Anthropic usage (Claude Code, Agent SDK) to line usage
+ */
+export function fromAnthropicUsage(usage: AnthropicUsage): TokenUsage {
+  const inputTokens = usage.input_tokens || 0;
+  const cacheReadTokens = usage.cache_read_input_tokens || 0;
+  const cacheWriteTokens = usage.cache_creation_input_tokens || 0;
+  return {
+    inputTokens,
+    outputTokens: usage.output_tokens || 0,
+    cacheReadTokens: cacheReadTokens || undefined,
+    cacheWriteTokens: cacheWriteTokens || undefined,
+    // The whole prompt occupies the context, cached or not
+    contextTokens:
+      inputTokens + cacheReadTokens + cacheWriteTokens || undefined,
+  };
+}
+
+/**
+ * Add the usage of another response to a line's usage
+ */
+export function addTokenUsage(
+  usage: TokenUsage | undefined,
+  more: TokenUsage,
+): TokenUsage {
+  if (!usage) return more;
+
+  const sumOptional = (key: keyof TokenUsage) =>
+    usage[key] === undefined && more[key] === undefined
+      ? undefined
+      : (usage[key] ?? 0) + (more[key] ?? 0);
+
+  return {
+    inputTokens: usage.inputTokens + more.inputTokens,
+    outputTokens: usage.outputTokens + more.outputTokens,
+    cacheReadTokens: sumOptional("cacheReadTokens"),
+    cacheWriteTokens: sumOptional("cacheWriteTokens"),
+    thinkingTokens: sumOptional("thinkingTokens"),
+    toolTokens: sumOptional("toolTokens"),
+    // The latest request's prompt includes everything before it
+    contextTokens: more.contextTokens ?? usage.contextTokens,
+  };
+}
+
+/**
+ * Session totals from the usage attached to transcript lines
+ * @returns Totals, or null when no line has usage
+ */
+export function sumTokenUsage(
+  lines: TranscriptLine[],
+  options: SumTokenUsageOptions = {},
+): TokenCounts | null {
+  const { cacheInInput = true, maxCache = false } = options;
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let cacheReadTokens = 0;
+  let cacheWriteTokens = 0;
+  let thinkingTokens = 0;
+  let toolTokens = 0;
+
+  const addCache = (total: number, value = 0) =>
+    maxCache ? Math.max(total, value) : total + value;
+
+  for (const line of lines) {
+    const usage = line.usage;
+    if (!usage) continue;
+
+    inputTokens += usage.inputTokens;
+    outputTokens += usage.outputTokens;
+    cacheReadTokens = addCache(cacheReadTokens, usage.cacheReadTokens);
+    cacheWriteTokens = addCache(cacheWriteTokens, usage.cacheWriteTokens);
+    thinkingTokens += usage.thinkingTokens ?? 0;
+    toolTokens += usage.toolTokens ?? 0;
+  }
+
+  if (inputTokens === 0 && outputTokens === 0) return null;
+
+  return {
+    inputTokens,
+    outputTokens,
+    totalTokens:
+      inputTokens + outputTokens + (cacheInInput ? 0 : cacheReadTokens),
+    cacheReadTokens: cacheReadTokens > 0 ? cacheReadTokens : undefined,
+    cacheWriteTokens: cacheWriteTokens > 0 ? cacheWriteTokens : undefined,
+    thinkingTokens: thinkingTokens > 0 ? thinkingTokens : undefined,
+    toolTokens: toolTokens > 0 ? toolTokens : undefined,
+  };
+}
+
+/**
+ * Add up token counts from several files, keeping optional fields optional
+ */
+export function sumTokenCounts(
+  counts: Array<TokenCounts | null | undefined>,
+): TokenCounts | null {
+  const present = counts.filter((count): count is TokenCounts => !!count);
+  if (present.length === 0) return null;
+
+  const sumOptional = (key: keyof TokenCounts) =>
+    present.some((count) => count[key] !== undefined)
+      ? present.reduce((sum, count) => sum + (count[key] ?? 0), 0)
+      : undefined;
+
+  return {
+    inputTokens: sumOptional("inputTokens") ?? 0,
+    outputTokens: sumOptional("outputTokens") ?? 0,
+    totalTokens: sumOptional("totalTokens") ?? 0,
+    cacheReadTokens: sumOptional("cacheReadTokens"),
+    cacheWriteTokens: sumOptional("cacheWriteTokens"),
+    thinkingTokens: sumOptional("thinkingTokens"),
+    toolTokens: sumOptional("toolTokens"),
+  };
+}
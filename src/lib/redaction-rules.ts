@@ -0,0 +1,149 @@
+/**
+ * Custom redaction rules
+ * Each user keeps a list of literal terms and regular expressions (internal
+ * codenames, customer names, internal domains) that are replaced in every
+ * transcript they upload, before sensitive data scanning.
+ */
+
+import { RE2JS } from "re2js";
+import { escapeRegExp, rewriteText } from "./dlp";
+
+export const MAX_REDACTION_RULES = 50;
+const MIN_PATTERN_LENGTH = 3;
+const MAX_PATTERN_LENGTH = 200;
+const LABEL_PATTERN = /^[A-Z0-9_-]{1,40}$/;
+
+export interface RedactionRule {
+  id: string;
+  pattern: string;
+  isRegex: boolean;
+  label: string;
+}
+
+/**
+ * How many matches a rule replaced in an upload
+ */
+export interface RedactionRuleMatches {
+  id: string;
+  label: string;
+  matches: number;
+}
+
+/**
+ * Regular expressions run on RE2, which matches in linear time, so no pattern
+ * can stall an upload (RE2 syntax: no lookaheads or backreferences)
+ */
+function compileRegex(pattern: string): RE2JS {
+  return RE2JS.compile(pattern, RE2JS.CASE_INSENSITIVE);
+}
+
+/**
+ * Matches are case-insensitive, literal terms and regular expressions alike
+ * @returns A function replacing every match in a string
+ */
+function compileRule(
+  rule: Pick<RedactionRule, "pattern" | "isRegex">,
+): (value: string, replacement: () => string) => string {
+  if (rule.isRegex) {
+    const regex = compileRegex(rule.pattern);
+    return (value, replacement) => regex.matcher(value).replaceAll(replacement);
+  }
+  const literal = new RegExp(escapeRegExp(rule.pattern), "gi");
+  return (value, replacement) => value.replace(literal, replacement);
+}
+
+/**
+ * Validate a rule sent from the settings page
+ * Labels are upper-cased, with spaces turned into underscores
+ */
+export function parseRedactionRule(
+  body: unknown,
+): { rule: Omit<RedactionRule, "id"> } | { error: string } {
+  const {
+    pattern: rawPattern,
+    isRegex = false,
+    label,
+  } = (body ?? {}) as {
+    pattern?: unknown;
+    isRegex?: unknown;
+    label?: unknown;
+  };
+
+  if (typeof rawPattern !== "string" || typeof isRegex !== "boolean") {
+    return { error: "'pattern' must be a string and 'isRegex' a boolean" };
+  }
+  const pattern = rawPattern.trim();
+  if (
+    pattern.length < MIN_PATTERN_LENGTH ||
+    pattern.length > MAX_PATTERN_LENGTH
+  ) {
+    return {
+      error: `Patterns must be ${MIN_PATTERN_LENGTH}-${MAX_PATTERN_LENGTH} characters long`,
+    };
+  }
+
+  const normalizedLabel =
+    typeof label === "string"
+      ? label.trim().toUpperCase().replace(/\s+/g, "_")
+      : "";
+  if (!LABEL_PATTERN.test(normalizedLabel)) {
+    return {
+      error:
+        "Labels must be 1-40 letters, digits, underscores or hyphens (e.g. CUSTOMER)",
+    };
+  }
+
+  if (isRegex) {
+    let compiled: RE2JS;
+    try {
+      compiled = compileRegex(pattern);
+    } catch (error) {
+      return {
+        error: `Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+    if (compiled.matches("")) {
+      return { error: "The regular expression must not match empty text" };
+    }
+  }
+
+  return { rule: { pattern, isRegex, label: normalizedLabel } };
+}
+
+/**
+ * Replace the matches of a user's rules in transcript content with
+ * [REDACTED-<label>], keeping its JSON valid
+ * @returns The content (unchanged when nothing matched) and the number of
+ * matches of each rule
+ */
+export function applyRedactionRules(
+  content: string,
+  rules: RedactionRule[],
+): { content: string; matches: RedactionRuleMatches[] } {
+  const compiled = rules.map((rule) => ({
+    rule,
+    replace: compileRule(rule),
+    matches: 0,
+  }));
+  if (compiled.length === 0) return { content, matches: [] };
+
+  const redacted = rewriteText(content, (value) => {
+    let result = value;
+    for (const entry of compiled) {
+      result = entry.replace(result, () => {
+        entry.matches++;
+        return `[REDACTED-${entry.rule.label}]`;
+      });
+    }
+    return result;
+  });
+
+  return {
+    content: compiled.some((entry) => entry.matches > 0) ? redacted : content,
+    matches: compiled.map(({ rule, matches }) => ({
+      id: rule.id,
+      label: rule.label,
+      matches,
+    })),
+  };
+}
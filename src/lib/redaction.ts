@@ -0,0 +1,123 @@
+/**
+ * Owner redactions
+ * Text the owner selects in a published transcript is rewritten in the stored
+ * file data, either in the message it was selected in or everywhere
+ */
+
+import { nanoid } from "nanoid";
+import type { ParsedTranscript, TranscriptLine } from "@/types/transcript";
+import { rewriteText } from "./dlp";
+import { parseJSONL } from "./parser";
+import { isBashOutputMessage, isToolResultMessage } from "./transcript-utils";
+
+export const REDACTION_REPLACEMENT = "[REDACTED-CUSTOM]";
+export const MIN_REDACTION_LENGTH = 3;
+export const MAX_REDACTION_LENGTH = 1000;
+
+export interface RedactionResult {
+  content: string;
+  count: number; // Occurrences redacted; 0 when the text wasn't found
+}
+
+/**
+ * Replace each occurrence of text in the string values of content, numbering
+ * occurrences in document order; base64 data such as inline images is skipped
+ */
+function replaceOccurrences(
+  content: string,
+  text: string,
+  replace: (occurrence: number) => string,
+): RedactionResult {
+  let count = 0;
+  const result = rewriteText(content, (value) => {
+    const parts = value.split(text);
+    return parts
+      .slice(1)
+      .reduce((acc, part) => acc + replace(count++) + part, parts[0]);
+  });
+  return { content: result, count };
+}
+
+/**
+ * Lines shown as one message in the viewer: the message, the tool results
+ * grouped under it and the sub-agents its Task calls spawned
+ */
+export function getMessageScope(
+  transcript: ParsedTranscript,
+  messageIndex: number,
+): TranscriptLine[] {
+  const line = transcript.messages[messageIndex];
+  if (!line) return [];
+
+  const children = transcript.messages.filter(
+    (msg) =>
+      msg.message?.role === "user" &&
+      msg.parentUuid === line.uuid &&
+      (isToolResultMessage(msg.message.content) ||
+        isBashOutputMessage(msg.message.content)),
+  );
+
+  const subagentLines = [line, ...children].flatMap((msg) => {
+    const content = msg.message?.content;
+    if (!Array.isArray(content)) return [];
+    return content.flatMap((block) =>
+      block.type === "tool_use" && block.id
+        ? (transcript.subagents?.[block.id]?.messages ?? [])
+        : [],
+    );
+  });
+
+  return [line, ...children, ...subagentLines];
+}
+
+/**
+ * Redact text in a transcript's file data
+ * Without a message index every occurrence is redacted. With one, only the
+ * occurrences that end up in that message once parsed: each occurrence is
+ * tagged, the tagged file parsed the way the viewer parses it (so message
+ * indexes match), and the tags found in the message's lines are the ones to
+ * redact.
+ * @param source - Stored provider of the transcript, so it parses the way
+ * the viewer parses it
+ */
+export function redactTranscript(
+  content: string,
+  text: string,
+  messageIndex?: number,
+  source?: string,
+): RedactionResult {
+  if (messageIndex === undefined) {
+    return replaceOccurrences(content, text, () => REDACTION_REPLACEMENT);
+  }
+
+  const nonce = nanoid();
+  const tagged = replaceOccurrences(
+    content,
+    text,
+    (occurrence) => `[[${nonce}:${occurrence}]]`,
+  );
+  if (tagged.count === 0) return { content, count: 0 };
+
+  let parsed: ParsedTranscript;
+  try {
+    parsed = parseJSONL(tagged.content, source);
+  } catch {
+    return { content, count: 0 };
+  }
+
+  const scope = JSON.stringify(getMessageScope(parsed, messageIndex));
+  const inMessage = new Set(
+    Array.from(
+      scope.matchAll(new RegExp(`\\[\\[${nonce}:(\\d+)\\]\\]`, "g")),
+      (match) => Number(match[1]),
+    ),
+  );
+  if (inMessage.size === 0) return { content, count: 0 };
+
+  return {
+    content: replaceOccurrences(content, text, (occurrence) =>
+      inMessage.has(occurrence) ? REDACTION_REPLACEMENT : text,
+    ).content,
+    count: inMessage.size,
+  };
+}
@@ -0,0 +1,223 @@
+/**
+ * Local secret scanner
+ * Offline detection of credentials with known formats (cloud, SaaS and LLM
+ * API keys, private keys, JWTs, connection strings) plus a generic
+ * high-entropy check. Needs no external service, so self-hosted installs
+ * without Google Cloud DLP still get secrets scrubbed.
+ */
+
+import type { SensitiveDataFinding, SensitiveDataScanner } from "./dlp";
+
+export interface SecretRule {
+  infoType: string;
+  likelihood: "VERY_LIKELY" | "LIKELY" | "POSSIBLE";
+  pattern: RegExp; // Must be global
+  group?: number; // Capture group holding the secret when the match includes a label
+  validate?: (quote: string) => boolean;
+}
+
+// JSON fields holding ids that other lines refer to (tool results name their
+// tool call, messages their parent); rewriting them breaks the links
+const ID_FIELDS = [
+  "id",
+  "uuid",
+  "parentUuid",
+  "leafUuid",
+  "sessionId",
+  "session_id",
+  "requestId",
+  "request_id",
+  "messageId",
+  "message_id",
+  "tool_use_id",
+  "tool_call_id",
+  "toolCallId",
+  "call_id",
+  "callId",
+];
+
+// Prefixes of API-generated ids: message, request and tool call ids of the
+// Anthropic API (also on Vertex AI and Bedrock) and the OpenAI API
+const ID_PREFIX_REGEX =
+  /^(?:(?:srvtoolu|toolu|msg|req)_(?:vrtx_|bdrk_)?|call_|fc_|resp_|rs_|chatcmpl-)/;
+
+// Not the value of an id field, also when the JSON is escaped inside a string
+const NOT_ID_VALUE = `(?<!"(?:${ID_FIELDS.join("|")})\\\\?"\\s*:\\s*\\\\?")`;
+
+// Lookarounds instead of \b so that tokens inside JSON escapes (\n, \") still match
+const TOKEN_CHARS = "A-Za-z0-9+/_=-";
+const HIGH_ENTROPY_REGEX = new RegExp(
+  `(?<![${TOKEN_CHARS}])${NOT_ID_VALUE}[A-Za-z0-9+/_-]{32,128}={0,2}(?![${TOKEN_CHARS}])`,
+  "g",
+);
+
+// Bits per character; random base62/base64 is above 4.5, words and
+// identifiers stay below 4, hex tops out at 4
+const MIN_ENTROPY = 4.3;
+
+/**
+ * Shannon entropy of a string in bits per character
+ */
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * Random-looking token: mixed case with digits and high entropy, and not an
+ * API-generated id
+ */
+function isHighEntropySecret(value: string): boolean {
+  return (
+    !ID_PREFIX_REGEX.test(value) &&
+    /[a-z]/.test(value) &&
+    /[A-Z]/.test(value) &&
+    /[0-9]/.test(value) &&
+    shannonEntropy(value) >= MIN_ENTROPY
+  );
+}
+
+/**
+ * Rules in priority order; a match inside an earlier finding is ignored, so
+ * specific formats come before the generic entropy check
+ */
+const SECRET_RULES: SecretRule[] = [
+  {
+    infoType: "PRIVATE_KEY",
+    likelihood: "VERY_LIKELY",
+    // [\s\S] spans both real newlines and JSON-escaped "\n"
+    pattern:
+      /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/g,
+  },
+  {
+    infoType: "AWS_CREDENTIALS",
+    likelihood: "VERY_LIKELY",
+    pattern: /(?<![A-Z0-9])(?:AKIA|ASIA)[A-Z0-9]{16}(?![A-Z0-9])/g,
+  },
+  {
+    infoType: "AWS_CREDENTIALS",
+    likelihood: "VERY_LIKELY",
+    pattern:
+      /aws_?secret_?access_?key\\?["']?\s*[:=]\s*\\?["']?([A-Za-z0-9/+]{40})(?![A-Za-z0-9/+])/gi,
+    group: 1,
+  },
+  {
+    infoType: "GITHUB_TOKEN",
+    likelihood: "VERY_LIKELY",
+    pattern:
+      /(?<![A-Za-z0-9_])(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})/g,
+  },
+  {
+    infoType: "SLACK_TOKEN",
+    likelihood: "VERY_LIKELY",
+    pattern:
+      /(?<![A-Za-z0-9])xox[abposre]-[A-Za-z0-9-]{10,}|https:\/\/hooks\.slack\.com\/services\/[A-Za-z0-9/_]+/g,
+  },
+  {
+    infoType: "STRIPE_API_KEY",
+    likelihood: "VERY_LIKELY",
+    pattern: /(?<![A-Za-z0-9])(?:sk|rk)_(?:live|test)_[A-Za-z0-9]{16,}/g,
+  },
+  {
+    infoType: "ANTHROPIC_API_KEY",
+    likelihood: "VERY_LIKELY",
+    pattern: /(?<![A-Za-z0-9])sk-ant-[A-Za-z0-9_-]{20,}/g,
+  },
+  {
+    infoType: "OPENAI_API_KEY",
+    likelihood: "VERY_LIKELY",
+    pattern:
+      /(?<![A-Za-z0-9])sk-(?!ant-)(?:(?:proj|svcacct|admin)-)?[A-Za-z0-9_-]{20,}/g,
+  },
+  {
+    infoType: "JSON_WEB_TOKEN",
+    likelihood: "VERY_LIKELY",
+    pattern:
+      /(?<![A-Za-z0-9_-])eyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g,
+  },
+  {
+    infoType: "CONNECTION_STRING",
+    likelihood: "LIKELY",
+    // Only URLs with a password; stops at quotes and JSON escapes
+    pattern:
+      /(?<![A-Za-z0-9+])(?:postgres(?:ql)?|mysql|mariadb|mongodb(?:\+srv)?|rediss?|amqps?|mssql|sqlserver):\/\/[^\s:@/"'\\]+:[^\s@/"'\\]+@[^\s"'\\<>]+/g,
+  },
+  {
+    infoType: "HIGH_ENTROPY_STRING",
+    likelihood: "POSSIBLE",
+    pattern: HIGH_ENTROPY_REGEX,
+    validate: isHighEntropySecret,
+  },
+];
+
+/**
+ * Find matches of rules in content
+ * Byte ranges are UTF-8 offsets into the content, like Cloud DLP reports them
+ */
+export function findMatches(
+  content: string,
+  rules: SecretRule[],
+): SensitiveDataFinding[] {
+  const matches: Array<{
+    rule: SecretRule;
+    quote: string;
+    start: number;
+    end: number;
+  }> = [];
+
+  for (const rule of rules) {
+    for (const match of content.matchAll(rule.pattern)) {
+      const quote = rule.group ? match[rule.group] : match[0];
+      if (!quote || (rule.validate && !rule.validate(quote))) continue;
+      const start = (match.index ?? 0) + match[0].indexOf(quote);
+      const end = start + quote.length;
+      if (matches.some((m) => start < m.end && end > m.start)) continue;
+      matches.push({ rule, quote, start, end });
+    }
+  }
+
+  // Convert character offsets to byte offsets in one pass
+  matches.sort((a, b) => a.start - b.start);
+  let charOffset = 0;
+  let byteOffset = 0;
+  const toBytes = (index: number) => {
+    byteOffset += Buffer.byteLength(content.slice(charOffset, index), "utf8");
+    charOffset = index;
+    return byteOffset;
+  };
+
+  return matches.map(({ rule, quote, start, end }) => ({
+    infoType: rule.infoType,
+    likelihood: rule.likelihood,
+    quote,
+    location: {
+      byteRange: { start: toBytes(start), end: toBytes(end) },
+    },
+  }));
+}
+
+/**
+ * Find secrets in content
+ */
+export function findSecrets(content: string): SensitiveDataFinding[] {
+  return findMatches(content, SECRET_RULES);
+}
+
+/**
+ * Scanner backed by the local rules
+ */
+export class LocalSecretScanner implements SensitiveDataScanner {
+  readonly name = "local";
+
+  async scan(content: string) {
+    return { findings: findSecrets(content) };
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Combine the files of one session into a single upload
+ * Sub-agents run by the Claude Code Task tool write their conversation to
+ * agent-*.jsonl files next to the session; every line is self-describing
+ * (isSidechain, agentId, sessionId), so they are appended to their session.
+ * A session resumed across several files is stored as a bundle and stitched
+ * together when parsed. A Cline task holds its conversation twice (the API
+ * history and the chat as shown in the extension), so only one of its files
+ * is kept.
+ */
+
+import { createBundle } from "@/lib/providers/bundle";
+
+export interface SessionFile {
+  name: string;
+  content: string;
+}
+
+const AGENT_FILE_PATTERN = /(^|\/)agent-[^/]*\.jsonl$/;
+
+const CLINE_API_HISTORY = "api_conversation_history.json";
+const CLINE_UI_MESSAGES = "ui_messages.json";
+
+/**
+ * Whether a file name is a Claude Code sub-agent sidechain file
+ */
+export function isAgentFile(name: string): boolean {
+  return AGENT_FILE_PATTERN.test(name);
+}
+
+/**
+ * Folder part of a file name, empty when it has none
+ */
+function folderOf(name: string): string {
+  return name.slice(0, name.lastIndexOf("/") + 1);
+}
+
+/**
+ * Leave out ui_messages.json when the API history of the same Cline task is
+ * selected too; files from one folder, or picked without a folder, are taken
+ * to be from the same task
+ */
+function dropClineUiMessages(files: SessionFile[]): SessionFile[] {
+  const fileName = (name: string) => name.slice(name.lastIndexOf("/") + 1);
+  const historyFolders = new Set(
+    files
+      .filter((file) => fileName(file.name) === CLINE_API_HISTORY)
+      .map((file) => folderOf(file.name)),
+  );
+  return files.filter(
+    (file) =>
+      fileName(file.name) !== CLINE_UI_MESSAGES ||
+      !historyFolders.has(folderOf(file.name)),
+  );
+}
+
+/**
+ * Session id from the first line that has one
+ */
+function readSessionId(content: string): string | undefined {
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const parsed = JSON.parse(line) as { sessionId?: unknown };
+      if (typeof parsed.sessionId === "string") return parsed.sessionId;
+    } catch {
+      // Invalid lines are reported when the transcript is parsed
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Merge session files and their agent files into a single upload
+ * Agent files are appended to the session with the same sessionId; agent
+ * files from other sessions (e.g. when a whole project folder is dropped)
+ * are left out. Throws with a user-facing message when the files cannot be
+ * combined.
+ */
+export function combineSessionFiles(selected: SessionFile[]): SessionFile {
+  const files = dropClineUiMessages(selected);
+  if (files.length === 1) return files[0];
+
+  const extension = (name: string) => name.slice(name.lastIndexOf("."));
+  if (files.some((file) => extension(file.name) === ".md")) {
+    throw new Error("Markdown transcripts can only be uploaded one at a time");
+  }
+  if (new Set(files.map((file) => extension(file.name))).size > 1) {
+    throw new Error(
+      "All files must be in the same format (.json or .jsonl) to be uploaded together",
+    );
+  }
+
+  const sessions = files.filter((file) => !isAgentFile(file.name));
+  if (sessions.length === 0) {
+    throw new Error(
+      "No session file found. Include the session .jsonl file along with its agent-*.jsonl files",
+    );
+  }
+
+  const agents = files.filter((file) => isAgentFile(file.name));
+  const combined = sessions.map((session) => {
+    const sessionId = readSessionId(session.content);
+    const sessionAgents = agents.filter(
+      (agent) =>
+        (!sessionId && sessions.length === 1) ||
+        (sessionId !== undefined && readSessionId(agent.content) === sessionId),
+    );
+    if (sessionAgents.length === 0) return session;
+
+    return {
+      name: session.name,
+      content: [session, ...sessionAgents]
+        .map((file) => file.content.trim())
+        .filter(Boolean)
+        .join("\n"),
+    };
+  });
+
+  if (combined.length === 1) return combined[0];
+
+  // Resumed session: the parser orders the files and removes repeated lines
+  return { name: combined[0].name, content: createBundle(combined) };
+}
@@ -0,0 +1,198 @@
+/**
+ * Staged uploads
+ * Storage side of two-phase uploads: an upload with findings is kept here,
+ * unpublished, until its owner publishes it with their review decisions or
+ * discards it
+ */
+
+import { nanoid } from "nanoid";
+import { NextResponse } from "next/server";
+import type {
+  ParseDiagnostic,
+  ParsedTranscript,
+  TranscriptMetadata,
+} from "@/types/transcript";
+import { extractImageAssets } from "./assets";
+import type { SensitiveDataFinding } from "./dlp";
+import {
+  calculateTranscriptMetadata,
+  generateDefaultTitle,
+  isUuidOrSessionId,
+  parseJSONL,
+} from "./parser";
+import { prisma } from "./prisma";
+import { ParseDiagnostics } from "./providers";
+import { formatMegabytes, MAX_TRANSCRIPT_BYTES } from "./upload-limits";
+import {
+  applyReviewDecisions,
+  buildReviewFindings,
+  type ReviewDecisions,
+  type ReviewFinding,
+  type StagedUploadReview,
+} from "./upload-review";
+
+// How long the owner has to review a staged upload
+export const STAGED_UPLOAD_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+interface StageUploadInput {
+  userId: string;
+  fileData: string; // As uploaded, images still inline
+  content: string; // fileData with images extracted, as scanned
+  title?: string;
+  source: string;
+  transcript: ParsedTranscript;
+  findings: SensitiveDataFinding[];
+}
+
+/**
+ * Keep an upload for review and describe its findings
+ * The user's expired staged uploads are cleaned up at the same time
+ */
+export async function stageUpload(
+  input: StageUploadInput,
+): Promise<StagedUploadReview> {
+  const findings = buildReviewFindings(
+    input.content,
+    input.transcript,
+    input.findings,
+  );
+  const expiresAt = new Date(Date.now() + STAGED_UPLOAD_TTL_MS);
+
+  await prisma.stagedUpload.deleteMany({
+    where: { userId: input.userId, expiresAt: { lt: new Date() } },
+  });
+
+  const staged = await prisma.stagedUpload.create({
+    data: {
+      userId: input.userId,
+      title: input.title || null,
+      source: input.source,
+      fileData: input.fileData,
+      findings: JSON.parse(JSON.stringify(findings)),
+      expiresAt,
+    },
+    select: { id: true },
+  });
+
+  return {
+    stagedId: staged.id,
+    source: input.source,
+    title: input.title || null,
+    expiresAt: expiresAt.toISOString(),
+    findings,
+  };
+}
+
+/**
+ * A staged upload of the user that has not expired
+ */
+export async function getStagedUpload(id: string, userId: string) {
+  return prisma.stagedUpload.findFirst({
+    where: { id, userId, expiresAt: { gt: new Date() } },
+  });
+}
+
+/**
+ * Discard a staged upload
+ * @returns whether the user had a staged upload with this id
+ */
+export async function discardStagedUpload(
+  id: string,
+  userId: string,
+): Promise<boolean> {
+  const { count } = await prisma.stagedUpload.deleteMany({
+    where: { id, userId },
+  });
+  return count > 0;
+}
+
+/**
+ * Publish a staged upload with the owner's decisions applied
+ * The transcript is created and the staged upload removed in one transaction
+ * @returns The published transcript, or the 400 response when redactions
+ * made it larger than the transcript limit
+ */
+export async function publishStagedUpload(
+  staged: {
+    id: string;
+    userId: string;
+    title: string | null;
+    source: string;
+    fileData: string;
+    findings: unknown;
+  },
+  decisions: ReviewDecisions,
+): Promise<
+  | {
+      published: {
+        id: string;
+        secretToken: string;
+        source: string;
+        diagnostics: ParseDiagnostic[];
+      };
+    }
+  | { response: NextResponse }
+> {
+  const redacted = applyReviewDecisions(
+    staged.fileData,
+    staged.findings as ReviewFinding[],
+    decisions,
+  );
+  const { content: fileData, assets } = extractImageAssets(redacted);
+
+  // Replacements can be longer than the text they replace
+  const fileSizeBytes = Buffer.byteLength(fileData, "utf8");
+  if (fileSizeBytes > MAX_TRANSCRIPT_BYTES) {
+    return {
+      response: NextResponse.json(
+        {
+          error: "File too large",
+          message: `File size ${formatMegabytes(fileSizeBytes)} exceeds the ${formatMegabytes(MAX_TRANSCRIPT_BYTES)} limit.`,
+        },
+        { status: 400 },
+      ),
+    };
+  }
+
+  // Redactions only touch string values, so the transcript still parses
+  const parsed = parseJSONL(fileData, staged.source, new ParseDiagnostics());
+  const metadata: TranscriptMetadata = calculateTranscriptMetadata(
+    parsed,
+    staged.source,
+  );
+
+  // Generate default title if none provided or if title is a UUID/session ID
+  const createdAt = new Date();
+  const title =
+    staged.title && !isUuidOrSessionId(staged.title)
+      ? staged.title
+      : generateDefaultTitle(staged.source, createdAt);
+
+  const [transcript] = await prisma.$transaction([
+    prisma.transcript.create({
+      data: {
+        userId: staged.userId,
+        secretToken: nanoid(16),
+        title,
+        source: staged.source,
+        fileData,
+        messageCount: parsed.metadata.messageCount,
+        fileSizeBytes,
+        metadata: JSON.parse(JSON.stringify(metadata)),
+        createdAt,
+        assets: { create: assets },
+      },
+      select: { id: true, secretToken: true },
+    }),
+    prisma.stagedUpload.delete({ where: { id: staged.id } }),
+  ]);
+
+  return {
+    published: {
+      id: transcript.id as string,
+      secretToken: transcript.secretToken as string,
+      source: staged.source,
+      diagnostics: metadata.diagnostics ?? [],
+    },
+  };
+}
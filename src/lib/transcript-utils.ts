@@ -2,7 +2,11 @@
  * Shared utilities for transcript parsing
  */
 
-import type { ContentBlock } from "@/types/transcript";
+import type {
+  ContentBlock,
+  ParsedTranscript,
+  TranscriptLine,
+} from "@/types/transcript";
 
 /**
  * Parse text that may contain <user_instructions> tags
@@ -77,3 +81,207 @@ export function parseUserInstructions(text: string): ContentBlock[] {
 
   return blocks;
 }
+
+// Claude Code permission modes and Codex approval policies
+export const PERMISSION_MODE_LABELS: Record<string, string> = {
+  default: "Default mode",
+  plan: "Plan mode",
+  acceptEdits: "Auto-accept edits",
+  bypassPermissions: "Bypass permissions",
+  untrusted: "Ask for untrusted commands",
+  "on-request": "Ask on request",
+  "on-failure": "Ask on failure",
+  never: "Never ask",
+};
+
+// System XML tags to hide (IDE notifications, hooks, etc.)
+const SYSTEM_XML_TAGS = [
+  "ide_opened_file",
+  "ide_selection",
+  "ide_diagnostics",
+  "post-tool-use-hook",
+  "system-reminder",
+  "user-prompt-submit-hook",
+  "local-command-stdout",
+  "environment_context",
+] as const;
+
+/**
+ * Whether a user message only carries tool results, shown with the call
+ * that produced them
+ */
+export function isToolResultMessage(content: unknown): boolean {
+  return (
+    Array.isArray(content) &&
+    content.length > 0 &&
+    content.every((block) => block.type === "tool_result")
+  );
+}
+
+/**
+ * Whether a user message only carries output of a ! bash command
+ */
+export function isBashOutputMessage(content: unknown): boolean {
+  return (
+    Array.isArray(content) &&
+    content.length > 0 &&
+    content.every(
+      (block) => block.type === "bash-stdout" || block.type === "bash-stderr",
+    )
+  );
+}
+
+/**
+ * Whether a user message was injected by the CLI (caveats, IDE
+ * notifications, hook output) and is not shown
+ */
+export function isSystemMessageToHide(content: unknown): boolean {
+  if (typeof content === "string") {
+    const trimmed = content.trim();
+    if (trimmed.startsWith("Caveat:")) return true;
+    for (const tag of SYSTEM_XML_TAGS) {
+      if (trimmed.startsWith(`<${tag}>`)) return true;
+    }
+    return false;
+  }
+
+  if (Array.isArray(content) && content.length === 1) {
+    const block = content[0];
+    if (block.type === "text") {
+      const trimmed = block.text.trim();
+      if (trimmed.startsWith("Caveat:")) return true;
+      for (const tag of SYSTEM_XML_TAGS) {
+        if (trimmed.startsWith(`<${tag}>`)) return true;
+      }
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Detect system notes in brackets, e.g. "[Request interrupted by user]"
+ */
+export function isBracketSystemMessage(content: unknown): {
+  isSystemMessage: boolean;
+  text: string;
+} {
+  if (typeof content === "string") {
+    const trimmed = content.trim();
+    if (trimmed.startsWith("[") && trimmed.endsWith("]")) {
+      return { isSystemMessage: true, text: trimmed };
+    }
+  }
+
+  if (Array.isArray(content) && content.length === 1) {
+    const block = content[0];
+    if (block.type === "text") {
+      const trimmed = block.text.trim();
+      if (trimmed.startsWith("[") && trimmed.endsWith("]")) {
+        return { isSystemMessage: true, text: trimmed };
+      }
+    }
+  }
+
+  return { isSystemMessage: false, text: "" };
+}
+
+/**
+ * Whether text looks like raw logs or JSON rather than prose, shown as a
+ * plain code block instead of Markdown
+ */
+export function looksLikeRawContent(text: string): boolean {
+  return (
+    text.includes(
+      "================================================================================",
+    ) ||
+    /^EVENT \[/.test(text) ||
+    (/^\{[\s\S]*\}$/.test(text.trim()) && text.length > 100)
+  );
+}
+
+/**
+ * Main conversation lines followed by every sub-agent's lines
+ * Used for statistics, so sub-agent work counts toward session totals
+ */
+export function getAllMessages(transcript: ParsedTranscript): TranscriptLine[] {
+  return [
+    ...transcript.messages,
+    ...Object.values(transcript.subagents ?? {}).flatMap(
+      (subagent) => subagent.messages,
+    ),
+  ];
+}
+
+export interface TurnUsage {
+  index: number; // Index of the prompt that starts the turn
+  timestamp: string; // Time of the turn's last response
+  inputTokens: number;
+  outputTokens: number;
+  cumulativeTokens: number; // Input and output tokens up to and including this turn
+  costUsd?: number; // Estimated cost, when a line cost estimator is given
+}
+
+/**
+ * Token usage of each turn, where a turn runs from one prompt to the next
+ * Sub-agent usage counts toward the turn that started the sub-agent. Cache
+ * tokens are left out since providers count them differently.
+ *
+ * @param transcript - The parsed transcript
+ * @param promptIndexes - Indexes of the messages that start each turn, in order
+ * @param lineCost - Optional cost estimator for a line with usage
+ * @returns One entry per turn, or an empty array when no line has usage
+ */
+export function getTurnUsage(
+  transcript: ParsedTranscript,
+  promptIndexes: number[],
+  lineCost?: (line: TranscriptLine) => number | null,
+): TurnUsage[] {
+  const subagentLines = (line: TranscriptLine): TranscriptLine[] => {
+    if (!transcript.subagents || !Array.isArray(line.message?.content)) {
+      return [];
+    }
+    return line.message.content.flatMap((block) =>
+      block.type === "tool_use" && transcript.subagents?.[block.id]
+        ? transcript.subagents[block.id].messages
+        : [],
+    );
+  };
+
+  let cumulativeTokens = 0;
+  let hasUsage = false;
+
+  const turns = promptIndexes.map((start, i) => {
+    // Usage before the first prompt (e.g. a system preamble) counts toward it
+    const from = i === 0 ? 0 : start;
+    const to = promptIndexes[i + 1] ?? transcript.messages.length;
+    let inputTokens = 0;
+    let outputTokens = 0;
+    let costUsd: number | undefined;
+    let timestamp = transcript.messages[start].timestamp;
+
+    for (const line of transcript.messages.slice(from, to)) {
+      for (const counted of [line, ...subagentLines(line)]) {
+        if (!counted.usage) continue;
+        hasUsage = true;
+        inputTokens += counted.usage.inputTokens;
+        outputTokens += counted.usage.outputTokens;
+        const cost = lineCost?.(counted);
+        if (cost != null) costUsd = (costUsd ?? 0) + cost;
+      }
+      if (line.usage && line.timestamp) timestamp = line.timestamp;
+    }
+
+    cumulativeTokens += inputTokens + outputTokens;
+    return {
+      index: start,
+      timestamp,
+      inputTokens,
+      outputTokens,
+      cumulativeTokens,
+      costUsd,
+    };
+  });
+
+  return hasUsage ? turns : [];
+}
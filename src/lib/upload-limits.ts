@@ -0,0 +1,24 @@
+/**
+ * Upload size limits shared by the upload routes and the upload UI
+ * Large images are moved out of the transcript before the transcript limit
+ * is checked (see lib/assets.ts), so a raw file may be larger than
+ * MAX_TRANSCRIPT_BYTES by the base64 size of its images.
+ */
+
+// Transcript text left after images are extracted
+export const MAX_TRANSCRIPT_BYTES = 5 * 1024 * 1024; // 5MB
+
+// Total size of the images stored for one transcript
+export const MAX_ASSET_BYTES = 20 * 1024 * 1024; // 20MB
+
+// Raw files as selected by the uploader: text plus base64-encoded images
+export const MAX_UPLOAD_BYTES =
+  MAX_TRANSCRIPT_BYTES + Math.ceil((MAX_ASSET_BYTES * 4) / 3);
+
+/**
+ * Size in megabytes for limit messages, e.g. "5MB"
+ */
+export function formatMegabytes(bytes: number): string {
+  const megabytes = bytes / 1024 / 1024;
+  return `${Number.isInteger(megabytes) ? megabytes : megabytes.toFixed(2)}MB`;
+}
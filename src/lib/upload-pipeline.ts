@@ -0,0 +1,313 @@
+/**
+ * Upload pipeline
+ * What the web and CLI upload routes do with an uploaded transcript once the
+ * request is authenticated: anonymize it, apply the uploader's redaction
+ * rules, extract images, check size limits, detect and parse the format,
+ * then either stage it for review or scan it for sensitive data and publish
+ * it.
+ */
+
+import { nanoid } from "nanoid";
+import { NextResponse } from "next/server";
+import type { ParseDiagnostic, ParsedTranscript } from "@/types/transcript";
+import { anonymizeTranscript } from "./anonymize";
+import { extractImageAssets, getAssetBytes, MAX_ASSET_BYTES } from "./assets";
+import {
+  type DlpScanResult,
+  findSensitiveData,
+  formatDlpFindings,
+  scanForSensitiveData,
+} from "./dlp";
+import { log } from "./logger";
+import {
+  calculateTranscriptMetadata,
+  generateDefaultTitle,
+  isUuidOrSessionId,
+  parseJSONL,
+} from "./parser";
+import { prisma } from "./prisma";
+import {
+  type DetectionResult,
+  detectProvider,
+  getAvailableProviders,
+  getProviderByName,
+  ParseDiagnostics,
+} from "./providers";
+import {
+  applyRedactionRules,
+  type RedactionRuleMatches,
+} from "./redaction-rules";
+import { stageUpload } from "./staged-uploads";
+import {
+  formatMegabytes,
+  MAX_TRANSCRIPT_BYTES,
+  MAX_UPLOAD_BYTES,
+} from "./upload-limits";
+import type { StagedUploadReview } from "./upload-review";
+
+export interface UploadInput {
+  userId: string;
+  fileData: string; // As uploaded
+  title?: string;
+  searchParams: URLSearchParams; // ?source=, ?review=true and ?anonymize=false
+  defaultSource: string; // Provider when detection fails
+  // Error for a transcript that doesn't parse as the detected provider
+  parseError: (
+    source: string,
+    error: unknown,
+  ) => { error: string; message: string };
+}
+
+export interface PublishedUpload {
+  id: string;
+  secretToken: string;
+  source: string;
+  diagnostics: ParseDiagnostic[];
+  redactionRules: RedactionRuleMatches[]; // Matches of the uploader's rules, already replaced
+}
+
+/**
+ * Run an upload through the pipeline
+ * @returns The staged review (when ?review=true and there are findings), the
+ * published transcript, or the 400 response rejecting the upload
+ */
+export async function processUpload(
+  input: UploadInput,
+): Promise<
+  | { review: StagedUploadReview }
+  | { published: PublishedUpload }
+  | { response: NextResponse }
+> {
+  const { userId, title, searchParams } = input;
+
+  // Checked before anonymization and redaction rules so their work stays
+  // bounded; the transcript and image limits are checked once images are
+  // extracted
+  const uploadSizeBytes = Buffer.byteLength(input.fileData, "utf8");
+  if (uploadSizeBytes > MAX_UPLOAD_BYTES) {
+    return {
+      response: NextResponse.json(
+        {
+          error: "File too large",
+          message: `File size ${formatMegabytes(uploadSizeBytes)} exceeds the ${formatMegabytes(MAX_UPLOAD_BYTES)} limit.`,
+        },
+        { status: 400 },
+      ),
+    };
+  }
+
+  // Home directories, username and hostname are anonymized unless the
+  // uploader opts out with ?anonymize=false
+  const anonymizedFileData =
+    searchParams.get("anonymize") === "false"
+      ? input.fileData
+      : anonymizeTranscript(input.fileData);
+
+  // The uploader's own redaction rules run before DLP
+  const redactionRules = await prisma.redactionRule.findMany({
+    where: { userId },
+    select: { id: true, pattern: true, isRegex: true, label: true },
+  });
+  const { content: uploadedFileData, matches: redactionRuleMatches } =
+    applyRedactionRules(anonymizedFileData, redactionRules);
+
+  // Large images are stored separately and don't count toward the limit
+  const { content: transcriptData, assets } =
+    extractImageAssets(uploadedFileData);
+  const assetBytes = getAssetBytes(assets);
+  if (assetBytes > MAX_ASSET_BYTES) {
+    return {
+      response: NextResponse.json(
+        {
+          error: "Images too large",
+          message: `Images in the transcript take up ${(assetBytes / 1024 / 1024).toFixed(2)}MB, over the ${MAX_ASSET_BYTES / 1024 / 1024}MB limit.`,
+        },
+        { status: 400 },
+      ),
+    };
+  }
+
+  // Check file size limit
+  const fileSizeBytes = Buffer.byteLength(transcriptData, "utf8");
+  if (fileSizeBytes > MAX_TRANSCRIPT_BYTES) {
+    return {
+      response: NextResponse.json(
+        {
+          error: "File too large",
+          message: `File size ${formatMegabytes(fileSizeBytes)} exceeds the ${formatMegabytes(MAX_TRANSCRIPT_BYTES)} limit.`,
+        },
+        { status: 400 },
+      ),
+    };
+  }
+
+  // Optional ?source= override for when auto-detection guesses wrong
+  const sourceOverride = searchParams.get("source");
+  if (sourceOverride && !getProviderByName(sourceOverride)) {
+    return {
+      response: NextResponse.json(
+        {
+          error: "Unknown source",
+          message: `Unknown source "${sourceOverride}". Expected one of: ${getAvailableProviders().join(", ")}.`,
+        },
+        { status: 400 },
+      ),
+    };
+  }
+
+  // Auto-detect transcript format unless the caller forced one
+  let detectedSource = sourceOverride || input.defaultSource;
+  let detection: DetectionResult | null = null;
+  try {
+    detection = detectProvider(transcriptData);
+    detectedSource = sourceOverride || detection.provider;
+
+    if (sourceOverride) {
+      if (sourceOverride !== detection.provider) {
+        log.info("Provider detection overridden", {
+          provider: sourceOverride,
+          detectedProvider: detection.provider,
+          score: detection.score,
+        });
+      }
+    } else if (detection.confidence === "low") {
+      // Log low-confidence detections
+      log.warn("Low confidence provider detection", {
+        provider: detection.provider,
+        score: detection.score,
+        evidence: detection.evidence.join("; "),
+        fileSize: fileSizeBytes,
+      });
+    }
+  } catch (err) {
+    log.error(
+      `Provider detection failed, falling back to ${input.defaultSource}`,
+      {
+        errorMessage: err instanceof Error ? err.message : String(err),
+        fileSize: fileSizeBytes,
+      },
+    );
+  }
+
+  // Validate transcript format (JSONL or JSON)
+  let parsed: ParsedTranscript;
+  const diagnostics = new ParseDiagnostics();
+  try {
+    parsed = parseJSONL(transcriptData, detectedSource, diagnostics);
+  } catch (err) {
+    log.error("Transcript parsing failed", {
+      errorMessage: err instanceof Error ? err.message : String(err),
+      provider: detectedSource,
+      fileSize: fileSizeBytes,
+    });
+
+    return {
+      response: NextResponse.json(
+        {
+          ...input.parseError(detectedSource, err),
+          source: detectedSource,
+          candidates: detection?.candidates,
+          diagnostics: diagnostics.list(),
+        },
+        { status: 400 },
+      ),
+    };
+  }
+
+  // Two-phase upload: stage the transcript until its findings are reviewed
+  let dlpResult: DlpScanResult;
+  if (searchParams.get("review") === "true") {
+    const findings = await findSensitiveData(transcriptData);
+    if (findings.length > 0) {
+      const review = await stageUpload({
+        userId,
+        fileData: uploadedFileData,
+        content: transcriptData,
+        title,
+        source: detectedSource,
+        transcript: parsed,
+        findings,
+      });
+      return { review: { ...review, redactionRules: redactionRuleMatches } };
+    }
+    // Nothing to review, publish as-is
+    dlpResult = { hasSensitiveData: false, findings: [], categories: [] };
+  } else {
+    // Scan for sensitive data (local secret scanner and/or Google Cloud DLP)
+    dlpResult = await scanForSensitiveData(transcriptData);
+  }
+
+  // Determine final file data (original or scrubbed)
+  let fileData = transcriptData;
+
+  // Handle DLP results
+  if (dlpResult.scrubbedContent) {
+    // Content was modified (scrubbed)
+    fileData = dlpResult.scrubbedContent;
+  } else if (dlpResult.hasSensitiveData) {
+    // Sensitive data found but no scrubbing - must block
+    const message = formatDlpFindings(dlpResult);
+
+    return {
+      response: NextResponse.json(
+        {
+          error: "Sensitive data detected",
+          message: `Your transcript contains sensitive information that should not be uploaded publicly. ${message}`,
+          findings: dlpResult.findings.map((f) => ({
+            type: f.infoType,
+            likelihood: f.likelihood,
+          })),
+        },
+        { status: 400 },
+      ),
+    };
+  }
+
+  // Calculate and store all metadata (message counts, tool counts, model stats, token counts, etc.)
+  // from the data that is stored, so nothing scrubbed from the transcript
+  // (e.g. a token in a git remote URL) is kept in the metadata
+  const stored =
+    fileData === transcriptData
+      ? parsed
+      : parseJSONL(fileData, detectedSource, new ParseDiagnostics());
+  const transcriptMetadata = calculateTranscriptMetadata(
+    stored,
+    detectedSource,
+  );
+
+  // Generate default title if none provided or if title is a UUID/session ID
+  const createdAt = new Date();
+  const finalTitle =
+    title && !isUuidOrSessionId(title)
+      ? title
+      : generateDefaultTitle(detectedSource, createdAt);
+
+  const transcript = await prisma.transcript.create({
+    data: {
+      userId,
+      secretToken: nanoid(16),
+      title: finalTitle,
+      source: detectedSource, // Auto-detected provider format
+      fileData,
+      messageCount: stored.metadata.messageCount,
+      // Size of the final data (may have been scrubbed)
+      fileSizeBytes: Buffer.byteLength(fileData, "utf8"),
+      // Store pre-calculated metadata (counts, model stats, etc.)
+      // Ensure JSON serialization to match Prisma's InputJsonValue type
+      metadata: JSON.parse(JSON.stringify(transcriptMetadata)),
+      createdAt, // Use same date for consistency
+      assets: { create: assets },
+    },
+    select: { id: true, secretToken: true },
+  });
+
+  return {
+    published: {
+      id: transcript.id as string,
+      secretToken: transcript.secretToken as string,
+      source: detectedSource,
+      diagnostics: transcriptMetadata.diagnostics ?? [],
+      redactionRules: redactionRuleMatches,
+    },
+  };
+}
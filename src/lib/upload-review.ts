@@ -0,0 +1,198 @@
+/**
+ * Upload review
+ * Two-phase uploads stage the transcript with its sensitive data findings;
+ * the uploader reviews them (redact, keep a false positive, add their own
+ * redactions) and the transcript is published with those decisions applied.
+ */
+
+import type { ParsedTranscript } from "@/types/transcript";
+import {
+  describeInfoType,
+  isScrubType,
+  type SensitiveDataFinding,
+  scrubContent,
+} from "./dlp";
+import type { RedactionRuleMatches } from "./redaction-rules";
+
+const CONTEXT_CHARS = 40;
+const MIN_REDACTION_LENGTH = 3;
+const MAX_REDACTION_LENGTH = 1000;
+const MAX_REDACTIONS = 100;
+
+export interface ReviewFinding {
+  id: string;
+  infoType: string;
+  label: string; // Human-readable info type
+  likelihood: string;
+  quote: string;
+  blocking: boolean; // Must be redacted; only scrub types can be kept
+  context: { before: string; after: string }; // Text around the quote
+  location: {
+    messageIndex: number; // Index in the parsed transcript's messages
+    uuid: string;
+    role?: "user" | "assistant";
+  } | null; // Null when the quote is outside the conversation, e.g. in metadata
+}
+
+/**
+ * What the staging step returns
+ */
+export interface StagedUploadReview {
+  stagedId: string;
+  source: string;
+  title: string | null;
+  expiresAt: string;
+  findings: ReviewFinding[];
+  redactionRules?: RedactionRuleMatches[]; // Matches of the uploader's rules, already replaced
+}
+
+export interface ReviewDecisions {
+  keep: string[]; // Ids of findings to publish as-is
+  redactions: string[]; // Extra text the uploader wants redacted
+}
+
+/**
+ * Quotes are taken from the raw upload, where text in JSON strings is still
+ * escaped; the parsed transcript has it decoded
+ */
+function decodeQuote(quote: string): string {
+  try {
+    return JSON.parse(`"${quote}"`);
+  } catch {
+    return quote;
+  }
+}
+
+function collectStrings(value: unknown, strings: string[]): string[] {
+  if (typeof value === "string") {
+    strings.push(value);
+  } else if (Array.isArray(value)) {
+    for (const item of value) collectStrings(item, strings);
+  } else if (value && typeof value === "object") {
+    for (const item of Object.values(value)) collectStrings(item, strings);
+  }
+  return strings;
+}
+
+function getContext(text: string, start: number, end: number) {
+  const squash = (part: string) => part.replace(/\s+/g, " ");
+  return {
+    before: squash(text.slice(Math.max(0, start - CONTEXT_CHARS), start)),
+    after: squash(text.slice(end, end + CONTEXT_CHARS)),
+  };
+}
+
+/**
+ * Describe findings for review: where in the transcript each one is and the
+ * text around it
+ */
+export function buildReviewFindings(
+  content: string,
+  transcript: ParsedTranscript | null,
+  findings: SensitiveDataFinding[],
+): ReviewFinding[] {
+  const messageStrings = (transcript?.messages ?? []).map((line) =>
+    collectStrings(line.message?.content, []),
+  );
+
+  return findings.map((finding, index) => {
+    const decoded = decodeQuote(finding.quote);
+    let context = { before: "", after: "" };
+    let location: ReviewFinding["location"] = null;
+
+    for (const [messageIndex, strings] of messageStrings.entries()) {
+      const text = strings.find((s) => s.includes(decoded));
+      if (text === undefined) continue;
+      const start = text.indexOf(decoded);
+      context = getContext(text, start, start + decoded.length);
+      const line = transcript?.messages[messageIndex];
+      location = {
+        messageIndex,
+        uuid: line?.uuid ?? "",
+        role: line?.message?.role,
+      };
+      break;
+    }
+
+    if (!location) {
+      const start = content.indexOf(finding.quote);
+      if (start !== -1) {
+        context = getContext(content, start, start + finding.quote.length);
+      }
+    }
+
+    return {
+      id: `f${index + 1}`,
+      infoType: finding.infoType,
+      label: describeInfoType(finding.infoType),
+      likelihood: finding.likelihood,
+      quote: decoded,
+      blocking: !isScrubType(finding.infoType),
+      context,
+      location,
+    };
+  });
+}
+
+/**
+ * Validate the decisions sent with a publish request
+ * @returns null when the body is malformed
+ */
+export function parseReviewDecisions(body: unknown): ReviewDecisions | null {
+  const { keep = [], redactions = [] } = (body ?? {}) as {
+    keep?: unknown;
+    redactions?: unknown;
+  };
+  const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every((item) => typeof item === "string");
+
+  if (!isStringArray(keep) || !isStringArray(redactions)) return null;
+  if (redactions.length > MAX_REDACTIONS) return null;
+
+  const trimmed = redactions.map((text) => text.trim());
+  if (
+    trimmed.some(
+      (text) =>
+        text.length < MIN_REDACTION_LENGTH ||
+        text.length > MAX_REDACTION_LENGTH,
+    )
+  ) {
+    return null;
+  }
+
+  return { keep, redactions: trimmed };
+}
+
+/**
+ * Apply the uploader's decisions to the staged content
+ * Every finding is redacted unless it was kept; blocking findings are always
+ * redacted. Own redactions are labelled CUSTOM.
+ */
+export function applyReviewDecisions(
+  content: string,
+  findings: ReviewFinding[],
+  decisions: ReviewDecisions,
+): string {
+  const keep = new Set(decisions.keep);
+  const quotes = [
+    ...findings
+      .filter((finding) => finding.blocking || !keep.has(finding.id))
+      .map((finding) => ({ infoType: finding.infoType, quote: finding.quote })),
+    ...decisions.redactions.map((quote) => ({ infoType: "CUSTOM", quote })),
+  ];
+
+  // Lines that are not JSON are matched as raw text, where the quote is escaped
+  const toRedact: SensitiveDataFinding[] = quotes.flatMap(
+    ({ infoType, quote }) =>
+      [...new Set([quote, JSON.stringify(quote).slice(1, -1)])].map(
+        (variant) => ({
+          infoType,
+          likelihood: "VERY_LIKELY",
+          quote: variant,
+          location: { byteRange: { start: 0, end: 0 } },
+        }),
+      ),
+  );
+
+  return toRedact.length > 0 ? scrubContent(content, toRedact) : content;
+}
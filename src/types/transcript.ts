@@ -43,6 +43,15 @@ export interface UserInstructionsContent {
   text: string;
 }
 
+export interface ImageContent {
+  type: "image";
+  mediaType?: string; // e.g. "image/png"
+  data?: string; // Base64 data of small images kept in the transcript
+  assetId?: string; // Large images stored outside the transcript (see lib/assets.ts)
+  url?: string; // Remote image
+  alt?: string; // File name or description, when known
+}
+
 export type ContentBlock =
   | ToolUse
   | ToolResult
@@ -50,7 +59,8 @@ export type ContentBlock =
   | ThinkingContent
   | CommandContent
   | BashContent
-  | UserInstructionsContent;
+  | UserInstructionsContent
+  | ImageContent;
 
 export interface Message {
   role: "user" | "assistant";
@@ -61,13 +71,55 @@ export interface Message {
 /**
  * System events like model changes, displayed as dividers in the UI
  */
-export interface SystemEvent {
-  eventType: "model_change";
-  data: {
-    newModel: string;
-    previousModel?: string;
-  };
-}
+export type SystemEvent =
+  | {
+      eventType: "model_change";
+      data: {
+        newModel: string;
+        previousModel?: string;
+      };
+    }
+  | {
+      // The model's context was summarized or truncated
+      eventType: "compaction";
+      data: {
+        summary?: string; // Summary that replaced the earlier conversation
+        trigger?: string; // "manual" (e.g. /compact) or "auto"
+        preTokens?: number; // Context size before compaction
+      };
+    }
+  | {
+      // Where a resumed session continues (multi-file uploads, CLI resumes)
+      eventType: "session_resumed";
+      data: {
+        sessionId?: string;
+        previousSessionId?: string;
+        fileName?: string;
+      };
+    }
+  | {
+      // Permission or approval mode switch (plan mode, auto-accept, ...)
+      eventType: "mode_change";
+      data: {
+        mode: string;
+        previousMode?: string;
+      };
+    }
+  | {
+      // The user stopped the assistant mid-turn
+      eventType: "interruption";
+      data: {
+        message?: string;
+      };
+    }
+  | {
+      // Informational notice from the CLI
+      eventType: "info";
+      data: {
+        message: string;
+        infoType?: string;
+      };
+    };
 
 export interface TranscriptLine {
   type: "user" | "assistant" | "file-history-snapshot" | "system_event";
@@ -79,10 +131,21 @@ export interface TranscriptLine {
   cwd?: string;
   gitBranch?: string;
   sessionId?: string;
+  isSidechain?: boolean; // Claude Code sub-agent (Task) line
+  agentId?: string; // Sub-agent that wrote a sidechain line
+  usage?: TokenUsage; // Tokens used by this assistant response
   // biome-ignore lint/suspicious/noExplicitAny: Tool result can be any JSON structure
   toolUseResult?: string | Record<string, any>;
 }
 
+/**
+ * Conversation of a sub-agent spawned by a Claude Code Task tool call
+ */
+export interface SubagentTranscript {
+  agentId?: string;
+  messages: TranscriptLine[];
+}
+
 /**
  * Model statistics - shows which AI models were used and how often
  */
@@ -92,6 +155,19 @@ export interface ModelStats {
   percentage: number;
 }
 
+/**
+ * Token usage of a single model response, as recorded by the tool
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+  thinkingTokens?: number;
+  toolTokens?: number; // Gemini only
+  contextTokens?: number; // Prompt size of the request, including cached tokens
+}
+
 /**
  * Token usage counts across the entire transcript
  * All optional fields are subsets/breakdowns of the main counts
@@ -110,6 +186,59 @@ export interface TokenCounts {
   toolTokens?: number; // Tool-specific tokens (Gemini only - subset of outputTokens)
 }
 
+/**
+ * Details of a headless agent run, taken from the Claude Agent SDK
+ * stream-json "system/init" and "result" events
+ */
+export interface AgentRunInfo {
+  model?: string; // Model reported by the init event
+  tools?: string[]; // Tools available to the agent
+  mcpServers?: Array<{ name: string; status?: string }>; // Connected MCP servers
+  totalCostUsd?: number; // Total run cost reported by the SDK
+  durationMs?: number; // Wall-clock run duration
+  numTurns?: number; // Number of agent turns
+  isError?: boolean; // Whether the run ended with an error result
+}
+
+/**
+ * Benchmark instance details from agent trajectories (SWE-agent, OpenHands)
+ */
+export interface BenchmarkInfo {
+  instanceId?: string; // Benchmark instance (e.g. "django__django-11099")
+  resolved?: boolean; // Whether the evaluation marked the instance resolved
+  exitStatus?: string; // How the agent run ended (e.g. "submitted")
+}
+
+/**
+ * Git state of the working directory when the session was recorded
+ */
+export interface GitContext {
+  repositoryUrl?: string; // Remote URL (e.g. "git@github.com:owner/repo.git")
+  branch?: string;
+  commit?: string; // Full commit hash
+}
+
+/**
+ * Problem found while parsing a transcript (malformed or ignored lines)
+ */
+export interface ParseDiagnostic {
+  severity: "warning" | "error";
+  message: string; // e.g. "unknown Codex record_type 'x'"
+  line?: number; // 1-based source line (first occurrence for aggregated entries)
+  recordType?: string; // Line or record type the diagnostic refers to
+  count?: number; // Number of lines folded into an aggregated entry
+}
+
+/**
+ * Estimated session cost from the pricing catalog (see lib/pricing.ts)
+ */
+export interface CostEstimate {
+  pricingVersion: string; // Catalog version the estimate was computed with
+  totalUsd: number;
+  models: Array<{ model: string; costUsd: number }>; // Most expensive first
+  unpricedModels?: string[]; // Models with usage but no catalog price
+}
+
 /**
  * Pre-calculated statistics stored in database metadata column
  * These are calculated once on upload to avoid recomputing on every view
@@ -121,6 +250,11 @@ export interface TranscriptMetadata {
   toolCallCount?: number; // Count of tool_use blocks across all assistant messages
   modelStats?: ModelStats[]; // Model usage statistics
   tokenCounts?: TokenCounts; // Token usage across entire transcript
+  costEstimate?: CostEstimate; // Estimated cost at list prices
+  agentRun?: AgentRunInfo; // Headless run details (Claude Agent SDK only)
+  benchmark?: BenchmarkInfo; // Benchmark instance details (trajectory providers)
+  git?: GitContext; // Repository, branch and commit the session ran against
+  diagnostics?: ParseDiagnostic[]; // Parse warnings and errors (shown to the owner)
   // Index signature for Prisma JSON compatibility
   [key: string]: unknown;
 }
@@ -129,6 +263,12 @@ export interface ParsedTranscript {
   messages: TranscriptLine[];
   sessionId: string;
   cwd?: string; // Project working directory for converting absolute paths to relative
+  agentRun?: AgentRunInfo; // Headless run details (Claude Agent SDK only)
+  benchmark?: BenchmarkInfo; // Benchmark instance details (trajectory providers)
+  git?: GitContext; // Repository, branch and commit the session ran against
+  tokenCounts?: TokenCounts; // Session totals recorded by the tool itself
+  diagnostics?: ParseDiagnostic[]; // Parse warnings and errors
+  subagents?: Record<string, SubagentTranscript>; // Sub-agent sidechains keyed by Task tool_use id
   metadata: {
     firstTimestamp: string;
     lastTimestamp: string;